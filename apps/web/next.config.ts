@@ -4,6 +4,12 @@ const nextConfig: NextConfig = {
   reactStrictMode: true,
   // Docker本番ビルド用のスタンドアロン出力
   output: "standalone",
+  // ネイティブモジュールを含むためバンドルせずに読み込む（エクスポートのPNG・PDF変換）
+  serverExternalPackages: ["@resvg/resvg-js"],
+  // スナップショットのないバージョンをサーバーで描画するためのMermaidのブラウザ用バンドル
+  outputFileTracingIncludes: {
+    "/api/export/[versionId]": ["./node_modules/mermaid/dist/mermaid.min.js"],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,254 @@
+import { POST } from "@/app/api/ai/interpret-stream/route";
+import { MOCK_FIXTURE_HEADER } from "@/server/ai/mock";
+import { parseAiResponse } from "@/server/ai/parsing";
+import type { TRPCContext } from "@/server/trpc/init";
+import { appRouter } from "@/server/trpc/routers";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { createTestDb } from "../helpers/testDb";
+
+/**
+ * モックプロバイダー（AI_PROVIDER=mock）で、手書きの解釈からバージョンの保存までを通しで確認する
+ * LLM・PostgreSQLサーバー・ネットワークは使わない
+ */
+
+/** SSEのイベント */
+type StreamEvent =
+  | { type: "reasoning"; text: string }
+  | { type: "text-delta"; text: string }
+  | { type: "error"; error: string };
+
+/** 四角形を1つ描いたストローク */
+const STROKES = [
+  {
+    id: "stroke-1",
+    points: [0, 0, 120, 0, 120, 60, 0, 60, 0, 0],
+    color: "#000000",
+    strokeWidth: 2,
+  },
+  {
+    id: "stroke-2",
+    points: [200, 0, 260, 40, 200, 80, 140, 40, 200, 0],
+    color: "#000000",
+    strokeWidth: 2,
+  },
+];
+
+/**
+ * ストリーミングAPIを呼び出し、SSEのイベントを読み取る
+ */
+async function interpretStream(
+  body: Record<string, unknown>,
+  fixture?: string,
+): Promise<{ events: StreamEvent[]; done: boolean }> {
+  const headers = new Headers({ "Content-Type": "application/json" });
+  if (fixture) headers.set(MOCK_FIXTURE_HEADER, fixture);
+
+  const response = await POST(
+    new Request("http://localhost/api/ai/interpret-stream", {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ strokes: STROKES, ...body }),
+    }),
+  );
+  expect(response.status).toBe(200);
+
+  const payloads = (await response.text())
+    .split("\n\n")
+    .filter((chunk) => chunk.startsWith("data: "))
+    .map((chunk) => chunk.slice("data: ".length));
+  return {
+    events: payloads
+      .filter((payload) => payload !== "[DONE]")
+      .map((payload) => JSON.parse(payload) as StreamEvent),
+    done: payloads.includes("[DONE]"),
+  };
+}
+
+/**
+ * text-delta を連結し、AIの応答からMermaidコードと理由を取り出す
+ */
+function collectResult(events: StreamEvent[]) {
+  const text = events
+    .map((event) => (event.type === "text-delta" ? event.text : ""))
+    .join("");
+  return parseAiResponse(text);
+}
+
+describe("モックプロバイダーでの手書き解釈", () => {
+  let db: TRPCContext["db"];
+  let closeDb: () => Promise<void>;
+
+  const createCaller = (fixture?: string) =>
+    appRouter.createCaller({
+      db,
+      headers: new Headers(fixture ? { [MOCK_FIXTURE_HEADER]: fixture } : {}),
+    });
+
+  beforeAll(async () => {
+    ({ db, close: closeDb } = await createTestDb());
+  }, 60_000);
+
+  afterAll(async () => {
+    await closeDb();
+  });
+
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "mock");
+    vi.stubEnv("AI_MOCK_FIXTURE", "");
+    // 既定のフィクスチャのディレクトリ（モジュールの場所が基準）を使う
+    vi.stubEnv("AI_MOCK_FIXTURES_DIR", undefined);
+    vi.stubEnv("AI_MOCK_CHUNK_DELAY_MS", "0");
+    // ローカル認識・文字の読み取りを使わず、必ずモックモデルの応答を返す
+    vi.stubEnv("AI_LOCAL_RECOGNITION", "false");
+    vi.stubEnv("AI_LABEL_OCR", "false");
+    vi.stubEnv("LANGFUSE_PUBLIC_KEY", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it("Stage 1（構造の抽出）→ Stage 2（詳細の追加）の結果をバージョンとして保存する", async () => {
+    const caller = createCaller();
+    const project = await caller.diagram.createProject({ name: "多段階処理" });
+
+    // Stage 1: 主要な構造
+    const stage1 = await interpretStream({
+      currentMermaidCode: "flowchart TD",
+      diagramType: "flowchart",
+      mode: "structure-extraction",
+      stage: 1,
+    });
+    expect(stage1.done).toBe(true);
+    expect(stage1.events[0]?.type).toBe("reasoning");
+    expect(
+      stage1.events
+        .map((event) => (event.type === "reasoning" ? event.text : ""))
+        .join(""),
+    ).toContain("Stage 1");
+    const stage1Result = collectResult(stage1.events);
+    expect(stage1Result.mermaidCode).toBe(
+      "flowchart TD\n    A[入力] --> B[処理]\n    B --> C[出力]",
+    );
+
+    // Stage 2: Stage 1の結果に詳細を追加
+    const stage2 = await interpretStream({
+      currentMermaidCode: stage1Result.mermaidCode,
+      diagramType: "flowchart",
+      mode: "detail-addition",
+      stage: 2,
+      baseMermaidCode: stage1Result.mermaidCode,
+      processedStrokeIndices: [0],
+    });
+    expect(stage2.done).toBe(true);
+    const stage2Result = collectResult(stage2.events);
+    expect(stage2Result.mermaidCode).toContain("D{検証OK?}");
+
+    // 最終結果を保存
+    const saved = await caller.diagram.saveDiagramWithStrokes({
+      projectId: project.id,
+      mermaidCode: stage2Result.mermaidCode!,
+      strokes: STROKES,
+      updateType: "handwriting",
+      reason: stage2Result.reason ?? undefined,
+    });
+    expect(saved.versionNumber).toBe(2);
+    expect(saved.validation.valid).toBe(true);
+
+    const history = await caller.diagram.getVersionHistory({
+      projectId: project.id,
+    });
+    expect(history.map((v) => [v.versionNumber, v.updateType])).toEqual([
+      [2, "handwriting"],
+      [1, "initial"],
+    ]);
+    expect(history[0]?.mermaidCode).toBe(stage2Result.mermaidCode);
+
+    const withStrokes = await caller.diagram.getProjectWithStrokes({
+      projectId: project.id,
+    });
+    expect(withStrokes.strokes).toHaveLength(STROKES.length);
+  });
+
+  it("構文エラーの結果はエラー修正で直してから保存する", async () => {
+    const caller = createCaller("invalid-syntax");
+    const project = await caller.diagram.createProject({ name: "エラー修正" });
+
+    const stream = await interpretStream(
+      { currentMermaidCode: "flowchart TD", diagramType: "flowchart" },
+      "invalid-syntax",
+    );
+    const brokenCode = collectResult(stream.events).mermaidCode!;
+
+    // 構文エラーのあるコードは保存を拒否される
+    const validation = await caller.diagram.validate({
+      mermaidCode: brokenCode,
+    });
+    expect(validation.valid).toBe(false);
+    await expect(
+      caller.diagram.saveDiagramWithStrokes({
+        projectId: project.id,
+        mermaidCode: brokenCode,
+        strokes: [],
+        updateType: "handwriting",
+      }),
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+
+    // エラー修正（リトライ1回目）
+    const fixed = await caller.ai.fixMermaidError({
+      brokenCode,
+      errorMessage: validation.errors[0]?.message ?? "",
+      retryCount: 0,
+    });
+    expect(fixed.wasFixed).toBe(true);
+    expect(fixed.retryCount).toBe(1);
+    expect(fixed.validation.valid).toBe(false);
+
+    const saved = await caller.diagram.saveDiagramWithStrokes({
+      projectId: project.id,
+      mermaidCode: fixed.updatedMermaidCode!,
+      strokes: [],
+      updateType: "handwriting",
+      reason: fixed.reasoning ?? undefined,
+    });
+    expect(saved.validation.valid).toBe(true);
+    expect(saved.mermaidCode).toContain("B{条件分岐}");
+  });
+
+  it("モデルのエラーはSSEのerrorイベントとして返す", async () => {
+    // エラーのログ出力は想定どおりのため表示しない
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const stream = await interpretStream(
+      { currentMermaidCode: "flowchart TD", diagramType: "flowchart" },
+      "error",
+    );
+
+    expect(stream.done).toBe(false);
+    expect(stream.events.at(-1)).toEqual({
+      type: "error",
+      error: "モックプロバイダー: エラーフィクスチャが指定されました",
+    });
+  });
+
+  it("図の種類に応じたフィクスチャを選ぶ", async () => {
+    const stream = await interpretStream({
+      currentMermaidCode: "sequenceDiagram",
+      diagramType: "sequence",
+    });
+
+    expect(collectResult(stream.events).mermaidCode).toMatch(
+      /^sequenceDiagram/,
+    );
+  });
+});
@@ -0,0 +1,33 @@
+import { createRequire } from "node:module";
+import type { Database } from "@/server/db";
+import * as schema from "@/server/db/schema";
+import { PGlite } from "@electric-sql/pglite";
+import { pg_trgm } from "@electric-sql/pglite/contrib/pg_trgm";
+import { drizzle } from "drizzle-orm/pglite";
+
+// drizzle-kit/api のESM版はNode.jsで読み込めないため、CommonJS版を使う
+const { generateDrizzleJson, generateMigration } = createRequire(
+  import.meta.url,
+)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+/**
+ * テスト用のデータベースを作成
+ * PostgreSQLサーバーを使わず、メモリ上のPGliteにスキーマ（schema.ts）を反映する
+ */
+export async function createTestDb(): Promise<{
+  db: Database;
+  close: () => Promise<void>;
+}> {
+  const client = new PGlite({ extensions: { pg_trgm } });
+  // 検索のインデックスに使う拡張（本番は docker/postgres/init で作成）
+  await client.exec("CREATE EXTENSION IF NOT EXISTS pg_trgm");
+  const statements = await generateMigration(
+    generateDrizzleJson({}),
+    generateDrizzleJson(schema),
+  );
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+
+  return { db: drizzle(client, { schema }), close: () => client.close() };
+}
@@ -0,0 +1,72 @@
+import {
+  getAllowedModelNames,
+  modelSelectionSchema,
+  resolveModelConfig,
+} from "@/server/ai/config";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+describe("modelSelectionSchema", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "openai");
+    vi.stubEnv("OPENAI_MODEL", "gpt-4o-mini");
+    vi.stubEnv("AI_ALLOWED_MODELS", "openai:gpt-4o, anthropic:claude-x");
+    vi.stubEnv("ANTHROPIC_API_KEY", "test-key");
+    vi.stubEnv("GOOGLE_GENERATIVE_AI_API_KEY", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("設定されたモデルと AI_ALLOWED_MODELS のモデルを許可する", () => {
+    expect(getAllowedModelNames("openai")).toEqual(["gpt-4o-mini", "gpt-4o"]);
+    expect(
+      modelSelectionSchema.safeParse({ modelName: "gpt-4o" }).success,
+    ).toBe(true);
+    expect(
+      modelSelectionSchema.safeParse({
+        provider: "anthropic",
+        modelName: "claude-x",
+      }).success,
+    ).toBe(true);
+  });
+
+  it("設定されていないモデル名を拒否する", () => {
+    expect(
+      modelSelectionSchema.safeParse({ modelName: "gpt-4-32k" }).success,
+    ).toBe(false);
+    // 他のプロバイダー向けに許可したモデル名は使えない
+    expect(
+      modelSelectionSchema.safeParse({
+        provider: "google",
+        modelName: "gpt-4o",
+      }).success,
+    ).toBe(false);
+  });
+
+  it("必須の環境変数が設定されていないプロバイダーを拒否する", () => {
+    expect(modelSelectionSchema.safeParse({ provider: "google" }).success).toBe(
+      false,
+    );
+    // 環境変数 AI_PROVIDER のプロバイダーはAPIキーが未設定でも指定できる（呼び出し時にエラーになる）
+    vi.stubEnv("OPENAI_API_KEY", "");
+    expect(modelSelectionSchema.safeParse({ provider: "openai" }).success).toBe(
+      true,
+    );
+  });
+
+  it("モックモードでない場合はmockを拒否する", () => {
+    expect(modelSelectionSchema.safeParse({ provider: "mock" }).success).toBe(
+      false,
+    );
+    vi.stubEnv("AI_PROVIDER", "mock");
+    expect(modelSelectionSchema.safeParse({ provider: "mock" }).success).toBe(
+      true,
+    );
+  });
+
+  it("モデル名を省略した場合は設定されたモデルを使う", () => {
+    const selection = modelSelectionSchema.parse({ provider: "openai" });
+    expect(resolveModelConfig(selection).modelName).toBe("gpt-4o-mini");
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  classifyStroke,
+  recognizeShapes,
+  recognizeStrokesLocally,
+} from "@/server/ai/recognizer";
+import { describe, expect, it } from "vitest";
+
+type Point = [number, number];
+
+/**
+ * 点の列からストロークを作成
+ */
+function toStroke(points: Point[], id = "stroke") {
+  return {
+    id,
+    points: points.flat(),
+    color: "#000000",
+    strokeWidth: 2,
+  };
+}
+
+/**
+ * 頂点を結ぶ折れ線を、一定間隔の点に分割（手書きのストロークに近づける）
+ */
+function polyline(vertices: Point[], step = 5): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i < vertices.length - 1; i++) {
+    const [x1, y1] = vertices[i]!;
+    const [x2, y2] = vertices[i + 1]!;
+    const count = Math.max(1, Math.ceil(Math.hypot(x2 - x1, y2 - y1) / step));
+    for (let j = 0; j < count; j++) {
+      points.push([x1 + ((x2 - x1) * j) / count, y1 + ((y2 - y1) * j) / count]);
+    }
+  }
+  const last = vertices[vertices.length - 1];
+  if (last) points.push(last);
+  return points;
+}
+
+function rectangle(x: number, y: number, width: number, height: number) {
+  return polyline([
+    [x, y],
+    [x + width, y],
+    [x + width, y + height],
+    [x, y + height],
+    [x, y],
+  ]);
+}
+
+function diamond(cx: number, cy: number, rx: number, ry: number) {
+  return polyline([
+    [cx, cy - ry],
+    [cx + rx, cy],
+    [cx, cy + ry],
+    [cx - rx, cy],
+    [cx, cy - ry],
+  ]);
+}
+
+function circle(cx: number, cy: number, r: number): Point[] {
+  return Array.from({ length: 37 }, (_, i) => {
+    const angle = (i / 36) * Math.PI * 2;
+    return [cx + r * Math.cos(angle), cy + r * Math.sin(angle)] as Point;
+  });
+}
+
+describe("classifyStroke", () => {
+  it("閉じた図形を四角形・円・ひし形に分類する", () => {
+    expect(classifyStroke(toStroke(rectangle(0, 0, 120, 60)), 0).kind).toBe(
+      "rectangle",
+    );
+    expect(classifyStroke(toStroke(circle(50, 50, 40)), 0).kind).toBe("circle");
+    expect(classifyStroke(toStroke(diamond(50, 50, 60, 40)), 0).kind).toBe(
+      "diamond",
+    );
+  });
+
+  it("まっすぐなストロークを線に分類する", () => {
+    const shape = classifyStroke(
+      toStroke(
+        polyline([
+          [0, 0],
+          [150, 0],
+        ]),
+      ),
+      0,
+    );
+
+    expect(shape).toMatchObject({
+      kind: "line",
+      from: { x: 0, y: 0 },
+      to: { x: 150, y: 0 },
+      direction: null,
+    });
+  });
+
+  it("ペンを離すときの小さなはねは線のまま扱う", () => {
+    const shape = classifyStroke(
+      toStroke(
+        polyline([
+          [0, 0],
+          [150, 0],
+          [153, 3],
+        ]),
+      ),
+      0,
+    );
+
+    expect(shape.kind).toBe("line");
+  });
+
+  it("両側に矢じりのある1筆書きの矢印を分類する", () => {
+    const shape = classifyStroke(
+      toStroke(
+        polyline([
+          [0, 0],
+          [0, 120],
+          [-12, 105],
+          [0, 120],
+          [12, 105],
+        ]),
+      ),
+      0,
+    );
+
+    expect(shape).toMatchObject({ kind: "arrow", direction: "down" });
+  });
+
+  it("片側だけの短い矢じりでも矢印に分類する", () => {
+    const shape = classifyStroke(
+      toStroke(
+        polyline([
+          [0, 0],
+          [150, 0],
+          [142, -6],
+        ]),
+      ),
+      0,
+    );
+
+    expect(shape).toMatchObject({
+      kind: "arrow",
+      from: { x: 0, y: 0 },
+      to: { x: 150, y: 0 },
+      direction: "right",
+    });
+  });
+
+  it("矢じりから描き始めた矢印の向きを判定する", () => {
+    const shape = classifyStroke(
+      toStroke(
+        polyline([
+          [34, -6],
+          [40, 0],
+          [0, 0],
+        ]),
+      ),
+      0,
+    );
+
+    expect(shape).toMatchObject({
+      kind: "arrow",
+      from: { x: 0, y: 0 },
+      to: { x: 40, y: 0 },
+      direction: "right",
+    });
+  });
+
+  it("小さすぎるストロークは分類しない", () => {
+    expect(
+      classifyStroke(
+        toStroke(
+          polyline([
+            [0, 0],
+            [10, 5],
+          ]),
+        ),
+        0,
+      ).kind,
+    ).toBe("unknown");
+  });
+});
+
+describe("recognizeShapes", () => {
+  it("線の端に別に描いた矢じりを結合して矢印にする", () => {
+    const shapes = recognizeShapes([
+      toStroke(
+        polyline([
+          [0, 0],
+          [0, 150],
+        ]),
+      ),
+      toStroke(
+        polyline([
+          [-10, 138],
+          [0, 150],
+          [10, 138],
+        ]),
+      ),
+    ]);
+
+    expect(shapes).toEqual([
+      {
+        kind: "arrow",
+        strokeIndices: [0, 1],
+        from: { x: 0, y: 0 },
+        to: { x: 0, y: 150 },
+        direction: "down",
+      },
+    ]);
+  });
+});
+
+describe("recognizeStrokesLocally", () => {
+  it("新しい図形をノード、矢印を接続として追加する", () => {
+    const result = recognizeStrokesLocally({
+      strokes: [
+        toStroke(rectangle(0, 0, 120, 60)),
+        toStroke(diamond(360, 30, 60, 40)),
+        toStroke(
+          polyline([
+            [130, 30],
+            [290, 30],
+            [282, 24],
+          ]),
+        ),
+      ],
+      currentMermaidCode: "flowchart TD\n  A[開始]",
+      diagramType: "flowchart",
+      nodePositions: [],
+    });
+
+    expect(result?.mermaidCode).toBe(
+      [
+        "flowchart TD",
+        "  A[開始]",
+        '  N1["新しいノード"]',
+        '  N2{"新しいノード"}',
+        "  N1 --> N2",
+      ].join("\n"),
+    );
+  });
+
+  it("線は向きのない接続として追加する", () => {
+    const result = recognizeStrokesLocally({
+      strokes: [
+        toStroke(
+          polyline([
+            [130, 30],
+            [290, 30],
+          ]),
+        ),
+      ],
+      currentMermaidCode: "flowchart TD\n  A[開始]\n  B[終了]",
+      diagramType: "flowchart",
+      nodePositions: [
+        {
+          id: "A",
+          label: "開始",
+          x: 0,
+          y: 0,
+          width: 120,
+          height: 60,
+          centerX: 60,
+          centerY: 30,
+        },
+        {
+          id: "B",
+          label: "終了",
+          x: 300,
+          y: 0,
+          width: 120,
+          height: 60,
+          centerX: 360,
+          centerY: 30,
+        },
+      ],
+    });
+
+    expect(result?.mermaidCode.split("\n").at(-1)).toBe("  A --- B");
+  });
+
+  it("解釈できないストロークがある場合はAIに任せる（null）", () => {
+    const result = recognizeStrokesLocally({
+      strokes: [
+        toStroke(rectangle(0, 0, 120, 60)),
+        toStroke(
+          polyline([
+            [200, 0],
+            [230, 40],
+            [200, 80],
+            [240, 120],
+          ]),
+        ),
+      ],
+      currentMermaidCode: "flowchart TD",
+      diagramType: "flowchart",
+    });
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,31 @@
+import {
+  MAX_RASTER_PIXELS,
+  isRasterSizeAllowed,
+  rasterizeSvg,
+} from "@/server/export/raster";
+import { describe, expect, it } from "vitest";
+
+describe("rasterizeSvg", () => {
+  it("指定倍率でラスタライズする", () => {
+    const image = rasterizeSvg(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="40" height="30"><rect width="40" height="30" fill="#000"/></svg>',
+      2,
+    );
+
+    expect([image.width, image.height]).toEqual([80, 60]);
+  });
+
+  it("画素数が上限を超える場合はラスタライズしない", () => {
+    const side = Math.sqrt(MAX_RASTER_PIXELS) + 2;
+
+    expect(isRasterSizeAllowed(side, side, 1)).toBe(false);
+    expect(isRasterSizeAllowed(side / 2, side / 2, 2)).toBe(false);
+    expect(isRasterSizeAllowed(side / 4, side / 4, 2)).toBe(true);
+    expect(() =>
+      rasterizeSvg(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${side}" height="${side}"/>`,
+        1,
+      ),
+    ).toThrow("画像が大きすぎる");
+  });
+});
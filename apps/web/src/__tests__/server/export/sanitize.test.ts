@@ -0,0 +1,39 @@
+import { sanitizeSvg } from "@/server/export/sanitize";
+import { describe, expect, it } from "vitest";
+
+describe("sanitizeSvg", () => {
+  it("スクリプト・イベントハンドラ・foreignObject・image要素を除く", async () => {
+    const svg = await sanitizeSvg(
+      [
+        '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 50">',
+        "<script>alert(1)</script>",
+        '<g onload="alert(2)"><rect x="0" y="0" width="10" height="10"/></g>',
+        '<foreignObject><div onclick="alert(3)">a</div></foreignObject>',
+        '<a href="javascript:alert(4)"><text>x</text></a>',
+        '<image href="file:///etc/passwd"/>',
+        "</svg>",
+      ].join(""),
+    );
+
+    expect(svg).not.toBeNull();
+    expect(svg).not.toMatch(/script|onload|onclick|javascript:/i);
+    expect(svg).not.toMatch(/foreignObject|<image/i);
+    expect(svg).toContain('viewBox="0 0 100 50"');
+    expect(svg).toContain('<rect x="0" y="0" width="10" height="10"/>');
+  });
+
+  it("XMLとして出力する（&nbsp; などのHTMLの文字参照を含めない）", async () => {
+    const svg = await sanitizeSvg(
+      '<svg xmlns="http://www.w3.org/2000/svg"><text>a b &amp; c</text></svg>',
+    );
+
+    expect(svg).toBe(
+      '<svg xmlns="http://www.w3.org/2000/svg"><text>a b &amp; c</text></svg>',
+    );
+  });
+
+  it("ルート要素がsvgでない場合はnull", async () => {
+    expect(await sanitizeSvg("<script>alert(1)</script>")).toBeNull();
+    expect(await sanitizeSvg("<p>text</p>")).toBeNull();
+  });
+});
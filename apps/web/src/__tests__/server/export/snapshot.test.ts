@@ -0,0 +1,73 @@
+import path from "node:path";
+import { rasterizeSvg } from "@/server/export/raster";
+import { composeExportSvg } from "@/server/export/svg";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+
+type SnapshotModule = typeof import("@/server/export/snapshot");
+
+let renderServerSnapshot: SnapshotModule["renderServerSnapshot"];
+
+beforeAll(async () => {
+  // Mermaidのバンドルはアプリのディレクトリ（next の実行ディレクトリ）から読み込む
+  vi.spyOn(process, "cwd").mockReturnValue(
+    path.resolve(import.meta.dirname, "../../../.."),
+  );
+  ({ renderServerSnapshot } = await import("@/server/export/snapshot"));
+});
+
+describe("renderServerSnapshot", () => {
+  it.each([
+    ["flowchart", "flowchart TD\n  A[開始] --> B{判定}\n  B -->|はい| C[完了]"],
+    ["sequence", "sequenceDiagram\n  A->>B: リクエスト\n  B-->>A: レスポンス"],
+    ["class", "classDiagram\n  Animal <|-- Dog"],
+    ["er", "erDiagram\n  USER ||--o{ ORDER : places"],
+    ["state", "stateDiagram-v2\n  [*] --> Idle\n  Idle --> [*]"],
+  ])(
+    "%s をブラウザなしで描画できる",
+    async (_type, code) => {
+      const snapshot = await renderServerSnapshot(code);
+
+      expect(snapshot.svg).toMatch(/^<svg\b/);
+      expect(snapshot.svg).not.toContain("NaN");
+      expect(snapshot.svg).not.toContain("foreignObject");
+      expect(snapshot.frame.width).toBeGreaterThan(0);
+      expect(snapshot.frame.height).toBeGreaterThan(0);
+      // Node.jsのグローバルにはDOMを定義しない
+      expect(globalThis).not.toHaveProperty("document");
+    },
+    60_000,
+  );
+
+  it("キャンバス（1000×600）の中央に配置した領域をframeにする", async () => {
+    const { svg, frame } = await renderServerSnapshot(
+      "flowchart LR\n  A --> B",
+    );
+    const [, , width = 0, height = 0] = (
+      svg.match(/viewBox="([^"]*)"/)?.[1] ?? ""
+    )
+      .split(/\s+/)
+      .map(Number);
+
+    expect(frame).toEqual({
+      x: (1000 - width) / 2,
+      y: (600 - height) / 2,
+      width,
+      height,
+    });
+  });
+
+  it("描画したスナップショットをPNGに変換できる", async () => {
+    const snapshot = await renderServerSnapshot("flowchart TD\n  A --> B");
+    const { svg, width, height } = composeExportSvg(snapshot, [], false);
+    const image = rasterizeSvg(svg, 1);
+
+    expect(image.width).toBe(width);
+    expect(image.height).toBe(height);
+  });
+
+  it("構文エラーのコードは描画に失敗する", async () => {
+    await expect(
+      renderServerSnapshot("flowchart TD\n  A -->"),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  diffLines,
+  diffParsedDiagrams,
+  hasDiagramChanges,
+} from "@/server/mermaid/diff";
+import { parseMermaid } from "@/server/mermaid/parser";
+import { describe, expect, it } from "vitest";
+
+describe("diffParsedDiagrams", () => {
+  it("ノード・エッジの追加、削除、ラベル変更を検出する", () => {
+    const before = parseMermaid(
+      "flowchart TD\n  A[開始] --> B[処理]\n  B --> C[終了]",
+    );
+    const after = parseMermaid(
+      "flowchart TD\n  A[スタート] --> B[処理]\n  B --> D[完了]",
+    );
+
+    const diff = diffParsedDiagrams(before, after);
+
+    expect(diff.nodes.added.map((n) => n.id)).toEqual(["D"]);
+    expect(diff.nodes.removed.map((n) => n.id)).toEqual(["C"]);
+    expect(
+      diff.nodes.relabeled.map(({ before, after }) => [
+        before.label,
+        after.label,
+      ]),
+    ).toEqual([["開始", "スタート"]]);
+    expect(diff.edges.added.map((e) => e.id)).toEqual(["B->D"]);
+    expect(diff.edges.removed.map((e) => e.id)).toEqual(["B->C"]);
+    expect(hasDiagramChanges(diff)).toBe(true);
+  });
+
+  it("空白・コメントだけの変更は差分にならない", () => {
+    const before = parseMermaid("flowchart TD\n  A --> B");
+    const after = parseMermaid("flowchart TD\n  %% メモ\n    A-->B");
+
+    expect(hasDiagramChanges(diffParsedDiagrams(before, after))).toBe(false);
+  });
+});
+
+describe("diffLines", () => {
+  it("共通の行を残して追加・削除された行を返す", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc")).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "x" },
+      { type: "same", text: "c" },
+    ]);
+  });
+
+  it("同じテキストはすべて共通の行になる", () => {
+    expect(diffLines("a\r\nb", "a\nb")).toEqual([
+      { type: "same", text: "a" },
+      { type: "same", text: "b" },
+    ]);
+  });
+});
@@ -0,0 +1,178 @@
+import {
+  detectDiagramType,
+  getSourceLines,
+  parseMermaid,
+  parseMermaidWithDiagnostics,
+} from "@/server/mermaid/parser";
+import { describe, expect, it } from "vitest";
+
+describe("detectDiagramType", () => {
+  it("ヘッダー行から図の種類を判定する", () => {
+    expect(detectDiagramType("flowchart TD\n  A --> B")).toBe("flowchart");
+    expect(detectDiagramType("graph LR\n  A --> B")).toBe("flowchart");
+    expect(detectDiagramType("sequenceDiagram\n  A->>B: hi")).toBe("sequence");
+    expect(detectDiagramType("classDiagram\n  class A")).toBe("classDiagram");
+    expect(detectDiagramType("stateDiagram-v2\n  [*] --> A")).toBe(
+      "stateDiagram",
+    );
+    expect(detectDiagramType("erDiagram\n  A ||--o{ B : has")).toBe(
+      "erDiagram",
+    );
+  });
+
+  it("コメント行・フロントマターを読み飛ばす", () => {
+    const code = "---\ntitle: test\n---\n%% コメント\nflowchart TD\n  A --> B";
+    expect(detectDiagramType(code)).toBe("flowchart");
+  });
+
+  it("判定できない場合はnullを返す", () => {
+    expect(detectDiagramType("")).toBeNull();
+    expect(detectDiagramType("hello world")).toBeNull();
+  });
+});
+
+describe("getSourceLines", () => {
+  it("コメント・空行を除き、元の行番号と列番号を保持する", () => {
+    const lines = getSourceLines("flowchart TD\n\n  %% memo\n    A --> B");
+    expect(lines).toEqual([
+      { text: "flowchart TD", line: 1, column: 1 },
+      { text: "A --> B", line: 4, column: 5 },
+    ]);
+  });
+});
+
+describe("parseMermaid（flowchart）", () => {
+  it("ノードの形状とラベルを解析する", () => {
+    const diagram = parseMermaid(
+      [
+        "flowchart LR",
+        "  A[開始] --> B{判定}",
+        "  B -->|はい| C((完了))",
+        "  B -- いいえ --> D([再試行])",
+        '  E["引用符 ] 付き"]',
+      ].join("\n"),
+    );
+
+    expect(diagram.diagramType).toBe("flowchart");
+    expect(diagram.direction).toBe("LR");
+    expect(
+      diagram.nodes.map(({ id, label, shape }) => ({ id, label, shape })),
+    ).toEqual([
+      { id: "A", label: "開始", shape: "rect" },
+      { id: "B", label: "判定", shape: "diamond" },
+      { id: "C", label: "完了", shape: "circle" },
+      { id: "D", label: "再試行", shape: "stadium" },
+      { id: "E", label: "引用符 ] 付き", shape: "rect" },
+    ]);
+    expect(
+      diagram.edges.map(({ source, target, label }) => ({
+        source,
+        target,
+        label,
+      })),
+    ).toEqual([
+      { source: "A", target: "B", label: null },
+      { source: "B", target: "C", label: "はい" },
+      { source: "B", target: "D", label: "いいえ" },
+    ]);
+  });
+
+  it("開き記号が同じ形状は、閉じ記号が先に現れるものを選ぶ", () => {
+    const diagram = parseMermaid(
+      "flowchart TD\n  A[/foo\\] --> B[/bar/]\n  C[\\baz/] --> D[\\qux\\]",
+    );
+
+    expect(
+      diagram.nodes.map(({ id, label, shape }) => ({ id, label, shape })),
+    ).toEqual([
+      { id: "A", label: "foo", shape: "trapezoid" },
+      { id: "B", label: "bar", shape: "parallelogram" },
+      { id: "C", label: "baz", shape: "trapezoid-alt" },
+      { id: "D", label: "qux", shape: "parallelogram-alt" },
+    ]);
+    expect(diagram.edges.map((e) => [e.source, e.target])).toEqual([
+      ["A", "B"],
+      ["C", "D"],
+    ]);
+  });
+
+  it("`&` で連結したノードと接続チェーンを展開する", () => {
+    const diagram = parseMermaid("flowchart TD\n  A & B --> C --> D");
+
+    expect(diagram.edges.map((e) => [e.source, e.target])).toEqual([
+      ["A", "C"],
+      ["B", "C"],
+      ["C", "D"],
+    ]);
+  });
+
+  it("サブグラフの所属を記録する", () => {
+    const diagram = parseMermaid(
+      [
+        "flowchart TD",
+        "  subgraph group1 [グループ]",
+        "    A --> B",
+        "  end",
+        "  B --> C",
+      ].join("\n"),
+    );
+
+    expect(diagram.subgraphs).toEqual([
+      { id: "group1", label: "グループ", parent: null, memberIds: ["A", "B"] },
+    ]);
+    expect(diagram.nodes.find((n) => n.id === "C")?.parent).toBeNull();
+  });
+});
+
+describe("parseMermaid（その他の図）", () => {
+  it("シーケンス図の参加者とメッセージを解析する", () => {
+    const diagram = parseMermaid(
+      [
+        "sequenceDiagram",
+        "  participant A as Alice",
+        "  actor B",
+        "  A->>B: こんにちは",
+      ].join("\n"),
+    );
+
+    expect(diagram.participants).toEqual([
+      { id: "A", label: "Alice", type: "participant" },
+      { id: "B", label: "B", type: "actor" },
+    ]);
+    expect(diagram.edges).toMatchObject([
+      { source: "A", target: "B", label: "こんにちは", arrow: "->>" },
+    ]);
+  });
+
+  it("ER図のエンティティと属性を解析する", () => {
+    const diagram = parseMermaid(
+      [
+        "erDiagram",
+        "  USER ||--o{ ORDER : places",
+        "  USER {",
+        "    string id PK",
+        "    string name",
+        "  }",
+      ].join("\n"),
+    );
+
+    expect(diagram.entities.find((e) => e.id === "USER")?.attributes).toEqual([
+      { type: "string", name: "id", keys: ["PK"], comment: null },
+      { type: "string", name: "name", keys: [], comment: null },
+    ]);
+    expect(diagram.edges).toMatchObject([
+      { source: "USER", target: "ORDER", label: "places" },
+    ]);
+  });
+});
+
+describe("parseMermaidWithDiagnostics", () => {
+  it("ラベルの異なる同じIDの再定義を報告する", () => {
+    const { redefinitions } = parseMermaidWithDiagnostics(
+      "flowchart TD\n  A[開始] --> B\n  A[終了]",
+    );
+
+    expect(redefinitions).toHaveLength(1);
+    expect(redefinitions[0]).toMatchObject({ id: "A", line: 3 });
+  });
+});
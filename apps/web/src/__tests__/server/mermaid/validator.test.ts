@@ -0,0 +1,143 @@
+import { readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { DIAGRAM_TEMPLATES } from "@/server/db/schema";
+import {
+  formatValidationIssue,
+  validateMermaid,
+} from "@/server/mermaid/validator";
+import { describe, expect, it } from "vitest";
+
+/** モックプロバイダーの応答フィクスチャ */
+const FIXTURES_DIR = path.resolve(
+  __dirname,
+  "../../../server/ai/mock-fixtures",
+);
+
+/** 構文エラーの修正の流れを確認するため、わざと誤ったコードを返すフィクスチャ */
+const INVALID_FIXTURES = ["invalid-syntax.txt"];
+
+/**
+ * フィクスチャに含まれるMermaidコード（候補が複数ある場合はすべて）
+ */
+function fixtureMermaidCodes(fileName: string): string[] {
+  const content = readFileSync(path.join(FIXTURES_DIR, fileName), "utf-8");
+  return [
+    ...content.matchAll(/---MERMAID_START---\n([\s\S]*?)\n---MERMAID_END---/g),
+  ].map((match) => match[1] ?? "");
+}
+
+describe("validateMermaid", () => {
+  it("正しいコードはエラーなしで図の種類を返す", async () => {
+    const result = await validateMermaid("flowchart TD\n  A[開始] --> B[終了]");
+
+    expect(result).toEqual({
+      valid: true,
+      diagramType: "flowchart",
+      errors: [],
+      warnings: [],
+    });
+  });
+
+  it("空のコードはエラーになる", async () => {
+    const result = await validateMermaid("  \n");
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.code)).toEqual(["empty-code"]);
+  });
+
+  it("図の種類がないコードはエラーになる", async () => {
+    const result = await validateMermaid("A --> B");
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.code)).toEqual(["unknown-diagram-type"]);
+  });
+
+  it("構文エラーの行番号を元のコードの行番号で返す", async () => {
+    const result = await validateMermaid(
+      "flowchart TD\n  %% コメント\n  A[開始] --> B[終了]\n  B --> --> C",
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatchObject({ code: "syntax-error", line: 4 });
+  });
+
+  it("文字位置で示される構文エラーを元のコードの行番号・列番号で返す", async () => {
+    const result = await validateMermaid(
+      "%% コメント\narchitecture-beta\n    service api(server)[API]\n    service db(database)[データベース]",
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatchObject({
+      code: "syntax-error",
+      line: 4,
+      column: 25,
+    });
+  });
+
+  it("重複したID・未定義のノード・ASCII以外のIDを警告する", async () => {
+    const result = await validateMermaid(
+      "flowchart TD\n  A[開始] --> B[処理]\n  B --> Cx\n  A[終了]\n  B --> 完了",
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map((w) => [w.code, w.line])).toEqual([
+      ["duplicate-id", 4],
+      ["dangling-edge", 3],
+      ["dangling-edge", 5],
+      ["non-ascii-id", 5],
+    ]);
+  });
+
+  it.each(Object.entries(DIAGRAM_TEMPLATES))(
+    "組み込みのテンプレート（%s）はエラー・警告にならない",
+    async (_, template) => {
+      const result = await validateMermaid(template);
+
+      expect(result.errors).toEqual([]);
+      expect(result.warnings).toEqual([]);
+    },
+  );
+
+  it.each(
+    readdirSync(FIXTURES_DIR).filter(
+      (fileName) =>
+        !INVALID_FIXTURES.includes(fileName) &&
+        fixtureMermaidCodes(fileName).length > 0,
+    ),
+  )("モックのフィクスチャ（%s）はエラーにならない", async (fileName) => {
+    for (const code of fixtureMermaidCodes(fileName)) {
+      const result = await validateMermaid(code);
+
+      expect(result.errors).toEqual([]);
+    }
+  });
+});
+
+describe("formatValidationIssue", () => {
+  it("位置情報をメッセージの前に付ける", () => {
+    expect(
+      formatValidationIssue({
+        code: "syntax-error",
+        message: "エラー",
+        line: 3,
+        column: 5,
+      }),
+    ).toBe("3行目5列: エラー");
+    expect(
+      formatValidationIssue({
+        code: "syntax-error",
+        message: "エラー",
+        line: 3,
+        column: null,
+      }),
+    ).toBe("3行目: エラー");
+    expect(
+      formatValidationIssue({
+        code: "empty-code",
+        message: "エラー",
+        line: null,
+        column: null,
+      }),
+    ).toBe("エラー");
+  });
+});
@@ -0,0 +1,83 @@
+import type { TRPCContext } from "@/server/trpc/init";
+import { appRouter } from "@/server/trpc/routers";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createTestDb } from "../../helpers/testDb";
+
+describe("diagram.listProjects の検索", () => {
+  let db: TRPCContext["db"];
+  let closeDb: () => Promise<void>;
+
+  const createCaller = () =>
+    appRouter.createCaller({ db, headers: new Headers() });
+
+  /**
+   * 検索に一致したプロジェクトの名前（名前順）
+   */
+  const searchNames = async (search: string) => {
+    const { items } = await createCaller().diagram.listProjects({
+      search,
+      sort: "name",
+    });
+    return items.map((project) => project.name);
+  };
+
+  beforeAll(async () => {
+    ({ db, close: closeDb } = await createTestDb());
+    const caller = createCaller();
+
+    await caller.diagram.createProject({
+      name: "経費精算フロー",
+      initialMermaidCode: "flowchart TD\n  A[申請] --> B{承認待ち}",
+    });
+    await caller.diagram.createProject({
+      name: "ログイン処理",
+      initialMermaidCode:
+        "sequenceDiagram\n  participant U as 利用者\n  U->>S: ログイン",
+    });
+
+    // 古いバージョンにだけ含まれるコードは検索しない（変更理由は全バージョンを検索する）
+    const renamed = await caller.diagram.createProject({
+      name: "在庫管理",
+      initialMermaidCode: "flowchart TD\n  A[旧システム] --> B[出荷]",
+    });
+    await caller.diagram.saveVersion({
+      projectId: renamed.id,
+      mermaidCode: "flowchart TD\n  A[新システム] --> B[出荷]",
+      updateType: "chat",
+      reason: "倉庫の移転に合わせて更新",
+    });
+
+    await caller.diagram.createProject({
+      name: "達成率100%の集計",
+      initialMermaidCode: "flowchart TD\n  A --> B",
+    });
+  }, 60_000);
+
+  afterAll(async () => {
+    await closeDb();
+  });
+
+  it("プロジェクト名で検索できる", async () => {
+    expect(await searchNames("精算")).toEqual(["経費精算フロー"]);
+  });
+
+  it("最新バージョンのラベルで検索できる（大文字・小文字を区別しない）", async () => {
+    expect(await searchNames("承認待ち")).toEqual(["経費精算フロー"]);
+    expect(await searchNames("利用者")).toEqual(["ログイン処理"]);
+    expect(await searchNames("SEQUENCEDIAGRAM")).toEqual(["ログイン処理"]);
+  });
+
+  it("コード・ラベルは最新バージョンだけを対象にする", async () => {
+    expect(await searchNames("新システム")).toEqual(["在庫管理"]);
+    expect(await searchNames("旧システム")).toEqual([]);
+  });
+
+  it("変更理由で検索できる", async () => {
+    expect(await searchNames("倉庫の移転")).toEqual(["在庫管理"]);
+  });
+
+  it("LIKEの特殊文字（%・_）は文字として検索する", async () => {
+    expect(await searchNames("100%")).toEqual(["達成率100%の集計"]);
+    expect(await searchNames("_")).toEqual([]);
+  });
+});
@@ -3,300 +3,64 @@ import {
   isStrokeDataTooLarge,
   simplifyStrokes,
 } from "@/lib/utils/strokeSimplification";
-import { DIAGRAM_TYPES, type DiagramType } from "@/server/db/schema";
-import { anthropic } from "@ai-sdk/anthropic";
-import { google } from "@ai-sdk/google";
-import { openai } from "@ai-sdk/openai";
+import {
+  type ModelSelection,
+  getMissingProviderEnvVar,
+  getModel,
+  getModelName,
+  getProviderOptions,
+  modelSelectionSchema,
+  resolveModelConfig,
+  supportsVision,
+} from "@/server/ai/config";
+import {
+  type EdgePosition,
+  type NodePositionKind,
+  detectEdgeStroke,
+  detectEnclosure,
+  detectXMark,
+} from "@/server/ai/detection";
+import { MOCK_FIXTURE_HEADER } from "@/server/ai/mock";
+import {
+  type CanvasTransform,
+  type LabelCandidate,
+  findLabelRegions,
+  formatLabelCandidates,
+  isLabelOcrEnabled,
+  recognizeLabels,
+} from "@/server/ai/ocr";
+import { MAX_CANDIDATE_COUNT, formatAiResponse } from "@/server/ai/parsing";
+import {
+  ENCLOSURE_GROUPING_RULES,
+  getCandidatesPrompt,
+  getDetailAdditionPrompt,
+  getStrokeInterpretationPrompt,
+  getStructureExtractionPrompt,
+} from "@/server/ai/prompts";
+import {
+  type LocalRecognitionResult,
+  isLocalRecognitionEnabled,
+  recognizeStrokesLocally,
+} from "@/server/ai/recognizer";
+import {
+  describeEdgePosition,
+  describeNodePosition,
+  formatEdgePositions,
+  formatNodePositions,
+  formatStrokeDescriptions,
+  formatStrokeTimeGroups,
+} from "@/server/ai/strokeUtils";
+import {
+  DIAGRAM_TYPES,
+  type DiagramType,
+  type StrokeData,
+  strokeSchema,
+} from "@/server/db/schema";
 import { streamText } from "ai";
+import { z } from "zod";
 
-/**
- * 現在のAIプロバイダーを取得
- */
-function getProvider() {
-  return process.env.AI_PROVIDER ?? "anthropic";
-}
-
-/**
- * 使用するAIモデル名を取得（ログ用）
- */
-function getModelName(): string {
-  const provider = getProvider();
-  if (provider === "openai") {
-    return "gpt-4o-mini";
-  }
-  if (provider === "google") {
-    return "gemini-2.0-flash";
-  }
-  return "claude-sonnet-4-20250514";
-}
-
-/**
- * 使用するAIモデルを選択
- */
-function getModel() {
-  const provider = getProvider();
-  if (provider === "openai") {
-    return openai("gpt-4o-mini");
-  }
-  if (provider === "google") {
-    return google("gemini-2.0-flash");
-  }
-  return anthropic("claude-sonnet-4-20250514");
-}
-
-/**
- * Claude用のextended thinking設定を取得
- */
-function getProviderOptions() {
-  const provider = getProvider();
-  if (provider === "anthropic") {
-    return {
-      anthropic: {
-        thinking: {
-          type: "enabled" as const,
-          budgetTokens: 10000,
-        },
-      },
-    };
-  }
-  return undefined;
-}
-
-/**
- * 図の種類ごとの構文ルール
- */
-const DIAGRAM_SYNTAX_RULES: Record<DiagramType, string> = {
-  flowchart: `## フローチャート (flowchart) の構文
-- \`flowchart TD\` (上から下) または \`flowchart LR\` (左から右) で始まる
-- ノードの定義: \`A[テキスト]\`, \`B{条件}\`, \`C((円形))\`, \`D([楕円])\`
-- 接続: \`A --> B\`, \`A -->|ラベル| B\`, \`A --- B\`
-- スタイル: \`style A fill:#f9f,stroke:#333\`
-- サブグラフ（グループ化）:
-  \`\`\`
-  subgraph タイトル
-    A[ノード1]
-    B[ノード2]
-    A --> B
-  end
-  \`\`\`
-  - 囲み線で複数のノードを囲んだ場合、それらをsubgraphとしてグループ化する
-  - subgraph内のノードと外部ノードの接続も維持する
-  - タイトルは囲み線内のノードの内容から推測するか、空白にする`,
-
-  sequence: `## シーケンス図 (sequenceDiagram) の構文
-- \`sequenceDiagram\` で始まる
-- 参加者: \`participant A as エイリアス\`
-- メッセージ: \`A->>B: メッセージ\` (同期), \`A-->>B: メッセージ\` (応答)
-- アクティベーション: \`activate A\` ... \`deactivate A\`
-- ノート: \`Note right of A: テキスト\`
-- ループ: \`loop 条件\` ... \`end\``,
-
-  classDiagram: `## クラス図 (classDiagram) の構文
-- \`classDiagram\` で始まる
-- クラス定義: \`class クラス名 { +メソッド() -プロパティ }\`
-- 継承: \`親クラス <|-- 子クラス\`
-- 実装: \`インターフェース <|.. 実装クラス\`
-- 集約: \`A o-- B\`, 合成: \`A *-- B\`
-- 関連: \`A --> B\` または \`A -- B\``,
-
-  stateDiagram: `## 状態遷移図 (stateDiagram-v2) の構文
-- \`stateDiagram-v2\` で始まる
-- 開始: \`[*] --> 状態名\`
-- 終了: \`状態名 --> [*]\`
-- 遷移: \`状態A --> 状態B : イベント\`
-- 複合状態: \`state 状態名 { ... }\`
-- フォーク/ジョイン: \`state fork_state <<fork>>\``,
-
-  erDiagram: `## ER図 (erDiagram) の構文
-- \`erDiagram\` で始まる
-- エンティティ: \`ENTITY_NAME { type attribute_name }\`
-- 属性タイプ: \`string\`, \`int\`, \`text\`, \`date\` など
-- キー: \`PK\` (主キー), \`FK\` (外部キー)
-- リレーション: \`||--o{\` (1対多), \`||--||\` (1対1), \`}o--o{\` (多対多)`,
-};
-
-/**
- * 図の種類ごとのストローク解釈ルール
- */
-const DIAGRAM_STROKE_RULES: Record<DiagramType, string> = {
-  flowchart: `## ストロークの解釈ルール（フローチャート）
-- 四角形に近い形 → ノード（処理ブロック）の追加
-- ひし形に近い形 → 条件分岐（decision）の追加
-- 円形に近い形 → 開始/終了ノードの追加
-- 線や矢印（既存ノード間を結ぶもの） → ノード間の接続を追加
-- **X印（バツ）がノード上に描かれた場合 → そのノードと関連する接続を削除**
-- **閉じた図形（囲み線）が複数のノードを囲んでいる場合 → それらのノードをsubgraphとしてグループ化**
-  - 囲み線は開始点と終了点が近い（50px以内）閉じたストローク
-  - 囲み線内に含まれるノードを特定し、subgraphブロック内に移動する
-  - 囲み線内のノードと外部ノードの接続は維持する
-  - subgraphのタイトルは囲み線内のノードの内容から推測する`,
-
-  sequence: `## ストロークの解釈ルール（シーケンス図）
-- 縦の直線 → 新しい参加者（participant）の追加
-- 横向きの矢印 → メッセージの追加
-- 点線の矢印 → 応答メッセージ
-- 四角の囲み → アクティベーション領域
-- **X印（バツ）が参加者上に描かれた場合 → その参加者を削除**`,
-
-  classDiagram: `## ストロークの解釈ルール（クラス図）
-- 四角形 → 新しいクラスの追加
-- 三角矢印 → 継承関係
-- 通常の矢印 → 関連
-- ひし形 → 集約/合成
-- **X印（バツ）がクラス上に描かれた場合 → そのクラスを削除**`,
-
-  stateDiagram: `## ストロークの解釈ルール（状態遷移図）
-- 円形/楕円 → 状態の追加
-- 塗りつぶした円 → 開始状態 [*]
-- 二重円 → 終了状態
-- 矢印 → 状態遷移
-- **X印（バツ）が状態上に描かれた場合 → その状態を削除**`,
-
-  erDiagram: `## ストロークの解釈ルール（ER図）
-- 四角形 → エンティティの追加
-- 線 → リレーションの追加
-- 線の端の形状で多重度を判断（1、多など）
-- **X印（バツ）がエンティティ上に描かれた場合 → そのエンティティを削除**`,
-};
-
-/**
- * 図の種類に応じたストローク解釈用プロンプトを生成
- */
-function getStrokeInterpretationPrompt(diagramType: DiagramType): string {
-  return `あなたは手書きストロークを解釈してMermaidダイアグラムを生成・編集するAIアシスタントです。
-
-## 現在編集中の図の種類: ${diagramType}
-
-## あなたの役割
-- **画像が提供された場合は、画像を優先的に分析する**（手書き文字の認識、図形の解釈）
-- ユーザーの手書きストローク（座標データ）を分析する
-- ストロークの形状や配置から、ユーザーの意図を推測する
-- 現在のMermaidコードを考慮して、適切な修正を行う
-
-## 重要：画像解析（マルチモーダル）
-画像が提供された場合：
-- **手書きの文字を読み取ってください**（ノードのラベルとして使用）
-- 手書きの図形を認識してください
-- 既存のダイアグラムと手書きの位置関係を分析してください
-- 紫色の線が手書きストロークです
-
-${DIAGRAM_SYNTAX_RULES[diagramType]}
-
-${DIAGRAM_STROKE_RULES[diagramType]}
-
-## ノード位置情報の活用
-座標データも併せて提供されます：
-- **ストロークの座標と既存要素の位置を比較**して、どの要素に対する操作かを判断
-- ストロークの始点・終点がどの要素に近いかで、関係を推測
-- ストロークが要素を囲んでいる場合は、その要素の修正や強調を意味する
-
-## X印（バツ）による削除の重要ルール
-ユーザーが要素の上に「X」の形（2本の斜め線が交差）を描いた場合：
-1. その要素をMermaidコードから削除する
-2. その要素への/からの接続も削除する
-3. 削除により孤立する要素があれば、適切に処理する
-4. 削除後もダイアグラムが有効な構造を維持するようにする
-
-## 座標データの解釈
-- points配列は [x1, y1, x2, y2, ...] の形式
-- ストロークの開始点と終了点の近さで閉じた図形かを判断
-- **ストロークの座標と既存要素の座標を比較して、操作対象を特定**
-
-## 出力形式
-以下の形式で出力してください：
-
----MERMAID_START---
-(修正後のMermaidコード)
----MERMAID_END---
-
----REASON_START---
-(何を検出して、どのような修正を行ったかの説明)
----REASON_END---
-
-## 注意事項
-- 必ず有効なMermaid ${diagramType} 構文を出力すること
-- 既存の要素を保持しつつ、新しい要素を追加すること
-- 不明確な場合は、最も可能性の高い解釈を選ぶこと
-- 図の種類に適した構文を使用すること`;
-}
-
-/**
- * Stage 1用: 構造抽出プロンプトを生成
- */
-function getStructureExtractionPrompt(diagramType: DiagramType): string {
-  return `あなたは手書きストロークからMermaidダイアグラムの**全体構造**を把握するAIアシスタントです。
-
-## 現在編集中の図の種類: ${diagramType}
-
-## あなたの役割（Stage 1: 構造抽出）
-- **主要な要素（ノード、接続）のみを抽出してください**
-- 詳細な装飾、細かい要素、不完全なストロークは無視してください
-- 全体の骨格構造、流れ、主要な関係性を優先してください
-- 不完全な情報でも構いません。全体像を把握することが重要です
-
-${DIAGRAM_SYNTAX_RULES[diagramType]}
-
-${DIAGRAM_STROKE_RULES[diagramType]}
-
-## 出力形式
-以下の形式で出力してください：
-
----MERMAID_START---
-(主要な構造のみのMermaidコード)
----MERMAID_END---
-
----REASON_START---
-(抽出した主要要素の説明: どのようなノードや接続を検出したか)
----REASON_END---
-
-## 注意事項
-- 詳細は後で追加されます。今は全体構造に集中してください
-- 不完全でも構いません。主要な要素を優先してください
-- 必ず有効なMermaid ${diagramType} 構文を出力すること`;
-}
-
-/**
- * Stage 2用: 詳細追加プロンプトを生成
- */
-function getDetailAdditionPrompt(
-  diagramType: DiagramType,
-  baseMermaidCode: string,
-): string {
-  return `あなたは既存のMermaidダイアグラムに**詳細を追加**するAIアシスタントです。
-
-## 現在編集中の図の種類: ${diagramType}
-
-## 既存のMermaidコード（主要構造）
-\`\`\`mermaid
-${baseMermaidCode}
-\`\`\`
-
-## あなたの役割（Stage 2: 詳細追加）
-- 既存の構造を**保持**しつつ、追加ストロークで詳細を追加してください
-- 新しいノード、接続、ラベル、スタイルなどを追加できます
-- 既存の要素を修正・削除することも可能です
-- 追加ストロークの意図を推測し、適切に統合してください
-
-${DIAGRAM_SYNTAX_RULES[diagramType]}
-
-${DIAGRAM_STROKE_RULES[diagramType]}
-
-## 出力形式
-以下の形式で出力してください：
-
----MERMAID_START---
-(詳細を追加した完全なMermaidコード)
----MERMAID_END---
-
----REASON_START---
-(追加した詳細の説明: 何を追加・修正したか)
----REASON_END---
-
-## 注意事項
-- 既存の構造を壊さないようにしてください
-- 追加ストロークの意図を最大限に反映してください
-- 必ず有効なMermaid ${diagramType} 構文を出力すること`;
-}
+/** 手書き文字の読み取りでresvg（ネイティブモジュール）を使うため Node.js ランタイムで実行する */
+export const runtime = "nodejs";
 
 /**
  * 処理モード
@@ -307,16 +71,14 @@ type ProcessingMode = "normal" | "structure-extraction" | "detail-addition";
  * リクエストボディの型定義
  */
 interface InterpretStreamRequest {
-  strokes: Array<{
-    id: string;
-    points: number[];
-    color: string;
-    strokeWidth: number;
-  }>;
+  strokes: StrokeData[]; // strokeSchema で検証する
   currentMermaidCode: string;
   nodePositions?: Array<{
     id: string;
     label: string;
+    kind?: NodePositionKind;
+    source?: string;
+    target?: string;
     x: number;
     y: number;
     width: number;
@@ -324,7 +86,9 @@ interface InterpretStreamRequest {
     centerX: number;
     centerY: number;
   }>;
+  edgePositions?: EdgePosition[];
   canvasImage?: string;
+  canvasTransform?: CanvasTransform; // キャンバス画像の座標変換（手書き文字の読み取りに使用）
   hint?: string;
   diagramType?: DiagramType;
   // 多段階処理用の拡張パラメータ
@@ -332,6 +96,44 @@ interface InterpretStreamRequest {
   stage?: 1 | 2;
   baseMermaidCode?: string; // Stage 2で使用
   processedStrokeIndices?: number[]; // Stage 1で処理済みのインデックス
+  model?: ModelSelection; // リクエストごとのモデル指定
+  candidateCount?: number; // 解釈の候補数（通常モードのみ、最大 MAX_CANDIDATE_COUNT）
+}
+
+/**
+ * ローカル認識の結果をAIの応答と同じSSE形式で返す
+ */
+function createLocalRecognitionResponse(
+  result: LocalRecognitionResult,
+): Response {
+  const encoder = new TextEncoder();
+  const events = [
+    { type: "reasoning", text: result.reason },
+    {
+      type: "text-delta",
+      text: formatAiResponse(result.mermaidCode, result.reason),
+    },
+  ];
+
+  const stream = new ReadableStream({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(event)}\n\n`),
+        );
+      }
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
 }
 
 /**
@@ -341,10 +143,11 @@ interface InterpretStreamRequest {
 export async function POST(request: Request) {
   const body: InterpretStreamRequest = await request.json();
   const {
-    strokes,
     currentMermaidCode,
     nodePositions,
+    edgePositions,
     canvasImage,
+    canvasTransform,
     hint,
     diagramType = "flowchart",
     mode = "normal",
@@ -353,6 +156,38 @@ export async function POST(request: Request) {
     processedStrokeIndices,
   } = body;
 
+  // モデル指定の検証
+  const modelSelection = modelSelectionSchema.safeParse(body.model ?? {});
+  if (!modelSelection.success) {
+    return new Response(JSON.stringify({ error: "モデルの指定が不正です。" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+  const model = modelSelection.data;
+
+  // ストロークデータの検証（tRPCの ai.interpretStrokes と同じスキーマ）
+  const strokeData = z.array(strokeSchema).safeParse(body.strokes);
+  if (!strokeData.success) {
+    return new Response(
+      JSON.stringify({ error: "ストロークデータが不正です。" }),
+      { status: 400, headers: { "Content-Type": "application/json" } },
+    );
+  }
+  const strokes = strokeData.data;
+
+  // 画像入力に対応していないモデルの場合は画像を送らない
+  const imageToSend = supportsVision(model) ? canvasImage : undefined;
+
+  // 解釈の候補数（多段階処理では1つに限る）
+  const candidateCount =
+    mode === "normal"
+      ? Math.min(
+          MAX_CANDIDATE_COUNT,
+          Math.max(1, Math.floor(Number(body.candidateCount) || 1)),
+        )
+      : 1;
+
   // ストロークがない場合は早期リターン
   if (strokes.length === 0) {
     return new Response(
@@ -400,6 +235,36 @@ export async function POST(request: Request) {
     }
   }
 
+  // 図形・線・矢印だけの単純な手書きはAIを使わずに解釈する
+  // （補足指示がある場合・複数の候補を求める場合や多段階処理ではAIに任せる）
+  if (
+    mode === "normal" &&
+    !hint &&
+    candidateCount === 1 &&
+    isLocalRecognitionEnabled()
+  ) {
+    const localResult = recognizeStrokesLocally({
+      strokes: processedStrokes,
+      currentMermaidCode,
+      diagramType,
+      nodePositions,
+    });
+    if (localResult) {
+      return createLocalRecognitionResponse(localResult);
+    }
+  }
+
+  // APIキー（OpenAI互換APIの場合は接続先URL）の存在チェック
+  const missingEnvVar = getMissingProviderEnvVar(model);
+  if (missingEnvVar) {
+    return new Response(
+      JSON.stringify({
+        error: `${missingEnvVar} が設定されていません。.env.local ファイルに設定してください。`,
+      }),
+      { status: 500, headers: { "Content-Type": "application/json" } },
+    );
+  }
+
   // Langfuseトレースを開始
   const langfuse = getLangfuse();
   const trace = langfuse?.trace({
@@ -408,310 +273,70 @@ export async function POST(request: Request) {
       diagramType,
       strokeCount: processedStrokes.length,
       originalStrokeCount: strokes.length,
-      hasImage: !!canvasImage,
+      hasImage: !!imageToSend,
+      imageSkipped: !!canvasImage && !imageToSend,
       hasHint: !!hint,
-      provider: getProvider(),
+      provider: resolveModelConfig(model).provider,
     },
   });
 
-  // ストロークのバウンディングボックスを計算
-  const getStrokeBounds = (points: number[]) => {
-    let minX = Number.POSITIVE_INFINITY;
-    let maxX = Number.NEGATIVE_INFINITY;
-    let minY = Number.POSITIVE_INFINITY;
-    let maxY = Number.NEGATIVE_INFINITY;
-    for (let i = 0; i < points.length; i += 2) {
-      const x = points[i];
-      const y = points[i + 1];
-      if (x !== undefined && y !== undefined) {
-        minX = Math.min(minX, x);
-        maxX = Math.max(maxX, x);
-        minY = Math.min(minY, y);
-        maxY = Math.max(maxY, y);
-      }
-    }
-    return {
-      minX,
-      maxX,
-      minY,
-      maxY,
-      centerX: (minX + maxX) / 2,
-      centerY: (minY + maxY) / 2,
-    };
-  };
-
-  // 2本のストロークがX印（バツ）を形成しているか判定
-  const detectXMark = (): {
-    isXMark: boolean;
-    centerX: number;
-    centerY: number;
-    targetNodeId: string | null;
-  } | null => {
-    if (processedStrokes.length < 2) return null;
-
-    // 最後の2本のストロークをチェック
-    const stroke1 = processedStrokes[processedStrokes.length - 2];
-    const stroke2 = processedStrokes[processedStrokes.length - 1];
-
-    if (!stroke1 || !stroke2) return null;
-
-    const p1 = stroke1.points;
-    const p2 = stroke2.points;
-
-    const bounds1 = getStrokeBounds(p1);
-    const bounds2 = getStrokeBounds(p2);
-
-    // 両ストロークが近い位置にあるか（中心が近い）
-    const centerDist = Math.sqrt(
-      (bounds1.centerX - bounds2.centerX) ** 2 +
-        (bounds1.centerY - bounds2.centerY) ** 2,
-    );
-
-    // 両ストロークのサイズが似ているか
-    const size1 = Math.max(
-      bounds1.maxX - bounds1.minX,
-      bounds1.maxY - bounds1.minY,
-    );
-    const size2 = Math.max(
-      bounds2.maxX - bounds2.minX,
-      bounds2.maxY - bounds2.minY,
-    );
-    const sizeDiff = Math.abs(size1 - size2) / Math.max(size1, size2);
-
-    // X印の条件: 中心が近く（80px以内）、サイズが似ている（差が50%以内）
-    if (centerDist < 80 && sizeDiff < 0.5) {
-      // 線が交差する形状かチェック（対角線的な動き）
-      const start1X = p1[0];
-      const start1Y = p1[1];
-      const end1X = p1[p1.length - 2];
-      const end1Y = p1[p1.length - 1];
-      const start2X = p2[0];
-      const start2Y = p2[1];
-      const end2X = p2[p2.length - 2];
-      const end2Y = p2[p2.length - 1];
-
-      if (
-        start1X === undefined ||
-        start1Y === undefined ||
-        end1X === undefined ||
-        end1Y === undefined ||
-        start2X === undefined ||
-        start2Y === undefined ||
-        end2X === undefined ||
-        end2Y === undefined
-      ) {
-        return null;
-      }
-
-      const start1 = { x: start1X, y: start1Y };
-      const end1 = { x: end1X, y: end1Y };
-      const start2 = { x: start2X, y: start2Y };
-      const end2 = { x: end2X, y: end2Y };
-
-      // 両方のストロークが斜め線か（開始点と終了点のX,Yが両方変化）
-      const isDiagonal1 =
-        Math.abs(end1.x - start1.x) > 20 && Math.abs(end1.y - start1.y) > 20;
-      const isDiagonal2 =
-        Math.abs(end2.x - start2.x) > 20 && Math.abs(end2.y - start2.y) > 20;
-
-      if (isDiagonal1 && isDiagonal2) {
-        // X印の中心座標
-        const xCenter = (bounds1.centerX + bounds2.centerX) / 2;
-        const yCenter = (bounds1.centerY + bounds2.centerY) / 2;
-
-        // どのノードの上にあるか判定
-        let targetNodeId: string | null = null;
-        if (nodePositions && nodePositions.length > 0) {
-          for (const node of nodePositions) {
-            // X印の中心がノードの範囲内にあるか
-            if (
-              xCenter >= node.x - 20 &&
-              xCenter <= node.x + node.width + 20 &&
-              yCenter >= node.y - 20 &&
-              yCenter <= node.y + node.height + 20
-            ) {
-              targetNodeId = node.id;
-              break;
-            }
-          }
-        }
-
-        return {
-          isXMark: true,
-          centerX: xCenter,
-          centerY: yCenter,
-          targetNodeId,
-        };
-      }
-    }
-
-    return null;
-  };
-
-  // 囲み線（閉じた図形）を検出し、内部のノードを特定
-  const detectEnclosure = (): {
-    isEnclosure: boolean;
-    strokeIndex: number;
-    bounds: {
-      minX: number;
-      maxX: number;
-      minY: number;
-      maxY: number;
-      centerX: number;
-      centerY: number;
-    };
-    enclosedNodeIds: string[];
-  } | null => {
-    // 各ストロークをチェック
-    for (let i = 0; i < processedStrokes.length; i++) {
-      const stroke = processedStrokes[i];
-      if (!stroke) continue;
-
-      const points = stroke.points;
-      if (points.length < 6) continue; // 最低3点必要
-
-      const startX = points[0];
-      const startY = points[1];
-      const endX = points[points.length - 2];
-      const endY = points[points.length - 1];
-
-      if (
-        startX === undefined ||
-        startY === undefined ||
-        endX === undefined ||
-        endY === undefined
-      ) {
-        continue;
-      }
-
-      // 閉じた図形かどうか（開始点と終了点が近い）
-      const distanceToClose = Math.sqrt(
-        (startX - endX) ** 2 + (startY - endY) ** 2,
-      );
-
-      // 閉じた図形の条件: 開始点と終了点が50px以内
-      if (distanceToClose < 50) {
-        const bounds = getStrokeBounds(points);
-        const width = bounds.maxX - bounds.minX;
-        const height = bounds.maxY - bounds.minY;
-
-        // 囲み線として有効な最小サイズ（100x100px以上）
-        if (width < 100 || height < 100) {
-          continue;
-        }
-
-        // 点が多角形内にあるか判定する関数（Ray Casting Algorithm）
-        const isPointInPolygon = (
-          px: number,
-          py: number,
-          polygonPoints: number[],
-        ): boolean => {
-          let inside = false;
-          for (let j = 0; j < polygonPoints.length - 2; j += 2) {
-            const x1 = polygonPoints[j];
-            const y1 = polygonPoints[j + 1];
-            const x2 = polygonPoints[j + 2];
-            const y2 = polygonPoints[j + 3];
-
-            if (
-              x1 === undefined ||
-              y1 === undefined ||
-              x2 === undefined ||
-              y2 === undefined
-            ) {
-              continue;
-            }
-
-            const intersect =
-              y1 > py !== y2 > py &&
-              px < ((x2 - x1) * (py - y1)) / (y2 - y1) + x1;
-            if (intersect) {
-              inside = !inside;
-            }
-          }
-          return inside;
-        };
-
-        // 囲み線内に含まれるノードを特定
-        const enclosedNodeIds: string[] = [];
-        if (nodePositions && nodePositions.length > 0) {
-          for (const node of nodePositions) {
-            // ノードの中心点が囲み線内にあるかチェック
-            if (isPointInPolygon(node.centerX, node.centerY, points)) {
-              enclosedNodeIds.push(node.id);
-            }
-          }
-        }
-
-        // 囲み線として有効（内部にノードが1つ以上ある）
-        if (enclosedNodeIds.length > 0) {
-          return {
-            isEnclosure: true,
-            strokeIndex: i,
-            bounds,
-            enclosedNodeIds,
-          };
-        }
-      }
-    }
-
-    return null;
-  };
+  // 図の種類がサポートされているか確認
+  const validDiagramType = DIAGRAM_TYPES.includes(diagramType)
+    ? diagramType
+    : "flowchart";
 
   // X印を検出
-  const xMarkDetection = detectXMark();
+  const xMarkDetection = detectXMark(processedStrokes, nodePositions);
 
   // 囲み線を検出
-  const enclosureDetection = detectEnclosure();
+  const enclosureDetection = detectEnclosure(processedStrokes, nodePositions);
+
+  // 既存のエッジへの書き込みを検出
+  const edgeStrokeDetection = detectEdgeStroke(
+    processedStrokes,
+    edgePositions,
+    nodePositions,
+  );
 
   // ストロークデータをテキストに変換
-  const strokeDescriptions = processedStrokes
-    .map((stroke, index) => {
-      const points = stroke.points;
-      const numPoints = points.length / 2;
-      const startX = points[0];
-      const startY = points[1];
-      const endX = points[points.length - 2];
-      const endY = points[points.length - 1];
-
-      if (
-        startX === undefined ||
-        startY === undefined ||
-        endX === undefined ||
-        endY === undefined
-      ) {
-        return `ストローク${index + 1}: 無効なデータ`;
-      }
+  const strokeDescriptions = formatStrokeDescriptions(processedStrokes);
+
+  // 図形の中や近くの手書き文字を領域ごとに読み取る（ラベルの候補）
+  // 画像を送れる場合のみ行い、読み取れなかった領域は画像全体からAIが読み取る
+  const labelRegions =
+    imageToSend && canvasTransform && isLabelOcrEnabled()
+      ? findLabelRegions(processedStrokes)
+      : [];
+  let labelCandidates: LabelCandidate[] = [];
+  if (imageToSend && canvasTransform && labelRegions.length > 0) {
+    const ocrSpan = trace?.span({
+      name: "label-ocr",
+      input: { regionCount: labelRegions.length },
+    });
+    labelCandidates = await recognizeLabels({
+      regions: labelRegions,
+      canvasImage: imageToSend,
+      transform: canvasTransform,
+      model,
+      mockContext: {
+        diagramType: validDiagramType,
+        fixture: request.headers.get(MOCK_FIXTURE_HEADER),
+      },
+    });
+    ocrSpan?.end({
+      output: labelCandidates.map(({ text, textStrokeIndices }) => ({
+        text,
+        textStrokeIndices,
+      })),
+    });
+  }
+
+  // 描画の間隔によるストロークのまとまり（グループ化のヒント）
+  const strokeTimeGroups = formatStrokeTimeGroups(processedStrokes);
 
-      const { minX, maxX, minY, maxY, centerX, centerY } =
-        getStrokeBounds(points);
-      const width = maxX - minX;
-      const height = maxY - minY;
-
-      const isClosed =
-        Math.sqrt((startX - endX) ** 2 + (startY - endY) ** 2) < 50;
-      const aspectRatio = width / (height || 1);
-
-      return `ストローク${index + 1}:
-  - 点数: ${numPoints}
-  - 範囲: (${Math.round(minX)}, ${Math.round(minY)}) ～ (${Math.round(maxX)}, ${Math.round(maxY)})
-  - 中心: (${Math.round(centerX)}, ${Math.round(centerY)})
-  - サイズ: ${Math.round(width)} x ${Math.round(height)}
-  - 閉じた形状: ${isClosed ? "はい" : "いいえ"}
-  - アスペクト比: ${aspectRatio.toFixed(2)}`;
-    })
-    .join("\n\n");
-
-  // ノード位置情報をテキストに変換
-  const nodePositionDescriptions =
-    nodePositions && nodePositions.length > 0
-      ? nodePositions
-          .map(
-            (node) =>
-              `- ノード「${node.label}」(ID: ${node.id}): 位置=(${node.x}, ${node.y}), サイズ=${node.width}x${node.height}, 中心=(${node.centerX}, ${node.centerY})`,
-          )
-          .join("\n")
-      : "（ノード位置情報なし）";
+  // ノード・エッジの位置情報をテキストに変換
+  const nodePositionDescriptions = formatNodePositions(nodePositions);
+  const edgePositionDescriptions = formatEdgePositions(edgePositions);
 
   // Stage 2の場合、baseMermaidCodeを使用
   const mermaidCodeToUse =
@@ -727,31 +352,55 @@ ${mermaidCodeToUse}
 ## 現在のダイアグラム上の各ノードの位置（ピクセル座標）:
 ${nodePositionDescriptions}
 
+## 現在のダイアグラム上の各接続の経路（ピクセル座標）:
+${edgePositionDescriptions}
+
 ## 手書きストロークデータ（${processedStrokes.length}個のストローク${strokes.length !== processedStrokes.length ? `、簡略化済み（元: ${strokes.length}個）` : ""}${stage === 2 && processedStrokeIndices ? `、Stage 1で処理済み: ${processedStrokeIndices.length}個` : ""}）:
 ${strokeDescriptions}
 
+${
+  strokeTimeGroups
+    ? `## ⏱️ 描画の時間的なまとまり
+間を空けずに続けて描かれたストロークのまとまりです。同じまとまりのストロークは1つの要素（文字・図形・矢印）を構成している可能性が高く、間隔の長い位置は別の要素の区切りである可能性が高いです。
+${strokeTimeGroups}
+`
+    : ""
+}
+${
+  labelCandidates.length > 0
+    ? `## 🔤 手書き文字の読み取り結果（ラベルの候補）
+図形の中や近くに書かれた文字を、領域ごとに切り出して読み取った結果です。ノード・接続のラベルにはこの文字を使ってください（画像全体から読み取った文字と異なる場合も、こちらを優先してください）。
+${formatLabelCandidates(labelCandidates, processedStrokes, nodePositions)}
+`
+    : ""
+}
 ${
   xMarkDetection
     ? `## ⚠️ X印（バツ）を検出しました！
 - X印の中心座標: (${Math.round(xMarkDetection.centerX)}, ${Math.round(xMarkDetection.centerY)})
-- 対象ノード: ${xMarkDetection.targetNodeId ? `「${xMarkDetection.targetNodeId}」を削除してください` : "特定できませんでした（位置から判断してください）"}
+- 対象: ${xMarkDetection.targetNode ? `${describeNodePosition(xMarkDetection.targetNode)}を削除してください` : edgeStrokeDetection?.isCrossing ? `${describeEdgePosition(edgeStrokeDetection.edge)}を削除してください` : "特定できませんでした（位置から判断してください）"}
 
-**重要**: X印が描かれたノードとその接続を削除してください。
+**重要**: X印が描かれた要素とその接続を削除してください。
+`
+    : ""
+}
+${
+  edgeStrokeDetection && !xMarkDetection?.targetNode
+    ? `## ↔️ 既存の接続への書き込みを検出しました！
+- 対象: ${describeEdgePosition(edgeStrokeDetection.edge)}
+- 接続上のストローク: ${edgeStrokeDetection.strokeIndices.map((index) => `ストローク${index + 1}`).join(", ")}
+- ${edgeStrokeDetection.isCrossing ? "ストロークが接続と交差しています。取り消し線・X印の場合はこの接続を削除し、それ以外は接続の変更（線の種類・向きなど）として解釈してください" : "ストロークが接続の近くに書かれています。文字の場合はこの接続のラベルとして設定してください"}
 `
     : ""
 }
 ${
   enclosureDetection
-    ? `## 🔲 囲み線（サブグラフ）を検出しました！
+    ? `## 🔲 囲み線（グループ化）を検出しました！
 - 囲み線の範囲: (${Math.round(enclosureDetection.bounds.minX)}, ${Math.round(enclosureDetection.bounds.minY)}) ～ (${Math.round(enclosureDetection.bounds.maxX)}, ${Math.round(enclosureDetection.bounds.maxY)})
 - 囲み線の中心: (${Math.round(enclosureDetection.bounds.centerX)}, ${Math.round(enclosureDetection.bounds.centerY)})
-- 囲み線内に含まれるノード: ${enclosureDetection.enclosedNodeIds.length > 0 ? enclosureDetection.enclosedNodeIds.map((id) => `「${id}」`).join(", ") : "なし"}
+- 囲み線内に含まれる要素: ${enclosureDetection.enclosedNodeIds.length > 0 ? enclosureDetection.enclosedNodeIds.map((id) => `「${id}」`).join(", ") : "なし"}
 
-**重要**: 囲み線内に含まれるノードをsubgraphとしてグループ化してください。
-- subgraph構文: \`subgraph タイトル\` ... \`end\`
-- 囲み線内のノードをsubgraphブロック内に移動してください
-- 囲み線のタイトルは、囲み線内のノードの内容から推測するか、空白にしてください
-- 既存の接続は維持してください（subgraph内のノードと外部ノードの接続も保持）
+${ENCLOSURE_GROUPING_RULES[validDiagramType]}
 `
     : ""
 }
@@ -772,6 +421,7 @@ ${
 - ストロークがノードの近くにある場合、そのノードとの関連を考慮してください
 - ノード間を結ぶような線は、接続（矢印）を意味する可能性が高いです
 - **X印（バツ）がノード上に描かれた場合は、そのノードを削除してください**
+- **接続（矢印）の上や近くに書かれたストロークは、その接続の削除・変更やラベルの指示です**
 - **閉じた図形（囲み線）がノードを囲んでいる場合は、そのノードをsubgraphとしてグループ化してください**`
 }
 
@@ -784,17 +434,17 @@ ${
   const messageContent: MessageContent[] = [];
 
   // 画像がある場合は先に追加
-  if (canvasImage) {
+  if (imageToSend) {
     messageContent.push({
       type: "image",
-      image: canvasImage,
+      image: imageToSend,
     });
   }
 
   // テキストメッセージを追加
   messageContent.push({
     type: "text",
-    text: canvasImage
+    text: imageToSend
       ? `上の画像は現在のダイアグラム（Mermaid図）に手書きストローク（紫色の線）を重ねたものです。
 
 手書きの内容を解釈して、ダイアグラムを更新してください。
@@ -806,39 +456,16 @@ ${userMessage}`
       : userMessage,
   });
 
-  // 図の種類がサポートされているか確認
-  const validDiagramType = DIAGRAM_TYPES.includes(diagramType)
-    ? diagramType
-    : "flowchart";
-
-  // APIキーの存在チェック
-  const provider = getProvider();
-  const apiKeyMissing =
-    (provider === "anthropic" && !process.env.ANTHROPIC_API_KEY) ||
-    (provider === "openai" && !process.env.OPENAI_API_KEY) ||
-    (provider === "google" && !process.env.GOOGLE_GENERATIVE_AI_API_KEY);
-
-  if (apiKeyMissing) {
-    const envVarName =
-      provider === "anthropic"
-        ? "ANTHROPIC_API_KEY"
-        : provider === "openai"
-          ? "OPENAI_API_KEY"
-          : "GOOGLE_GENERATIVE_AI_API_KEY";
-    return new Response(
-      JSON.stringify({
-        error: `${envVarName} が設定されていません。.env.local ファイルにAPIキーを設定してください。`,
-      }),
-      { status: 500, headers: { "Content-Type": "application/json" } },
-    );
-  }
-
   // モードに応じたプロンプトを選択
   let systemPrompt: string;
   if (mode === "structure-extraction") {
     systemPrompt = getStructureExtractionPrompt(validDiagramType);
   } else if (mode === "detail-addition" && baseMermaidCode) {
     systemPrompt = getDetailAdditionPrompt(validDiagramType, baseMermaidCode);
+  } else if (candidateCount > 1) {
+    systemPrompt = `${getStrokeInterpretationPrompt(validDiagramType)}
+
+${getCandidatesPrompt(candidateCount)}`;
   } else {
     systemPrompt = getStrokeInterpretationPrompt(validDiagramType);
   }
@@ -846,22 +473,27 @@ ${userMessage}`
   // Langfuse Generationスパンを作成
   const generation = trace?.generation({
     name: "stroke-interpretation",
-    model: getModelName(),
+    model: getModelName(model),
     input: {
       system: systemPrompt,
       messages: messageContent,
     },
     metadata: {
       diagramType: validDiagramType,
+      candidateCount,
     },
   });
 
   // ストリーミングでAI応答を生成
   const result = streamText({
-    model: getModel(),
+    model: getModel(model, {
+      diagramType: validDiagramType,
+      fixture: request.headers.get(MOCK_FIXTURE_HEADER),
+      purpose: candidateCount > 1 ? "candidates" : mode,
+    }),
     system: systemPrompt,
     messages: [{ role: "user", content: messageContent }],
-    providerOptions: getProviderOptions(),
+    providerOptions: getProviderOptions(model),
   });
 
   // カスタムSSEストリームを作成（思考過程を含む）
@@ -889,6 +521,11 @@ ${userMessage}`
               text: part.text,
             });
             controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+          } else if (part.type === "error") {
+            // プロバイダーのエラーはストリームのパートとして届くため、例外として扱う
+            throw part.error instanceof Error
+              ? part.error
+              : new Error(String(part.error));
           }
         }
 
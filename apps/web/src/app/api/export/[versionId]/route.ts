@@ -0,0 +1,178 @@
+import { db } from "@/server/db";
+import {
+  diagramVersions,
+  handwritingStrokes,
+  projects,
+} from "@/server/db/schema";
+import { createImagePdf } from "@/server/export/pdf";
+import { isRasterSizeAllowed, rasterizeSvg } from "@/server/export/raster";
+import { sanitizeSvg } from "@/server/export/sanitize";
+import { renderServerSnapshot } from "@/server/export/snapshot";
+import { type ExportStroke, composeExportSvg } from "@/server/export/svg";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+
+/** resvg（ネイティブモジュール）を使うため Node.js ランタイムで実行する */
+export const runtime = "nodejs";
+
+/**
+ * クエリパラメータのZodスキーマ
+ */
+const exportQuerySchema = z.object({
+  format: z.enum(["svg", "png", "pdf"]).default("svg"),
+  /** PNG・PDFの解像度の倍率 */
+  scale: z.coerce.number().int().min(1).max(4).default(2),
+  /** 手書きレイヤーを含めるか */
+  handwriting: z
+    .enum(["true", "false"])
+    .default("true")
+    .transform((value) => value === "true"),
+});
+
+/** PNGのピクセル（CSS px）からPDFのポイントへの換算係数 */
+const PX_TO_PT = 0.75;
+
+const CONTENT_TYPES = {
+  svg: "image/svg+xml; charset=utf-8",
+  png: "image/png",
+  pdf: "application/pdf",
+} as const;
+
+/**
+ * JSON形式のエラーレスポンスを生成
+ */
+function errorResponse(message: string, status: number): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * ダウンロード用のファイル名を指定するヘッダー値を生成（日本語のプロジェクト名に対応）
+ */
+function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, "_").replace(/"/g, "");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+/**
+ * 図のバージョンをSVG・PNG・PDFとしてダウンロード
+ * GET /api/export/[versionId]?format=png&scale=2&handwriting=false
+ *
+ * 図の描画にはクライアントで作成したSVGスナップショット（diagram.saveExportSnapshot）を使う
+ * スナップショットがないバージョン（AIの編集・ロールバック・インポートなどで作成）は
+ * サーバーで描画し、次回以降のエクスポートのために保存する
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ versionId: string }> },
+) {
+  const { versionId: rawVersionId } = await params;
+  const versionId = Number(rawVersionId);
+  if (!Number.isInteger(versionId) || versionId <= 0) {
+    return errorResponse("バージョンIDが不正です。", 400);
+  }
+
+  const query = exportQuerySchema.safeParse(
+    Object.fromEntries(new URL(request.url).searchParams),
+  );
+  if (!query.success) {
+    return errorResponse(
+      "エクスポートの指定が不正です（format: svg/png/pdf、scale: 1〜4、handwriting: true/false）。",
+      400,
+    );
+  }
+  const { format, scale, handwriting } = query.data;
+
+  const version = await db.query.diagramVersions.findFirst({
+    where: eq(diagramVersions.id, versionId),
+  });
+  const project = version
+    ? await db.query.projects.findFirst({
+        where: eq(projects.id, version.projectId),
+      })
+    : undefined;
+  if (!version || !project) {
+    return errorResponse("バージョンが見つかりません。", 404);
+  }
+
+  let snapshot = version.exportSnapshot;
+  if (!snapshot) {
+    try {
+      snapshot = await renderServerSnapshot(version.mermaidCode);
+    } catch (error) {
+      console.error("スナップショットの描画エラー:", error);
+      return errorResponse(
+        "このバージョンの図を描画できませんでした。Mermaidコードを確認してください。",
+        422,
+      );
+    }
+    await db
+      .update(diagramVersions)
+      .set({ exportSnapshot: snapshot })
+      .where(eq(diagramVersions.id, version.id));
+  }
+
+  const strokeRecord = handwriting
+    ? await db.query.handwritingStrokes.findFirst({
+        where: eq(handwritingStrokes.versionId, version.id),
+      })
+    : undefined;
+  const strokes =
+    (strokeRecord?.strokeData as ExportStroke[] | undefined) ?? [];
+
+  try {
+    // 以前に保存されたスナップショットもサニタイズしてから埋め込む
+    const diagramSvg = await sanitizeSvg(snapshot.svg);
+    if (!diagramSvg) {
+      throw new Error("SVGスナップショットの形式が不正です");
+    }
+    const { svg, width, height } = composeExportSvg(
+      { ...snapshot, svg: diagramSvg },
+      strokes,
+      handwriting,
+    );
+
+    if (format !== "svg" && !isRasterSizeAllowed(width, height, scale)) {
+      return errorResponse(
+        "図が大きすぎるため、この倍率ではエクスポートできません。scaleを小さくするか、SVGでエクスポートしてください。",
+        400,
+      );
+    }
+
+    let body: BodyInit;
+    if (format === "svg") {
+      body = svg;
+    } else {
+      const image = rasterizeSvg(svg, scale);
+      body =
+        format === "png"
+          ? new Uint8Array(image.png)
+          : new Uint8Array(
+              createImagePdf(
+                image.pixels,
+                image.width,
+                image.height,
+                width * PX_TO_PT,
+                height * PX_TO_PT,
+              ),
+            );
+    }
+
+    const filename = `${project.name.replace(/[\\/:*?"<>|]/g, "_")}-v${version.versionNumber}.${format}`;
+    return new Response(body, {
+      headers: {
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": contentDisposition(filename),
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("エクスポートエラー:", error);
+    return errorResponse(
+      error instanceof Error ? error.message : "エクスポートに失敗しました。",
+      500,
+    );
+  }
+}
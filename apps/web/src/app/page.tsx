@@ -1,5 +1,10 @@
 "use client";
 
+import ProjectOrganizeDialog from "@/components/ProjectOrganizeDialog";
+import TemplateGallery, {
+  type TemplateSelection,
+} from "@/components/TemplateGallery";
+import { useDebouncedValue } from "@/lib/hooks/useDebouncedValue";
 import { trpc } from "@/lib/trpc/client";
 import {
   DIAGRAM_TYPES,
@@ -7,7 +12,26 @@ import {
   type DiagramType,
 } from "@/server/db/schema";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useRef, useState } from "react";
+
+/** プロジェクト一覧の1ページの件数 */
+const PROJECT_PAGE_SIZE = 24;
+
+/** 検索キーワードの入力から検索するまでの時間（ミリ秒） */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/** プロジェクト一覧の並び順 */
+type ProjectSort = "updatedAt" | "createdAt" | "name";
+
+const PROJECT_SORT_LABELS: Record<ProjectSort, string> = {
+  updatedAt: "更新日（新しい順）",
+  createdAt: "作成日（新しい順）",
+  name: "名前順",
+};
+
+/** フォルダの絞り込みの選択肢（フォルダ名以外） */
+const FOLDER_FILTER_ALL = "__all__";
+const FOLDER_FILTER_NONE = "__none__";
 
 /**
  * トップページ - プロジェクト一覧
@@ -15,8 +39,10 @@ import { useState } from "react";
 export default function Home() {
   const router = useRouter();
   const [projectName, setProjectName] = useState("");
-  const [selectedDiagramType, setSelectedDiagramType] =
-    useState<DiagramType>("flowchart");
+  const [selectedTemplate, setSelectedTemplate] = useState<TemplateSelection>({
+    kind: "builtIn",
+    diagramType: "flowchart",
+  });
   const [archivingProjectId, setArchivingProjectId] = useState<string | null>(
     null,
   );
@@ -24,10 +50,58 @@ export default function Home() {
     null,
   );
   const [showArchived, setShowArchived] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  // プロジェクト一覧を取得
-  const { data: projects, refetch: refetchProjects } =
-    trpc.diagram.listProjects.useQuery();
+  // プロジェクト一覧の検索・絞り込み・並び順
+  const [searchText, setSearchText] = useState("");
+  const [folderFilter, setFolderFilter] = useState(FOLDER_FILTER_ALL);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [diagramTypeFilter, setDiagramTypeFilter] = useState<DiagramType | "">(
+    "",
+  );
+  const [sort, setSort] = useState<ProjectSort>("updatedAt");
+  const search = useDebouncedValue(searchText.trim(), SEARCH_DEBOUNCE_MS);
+  // フォルダ・タグを整理中のプロジェクト
+  const [organizingProjectId, setOrganizingProjectId] = useState<string | null>(
+    null,
+  );
+
+  // プロジェクト一覧を取得（ページ単位）
+  const {
+    data: projectPages,
+    refetch: refetchProjects,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = trpc.diagram.listProjects.useInfiniteQuery(
+    {
+      search: search || undefined,
+      folder:
+        folderFilter === FOLDER_FILTER_ALL
+          ? undefined
+          : folderFilter === FOLDER_FILTER_NONE
+            ? null
+            : folderFilter,
+      tags: tagFilter.length > 0 ? tagFilter : undefined,
+      diagramType: diagramTypeFilter || undefined,
+      sort,
+      limit: PROJECT_PAGE_SIZE,
+    },
+    { getNextPageParam: (lastPage) => lastPage.nextCursor },
+  );
+  const projects = projectPages?.pages.flatMap((page) => page.items);
+  const isFiltered =
+    !!search ||
+    folderFilter !== FOLDER_FILTER_ALL ||
+    tagFilter.length > 0 ||
+    !!diagramTypeFilter;
+
+  // 絞り込みの選択肢（フォルダ・タグ）を取得
+  const { data: projectFilters, refetch: refetchFilters } =
+    trpc.diagram.listProjectFilters.useQuery();
+  const organizingProject = projects?.find(
+    (project) => project.id === organizingProjectId,
+  );
 
   // アーカイブ済みプロジェクト一覧を取得
   const { data: archivedProjects, refetch: refetchArchived } =
@@ -37,18 +111,54 @@ export default function Home() {
   const createProject = trpc.diagram.createProject.useMutation({
     onSuccess: (project) => {
       setProjectName("");
-      setSelectedDiagramType("flowchart");
+      setSelectedTemplate({ kind: "builtIn", diagramType: "flowchart" });
       // 作成後すぐにプロジェクト詳細ページに遷移
       router.push(`/projects/${project.id}`);
     },
   });
 
+  // ファイルインポートのmutation
+  const importFiles = trpc.diagram.importFiles.useMutation({
+    onSuccess: () => {
+      refetchProjects();
+    },
+  });
+
+  /**
+   * タグの絞り込みを切り替え
+   */
+  const handleToggleTagFilter = (tag: string) => {
+    setTagFilter((prev) =>
+      prev.includes(tag) ? prev.filter((t) => t !== tag) : [...prev, tag],
+    );
+  };
+
+  /**
+   * フォルダ・タグの整理を保存した後の処理
+   */
+  const handleOrganizeSaved = () => {
+    setOrganizingProjectId(null);
+    refetchProjects();
+    refetchFilters();
+  };
+
+  /**
+   * 検索・絞り込みを解除
+   */
+  const handleClearFilters = () => {
+    setSearchText("");
+    setFolderFilter(FOLDER_FILTER_ALL);
+    setTagFilter([]);
+    setDiagramTypeFilter("");
+  };
+
   // プロジェクトアーカイブのmutation
   const archiveProject = trpc.diagram.archiveProject.useMutation({
     onSuccess: () => {
       setArchivingProjectId(null);
       refetchProjects();
       refetchArchived();
+      refetchFilters();
     },
     onError: () => {
       setArchivingProjectId(null);
@@ -61,6 +171,7 @@ export default function Home() {
       setRestoringProjectId(null);
       refetchProjects();
       refetchArchived();
+      refetchFilters();
     },
     onError: () => {
       setRestoringProjectId(null);
@@ -74,11 +185,32 @@ export default function Home() {
     if (projectName.trim()) {
       createProject.mutate({
         name: projectName,
-        diagramType: selectedDiagramType,
+        diagramType: selectedTemplate.diagramType,
+        ...(selectedTemplate.kind === "team" && {
+          templateId: selectedTemplate.templateId,
+        }),
       });
     }
   };
 
+  /**
+   * 選択したファイルを読み込んでインポート
+   */
+  const handleImportFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = e.target.files;
+    if (!fileList || fileList.length === 0) return;
+
+    const files = await Promise.all(
+      Array.from(fileList).map(async (file) => ({
+        name: file.name,
+        content: await file.text(),
+      })),
+    );
+    importFiles.mutate({ files });
+    // 同じファイルを再度選択できるようにリセット
+    e.target.value = "";
+  };
+
   /**
    * プロジェクト選択（URLで遷移）
    */
@@ -155,29 +287,6 @@ export default function Home() {
                   onKeyDown={(e) => e.key === "Enter" && handleCreate()}
                 />
               </div>
-              <div className="w-48">
-                <label
-                  htmlFor="diagramType"
-                  className="block text-sm font-medium text-gray-600 mb-1"
-                >
-                  図の種類
-                </label>
-                <select
-                  id="diagramType"
-                  value={selectedDiagramType}
-                  onChange={(e) =>
-                    setSelectedDiagramType(e.target.value as DiagramType)
-                  }
-                  className="w-full px-4 py-2.5 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-500/20 focus:border-violet-400 transition-all bg-white"
-                >
-                  {DIAGRAM_TYPES.map((type) => (
-                    <option key={type} value={type}>
-                      {DIAGRAM_TYPE_INFO[type].icon}{" "}
-                      {DIAGRAM_TYPE_INFO[type].label}
-                    </option>
-                  ))}
-                </select>
-              </div>
               <button
                 type="button"
                 onClick={handleCreate}
@@ -187,6 +296,101 @@ export default function Home() {
                 {createProject.isPending ? "作成中..." : "作成"}
               </button>
             </div>
+            {createProject.error && (
+              <p className="mt-3 text-sm text-red-600">
+                ❌ 作成に失敗しました: {createProject.error.message}
+              </p>
+            )}
+
+            {/* テンプレートのギャラリー */}
+            <div className="mt-4">
+              <p className="text-sm font-medium text-gray-600 mb-2">
+                テンプレート
+              </p>
+              <TemplateGallery
+                selection={selectedTemplate}
+                onSelect={setSelectedTemplate}
+              />
+            </div>
+
+            {/* ファイルからインポート */}
+            <div className="mt-4 pt-4 border-t border-gray-100 flex items-center gap-3">
+              <input
+                ref={importInputRef}
+                type="file"
+                multiple
+                accept=".mmd,.mermaid,.md,.markdown"
+                onChange={handleImportFiles}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => importInputRef.current?.click()}
+                disabled={importFiles.isPending}
+                className="px-4 py-2 text-sm text-violet-700 bg-violet-50 rounded-lg hover:bg-violet-100 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center gap-1.5"
+              >
+                <span>📥</span>
+                {importFiles.isPending
+                  ? "インポート中..."
+                  : "ファイルからインポート"}
+              </button>
+              <p className="text-xs text-gray-400">
+                .mmd / .mermaid ファイル、または ```mermaid
+                を含むMarkdownから、図ごとにプロジェクトを作成します
+              </p>
+            </div>
+
+            {/* インポート結果 */}
+            {importFiles.error && (
+              <p className="mt-3 text-sm text-red-600">
+                ❌ インポートに失敗しました: {importFiles.error.message}
+              </p>
+            )}
+            {importFiles.data && (
+              <div className="mt-3 space-y-2 text-sm">
+                {importFiles.data.created.length > 0 && (
+                  <div>
+                    <p className="text-emerald-700 font-medium mb-1">
+                      ✅ {importFiles.data.created.length}
+                      件のプロジェクトを作成しました
+                    </p>
+                    <ul className="space-y-0.5">
+                      {importFiles.data.created.map((item) => (
+                        <li key={item.projectId}>
+                          <button
+                            type="button"
+                            onClick={() => handleSelectProject(item.projectId)}
+                            className="text-violet-600 hover:underline"
+                          >
+                            {DIAGRAM_TYPE_INFO[item.diagramType].icon}{" "}
+                            {item.name}
+                          </button>
+                          <span className="text-xs text-gray-400 ml-2">
+                            {item.filename}:{item.line}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {importFiles.data.skipped.length > 0 && (
+                  <div>
+                    <p className="text-amber-700 font-medium mb-1">
+                      ⚠️ {importFiles.data.skipped.length}件をスキップしました
+                    </p>
+                    <ul className="space-y-0.5 text-xs text-gray-500">
+                      {importFiles.data.skipped.map((item) => (
+                        <li key={`${item.filename}-${item.line}`}>
+                          {item.filename}
+                          {item.line !== null && `:${item.line}`} -{" "}
+                          {item.reason}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </section>
 
@@ -196,14 +400,109 @@ export default function Home() {
             プロジェクト一覧
           </h2>
 
-          {projects?.length === 0 ? (
-            <div className="text-center py-16 bg-white rounded-xl border border-gray-200">
-              <span className="text-5xl mb-4 block opacity-50">📭</span>
-              <p className="text-gray-500 mb-2">プロジェクトがまだありません</p>
-              <p className="text-sm text-gray-400">
-                上のフォームから新規プロジェクトを作成してください
-              </p>
+          {/* 検索・絞り込み・並び順 */}
+          <div className="bg-white rounded-xl border border-gray-200 p-4 mb-4 space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="search"
+                value={searchText}
+                onChange={(e) => setSearchText(e.target.value)}
+                placeholder="🔍 名前・コード・ラベル・変更理由で検索"
+                aria-label="プロジェクトを検索"
+                className="flex-1 min-w-60 px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-500/20 focus:border-violet-400 transition-all"
+              />
+              <select
+                value={folderFilter}
+                onChange={(e) => setFolderFilter(e.target.value)}
+                aria-label="フォルダで絞り込み"
+                className="px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-violet-500/20"
+              >
+                <option value={FOLDER_FILTER_ALL}>📁 すべてのフォルダ</option>
+                <option value={FOLDER_FILTER_NONE}>📁 未分類</option>
+                {projectFilters?.folders.map((folder) => (
+                  <option key={folder} value={folder}>
+                    📁 {folder}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={diagramTypeFilter}
+                onChange={(e) =>
+                  setDiagramTypeFilter(e.target.value as DiagramType | "")
+                }
+                aria-label="図の種類で絞り込み"
+                className="px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-violet-500/20"
+              >
+                <option value="">すべての図の種類</option>
+                {DIAGRAM_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {DIAGRAM_TYPE_INFO[type].icon}{" "}
+                    {DIAGRAM_TYPE_INFO[type].label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as ProjectSort)}
+                aria-label="並び順"
+                className="px-3 py-2 text-sm border border-gray-200 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-violet-500/20"
+              >
+                {(Object.keys(PROJECT_SORT_LABELS) as ProjectSort[]).map(
+                  (value) => (
+                    <option key={value} value={value}>
+                      {PROJECT_SORT_LABELS[value]}
+                    </option>
+                  ),
+                )}
+              </select>
             </div>
+            {(projectFilters?.tags.length ?? 0) > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5 text-xs">
+                <span className="text-gray-400">タグ:</span>
+                {projectFilters?.tags.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => handleToggleTagFilter(tag)}
+                    className={`px-2 py-0.5 rounded transition-colors ${
+                      tagFilter.includes(tag)
+                        ? "bg-fuchsia-100 text-fuchsia-700"
+                        : "text-gray-500 hover:bg-gray-100"
+                    }`}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {projects?.length === 0 ? (
+            isFiltered ? (
+              <div className="text-center py-16 bg-white rounded-xl border border-gray-200">
+                <span className="text-5xl mb-4 block opacity-50">🔍</span>
+                <p className="text-gray-500 mb-2">
+                  条件に一致するプロジェクトがありません
+                </p>
+                <button
+                  type="button"
+                  onClick={handleClearFilters}
+                  className="text-sm text-violet-600 hover:underline"
+                >
+                  検索・絞り込みを解除
+                </button>
+              </div>
+            ) : (
+              <div className="text-center py-16 bg-white rounded-xl border border-gray-200">
+                <span className="text-5xl mb-4 block opacity-50">📭</span>
+                <p className="text-gray-500 mb-2">
+                  プロジェクトがまだありません
+                </p>
+                <p className="text-sm text-gray-400">
+                  上のフォームから新規プロジェクトを作成してください
+                </p>
+              </div>
+            )
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {projects?.map((project) => {
@@ -231,35 +530,48 @@ export default function Home() {
                       <span className="text-2xl" title={typeInfo.label}>
                         {typeInfo.icon}
                       </span>
-                      <button
-                        type="button"
-                        onClick={(e) =>
-                          handleArchiveProject(e, project.id, project.name)
-                        }
-                        disabled={isArchiving}
-                        className="p-1.5 text-gray-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-all"
-                        title="アーカイブ"
-                      >
-                        {isArchiving ? (
-                          <span className="w-4 h-4 block border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
-                        ) : (
-                          <svg
-                            xmlns="http://www.w3.org/2000/svg"
-                            className="w-4 h-4"
-                            fill="none"
-                            viewBox="0 0 24 24"
-                            stroke="currentColor"
-                            strokeWidth={2}
-                            aria-hidden="true"
-                          >
-                            <path
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4"
-                            />
-                          </svg>
-                        )}
-                      </button>
+                      <div className="flex items-center gap-1">
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setOrganizingProjectId(project.id);
+                          }}
+                          className="p-1.5 text-gray-400 hover:text-violet-600 hover:bg-violet-50 rounded-lg transition-all text-sm leading-4"
+                          title="フォルダ・タグを整理"
+                        >
+                          🏷️
+                        </button>
+                        <button
+                          type="button"
+                          onClick={(e) =>
+                            handleArchiveProject(e, project.id, project.name)
+                          }
+                          disabled={isArchiving}
+                          className="p-1.5 text-gray-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg transition-all"
+                          title="アーカイブ"
+                        >
+                          {isArchiving ? (
+                            <span className="w-4 h-4 block border-2 border-gray-400 border-t-transparent rounded-full animate-spin" />
+                          ) : (
+                            <svg
+                              xmlns="http://www.w3.org/2000/svg"
+                              className="w-4 h-4"
+                              fill="none"
+                              viewBox="0 0 24 24"
+                              stroke="currentColor"
+                              strokeWidth={2}
+                              aria-hidden="true"
+                            >
+                              <path
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4"
+                              />
+                            </svg>
+                          )}
+                        </button>
+                      </div>
                     </div>
                     <h3 className="font-semibold text-gray-800 mb-1 truncate">
                       {project.name}
@@ -274,12 +586,49 @@ export default function Home() {
                           "ja-JP",
                         )}
                       </span>
+                      {project.folder && (
+                        <>
+                          <span>·</span>
+                          <span className="truncate">📁 {project.folder}</span>
+                        </>
+                      )}
                     </div>
+                    {project.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {project.tags.map((tag) => (
+                          <button
+                            key={tag}
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleToggleTagFilter(tag);
+                            }}
+                            className="text-xs text-fuchsia-700 bg-fuchsia-50 px-1.5 py-0.5 rounded hover:bg-fuchsia-100"
+                          >
+                            #{tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 );
               })}
             </div>
           )}
+
+          {/* 次のページ */}
+          {hasNextPage && (
+            <div className="mt-4 text-center">
+              <button
+                type="button"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="px-4 py-2 text-sm text-violet-700 bg-violet-50 rounded-lg hover:bg-violet-100 disabled:opacity-50 transition-all"
+              >
+                {isFetchingNextPage ? "読み込み中..." : "さらに表示"}
+              </button>
+            </div>
+          )}
         </section>
 
         {/* アーカイブ済みプロジェクト */}
@@ -384,6 +733,16 @@ export default function Home() {
           </section>
         )}
 
+        {/* フォルダ・タグの整理（モーダル） */}
+        {organizingProject && (
+          <ProjectOrganizeDialog
+            project={organizingProject}
+            folders={projectFilters?.folders ?? []}
+            onSaved={handleOrganizeSaved}
+            onClose={() => setOrganizingProjectId(null)}
+          />
+        )}
+
         {/* フッター */}
         <footer className="mt-16 text-center text-xs text-gray-400">
           <div className="flex justify-center gap-8 mb-4">
@@ -1,16 +1,29 @@
 "use client";
 
+import AIResultReviewPanel from "@/components/AIResultReviewPanel";
 import AIThinkingPanel from "@/components/AIThinkingPanel";
+import ChatPanel from "@/components/ChatPanel";
 import type { ConvertWithAIData } from "@/components/DiagramCanvas";
+import DiagramTypeConvertPanel from "@/components/DiagramTypeConvertPanel";
 import DynamicDiagramCanvas from "@/components/DynamicDiagramCanvas";
+import ExportMenu from "@/components/ExportMenu";
 import type { Stroke } from "@/components/HandwritingCanvas";
 import MermaidCodePanel from "@/components/MermaidCodePanel";
+import type { DiagramHighlights } from "@/components/MermaidPreview";
 import VersionHistoryPanel from "@/components/VersionHistoryPanel";
+import {
+  type EditHistoryControls,
+  type EditKind,
+  type EditSnapshot,
+  useEditHistory,
+} from "@/lib/hooks/useEditHistory";
 import { useMultiStageAIStream } from "@/lib/hooks/useMultiStageAIStream";
 import { trpc } from "@/lib/trpc/client";
+import { renderExportSnapshot } from "@/lib/utils/exportSnapshot";
+import type { AiCandidate } from "@/server/ai/parsing";
 import { DIAGRAM_TYPE_INFO, type DiagramType } from "@/server/db/schema";
 import { useParams, useRouter } from "next/navigation";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 
 /**
  * プロジェクト詳細ページ
@@ -28,6 +41,23 @@ export default function ProjectDetailPage() {
   const [canvasKey, setCanvasKey] = useState(0);
   // AI変換結果のフィードバック
   const [lastAiResult, setLastAiResult] = useState<string | null>(null);
+  // 保存時の検証の警告（保存後のデータ取得で消えないよう、AI変換結果とは別に保持）
+  const [saveWarnings, setSaveWarnings] = useState<string | null>(null);
+  // 実行中のAI変換のリクエスト（再試行・却下時の復元に使う）
+  const aiRequestRef = useRef<ConvertWithAIData | null>(null);
+  // AIで変換するときに出力させる解釈の候補数
+  const [candidateCount, setCandidateCount] = useState(1);
+  // AIが出力した解釈の候補（2つ以上の場合に選んでからレビューする）
+  const [aiCandidates, setAiCandidates] = useState<{
+    request: ConvertWithAIData;
+    candidates: AiCandidate[];
+  } | null>(null);
+  // レビュー待ちのAI変換結果（採用するまで保存しない）
+  const [pendingAiResult, setPendingAiResult] = useState<{
+    request: ConvertWithAIData;
+    mermaidCode: string;
+    reason: string;
+  } | null>(null);
   // エラーリトライ回数
   const [errorRetryCount, setErrorRetryCount] = useState(0);
   // 最大リトライ回数
@@ -39,9 +69,15 @@ export default function ProjectDetailPage() {
   // バージョン履歴パネルの表示状態
   const [showVersionPanel, setShowVersionPanel] = useState(false);
 
+  // チャット編集パネルの表示状態
+  const [showChatPanel, setShowChatPanel] = useState(false);
+
   // Mermaidコードパネルの表示状態
   const [showMermaidCodePanel, setShowMermaidCodePanel] = useState(false);
 
+  // 図の種類の変換パネルの表示状態
+  const [showConvertPanel, setShowConvertPanel] = useState(false);
+
   // プロジェクト名の編集状態
   const [isEditingName, setIsEditingName] = useState(false);
   const [editingName, setEditingName] = useState("");
@@ -54,10 +90,22 @@ export default function ProjectDetailPage() {
     null,
   );
   const [previewStrokes, setPreviewStrokes] = useState<Stroke[]>([]);
+  // バージョン比較時の差分ハイライト
+  const [previewHighlights, setPreviewHighlights] =
+    useState<DiagramHighlights | null>(null);
 
   // AIストリーミングフック（多段階処理対応）
   const aiStream = useMultiStageAIStream();
 
+  // 編集セッションのUndo/Redo履歴（キャンバスの再マウントをまたいで保持）
+  const editHistory = useEditHistory(projectId);
+  // ロールバック後のデータ取得を履歴に記録するためのフラグ
+  const isRollingBackRef = useRef(false);
+  // 図の種類の変換後のデータ取得を履歴の起点にするためのフラグ
+  const isConvertingRef = useRef(false);
+  // チャットでの更新後のデータ取得で、保存していない手書きのストロークを上書きしないためのフラグ
+  const isChatUpdatingRef = useRef(false);
+
   // キャンバスコンテナのサイズ管理
   const canvasContainerRef = useRef<HTMLDivElement>(null);
   const [canvasSize, setCanvasSize] = useState({ width: 1000, height: 600 });
@@ -102,11 +150,35 @@ export default function ProjectDetailPage() {
     { enabled: !!projectId },
   );
 
+  // エクスポート用のSVGスナップショットを保存
+  const saveExportSnapshot = trpc.diagram.saveExportSnapshot.useMutation();
+
   // ダイアグラムとストロークを保存
   const saveDiagramWithStrokes =
     trpc.diagram.saveDiagramWithStrokes.useMutation({
-      onSuccess: () => {
+      onSuccess: (data) => {
         refetch();
+        // エディタを開かずにエクスポートできるよう、保存したバージョンのスナップショットを作成
+        renderExportSnapshot(data.mermaidCode, canvasSize)
+          .then((snapshot) =>
+            saveExportSnapshot.mutateAsync({ versionId: data.id, ...snapshot }),
+          )
+          .catch((err) => {
+            console.error("エクスポート用スナップショットの保存に失敗:", err);
+          });
+        // 保存はできたが警告がある場合は表示する
+        setSaveWarnings(
+          data.validation.warnings.length > 0
+            ? data.validation.warnings
+                .map((w) =>
+                  w.line !== null ? `${w.line}行目: ${w.message}` : w.message,
+                )
+                .join("\n")
+            : null,
+        );
+      },
+      onError: (error) => {
+        setLastAiResult(`❌ 保存エラー: ${error.message}`);
       },
     });
 
@@ -139,31 +211,31 @@ export default function ProjectDetailPage() {
   );
 
   // ストローク解釈完了時のコールバック
+  // 結果はすぐには反映せず、レビューで採用された場合のみ保存する
   const handleStreamComplete = useCallback(
     (result: {
       mermaidCode: string | null;
       reason: string | null;
       thinking: string;
+      candidates?: AiCandidate[];
     }) => {
       try {
-        if (result.mermaidCode) {
-          setEditingMermaidCode(result.mermaidCode);
-          setEditingStrokes([]); // 変換後はストロークをクリア
-          setCanvasKey((prev) => prev + 1);
+        const request = aiRequestRef.current;
+        if (result.candidates && result.candidates.length > 1 && request) {
+          // 候補が複数ある場合は、思考ログパネルで選んでからレビューする
+          setAiCandidates({ request, candidates: result.candidates });
+          setShowThinkingPanel(true);
           setLastAiResult(
-            `✅ 詳細を追加しました（最終結果）: ${result.reason || "変換が完了しました"}`,
+            `🔀 ${result.candidates.length}個の解釈の候補があります。候補を選んで確認してください`,
           );
-
-          // DBにも保存
-          if (projectId) {
-            saveDiagramWithStrokes.mutate({
-              projectId,
-              mermaidCode: result.mermaidCode,
-              strokes: [],
-              updateType: "handwriting",
-              reason: result.reason || "手書きストロークからAIで変換",
-            });
-          }
+        } else if (result.mermaidCode && request) {
+          const reason = result.reason || "変換が完了しました";
+          setPendingAiResult({
+            request,
+            mermaidCode: result.mermaidCode,
+            reason,
+          });
+          setLastAiResult(`🔍 変換結果を確認してください: ${reason}`);
         } else {
           setLastAiResult(
             "ストロークを解釈できませんでした。もう一度お試しください。",
@@ -176,15 +248,20 @@ export default function ProjectDetailPage() {
         );
       }
     },
-    [projectId, saveDiagramWithStrokes],
+    [],
   );
 
   // Mermaidエラー修正API
   const fixMermaidError = trpc.ai.fixMermaidError.useMutation({
     onSuccess: (data) => {
       if (data.wasFixed && data.updatedMermaidCode) {
+        // 再マウント後も手書き中のストロークを残す
+        const strokes = editHistory.getPresent()?.strokes ?? editingStrokes;
         setEditingMermaidCode(data.updatedMermaidCode);
+        setEditingStrokes(strokes);
         setCanvasKey((prev) => prev + 1);
+        // 壊れたコードに戻らないよう、修正は新しい履歴にせず現在の状態を置き換える
+        editHistory.replace({ mermaidCode: data.updatedMermaidCode, strokes });
 
         // 思考過程があれば含める
         const resultMessage = data.thinking
@@ -199,9 +276,11 @@ export default function ProjectDetailPage() {
           saveDiagramWithStrokes.mutate({
             projectId,
             mermaidCode: data.updatedMermaidCode,
-            strokes: editingStrokes,
+            strokes,
             updateType: "chat",
             reason: `エラー自動修正: ${data.reasoning}`,
+            // 修正後もエラーが残る場合は、描画時のエラーで再度自動修正する
+            allowInvalid: true,
           });
         }
       } else {
@@ -220,14 +299,38 @@ export default function ProjectDetailPage() {
   // プロジェクトデータが取得されたら編集状態を初期化
   useEffect(() => {
     if (projectData) {
+      // チャットでの更新はコールバックで編集状態と履歴に反映済みのため、
+      // 保存していないストロークやメッセージを残す
+      if (isChatUpdatingRef.current) {
+        isChatUpdatingRef.current = false;
+        return;
+      }
+
       const code =
         projectData.latestVersion?.mermaidCode ?? "flowchart TD\n    A[Start]";
       const strokes = (projectData.strokes ?? []) as Stroke[];
       setEditingMermaidCode(code);
       setEditingStrokes(strokes);
       setLastAiResult(null);
+
+      // 最初の読み込みを履歴の起点にし、ロールバックは1つの編集として記録
+      // 図の種類の変換後は、変換前の種類のコードに戻らないよう履歴を破棄して起点にする
+      if (isRollingBackRef.current) {
+        isRollingBackRef.current = false;
+        editHistory.record({ mermaidCode: code, strokes }, "rollback");
+      } else if (isConvertingRef.current) {
+        isConvertingRef.current = false;
+        editHistory.reset({ mermaidCode: code, strokes });
+      } else {
+        editHistory.initialize({ mermaidCode: code, strokes });
+      }
     }
-  }, [projectData]);
+  }, [
+    projectData,
+    editHistory.initialize,
+    editHistory.record,
+    editHistory.reset,
+  ]);
 
   /**
    * トップページに戻る
@@ -296,7 +399,11 @@ export default function ProjectDetailPage() {
    */
   const handleConvertWithAI = useCallback(
     (data: ConvertWithAIData) => {
+      aiRequestRef.current = data;
+      setPendingAiResult(null);
+      setAiCandidates(null);
       setLastAiResult(null);
+      setSaveWarnings(null);
       setErrorRetryCount(0);
       // AIストリーム開始時に思考パネルを自動的に開く
       setShowThinkingPanel(true);
@@ -307,10 +414,13 @@ export default function ProjectDetailPage() {
           strokes: data.strokes,
           currentMermaidCode: data.mermaidCode,
           nodePositions: data.nodePositions,
+          edgePositions: data.edgePositions,
           canvasImage: data.canvasImage,
+          canvasTransform: data.canvasTransform,
           hint: data.hint,
           diagramType: (projectData?.diagramType as DiagramType) ?? "flowchart",
           canvasSize: { width: canvasSize.width, height: canvasSize.height },
+          candidateCount,
         },
         handleStreamComplete,
         handleStage1Complete,
@@ -322,9 +432,94 @@ export default function ProjectDetailPage() {
       handleStreamComplete,
       handleStage1Complete,
       canvasSize,
+      candidateCount,
     ],
   );
 
+  /**
+   * 解釈の候補を選んでレビューする
+   */
+  const handleSelectCandidate = useCallback(
+    (index: number) => {
+      const candidate = aiCandidates?.candidates[index];
+      if (!aiCandidates || !candidate) return;
+      setPendingAiResult({
+        request: aiCandidates.request,
+        mermaidCode: candidate.mermaidCode,
+        reason: candidate.reason || "変換が完了しました",
+      });
+    },
+    [aiCandidates],
+  );
+
+  /**
+   * AIの変換結果を採用（反映してバージョンとして保存）
+   */
+  const handleAcceptAiResult = useCallback(() => {
+    if (!pendingAiResult) return;
+    const { mermaidCode, reason } = pendingAiResult;
+
+    setEditingMermaidCode(mermaidCode);
+    setEditingStrokes([]); // 変換後はストロークをクリア
+    setCanvasKey((prev) => prev + 1);
+    setLastAiResult(`✅ 変換結果を採用しました: ${reason}`);
+    setPendingAiResult(null);
+    setAiCandidates(null);
+    editHistory.record({ mermaidCode, strokes: [] }, "ai");
+
+    if (projectId) {
+      saveDiagramWithStrokes.mutate({
+        projectId,
+        mermaidCode,
+        strokes: [],
+        updateType: "handwriting",
+        reason,
+        // 構文エラーがある場合も採用した結果を保存し、描画時のエラーで自動修正する
+        allowInvalid: true,
+      });
+    }
+  }, [pendingAiResult, projectId, saveDiagramWithStrokes, editHistory.record]);
+
+  /**
+   * 変換前の図とストロークに戻す（多段階処理の中間結果も破棄する）
+   */
+  const restoreAiRequest = useCallback((request: ConvertWithAIData) => {
+    setEditingMermaidCode(request.mermaidCode);
+    setEditingStrokes(request.strokes);
+    setCanvasKey((prev) => prev + 1);
+    setPendingAiResult(null);
+  }, []);
+
+  /**
+   * AIの変換結果を却下
+   */
+  const handleRejectAiResult = useCallback(() => {
+    if (!pendingAiResult) return;
+    restoreAiRequest(pendingAiResult.request);
+    setLastAiResult("↩️ 変換結果を却下しました（保存されていません）");
+  }, [pendingAiResult, restoreAiRequest]);
+
+  /**
+   * 補足指示を追加してAI変換を再試行
+   */
+  const handleRetryAiResult = useCallback(
+    (retryHint: string) => {
+      if (!pendingAiResult) return;
+      const { request, reason } = pendingAiResult;
+      restoreAiRequest(request);
+
+      const hint = [
+        request.hint,
+        `前回の解釈（${reason}）は採用されませんでした。別の解釈を検討してください。`,
+        retryHint,
+      ]
+        .filter(Boolean)
+        .join("\n");
+      handleConvertWithAI({ ...request, hint });
+    },
+    [pendingAiResult, restoreAiRequest, handleConvertWithAI],
+  );
+
   /**
    * Mermaidパースエラー時のハンドラ（自動リトライ）
    */
@@ -361,6 +556,24 @@ export default function ProjectDetailPage() {
     [errorRetryCount, fixMermaidError],
   );
 
+  /**
+   * チャットでダイアグラムが更新されたときのコールバック
+   * バージョンはサーバー側で保存済みのため、編集状態のみ更新する
+   */
+  const handleChatDiagramUpdated = useCallback(
+    (data: { mermaidCode: string; reason: string }) => {
+      // 再マウント後も手書き中のストロークを残す
+      const strokes = editHistory.getPresent()?.strokes ?? editingStrokes;
+      isChatUpdatingRef.current = true;
+      setEditingMermaidCode(data.mermaidCode);
+      setEditingStrokes(strokes);
+      setCanvasKey((prev) => prev + 1);
+      editHistory.record({ mermaidCode: data.mermaidCode, strokes }, "ai");
+      setLastAiResult(`💬 チャットで更新しました: ${data.reason}`);
+    },
+    [editingStrokes, editHistory.getPresent, editHistory.record],
+  );
+
   /**
    * バージョンプレビュー時のコールバック
    */
@@ -368,16 +581,16 @@ export default function ProjectDetailPage() {
     (data: {
       versionId: number;
       mermaidCode: string;
-      strokes: Array<{ points: number[]; color: string; width: number }>;
+      strokes: Stroke[];
+      highlights?: DiagramHighlights;
     }) => {
       setPreviewVersionId(data.versionId);
       setPreviewMermaidCode(data.mermaidCode);
+      setPreviewHighlights(data.highlights ?? null);
       setPreviewStrokes(
         data.strokes.map((s) => ({
+          ...s,
           id: `preview-${Date.now()}-${Math.random()}`,
-          points: s.points,
-          color: s.color,
-          strokeWidth: s.width,
         })),
       );
       setCanvasKey((prev) => prev + 1);
@@ -392,6 +605,7 @@ export default function ProjectDetailPage() {
     setPreviewVersionId(null);
     setPreviewMermaidCode(null);
     setPreviewStrokes([]);
+    setPreviewHighlights(null);
     setCanvasKey((prev) => prev + 1);
   }, []);
 
@@ -399,13 +613,75 @@ export default function ProjectDetailPage() {
    * ロールバック完了時のコールバック
    */
   const handleRollbackComplete = useCallback(() => {
-    // ロールバック完了後にデータを再取得
+    // ロールバック完了後にデータを再取得（取得した状態を履歴に記録する）
+    isRollingBackRef.current = true;
     refetch();
     setCanvasKey((prev) => prev + 1);
     // プレビューを解除
     handlePreviewCancel();
   }, [refetch, handlePreviewCancel]);
 
+  /**
+   * 図の種類の変換を確定した後の処理
+   * 変換前の種類のコードに戻らないよう、取得した状態を新しい履歴の起点にする
+   */
+  const handleConvertComplete = useCallback(() => {
+    setShowConvertPanel(false);
+    isConvertingRef.current = true;
+    refetch();
+    setCanvasKey((prev) => prev + 1);
+  }, [refetch]);
+
+  /**
+   * キャンバスでの編集を履歴に記録
+   * コードの編集は再マウント時に失われないよう編集状態にも反映する
+   */
+  const handleCanvasEdit = useCallback(
+    (snapshot: EditSnapshot, kind: EditKind) => {
+      editHistory.record(snapshot, kind);
+      if (kind === "code") {
+        setEditingMermaidCode(snapshot.mermaidCode);
+      }
+    },
+    [editHistory.record],
+  );
+
+  /**
+   * 履歴の状態をキャンバスに反映
+   * ストロークは配列をコピーして、キャンバス側で必ず同期されるようにする
+   */
+  const applyEditSnapshot = useCallback((snapshot: EditSnapshot | null) => {
+    if (!snapshot) return;
+    setEditingMermaidCode(snapshot.mermaidCode);
+    setEditingStrokes([...snapshot.strokes]);
+  }, []);
+
+  // プレビュー・AI変換中・レビュー中はUndo/Redoしない
+  const canUseEditHistory =
+    previewMermaidCode === null && !pendingAiResult && !aiStream.isProcessing;
+
+  // キャンバスのUndo/Redoボタン・ショートカットに渡す操作
+  const historyControls = useMemo<EditHistoryControls>(
+    () => ({
+      canUndo: canUseEditHistory && editHistory.canUndo,
+      canRedo: canUseEditHistory && editHistory.canRedo,
+      undoLabel: editHistory.undoLabel,
+      redoLabel: editHistory.redoLabel,
+      onUndo: () => applyEditSnapshot(editHistory.undo()),
+      onRedo: () => applyEditSnapshot(editHistory.redo()),
+    }),
+    [
+      canUseEditHistory,
+      editHistory.canUndo,
+      editHistory.canRedo,
+      editHistory.undoLabel,
+      editHistory.redoLabel,
+      editHistory.undo,
+      editHistory.redo,
+      applyEditSnapshot,
+    ],
+  );
+
   // ローディング中
   if (isLoading) {
     return (
@@ -511,13 +787,21 @@ export default function ProjectDetailPage() {
               </button>
             )}
 
-            <span className="text-xs text-gray-400 bg-gray-100 px-2 py-0.5 rounded">
-              {typeInfo.label}
-            </span>
+            <button
+              type="button"
+              onClick={() => setShowConvertPanel(true)}
+              className="text-xs text-gray-400 bg-gray-100 px-2 py-0.5 rounded hover:bg-violet-50 hover:text-violet-600 transition-colors"
+              title="図の種類を変換"
+            >
+              {typeInfo.label} 🔁
+            </button>
           </div>
 
           {/* ヘッダー右側のボタン群 */}
           <div className="flex items-center gap-2">
+            {/* エクスポートメニュー */}
+            <ExportMenu projectId={projectId} canvasSize={canvasSize} />
+
             {/* Mermaidコードパネルトグル */}
             <button
               type="button"
@@ -532,6 +816,20 @@ export default function ProjectDetailPage() {
               コード
             </button>
 
+            {/* チャット編集パネルトグル */}
+            <button
+              type="button"
+              onClick={() => setShowChatPanel(!showChatPanel)}
+              className={`px-3 py-1.5 text-xs rounded-lg flex items-center gap-1.5 transition-all ${
+                showChatPanel
+                  ? "bg-sky-100 text-sky-700"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              <span>💬</span>
+              チャット
+            </button>
+
             {/* バージョン履歴トグル */}
             <button
               type="button"
@@ -583,6 +881,9 @@ export default function ProjectDetailPage() {
             onSave={handleSave}
             onConvertWithAI={handleConvertWithAI}
             onMermaidParseError={handleMermaidParseError}
+            highlights={previewHighlights ?? undefined}
+            onEdit={handleCanvasEdit}
+            history={historyControls}
           />
         </div>
       </main>
@@ -594,6 +895,21 @@ export default function ProjectDetailPage() {
         onClose={() => setShowMermaidCodePanel(false)}
       />
 
+      {/* チャット編集パネル（オーバーレイ、左側） */}
+      {showChatPanel && (
+        <div className="fixed inset-0 z-40 pointer-events-none">
+          <div className="absolute left-0 top-12 h-[calc(100%-3rem)] pointer-events-auto shadow-2xl">
+            <ChatPanel
+              projectId={projectId}
+              currentMermaidCode={editingMermaidCode}
+              isOpen={showChatPanel}
+              onClose={() => setShowChatPanel(false)}
+              onDiagramUpdated={handleChatDiagramUpdated}
+            />
+          </div>
+        </div>
+      )}
+
       {/* バージョン履歴パネル（オーバーレイ） */}
       {showVersionPanel && (
         <div className="fixed inset-0 z-40 pointer-events-none">
@@ -616,6 +932,31 @@ export default function ProjectDetailPage() {
         </div>
       )}
 
+      {/* 図の種類の変換（モーダル） */}
+      {showConvertPanel && (
+        <DiagramTypeConvertPanel
+          projectId={projectId}
+          currentType={diagramType}
+          currentMermaidCode={
+            projectData.latestVersion?.mermaidCode ?? editingMermaidCode
+          }
+          onConverted={handleConvertComplete}
+          onClose={() => setShowConvertPanel(false)}
+        />
+      )}
+
+      {/* AI変換結果のレビュー（モーダル） */}
+      {pendingAiResult && (
+        <AIResultReviewPanel
+          currentMermaidCode={pendingAiResult.request.mermaidCode}
+          proposedMermaidCode={pendingAiResult.mermaidCode}
+          reason={pendingAiResult.reason}
+          onAccept={handleAcceptAiResult}
+          onReject={handleRejectAiResult}
+          onRetry={handleRetryAiResult}
+        />
+      )}
+
       {/* AI思考ログパネル（オーバーレイ） */}
       {showThinkingPanel && (
         <div className="fixed inset-0 z-40 pointer-events-none">
@@ -624,12 +965,20 @@ export default function ProjectDetailPage() {
               isOpen={showThinkingPanel}
               isProcessing={aiStream.isProcessing}
               thinkingText={aiStream.thinkingText}
-              resultReason={lastAiResult}
+              resultReason={
+                saveWarnings
+                  ? `${lastAiResult ? `${lastAiResult}\n\n` : ""}⚠️ 警告:\n${saveWarnings}`
+                  : lastAiResult
+              }
               errorMessage={aiStream.errorMessage}
               onClose={() => setShowThinkingPanel(false)}
               progress={aiStream.progress}
               multiStageState={aiStream.multiStageState}
               isBothOpen={showThinkingPanel && showVersionPanel}
+              candidates={aiCandidates?.candidates}
+              onSelectCandidate={handleSelectCandidate}
+              candidateCount={candidateCount}
+              onCandidateCountChange={setCandidateCount}
             />
           </div>
         </div>
@@ -0,0 +1,185 @@
+"use client";
+
+import { trpc } from "@/lib/trpc/client";
+import { buildDiffHighlights } from "@/lib/utils/diagramHighlights";
+import { useEffect, useMemo, useState } from "react";
+import DiagramDiffList from "./DiagramDiffList";
+import DynamicMermaidPreview from "./DynamicMermaidPreview";
+
+type AIResultReviewPanelProps = {
+  /** 変換前（現在）のMermaidコード */
+  currentMermaidCode: string;
+  /** AIが提案したMermaidコード */
+  proposedMermaidCode: string;
+  /** AIによる変換の理由 */
+  reason: string;
+  /** 採用（保存して新しいバージョンにする） */
+  onAccept: () => void;
+  /** 却下（変換前の状態に戻す） */
+  onReject: () => void;
+  /** 補足指示を追加して再試行 */
+  onRetry: (hint: string) => void;
+};
+
+/** プレビューの幅 */
+const PREVIEW_WIDTH = 440;
+
+/** プレビューの高さ */
+const PREVIEW_HEIGHT = 300;
+
+/**
+ * AIの変換結果のレビューパネル
+ * 現在の図と提案された図を並べて、ノード・エッジ単位の差分とAIの理由を表示する
+ * 採用した場合のみ保存され、却下・再試行の場合は変換前の状態に戻る
+ */
+export default function AIResultReviewPanel({
+  currentMermaidCode,
+  proposedMermaidCode,
+  reason,
+  onAccept,
+  onReject,
+  onRetry,
+}: AIResultReviewPanelProps) {
+  const [retryHint, setRetryHint] = useState("");
+
+  // 変換前後の差分を計算（コードが長い場合に備えて mutation で送る）
+  const {
+    mutate: diffMermaidCode,
+    data: comparison,
+    isPending: isDiffing,
+  } = trpc.diagram.diffMermaidCode.useMutation();
+
+  useEffect(() => {
+    diffMermaidCode({
+      beforeCode: currentMermaidCode,
+      afterCode: proposedMermaidCode,
+    });
+  }, [currentMermaidCode, proposedMermaidCode, diffMermaidCode]);
+
+  // 差分のハイライト（現在: 削除・変更、提案: 追加・変更）
+  const highlights = useMemo(() => {
+    if (!comparison?.structuralDiff) return null;
+    return {
+      before: buildDiffHighlights(comparison.structuralDiff, "before"),
+      after: buildDiffHighlights(comparison.structuralDiff, "after"),
+    };
+  }, [comparison]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-6">
+      <div className="bg-slate-900 text-slate-100 rounded-xl shadow-2xl max-w-[960px] w-full max-h-full flex flex-col overflow-hidden">
+        {/* ヘッダー */}
+        <div className="p-4 border-b border-slate-700 flex items-center gap-2">
+          <span className="text-lg">🔍</span>
+          <h2 className="text-sm font-semibold">AIの変換結果を確認</h2>
+          <span className="text-xs text-slate-400">
+            採用するまで保存されません
+          </span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* 現在と提案の図 */}
+          <div className="grid grid-cols-2 gap-3">
+            {(
+              [
+                {
+                  key: "current",
+                  title: "現在",
+                  code: currentMermaidCode,
+                  highlights: highlights?.before,
+                },
+                {
+                  key: "proposed",
+                  title: "提案",
+                  code: proposedMermaidCode,
+                  highlights: highlights?.after,
+                },
+              ] as const
+            ).map((preview) => (
+              <div key={preview.key}>
+                <p className="text-xs font-medium text-slate-300 mb-1">
+                  {preview.title}
+                </p>
+                <div className="bg-white rounded-lg overflow-hidden flex items-center justify-center">
+                  <DynamicMermaidPreview
+                    id={`ai-review-${preview.key}`}
+                    code={preview.code}
+                    width={PREVIEW_WIDTH}
+                    height={PREVIEW_HEIGHT}
+                    highlights={preview.highlights}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* AIの理由 */}
+          <div className="text-xs">
+            <p className="font-medium text-slate-300 mb-1">💡 AIの理由</p>
+            <p className="text-slate-200 whitespace-pre-wrap">{reason}</p>
+          </div>
+
+          {/* 差分 */}
+          <div className="text-xs p-3 bg-slate-800/50 rounded-lg">
+            <p className="font-medium text-slate-300 mb-2">変更点</p>
+            {isDiffing || !comparison ? (
+              <div className="flex items-center gap-2 text-slate-400">
+                <span className="w-3 h-3 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />
+                差分を計算中...
+              </div>
+            ) : (
+              <DiagramDiffList
+                structuralDiff={comparison.structuralDiff}
+                hasStructuralChanges={comparison.hasStructuralChanges}
+                lineDiff={comparison.lineDiff}
+              />
+            )}
+          </div>
+
+          {/* 再試行の補足指示 */}
+          <div className="text-xs">
+            <label
+              htmlFor="ai-review-retry-hint"
+              className="block font-medium text-slate-300 mb-1"
+            >
+              補足指示を追加して再試行
+            </label>
+            <textarea
+              id="ai-review-retry-hint"
+              value={retryHint}
+              onChange={(e) => setRetryHint(e.target.value)}
+              rows={2}
+              placeholder="例: 右側の文字は「承認」です"
+              className="w-full px-2 py-1.5 text-xs text-slate-100 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-500"
+            />
+          </div>
+        </div>
+
+        {/* 操作 */}
+        <div className="p-4 border-t border-slate-700 flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={onReject}
+            className="px-3 py-1.5 text-xs rounded-lg bg-slate-700 text-slate-200 hover:bg-slate-600 transition-colors"
+          >
+            ✕ 却下
+          </button>
+          <button
+            type="button"
+            onClick={() => onRetry(retryHint.trim())}
+            className="px-3 py-1.5 text-xs rounded-lg bg-violet-600 text-white hover:bg-violet-700 transition-colors"
+          >
+            ↻ 再試行
+          </button>
+          <button
+            type="button"
+            onClick={onAccept}
+            className="px-3 py-1.5 text-xs font-medium rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 transition-colors"
+          >
+            ✓ 採用
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
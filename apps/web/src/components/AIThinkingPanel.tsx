@@ -1,6 +1,8 @@
 "use client";
 
-import { useEffect, useRef } from "react";
+import { type AiCandidate, MAX_CANDIDATE_COUNT } from "@/server/ai/parsing";
+import { useEffect, useRef, useState } from "react";
+import DynamicMermaidPreview from "./DynamicMermaidPreview";
 
 type AIThinkingPanelProps = {
   /** 現在のAI処理状態 */
@@ -31,8 +33,29 @@ type AIThinkingPanelProps = {
     | "error";
   /** 両方のパネルが開いているかどうか */
   isBothOpen?: boolean;
+  /** 解釈の候補（2つ以上ある場合に切り替えて表示） */
+  candidates?: AiCandidate[];
+  /** 候補を選んだときのコールバック（候補のインデックス） */
+  onSelectCandidate?: (index: number) => void;
+  /** AIで変換するときに出力させる候補数 */
+  candidateCount?: number;
+  /** 候補数を変更 */
+  onCandidateCountChange?: (count: number) => void;
 };
 
+/** 候補数の選択肢 */
+const CANDIDATE_COUNT_OPTIONS = Array.from(
+  { length: MAX_CANDIDATE_COUNT },
+  (_, i) => i + 1,
+);
+
+/**
+ * 確信度を百分率で表示
+ */
+function formatConfidence(confidence: number | null): string {
+  return confidence === null ? "―" : `${Math.round(confidence * 100)}%`;
+}
+
 /**
  * AI思考ログをリアルタイム表示するサイドパネル
  */
@@ -46,8 +69,23 @@ export default function AIThinkingPanel({
   progress,
   multiStageState,
   isBothOpen = false,
+  candidates,
+  onSelectCandidate,
+  candidateCount,
+  onCandidateCountChange,
 }: AIThinkingPanelProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
+  // 表示中の候補
+  const [activeCandidateIndex, setActiveCandidateIndex] = useState(0);
+
+  // 新しい候補が届いたら最も確信度の高い候補を表示
+  // biome-ignore lint/correctness/useExhaustiveDependencies: candidatesの変化でリセットする意図的な実装
+  useEffect(() => {
+    setActiveCandidateIndex(0);
+  }, [candidates]);
+
+  const hasCandidates = !!candidates && candidates.length > 1;
+  const activeCandidate = candidates?.[activeCandidateIndex];
 
   // 新しいテキストが追加されたら自動スクロール
   const thinkingLength = thinkingText.length;
@@ -181,6 +219,100 @@ export default function AIThinkingPanel({
           </div>
         )}
 
+        {/* 解釈の候補 */}
+        {hasCandidates && activeCandidate && (
+          <div className="mb-4">
+            <div className="flex items-center justify-between mb-2 text-sky-400">
+              <div className="flex items-center gap-2">
+                <span>🔀</span>
+                <span className="text-xs font-semibold uppercase tracking-wider">
+                  Candidates
+                </span>
+              </div>
+              <span className="text-slate-400">
+                {activeCandidateIndex + 1}/{candidates.length}
+              </span>
+            </div>
+
+            {/* サムネイル（クリックで切り替え） */}
+            <div className="grid grid-cols-3 gap-2 mb-2">
+              {candidates.map((candidate, index) => (
+                <button
+                  // biome-ignore lint/suspicious/noArrayIndexKey: 候補は確信度順に固定のためインデックスをキーに使用
+                  key={index}
+                  type="button"
+                  onClick={() => setActiveCandidateIndex(index)}
+                  className={`rounded-lg overflow-hidden border-2 bg-white transition-all ${
+                    index === activeCandidateIndex
+                      ? "border-sky-400"
+                      : "border-transparent opacity-70 hover:opacity-100"
+                  }`}
+                  title={candidate.reason ?? undefined}
+                >
+                  <div className="pointer-events-none">
+                    <DynamicMermaidPreview
+                      id={`ai-candidate-${index}`}
+                      code={candidate.mermaidCode}
+                      width={84}
+                      height={64}
+                    />
+                  </div>
+                  <span className="block text-[10px] text-slate-600 bg-slate-100">
+                    {formatConfidence(candidate.confidence)}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {/* 表示中の候補 */}
+            <div className="p-3 bg-slate-800 rounded-lg border border-sky-700/50 space-y-2">
+              <div className="flex items-center justify-between">
+                <button
+                  type="button"
+                  onClick={() =>
+                    setActiveCandidateIndex(
+                      (activeCandidateIndex - 1 + candidates.length) %
+                        candidates.length,
+                    )
+                  }
+                  className="px-2 text-slate-400 hover:text-slate-200"
+                  title="前の候補"
+                >
+                  ‹
+                </button>
+                <span className="text-slate-300">
+                  候補{activeCandidateIndex + 1}（確信度{" "}
+                  {formatConfidence(activeCandidate.confidence)}）
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setActiveCandidateIndex(
+                      (activeCandidateIndex + 1) % candidates.length,
+                    )
+                  }
+                  className="px-2 text-slate-400 hover:text-slate-200"
+                  title="次の候補"
+                >
+                  ›
+                </button>
+              </div>
+              <p className="text-slate-200 whitespace-pre-wrap">
+                {activeCandidate.reason ?? "（理由なし）"}
+              </p>
+              {onSelectCandidate && (
+                <button
+                  type="button"
+                  onClick={() => onSelectCandidate(activeCandidateIndex)}
+                  className="w-full px-3 py-1.5 text-xs font-medium rounded-lg bg-sky-600 text-white hover:bg-sky-700 transition-colors"
+                >
+                  この候補を確認する
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* 処理中で思考がまだない場合 */}
         {isProcessing && !thinkingText && !errorMessage && (
           <div className="flex flex-col items-center justify-center h-32 text-slate-400">
@@ -204,6 +336,28 @@ export default function AIThinkingPanel({
 
       {/* フッター */}
       <div className="p-3 border-t border-slate-700 text-xs text-slate-500">
+        {onCandidateCountChange && (
+          <div className="flex items-center justify-between mb-2">
+            <span>解釈の候補数</span>
+            <div className="flex rounded overflow-hidden border border-slate-700">
+              {CANDIDATE_COUNT_OPTIONS.map((count) => (
+                <button
+                  key={count}
+                  type="button"
+                  onClick={() => onCandidateCountChange(count)}
+                  disabled={isProcessing}
+                  className={`px-2 py-0.5 transition-colors disabled:opacity-50 ${
+                    candidateCount === count
+                      ? "bg-violet-600 text-white"
+                      : "text-slate-400 hover:bg-slate-700"
+                  }`}
+                >
+                  {count}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
         <div className="flex items-center justify-between">
           <span>Claude Extended Thinking</span>
           {thinkingText && <span>{thinkingText.length} chars</span>}
@@ -0,0 +1,239 @@
+"use client";
+
+import { trpc } from "@/lib/trpc/client";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+type ChatPanelProps = {
+  /** プロジェクトID */
+  projectId: string;
+  /** 現在のMermaidコード（AIへの指示のベース） */
+  currentMermaidCode: string;
+  /** パネルの表示/非表示 */
+  isOpen: boolean;
+  /** パネルを閉じる */
+  onClose: () => void;
+  /** AIがダイアグラムを更新したときのコールバック（新しいバージョン保存済み） */
+  onDiagramUpdated?: (data: { mermaidCode: string; reason: string }) => void;
+};
+
+/**
+ * チャット編集パネルコンポーネント
+ * テキストの指示でダイアグラムを編集し、会話をプロジェクトごとに保存する
+ */
+export default function ChatPanel({
+  projectId,
+  currentMermaidCode,
+  isOpen,
+  onClose,
+  onDiagramUpdated,
+}: ChatPanelProps) {
+  const [inputMessage, setInputMessage] = useState("");
+  // 送信中のユーザー発言（保存完了までの楽観的表示用）
+  const [pendingMessage, setPendingMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // チャット履歴を取得
+  const { data: history, refetch } = trpc.chat.getHistory.useQuery(
+    { projectId },
+    { enabled: isOpen && !!projectId },
+  );
+
+  const utils = trpc.useUtils();
+
+  // AIによるダイアグラム編集（会話はサーバー側で永続化される）
+  const editDiagram = trpc.ai.editDiagram.useMutation({
+    onSuccess: async (data) => {
+      if (data.wasUpdated && data.updatedMermaidCode) {
+        onDiagramUpdated?.({
+          mermaidCode: data.updatedMermaidCode,
+          reason: data.response,
+        });
+        // 新しい「chat」バージョンが保存されたため、プロジェクトとバージョン履歴を取り直す
+        await Promise.all([
+          utils.diagram.getProject.invalidate({ id: projectId }),
+          utils.diagram.getProjectWithStrokes.invalidate({ projectId }),
+          utils.diagram.getVersionHistory.invalidate({ projectId }),
+        ]);
+      }
+      await refetch();
+      setPendingMessage(null);
+    },
+    onError: (error) => {
+      setErrorMessage(`❌ 送信エラー: ${error.message}`);
+      setPendingMessage(null);
+    },
+  });
+
+  // 新しいセッションを開始
+  const startNewSession = trpc.chat.startNewSession.useMutation({
+    onSuccess: () => {
+      refetch();
+    },
+  });
+
+  const messageCount = history?.messages.length ?? 0;
+
+  // 新しいメッセージが追加されたら自動スクロール
+  // biome-ignore lint/correctness/useExhaustiveDependencies: messageCount/pendingMessageの変化でスクロールを実行する意図的な実装
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [messageCount, pendingMessage]);
+
+  /**
+   * メッセージを送信
+   */
+  const handleSend = useCallback(() => {
+    const message = inputMessage.trim();
+    if (!message || editDiagram.isPending) return;
+
+    setErrorMessage(null);
+    setPendingMessage(message);
+    setInputMessage("");
+
+    editDiagram.mutate({
+      projectId,
+      message,
+      currentMermaidCode,
+    });
+  }, [inputMessage, editDiagram, projectId, currentMermaidCode]);
+
+  if (!isOpen) return null;
+
+  const messages = history?.messages ?? [];
+
+  return (
+    <aside className="w-80 bg-slate-900 border-r border-slate-700 flex flex-col shrink-0 text-slate-100 h-full">
+      {/* ヘッダー */}
+      <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="text-lg">💬</span>
+          <h2 className="text-sm font-semibold">チャット編集</h2>
+          {editDiagram.isPending && (
+            <span className="flex items-center gap-1.5 text-xs text-emerald-400">
+              <span className="w-2 h-2 bg-emerald-400 rounded-full animate-pulse" />
+              応答中
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => startNewSession.mutate({ projectId })}
+            disabled={
+              startNewSession.isPending ||
+              editDiagram.isPending ||
+              messages.length === 0
+            }
+            className="text-xs text-slate-400 hover:text-slate-200 disabled:opacity-40 transition-colors"
+            title="新しい会話を開始"
+          >
+            ＋新規
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-200 transition-colors text-lg"
+            title="閉じる"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+
+      {/* メッセージ一覧 */}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-3">
+        {messages.map((msg) => (
+          <div
+            key={msg.id}
+            className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}
+          >
+            <div
+              className={`max-w-[85%] px-3 py-2 rounded-lg text-xs whitespace-pre-wrap ${
+                msg.role === "user"
+                  ? "bg-violet-600 text-white"
+                  : "bg-slate-800 text-slate-200 border border-slate-700"
+              }`}
+            >
+              {msg.content}
+              {msg.resultingVersionId && (
+                <p className="mt-1.5 text-[10px] text-emerald-400">
+                  📌 新しいバージョンを作成しました
+                </p>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {/* 送信中のメッセージ */}
+        {pendingMessage && (
+          <>
+            <div className="flex justify-end">
+              <div className="max-w-[85%] px-3 py-2 rounded-lg text-xs whitespace-pre-wrap bg-violet-600/70 text-white">
+                {pendingMessage}
+              </div>
+            </div>
+            <div className="flex justify-start">
+              <div className="px-3 py-2 rounded-lg bg-slate-800 border border-slate-700 flex items-center gap-2 text-xs text-slate-400">
+                <span className="w-3 h-3 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />
+                考え中...
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* エラー表示 */}
+        {errorMessage && (
+          <div className="p-3 bg-red-900/50 border border-red-700 rounded-lg text-xs text-red-200">
+            {errorMessage}
+          </div>
+        )}
+
+        {/* 何もない場合 */}
+        {messages.length === 0 && !pendingMessage && !errorMessage && (
+          <div className="flex flex-col items-center justify-center h-32 text-slate-500">
+            <span className="text-3xl mb-2 opacity-50">💬</span>
+            <p className="text-xs text-center">
+              「ノードBを削除して」のように
+              <br />
+              テキストで図を編集できます
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* 入力エリア */}
+      <div className="p-3 border-t border-slate-700">
+        <textarea
+          value={inputMessage}
+          onChange={(e) => setInputMessage(e.target.value)}
+          onKeyDown={(e) => {
+            // IME変換中のEnterは送信しない
+            if (
+              e.key === "Enter" &&
+              !e.shiftKey &&
+              !e.nativeEvent.isComposing
+            ) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder="指示を入力（Shift+Enterで改行）"
+          rows={3}
+          disabled={editDiagram.isPending}
+          className="w-full px-3 py-2 text-xs bg-slate-800 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500/30 resize-none disabled:opacity-50"
+        />
+        <button
+          type="button"
+          onClick={handleSend}
+          disabled={!inputMessage.trim() || editDiagram.isPending}
+          className="mt-2 w-full px-3 py-1.5 bg-violet-600 hover:bg-violet-700 disabled:opacity-50 text-white text-xs rounded transition-colors"
+        >
+          {editDiagram.isPending ? "送信中..." : "送信"}
+        </button>
+      </div>
+    </aside>
+  );
+}
@@ -1,18 +1,36 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  EditHistoryControls,
+  EditKind,
+  EditSnapshot,
+} from "@/lib/hooks/useEditHistory";
+import { getPointWidth, hasPressure } from "@/lib/utils/strokeInput";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import DynamicHandwritingCanvas from "./DynamicHandwritingCanvas";
 import DynamicMermaidPreview from "./DynamicMermaidPreview";
-import type { Stroke, ViewTransform } from "./HandwritingCanvas";
-import type { NodePosition } from "./MermaidPreview";
+import type {
+  Stroke,
+  StrokeChangeKind,
+  ViewTransform,
+} from "./HandwritingCanvas";
+import type {
+  DiagramHighlights,
+  EdgePosition,
+  NodePosition,
+} from "./MermaidPreview";
 
 /** AIで変換時に渡すデータ */
 export type ConvertWithAIData = {
   mermaidCode: string;
   strokes: Stroke[];
   nodePositions: NodePosition[];
+  /** エッジ（接続線）の経路 */
+  edgePositions: EdgePosition[];
   /** キャンバスの画像（Base64 PNG） */
   canvasImage?: string;
+  /** キャンバスの画像の座標変換（画像上の位置 = ストロークの座標 × scale + x/y） */
+  canvasTransform?: ViewTransform;
   hint?: string;
 };
 
@@ -41,6 +59,12 @@ type DiagramCanvasProps = {
   onConvertWithAI?: (data: ConvertWithAIData) => void;
   /** Mermaidパースエラー時のコールバック */
   onMermaidParseError?: (error: string, code: string) => void;
+  /** 差分表示用のハイライト（バージョン比較時） */
+  highlights?: DiagramHighlights;
+  /** ストロークやコードを編集したときのコールバック（編集履歴の記録用） */
+  onEdit?: (snapshot: EditSnapshot, kind: EditKind) => void;
+  /** 編集履歴のUndo/Redo */
+  history?: EditHistoryControls;
 };
 
 /**
@@ -72,10 +96,14 @@ export default function DiagramCanvas({
   onSave,
   onConvertWithAI,
   onMermaidParseError,
+  highlights,
+  onEdit,
+  history,
 }: DiagramCanvasProps) {
   const [mermaidCode, setMermaidCode] = useState(initialMermaidCode);
   const [strokes, setStrokes] = useState<Stroke[]>(initialStrokes);
   const [nodePositions, setNodePositions] = useState<NodePosition[]>([]);
+  const [edgePositions, setEdgePositions] = useState<EdgePosition[]>([]);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [hint, setHint] = useState("");
   const [showHintInput, setShowHintInput] = useState(false);
@@ -174,24 +202,84 @@ export default function DiagramCanvas({
 
       setMermaidCode(updatedCode);
       setHasUnsavedChanges(true);
+      onEdit?.({ mermaidCode: updatedCode, strokes }, "code");
     },
-    [mermaidCode, getCurrentDirection],
+    [mermaidCode, strokes, getCurrentDirection, onEdit],
   );
 
   /**
    * Mermaidレンダリング成功時のハンドラ（ノード位置情報を保存）
    */
-  const handleRenderSuccess = useCallback((positions: NodePosition[]) => {
-    setNodePositions(positions);
-  }, []);
+  const handleRenderSuccess = useCallback(
+    (positions: NodePosition[], edges: EdgePosition[]) => {
+      setNodePositions(positions);
+      setEdgePositions(edges);
+    },
+    [],
+  );
 
   /**
    * ストロークが変更されたときのハンドラ
    */
-  const handleStrokesChange = useCallback((newStrokes: Stroke[]) => {
-    setStrokes(newStrokes);
-    setHasUnsavedChanges(true);
-  }, []);
+  const handleStrokesChange = useCallback(
+    (newStrokes: Stroke[], kind: StrokeChangeKind) => {
+      setStrokes(newStrokes);
+      setHasUnsavedChanges(true);
+      onEdit?.({ mermaidCode, strokes: newStrokes }, kind);
+    },
+    [mermaidCode, onEdit],
+  );
+
+  /**
+   * Undo/Redo（戻した状態は未保存の変更として扱う）
+   */
+  const historyControls = useMemo<EditHistoryControls | undefined>(
+    () =>
+      history && {
+        ...history,
+        onUndo: () => {
+          if (!history.canUndo) return;
+          history.onUndo();
+          setHasUnsavedChanges(true);
+        },
+        onRedo: () => {
+          if (!history.canRedo) return;
+          history.onRedo();
+          setHasUnsavedChanges(true);
+        },
+      },
+    [history],
+  );
+
+  // Undo/Redoのキーボードショートカット（Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y）
+  useEffect(() => {
+    if (!historyControls) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.isContentEditable)
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        historyControls.onUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        historyControls.onRedo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [historyControls]);
 
   /**
    * ビュー変換が変更されたときのハンドラ
@@ -315,6 +403,31 @@ export default function DiagramCanvas({
 
         for (const stroke of strokes) {
           ctx.strokeStyle = stroke.color;
+
+          // 筆圧のあるストロークは線分ごとに太さを変えて描画
+          if (hasPressure(stroke)) {
+            const points = stroke.points;
+            for (let i = 2; i + 1 < points.length; i += 2) {
+              const index = i / 2;
+              ctx.lineWidth =
+                ((getPointWidth(stroke, index - 1) +
+                  getPointWidth(stroke, index)) /
+                  2) *
+                viewTransform.scale;
+              ctx.beginPath();
+              ctx.moveTo(
+                (points[i - 2] ?? 0) * viewTransform.scale + viewTransform.x,
+                (points[i - 1] ?? 0) * viewTransform.scale + viewTransform.y,
+              );
+              ctx.lineTo(
+                (points[i] ?? 0) * viewTransform.scale + viewTransform.x,
+                (points[i + 1] ?? 0) * viewTransform.scale + viewTransform.y,
+              );
+              ctx.stroke();
+            }
+            continue;
+          }
+
           // ストロークの太さもscaleを考慮
           ctx.lineWidth = stroke.strokeWidth * viewTransform.scale;
           ctx.beginPath();
@@ -363,7 +476,9 @@ export default function DiagramCanvas({
       mermaidCode,
       strokes,
       nodePositions,
+      edgePositions,
       canvasImage: canvasImage || undefined,
+      canvasTransform: canvasImage ? viewTransform : undefined,
       hint: hint || undefined,
     });
     setShowHintInput(false);
@@ -372,9 +487,11 @@ export default function DiagramCanvas({
     mermaidCode,
     strokes,
     nodePositions,
+    edgePositions,
     hint,
     onConvertWithAI,
     generateCanvasImage,
+    viewTransform,
   ]);
 
   // Mermaidレイヤーに適用するCSS transform
@@ -403,6 +520,7 @@ export default function DiagramCanvas({
             id="diagram-preview"
             onParseError={onMermaidParseError}
             onRenderSuccess={handleRenderSuccess}
+            highlights={highlights}
           />
         </div>
 
@@ -417,6 +535,7 @@ export default function DiagramCanvas({
             onStrokesChange={handleStrokesChange}
             viewTransform={viewTransform}
             onViewTransformChange={handleViewTransformChange}
+            history={historyControls}
           />
         </div>
 
@@ -0,0 +1,121 @@
+"use client";
+
+import type { DiagramDiff, LineDiffEntry } from "@/server/mermaid/diff";
+import { useState } from "react";
+
+type DiagramDiffListProps = {
+  /** ノード・エッジ単位の差分（構造を比較できない場合はnull） */
+  structuralDiff: DiagramDiff | null;
+  /** ノード・エッジの変更があるか */
+  hasStructuralChanges: boolean;
+  /** 行単位の差分 */
+  lineDiff: LineDiffEntry[];
+};
+
+/**
+ * エッジの表示用テキスト
+ */
+function formatEdge(edge: {
+  source: string;
+  target: string;
+  label: string | null;
+}) {
+  return `${edge.source} → ${edge.target}${edge.label ? `「${edge.label}」` : ""}`;
+}
+
+/**
+ * 2つのダイアグラムの差分一覧
+ * ノード・エッジ単位の差分を表示し、行単位の差分は折りたたんで表示する
+ * （構造を比較できない場合は行単位の差分のみ）
+ */
+export default function DiagramDiffList({
+  structuralDiff,
+  hasStructuralChanges,
+  lineDiff,
+}: DiagramDiffListProps) {
+  // 行単位の差分を表示するか
+  const [showLineDiff, setShowLineDiff] = useState(false);
+
+  return (
+    <>
+      {structuralDiff ? (
+        hasStructuralChanges ? (
+          <ul className="space-y-1">
+            {structuralDiff.nodes.added.map((node) => (
+              <li key={`node-added-${node.id}`} className="text-emerald-400">
+                ＋ ノード {node.id}「{node.label}」
+              </li>
+            ))}
+            {structuralDiff.nodes.removed.map((node) => (
+              <li key={`node-removed-${node.id}`} className="text-red-400">
+                － ノード {node.id}「{node.label}」
+              </li>
+            ))}
+            {structuralDiff.nodes.relabeled.map(({ before, after }) => (
+              <li key={`node-relabeled-${after.id}`} className="text-amber-400">
+                ～ ノード {after.id}「{before.label}」→「{after.label}」
+              </li>
+            ))}
+            {structuralDiff.edges.added.map((edge) => (
+              <li key={`edge-added-${edge.id}`} className="text-emerald-400">
+                ＋ エッジ {formatEdge(edge)}
+              </li>
+            ))}
+            {structuralDiff.edges.removed.map((edge) => (
+              <li key={`edge-removed-${edge.id}`} className="text-red-400">
+                － エッジ {formatEdge(edge)}
+              </li>
+            ))}
+            {structuralDiff.edges.relabeled.map(({ before, after }) => (
+              <li key={`edge-relabeled-${after.id}`} className="text-amber-400">
+                ～ エッジ {after.source} → {after.target}「{before.label ?? ""}
+                」→「{after.label ?? ""}」
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-slate-400">ノード・エッジの変更はありません</p>
+        )
+      ) : (
+        <p className="text-amber-400">
+          ⚠️ 構造を比較できないため、テキスト差分を表示します
+        </p>
+      )}
+
+      {/* 行単位の差分 */}
+      {structuralDiff && (
+        <button
+          type="button"
+          onClick={() => setShowLineDiff((prev) => !prev)}
+          className="mt-2 text-slate-400 hover:text-slate-200 transition-colors"
+        >
+          {showLineDiff ? "▼" : "▶"} テキスト差分
+        </button>
+      )}
+      {(showLineDiff || !structuralDiff) && (
+        <pre className="mt-2 p-2 bg-slate-900 rounded text-xs overflow-x-auto">
+          {lineDiff.map((entry, index) => (
+            <div
+              // biome-ignore lint/suspicious/noArrayIndexKey: 行差分は順序が固定のためインデックスをキーに使用
+              key={index}
+              className={
+                entry.type === "added"
+                  ? "text-emerald-400 bg-emerald-900/30"
+                  : entry.type === "removed"
+                    ? "text-red-400 bg-red-900/30"
+                    : "text-slate-400"
+              }
+            >
+              {entry.type === "added"
+                ? "+ "
+                : entry.type === "removed"
+                  ? "- "
+                  : "  "}
+              {entry.text}
+            </div>
+          ))}
+        </pre>
+      )}
+    </>
+  );
+}
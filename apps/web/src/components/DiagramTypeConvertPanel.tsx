@@ -0,0 +1,227 @@
+"use client";
+
+import { trpc } from "@/lib/trpc/client";
+import {
+  DIAGRAM_TYPES,
+  DIAGRAM_TYPE_INFO,
+  type DiagramType,
+} from "@/server/db/schema";
+import { useState } from "react";
+import DynamicMermaidPreview from "./DynamicMermaidPreview";
+
+type DiagramTypeConvertPanelProps = {
+  /** プロジェクトID */
+  projectId: string;
+  /** 現在の図の種類 */
+  currentType: DiagramType;
+  /** 変換元（最新バージョン）のMermaidコード */
+  currentMermaidCode: string;
+  /** 変換を確定して保存したとき */
+  onConverted: () => void;
+  /** 閉じる */
+  onClose: () => void;
+};
+
+/** プレビューの幅 */
+const PREVIEW_WIDTH = 440;
+
+/** プレビューの高さ */
+const PREVIEW_HEIGHT = 300;
+
+/**
+ * 図の種類の変換パネル
+ * 変換先を選んでAIで変換した結果をプレビューし、確定した場合のみ新しいバージョンとして保存する
+ */
+export default function DiagramTypeConvertPanel({
+  projectId,
+  currentType,
+  currentMermaidCode,
+  onConverted,
+  onClose,
+}: DiagramTypeConvertPanelProps) {
+  const [targetType, setTargetType] = useState<DiagramType>(
+    () => DIAGRAM_TYPES.find((type) => type !== currentType) ?? currentType,
+  );
+
+  // 保存せずに変換結果を取得
+  const previewConversion = trpc.diagram.convertDiagramType.useMutation();
+
+  // プレビューで確認した変換結果を保存
+  const commitConversion = trpc.diagram.convertDiagramType.useMutation({
+    onSuccess: () => onConverted(),
+  });
+
+  const preview =
+    previewConversion.data?.toType === targetType
+      ? previewConversion.data
+      : null;
+  const errorMessage =
+    previewConversion.error?.message ?? commitConversion.error?.message;
+  const isPending = previewConversion.isPending || commitConversion.isPending;
+
+  /**
+   * 変換結果をプレビュー
+   */
+  const handlePreview = () => {
+    commitConversion.reset();
+    previewConversion.mutate({ projectId, targetType, preview: true });
+  };
+
+  /**
+   * プレビューした変換結果で確定
+   */
+  const handleCommit = () => {
+    if (!preview) return;
+    commitConversion.mutate({
+      projectId,
+      targetType,
+      convertedCode: preview.mermaidCode,
+      reason: preview.reason ?? undefined,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-6">
+      <div className="bg-slate-900 text-slate-100 rounded-xl shadow-2xl max-w-[960px] w-full max-h-full flex flex-col overflow-hidden">
+        {/* ヘッダー */}
+        <div className="p-4 border-b border-slate-700 flex items-center gap-2">
+          <span className="text-lg">🔁</span>
+          <h2 className="text-sm font-semibold">図の種類を変換</h2>
+          <span className="text-xs text-slate-400">
+            確定するまで保存されません
+          </span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {/* 変換先の選択 */}
+          <div className="flex items-center gap-2 text-xs">
+            <span className="text-slate-300">
+              {DIAGRAM_TYPE_INFO[currentType].icon}{" "}
+              {DIAGRAM_TYPE_INFO[currentType].label}
+            </span>
+            <span className="text-slate-500">→</span>
+            <select
+              value={targetType}
+              onChange={(e) => setTargetType(e.target.value as DiagramType)}
+              disabled={isPending}
+              aria-label="変換先の図の種類"
+              className="px-2 py-1 bg-slate-800 border border-slate-700 rounded-lg text-slate-100 focus:outline-none focus:ring-2 focus:ring-violet-500"
+            >
+              {DIAGRAM_TYPES.filter((type) => type !== currentType).map(
+                (type) => (
+                  <option key={type} value={type}>
+                    {DIAGRAM_TYPE_INFO[type].icon}{" "}
+                    {DIAGRAM_TYPE_INFO[type].label}
+                  </option>
+                ),
+              )}
+            </select>
+            <button
+              type="button"
+              onClick={handlePreview}
+              disabled={isPending}
+              className="px-3 py-1 rounded-lg bg-violet-600 text-white hover:bg-violet-700 disabled:opacity-50 transition-colors"
+            >
+              {previewConversion.isPending
+                ? "変換中..."
+                : preview
+                  ? "↻ もう一度変換"
+                  : "変換をプレビュー"}
+            </button>
+          </div>
+
+          {/* 変換前と変換後の図 */}
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <p className="text-xs font-medium text-slate-300 mb-1">変換前</p>
+              <div className="bg-white rounded-lg overflow-hidden flex items-center justify-center">
+                <DynamicMermaidPreview
+                  id="convert-current"
+                  code={currentMermaidCode}
+                  width={PREVIEW_WIDTH}
+                  height={PREVIEW_HEIGHT}
+                />
+              </div>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-slate-300 mb-1">変換後</p>
+              <div
+                className="bg-white rounded-lg overflow-hidden flex items-center justify-center"
+                style={{ height: PREVIEW_HEIGHT }}
+              >
+                {previewConversion.isPending ? (
+                  <div className="flex items-center gap-2 text-xs text-gray-400">
+                    <span className="w-3 h-3 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />
+                    AIが変換しています...
+                  </div>
+                ) : preview ? (
+                  <DynamicMermaidPreview
+                    id="convert-preview"
+                    code={preview.mermaidCode}
+                    width={PREVIEW_WIDTH}
+                    height={PREVIEW_HEIGHT}
+                  />
+                ) : (
+                  <p className="text-xs text-gray-400">
+                    変換先を選んでプレビューしてください
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* AIの説明 */}
+          {preview?.reason && (
+            <div className="text-xs">
+              <p className="font-medium text-slate-300 mb-1">💡 AIの説明</p>
+              <p className="text-slate-200 whitespace-pre-wrap">
+                {preview.reason}
+              </p>
+            </div>
+          )}
+
+          {/* 検証エラー */}
+          {preview && !preview.validation.valid && (
+            <div className="text-xs p-3 bg-red-900/30 border border-red-800 rounded-lg text-red-200">
+              <p className="font-medium mb-1">
+                変換結果にエラーがあるため保存できません
+              </p>
+              <ul className="list-disc list-inside space-y-0.5">
+                {preview.validation.errors.map((issue) => (
+                  <li key={`${issue.line}-${issue.column}-${issue.message}`}>
+                    {issue.line !== null && `${issue.line}行目: `}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {errorMessage && (
+            <p className="text-xs text-red-300">⚠️ {errorMessage}</p>
+          )}
+        </div>
+
+        {/* 操作 */}
+        <div className="p-4 border-t border-slate-700 flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={commitConversion.isPending}
+            className="px-3 py-1.5 text-xs rounded-lg bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-50 transition-colors"
+          >
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={handleCommit}
+            disabled={!preview || !preview.validation.valid || isPending}
+            className="px-3 py-1.5 text-xs font-medium rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+          >
+            {commitConversion.isPending ? "保存中..." : "✓ 変換を確定"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
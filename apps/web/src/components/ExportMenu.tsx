@@ -0,0 +1,256 @@
+"use client";
+
+import { trpc } from "@/lib/trpc/client";
+import { renderExportSnapshot } from "@/lib/utils/exportSnapshot";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/** エクスポート形式 */
+type ExportFormat = "svg" | "png" | "pdf";
+
+type ExportMenuProps = {
+  /** プロジェクトID */
+  projectId: string;
+  /** エディタのキャンバスサイズ（手書きレイヤーの位置合わせに使う） */
+  canvasSize: { width: number; height: number };
+};
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string }[] = [
+  { value: "svg", label: "SVG" },
+  { value: "png", label: "PNG" },
+  { value: "pdf", label: "PDF" },
+];
+
+const SCALE_OPTIONS = [1, 2, 3] as const;
+
+/**
+ * レスポンスヘッダーからダウンロード時のファイル名を取得
+ */
+function getFilename(response: Response, fallback: string): string {
+  const disposition = response.headers.get("Content-Disposition") ?? "";
+  const encoded = disposition.match(/filename\*=UTF-8''([^;]+)/)?.[1];
+  return encoded ? decodeURIComponent(encoded) : fallback;
+}
+
+/**
+ * エクスポートメニュー
+ * 最新または履歴のバージョンを SVG・PNG（倍率指定）・PDF としてダウンロードする
+ * 図はブラウザで描画したスナップショットを保存してから、サーバーのエクスポートAPIで変換する
+ */
+export default function ExportMenu({ projectId, canvasSize }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [versionId, setVersionId] = useState<number | null>(null);
+  const [format, setFormat] = useState<ExportFormat>("png");
+  const [scale, setScale] = useState<number>(2);
+  const [includeHandwriting, setIncludeHandwriting] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const { data: versions, isLoading } = trpc.diagram.getVersionHistory.useQuery(
+    { projectId },
+    { enabled: isOpen },
+  );
+  const saveExportSnapshot = trpc.diagram.saveExportSnapshot.useMutation();
+
+  // メニューの外側をクリックしたら閉じる
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClickOutside);
+    return () => document.removeEventListener("mousedown", handleClickOutside);
+  }, [isOpen]);
+
+  /**
+   * 選択したバージョンをエクスポートしてダウンロード
+   */
+  const handleExport = useCallback(async () => {
+    // 未選択の場合は最新バージョン（履歴は新しい順）
+    const version =
+      versions?.find((v) => v.id === versionId) ?? versions?.[0] ?? null;
+    if (!version) {
+      setError("エクスポートできるバージョンがありません");
+      return;
+    }
+
+    setIsExporting(true);
+    setError(null);
+    try {
+      // ブラウザで描画したSVGをサーバーに保存
+      const snapshot = await renderExportSnapshot(
+        version.mermaidCode,
+        canvasSize,
+      );
+      await saveExportSnapshot.mutateAsync({
+        versionId: version.id,
+        ...snapshot,
+      });
+
+      const params = new URLSearchParams({
+        format,
+        scale: String(scale),
+        handwriting: String(includeHandwriting),
+      });
+      const response = await fetch(`/api/export/${version.id}?${params}`);
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as {
+          error?: string;
+        } | null;
+        throw new Error(body?.error ?? "エクスポートに失敗しました");
+      }
+
+      // ダウンロード
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = getFilename(
+        response,
+        `diagram-v${version.versionNumber}.${format}`,
+      );
+      link.click();
+      URL.revokeObjectURL(url);
+      setIsOpen(false);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "エクスポートに失敗しました",
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  }, [
+    versions,
+    versionId,
+    canvasSize,
+    format,
+    scale,
+    includeHandwriting,
+    saveExportSnapshot,
+  ]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-3 py-1.5 text-xs rounded-lg flex items-center gap-1.5 transition-all ${
+          isOpen
+            ? "bg-rose-100 text-rose-700"
+            : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+        }`}
+      >
+        <span>📤</span>
+        エクスポート
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white border border-gray-200 rounded-xl shadow-xl z-50 p-4 space-y-4">
+          {/* バージョン */}
+          <div>
+            <label
+              htmlFor="export-version"
+              className="block text-xs font-medium text-gray-600 mb-1"
+            >
+              バージョン
+            </label>
+            <select
+              id="export-version"
+              value={versionId ?? ""}
+              onChange={(e) =>
+                setVersionId(e.target.value ? Number(e.target.value) : null)
+              }
+              disabled={isLoading}
+              className="w-full px-2 py-1.5 text-xs border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-rose-500"
+            >
+              <option value="">最新（保存済み）</option>
+              {versions?.map((version) => (
+                <option key={version.id} value={version.id}>
+                  v{version.versionNumber}
+                  {version.reason ? ` - ${version.reason.slice(0, 30)}` : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* 形式 */}
+          <div>
+            <span className="block text-xs font-medium text-gray-600 mb-1">
+              形式
+            </span>
+            <div className="flex gap-1">
+              {FORMAT_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setFormat(option.value)}
+                  className={`flex-1 px-2 py-1.5 text-xs rounded-lg transition-all ${
+                    format === option.value
+                      ? "bg-rose-100 text-rose-700 font-medium"
+                      : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* 解像度（PNG・PDFのみ） */}
+          {format !== "svg" && (
+            <div>
+              <span className="block text-xs font-medium text-gray-600 mb-1">
+                解像度
+              </span>
+              <div className="flex gap-1">
+                {SCALE_OPTIONS.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setScale(option)}
+                    className={`flex-1 px-2 py-1.5 text-xs rounded-lg transition-all ${
+                      scale === option
+                        ? "bg-rose-100 text-rose-700 font-medium"
+                        : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                    }`}
+                  >
+                    {option}x
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 手書きレイヤー */}
+          <label className="flex items-center gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={includeHandwriting}
+              onChange={(e) => setIncludeHandwriting(e.target.checked)}
+              className="rounded border-gray-300 text-rose-600 focus:ring-rose-500"
+            />
+            手書きレイヤーを含める
+          </label>
+
+          <p className="text-[11px] text-gray-400">
+            保存済みのバージョンが対象です。未保存の変更は含まれません。
+          </p>
+
+          {error && <p className="text-xs text-red-600">❌ {error}</p>}
+
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting || isLoading}
+            className="w-full px-3 py-2 text-xs font-medium text-white bg-rose-600 rounded-lg hover:bg-rose-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+          >
+            {isExporting ? "エクスポート中..." : "ダウンロード"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
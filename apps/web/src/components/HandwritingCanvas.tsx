@@ -1,19 +1,43 @@
 "use client";
 
+import type { EditHistoryControls } from "@/lib/hooks/useEditHistory";
+import {
+  STROKE_SHAPE_LABELS,
+  beautifyStroke,
+} from "@/lib/utils/strokeBeautify";
+import {
+  type PointerSample,
+  type StrokeInput,
+  appendStrokeInput,
+  getPointWidth,
+  getPointerSample,
+  hasPressure,
+  startStrokeInput,
+} from "@/lib/utils/strokeInput";
+import {
+  getStrokesBounds,
+  getStrokesHitByPoint,
+  getStrokesInPolygon,
+  getStrokesInRect,
+  translateStrokes,
+} from "@/lib/utils/strokeSelection";
+import type { StrokeShapeKind } from "@/server/db/schema";
 import type Konva from "konva";
 import {
   forwardRef,
   useCallback,
   useEffect,
   useImperativeHandle,
+  useMemo,
   useRef,
   useState,
 } from "react";
-import { Layer, Line, Stage } from "react-konva";
+import { Circle, Layer, Line, Rect, Shape, Stage } from "react-konva";
 
 /**
  * ストロークデータの型定義
  * 各ストロークは座標の配列と色、太さを持つ
+ * Pointer Eventsで入力した場合は点ごとの筆圧・傾き・時刻も持つ（古いデータにはない）
  */
 export type Stroke = {
   /** ストロークのユニークID */
@@ -24,6 +48,18 @@ export type Stroke = {
   color: string;
   /** ストロークの太さ */
   strokeWidth: number;
+  /** 入力デバイス */
+  pointerType?: "mouse" | "pen" | "touch";
+  /** 描き始めの時刻（UNIXミリ秒） */
+  startedAt?: number;
+  /** 点ごとの時刻（描き始めからのミリ秒） */
+  timestamps?: number[];
+  /** 点ごとの筆圧（0〜1、ペン入力のみ） */
+  pressures?: number[];
+  /** 点ごとの傾き [tiltX1, tiltY1, tiltX2, tiltY2, ...]（度、ペン入力のみ） */
+  tilts?: number[];
+  /** 整形モードで認識した図形の種類（pointsは整形後の図形） */
+  shape?: StrokeShapeKind;
 };
 
 /**
@@ -38,6 +74,27 @@ export type ViewTransform = {
   y: number;
 };
 
+/**
+ * キャンバスの操作ツール
+ * - pen: 手書き
+ * - eraser: 触れたストロークを丸ごと削除
+ * - lasso: 投げ縄で囲んで選択
+ * - rectangle: 矩形で囲んで選択
+ */
+export type CanvasTool = "pen" | "eraser" | "lasso" | "rectangle";
+
+/**
+ * ストロークの変更の種類（Undo/Redoの履歴に使う）
+ */
+export type StrokeChangeKind =
+  | "draw"
+  | "erase"
+  | "move"
+  | "recolor"
+  | "delete"
+  | "clear"
+  | "replace";
+
 /**
  * HandwritingCanvasのref経由で呼び出せるメソッド
  */
@@ -69,12 +126,14 @@ type HandwritingCanvasProps = {
   initialStrokes?: Stroke[];
   /** ストロークが追加されたときのコールバック */
   onStrokeComplete?: (stroke: Stroke) => void;
-  /** ストロークデータが更新されたときのコールバック */
-  onStrokesChange?: (strokes: Stroke[]) => void;
+  /** ストロークデータが更新されたときのコールバック（変更の種類付き） */
+  onStrokesChange?: (strokes: Stroke[], kind: StrokeChangeKind) => void;
   /** ビュー変換が変更されたときのコールバック */
   onViewTransformChange?: (transform: ViewTransform) => void;
   /** 外部から制御するビュー変換 */
   viewTransform?: ViewTransform;
+  /** 編集履歴のUndo/Redo（指定しない場合は「戻す」で最後のストロークを削除） */
+  history?: EditHistoryControls;
 };
 
 /** ズームの最小・最大値 */
@@ -82,6 +141,59 @@ const MIN_SCALE = 0.25;
 const MAX_SCALE = 4;
 /** ズーム時のステップ倍率 */
 const ZOOM_STEP = 1.15;
+/** 消しゴムの半径（画面上のピクセル） */
+const ERASER_RADIUS = 10;
+/** 選択範囲をドラッグで移動できる余白（画面上のピクセル） */
+const SELECTION_PADDING = 8;
+
+/** ツールの切り替えボタン */
+const TOOL_OPTIONS: { tool: CanvasTool; icon: string; label: string }[] = [
+  { tool: "pen", icon: "✏️", label: "ペン" },
+  { tool: "eraser", icon: "🩹", label: "消しゴム" },
+  { tool: "lasso", icon: "➰", label: "投げ縄で選択" },
+  { tool: "rectangle", icon: "⬚", label: "矩形で選択" },
+];
+
+/** 選択したストロークの色の候補 */
+const STROKE_COLOR_OPTIONS = [
+  "#1a1a2e",
+  "#7c3aed",
+  "#2563eb",
+  "#16a34a",
+  "#dc2626",
+];
+
+/** ポインター操作の種類 */
+type PointerAction = "draw" | "erase" | "select" | "move";
+
+/** 画面上のポインターの位置 */
+type ClientPoint = { clientX: number; clientY: number };
+
+/**
+ * 筆圧に応じて線分ごとに太さを変えてストロークを描画（KonvaのShape用）
+ */
+function drawPressureStroke(
+  context: Konva.Context,
+  stroke: Pick<Stroke, "points" | "color" | "strokeWidth" | "pressures">,
+) {
+  const { points } = stroke;
+  const count = Math.floor(points.length / 2);
+  context.setAttr("strokeStyle", stroke.color);
+  context.setAttr("lineCap", "round");
+  context.setAttr("lineJoin", "round");
+
+  for (let i = 0; i < Math.max(count - 1, 1); i++) {
+    const next = Math.min(i + 1, count - 1);
+    context.beginPath();
+    context.moveTo(points[i * 2] ?? 0, points[i * 2 + 1] ?? 0);
+    context.lineTo(points[next * 2] ?? 0, points[next * 2 + 1] ?? 0);
+    context.setAttr(
+      "lineWidth",
+      (getPointWidth(stroke, i) + getPointWidth(stroke, next)) / 2,
+    );
+    context.stroke();
+  }
+}
 
 /**
  * 手書き入力用のCanvasコンポーネント
@@ -102,23 +214,59 @@ const HandwritingCanvas = forwardRef<
     onStrokesChange,
     onViewTransformChange,
     viewTransform: externalViewTransform,
+    history,
   },
   ref,
 ) {
-  // 描画中のストローク
-  const [currentStroke, setCurrentStroke] = useState<number[]>([]);
+  // 描画中のストローク（点ごとの筆圧・傾き・時刻を含む）
+  const [currentStroke, setCurrentStroke] = useState<StrokeInput | null>(null);
   // 完了したストローク一覧
   const [strokes, setStrokes] = useState<Stroke[]>(initialStrokes);
-  // 描画中フラグ
-  const isDrawing = useRef(false);
+  // 選択中のツール
+  const [tool, setTool] = useState<CanvasTool>("pen");
+  // ペンのみで描画するモード（指のタッチはパン・ズーム専用）
+  const [penOnly, setPenOnly] = useState(false);
+  // 描き終えたストロークを図形に整形するモード
+  const [beautify, setBeautify] = useState(false);
+  // 直前に整形した図形（確認用の表示）
+  const [lastBeautified, setLastBeautified] = useState<StrokeShapeKind | null>(
+    null,
+  );
+  // 選択中のストロークID
+  const [selectedStrokeIds, setSelectedStrokeIds] = useState<string[]>([]);
+  // 選択範囲の軌跡（投げ縄: 軌跡、矩形: 対角の2点）
+  const [selectionPath, setSelectionPath] = useState<number[]>([]);
+  // 選択中のストロークの移動量（ドラッグ中のみ）
+  const [moveOffset, setMoveOffset] = useState<{
+    x: number;
+    y: number;
+  } | null>(null);
+  // 消しゴムの位置（消している間のみ）
+  const [eraserPosition, setEraserPosition] = useState<{
+    x: number;
+    y: number;
+  } | null>(null);
+  // 実行中のポインター操作（描画・消去・選択・移動）
+  const activeAction = useRef<PointerAction | null>(null);
+  // 移動の開始位置
+  const moveStart = useRef<{ x: number; y: number } | null>(null);
+  // 消しゴムでストロークを消したかどうか
+  const hasErased = useRef(false);
   // パン中フラグ
   const isPanning = useRef(false);
   // スペースキー押下中フラグ
   const isSpacePressed = useRef(false);
-  // タッチ中フラグ（範囲選択を防ぐため）
-  const isTouching = useRef(false);
-  // 最後のタッチ位置（パン用）
-  const lastTouchPos = useRef<{ x: number; y: number } | null>(null);
+  // 画面に触れているポインター（ピンチズーム・パームリジェクション用）
+  const activePointers = useRef(
+    new Map<number, ClientPoint & { pointerType: string }>(),
+  );
+  // 描画などの操作中のポインター
+  const drawingPointerId = useRef<number | null>(null);
+  // 画面に触れているペン（ペンの入力中はタッチを無視する）
+  const penPointerId = useRef<number | null>(null);
+  // パン中のポインターと最後の位置
+  const panPointerId = useRef<number | null>(null);
+  const lastPanPos = useRef<ClientPoint | null>(null);
   // ピンチズーム用の状態
   const pinchState = useRef<{
     initialDistance: number;
@@ -156,6 +304,7 @@ const HandwritingCanvas = forwardRef<
   // 初期ストロークが変更されたら反映
   useEffect(() => {
     setStrokes(initialStrokes);
+    setSelectedStrokeIds([]);
   }, [initialStrokes]);
 
   // キャンバスサイズが変更されたときにviewTransformをリセット
@@ -203,12 +352,13 @@ const HandwritingCanvas = forwardRef<
       getStrokes: () => strokes,
       setStrokes: (newStrokes: Stroke[]) => {
         setStrokes(newStrokes);
-        onStrokesChange?.(newStrokes);
+        onStrokesChange?.(newStrokes, "replace");
       },
       clearStrokes: () => {
         setStrokes([]);
-        setCurrentStroke([]);
-        onStrokesChange?.([]);
+        setCurrentStroke(null);
+        setSelectedStrokeIds([]);
+        onStrokesChange?.([], "clear");
       },
       toDataURL: () => {
         if (!stageRef.current) return null;
@@ -232,26 +382,39 @@ const HandwritingCanvas = forwardRef<
 
   /**
    * ポインター座標をキャンバス座標に変換（ズーム・パン考慮）
+   * 複数のポインターを扱うため、ステージではなくイベントの座標から計算する
    */
-  const getTransformedPointerPosition = useCallback(
-    (stage: Konva.Stage): { x: number; y: number } | null => {
-      const pos = stage.getPointerPosition();
-      if (!pos) return null;
+  const getCanvasPosition = useCallback(
+    (point: ClientPoint): { x: number; y: number } => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      const x = point.clientX - (rect?.left ?? 0);
+      const y = point.clientY - (rect?.top ?? 0);
 
       // ズーム・パンを考慮して座標を変換
       return {
-        x: (pos.x - viewTransform.x) / viewTransform.scale,
-        y: (pos.y - viewTransform.y) / viewTransform.scale,
+        x: (x - viewTransform.x) / viewTransform.scale,
+        y: (y - viewTransform.y) / viewTransform.scale,
       };
     },
     [viewTransform],
   );
 
+  /**
+   * 画面に触れている指（タッチのポインター）を取得
+   */
+  const getActiveTouches = useCallback(
+    () =>
+      [...activePointers.current.values()].filter(
+        (pointer) => pointer.pointerType === "touch",
+      ),
+    [],
+  );
+
   /**
    * 2本指の距離を計算
    */
   const getTouchDistance = useCallback(
-    (touch1: Touch, touch2: Touch): number => {
+    (touch1: ClientPoint, touch2: ClientPoint): number => {
       const dx = touch2.clientX - touch1.clientX;
       const dy = touch2.clientY - touch1.clientY;
       return Math.sqrt(dx * dx + dy * dy);
@@ -263,7 +426,7 @@ const HandwritingCanvas = forwardRef<
    * 2本指の中点を計算
    */
   const getTouchCenter = useCallback(
-    (touch1: Touch, touch2: Touch): { x: number; y: number } => {
+    (touch1: ClientPoint, touch2: ClientPoint): { x: number; y: number } => {
       return {
         x: (touch1.clientX + touch2.clientX) / 2,
         y: (touch1.clientY + touch2.clientY) / 2,
@@ -272,153 +435,325 @@ const HandwritingCanvas = forwardRef<
     [],
   );
 
+  // 選択中のストローク（消されたストロークのIDは含めない）
+  const selectedIdSet = useMemo(
+    () => new Set(selectedStrokeIds),
+    [selectedStrokeIds],
+  );
+  const selectedStrokes = useMemo(
+    () => strokes.filter((stroke) => selectedIdSet.has(stroke.id)),
+    [strokes, selectedIdSet],
+  );
+  const selectionBounds = useMemo(
+    () => getStrokesBounds(selectedStrokes),
+    [selectedStrokes],
+  );
+
   /**
-   * 描画開始（マウス）
+   * 消しゴムが触れたストロークを削除
+   * 変更の通知は消し終わったときにまとめて行う
    */
-  const handleMouseDown = useCallback(
-    (e: Konva.KonvaEventObject<MouseEvent>) => {
-      const stage = e.target.getStage();
-      if (!stage) return;
+  const eraseAt = useCallback(
+    (pos: { x: number; y: number }) => {
+      setEraserPosition(pos);
+      const hitIds = getStrokesHitByPoint(
+        strokes,
+        pos.x,
+        pos.y,
+        ERASER_RADIUS / viewTransform.scale,
+      );
+      if (hitIds.length === 0) return;
+      hasErased.current = true;
+      setStrokes((prev) =>
+        prev.filter((stroke) => !hitIds.includes(stroke.id)),
+      );
+    },
+    [strokes, viewTransform.scale],
+  );
 
-      // ミドルクリックまたはスペース押下中はパンモード
-      const nativeEvent = e.evt as MouseEvent;
-      if (nativeEvent.button === 1 || isSpacePressed.current) {
-        isPanning.current = true;
-        if (containerRef.current) {
-          containerRef.current.style.cursor = "grabbing";
-        }
+  /**
+   * ポインター操作の開始（マウス・ペン・タッチ共通）
+   * ツールに応じて描画・消去・選択・移動を始める
+   */
+  const startAction = useCallback(
+    (pos: { x: number; y: number }, sample?: PointerSample) => {
+      if (tool === "pen") {
+        activeAction.current = "draw";
+        setCurrentStroke(startStrokeInput(pos.x, pos.y, sample));
+        return;
+      }
+
+      if (tool === "eraser") {
+        activeAction.current = "erase";
+        hasErased.current = false;
+        eraseAt(pos);
         return;
       }
 
-      // 通常の描画
-      isDrawing.current = true;
-      const pos = getTransformedPointerPosition(stage);
-      if (pos) {
-        setCurrentStroke([pos.x, pos.y]);
+      // 選択範囲の内側からドラッグした場合は移動
+      const padding = SELECTION_PADDING / viewTransform.scale;
+      if (
+        selectionBounds &&
+        pos.x >= selectionBounds.x - padding &&
+        pos.x <= selectionBounds.x + selectionBounds.width + padding &&
+        pos.y >= selectionBounds.y - padding &&
+        pos.y <= selectionBounds.y + selectionBounds.height + padding
+      ) {
+        activeAction.current = "move";
+        moveStart.current = pos;
+        setMoveOffset({ x: 0, y: 0 });
+        return;
       }
+
+      // 外側からドラッグした場合は選択し直す
+      activeAction.current = "select";
+      setSelectedStrokeIds([]);
+      setSelectionPath(
+        tool === "lasso" ? [pos.x, pos.y] : [pos.x, pos.y, pos.x, pos.y],
+      );
     },
-    [getTransformedPointerPosition],
+    [tool, eraseAt, selectionBounds, viewTransform.scale],
   );
 
   /**
-   * タッチ開始（タッチデバイス専用）
-   * 範囲選択などのデフォルト動作を防ぐ
+   * ポインター操作の継続（マウス・ペン・タッチ共通）
    */
-  const handleTouchStart = useCallback(
-    (e: Konva.KonvaEventObject<TouchEvent>) => {
-      // デフォルト動作を防ぐ（範囲選択など）
-      e.evt.preventDefault();
-
-      const stage = e.target.getStage();
-      if (!stage) return;
-
-      // タッチ中フラグを設定
-      isTouching.current = true;
-
-      // 2本指の場合はピンチズームモード
-      if (e.evt.touches.length === 2) {
-        const touch1 = e.evt.touches[0];
-        const touch2 = e.evt.touches[1];
-        if (!touch1 || !touch2) return;
-
-        // 描画を中断
-        if (isDrawing.current) {
-          isDrawing.current = false;
-          setCurrentStroke([]);
+  const continueAction = useCallback(
+    (pos: { x: number; y: number }, sample?: PointerSample) => {
+      switch (activeAction.current) {
+        case "draw":
+          setCurrentStroke(
+            (prev) => prev && appendStrokeInput(prev, pos.x, pos.y, sample),
+          );
+          return;
+        case "erase":
+          eraseAt(pos);
+          return;
+        case "move": {
+          const start = moveStart.current;
+          if (start) {
+            setMoveOffset({ x: pos.x - start.x, y: pos.y - start.y });
+          }
+          return;
         }
+        case "select":
+          setSelectionPath((prev) =>
+            tool === "lasso"
+              ? [...prev, pos.x, pos.y]
+              : [prev[0] ?? pos.x, prev[1] ?? pos.y, pos.x, pos.y],
+          );
+          return;
+      }
+    },
+    [eraseAt, tool],
+  );
 
-        // ピンチズームの初期状態を記録
-        const distance = getTouchDistance(touch1, touch2);
-        const center = getTouchCenter(touch1, touch2);
-
-        pinchState.current = {
-          initialDistance: distance,
-          initialScale: viewTransform.scale,
-          initialCenter: center,
-          initialTransform: { ...viewTransform },
-        };
+  /**
+   * ポインター操作の終了（マウス・ペン・タッチ共通）
+   * 描画・消去・移動の結果を確定して通知する
+   */
+  const finishAction = useCallback(() => {
+    const action = activeAction.current;
+    activeAction.current = null;
+
+    switch (action) {
+      case "draw": {
+        if (currentStroke && currentStroke.points.length >= 4) {
+          const drawnStroke: Stroke = {
+            id: generateId(),
+            color: strokeColor,
+            strokeWidth,
+            ...currentStroke,
+          };
+          // 整形モードでは図形として認識できたストロークを整形する
+          const beautified = beautify ? beautifyStroke(drawnStroke) : null;
+          const newStroke = beautified ?? drawnStroke;
+          setLastBeautified(beautified?.shape ?? null);
+
+          const updatedStrokes = [...strokes, newStroke];
+          setStrokes(updatedStrokes);
+
+          // コールバックを呼び出し
+          onStrokeComplete?.(newStroke);
+          onStrokesChange?.(updatedStrokes, "draw");
+        }
+        setCurrentStroke(null);
         return;
       }
-
-      // 1本指の場合は描画
-      if (e.evt.touches.length === 1) {
-        // ピンチズームを終了
-        pinchState.current = null;
-
-        // 描画開始
-        isDrawing.current = true;
-        const pos = getTransformedPointerPosition(stage);
-        if (pos) {
-          setCurrentStroke([pos.x, pos.y]);
-          const touch = e.evt.touches[0];
-          if (touch) {
-            lastTouchPos.current = { x: touch.clientX, y: touch.clientY };
-          }
+      case "erase":
+        setEraserPosition(null);
+        if (hasErased.current) {
+          hasErased.current = false;
+          onStrokesChange?.(strokes, "erase");
         }
+        return;
+      case "move": {
+        if (moveOffset && (moveOffset.x !== 0 || moveOffset.y !== 0)) {
+          const updatedStrokes = translateStrokes(
+            strokes,
+            selectedIdSet,
+            moveOffset.x,
+            moveOffset.y,
+          );
+          setStrokes(updatedStrokes);
+          onStrokesChange?.(updatedStrokes, "move");
+        }
+        moveStart.current = null;
+        setMoveOffset(null);
+        return;
       }
-    },
-    [
-      getTransformedPointerPosition,
-      getTouchDistance,
-      getTouchCenter,
-      viewTransform,
-    ],
-  );
+      case "select":
+        setSelectedStrokeIds(
+          tool === "lasso"
+            ? getStrokesInPolygon(strokes, selectionPath)
+            : getStrokesInRect(strokes, selectionPath),
+        );
+        setSelectionPath([]);
+        return;
+    }
+  }, [
+    currentStroke,
+    strokeColor,
+    strokeWidth,
+    beautify,
+    strokes,
+    moveOffset,
+    selectedIdSet,
+    selectionPath,
+    tool,
+    onStrokeComplete,
+    onStrokesChange,
+    generateId,
+  ]);
 
   /**
-   * 描画中 / パン中（マウス）
+   * 実行中の操作を中断
+   * 描画中のストロークは破棄し、それ以外の操作はその時点で確定する
    */
-  const handleMouseMove = useCallback(
-    (e: Konva.KonvaEventObject<MouseEvent>) => {
-      const stage = e.target.getStage();
-      if (!stage) return;
+  const interruptAction = useCallback(() => {
+    if (activeAction.current === "draw") {
+      activeAction.current = null;
+      setCurrentStroke(null);
+    } else {
+      finishAction();
+    }
+    drawingPointerId.current = null;
+  }, [finishAction]);
 
-      // パンモード
-      if (isPanning.current) {
-        const nativeEvent = e.evt as MouseEvent;
-        let movementX = 0;
-        let movementY = 0;
+  /**
+   * パンを開始
+   */
+  const startPan = useCallback((evt: PointerEvent) => {
+    isPanning.current = true;
+    panPointerId.current = evt.pointerId;
+    lastPanPos.current = { clientX: evt.clientX, clientY: evt.clientY };
+    if (evt.pointerType === "mouse" && containerRef.current) {
+      containerRef.current.style.cursor = "grabbing";
+    }
+  }, []);
+
+  /**
+   * ポインター開始（マウス・ペン・タッチ共通）
+   * タッチは2本指でピンチズーム、ペンのみモードでは1本指でパン
+   * ペンの入力中に触れた手のひら（タッチ）は無視する
+   */
+  const handlePointerDown = useCallback(
+    (e: Konva.KonvaEventObject<PointerEvent>) => {
+      const evt = e.evt;
+      // デフォルト動作を防ぐ（範囲選択など）
+      evt.preventDefault();
+      activePointers.current.set(evt.pointerId, {
+        clientX: evt.clientX,
+        clientY: evt.clientY,
+        pointerType: evt.pointerType,
+      });
 
-        if ("movementX" in nativeEvent) {
-          movementX = nativeEvent.movementX;
-          movementY = nativeEvent.movementY;
+      if (evt.pointerType === "touch") {
+        // ペンの入力中に触れた手のひらは無視（パームリジェクション）
+        if (penPointerId.current !== null) return;
+
+        const touches = getActiveTouches();
+        // 2本指の場合はピンチズームモード
+        if (touches.length === 2) {
+          const [touch1, touch2] = touches;
+          if (!touch1 || !touch2) return;
+
+          interruptAction();
+          isPanning.current = false;
+          panPointerId.current = null;
+
+          // ピンチズームの初期状態を記録
+          pinchState.current = {
+            initialDistance: getTouchDistance(touch1, touch2),
+            initialScale: viewTransform.scale,
+            initialCenter: getTouchCenter(touch1, touch2),
+            initialTransform: { ...viewTransform },
+          };
+          return;
         }
+        if (touches.length > 2 || pinchState.current) return;
 
-        updateViewTransform({
-          ...viewTransform,
-          x: viewTransform.x + movementX,
-          y: viewTransform.y + movementY,
-        });
+        // ペンのみモードでは1本指でパン
+        if (penOnly) {
+          startPan(evt);
+          return;
+        }
+      } else if (evt.pointerType === "pen") {
+        penPointerId.current = evt.pointerId;
+        // 先に手のひらが触れて始まった操作は取り消す
+        const drawingPointer =
+          drawingPointerId.current !== null
+            ? activePointers.current.get(drawingPointerId.current)
+            : undefined;
+        if (drawingPointer?.pointerType === "touch") {
+          interruptAction();
+        }
+      } else if (evt.button === 1 || isSpacePressed.current) {
+        // ミドルクリックまたはスペース押下中はパンモード
+        startPan(evt);
         return;
       }
 
-      // 描画モード
-      if (!isDrawing.current) return;
+      // 他のポインターで操作中の場合は無視
+      if (drawingPointerId.current !== null) return;
 
-      const pos = getTransformedPointerPosition(stage);
-      if (pos) {
-        setCurrentStroke((prev) => [...prev, pos.x, pos.y]);
-      }
+      // キャンバスの外に出ても操作を続けられるようにする
+      (evt.target as Element | null)?.setPointerCapture?.(evt.pointerId);
+
+      // ツールに応じた操作を開始
+      drawingPointerId.current = evt.pointerId;
+      startAction(getCanvasPosition(evt), getPointerSample(evt));
     },
-    [getTransformedPointerPosition, viewTransform, updateViewTransform],
+    [
+      getActiveTouches,
+      getTouchDistance,
+      getTouchCenter,
+      getCanvasPosition,
+      interruptAction,
+      startPan,
+      startAction,
+      penOnly,
+      viewTransform,
+    ],
   );
 
   /**
-   * タッチ移動（タッチデバイス専用）
-   * 範囲選択などのデフォルト動作を防ぐ
+   * ポインター移動（マウス・ペン・タッチ共通）
+   * ピンチズーム・パン・ツールに応じた操作を行う
    */
-  const handleTouchMove = useCallback(
-    (e: Konva.KonvaEventObject<TouchEvent>) => {
-      // デフォルト動作を防ぐ（範囲選択、スクロールなど）
-      e.evt.preventDefault();
-
-      const stage = e.target.getStage();
-      if (!stage) return;
+  const handlePointerMove = useCallback(
+    (e: Konva.KonvaEventObject<PointerEvent>) => {
+      const evt = e.evt;
+      const pointer = activePointers.current.get(evt.pointerId);
+      if (pointer) {
+        pointer.clientX = evt.clientX;
+        pointer.clientY = evt.clientY;
+      }
 
       // 2本指の場合はピンチズーム
-      if (e.evt.touches.length === 2 && pinchState.current) {
-        const touch1 = e.evt.touches[0];
-        const touch2 = e.evt.touches[1];
+      if (pinchState.current) {
+        if (evt.pointerType !== "touch") return;
+        const [touch1, touch2] = getActiveTouches();
         if (!touch1 || !touch2) return;
 
         const currentDistance = getTouchDistance(touch1, touch2);
@@ -473,142 +808,145 @@ const HandwritingCanvas = forwardRef<
         return;
       }
 
-      // 1本指の場合は描画
-      if (e.evt.touches.length === 1 && isDrawing.current) {
-        const touch = e.evt.touches[0];
-        if (!touch) return;
+      // パンモード
+      if (isPanning.current) {
+        const last = lastPanPos.current;
+        if (evt.pointerId !== panPointerId.current || !last) return;
+        lastPanPos.current = { clientX: evt.clientX, clientY: evt.clientY };
+        updateViewTransform({
+          ...viewTransform,
+          x: viewTransform.x + evt.clientX - last.clientX,
+          y: viewTransform.y + evt.clientY - last.clientY,
+        });
+        return;
+      }
+
+      // ツールに応じた操作
+      if (!activeAction.current || evt.pointerId !== drawingPointerId.current) {
+        return;
+      }
 
-        const pos = getTransformedPointerPosition(stage);
-        if (pos) {
-          setCurrentStroke((prev) => [...prev, pos.x, pos.y]);
-          lastTouchPos.current = { x: touch.clientX, y: touch.clientY };
-        }
+      // まとめて届いた中間の点も記録する（ペンの細かい動きを拾うため）
+      const coalesced = evt.getCoalescedEvents?.() ?? [];
+      for (const event of coalesced.length > 0 ? coalesced : [evt]) {
+        continueAction(getCanvasPosition(event), getPointerSample(event));
       }
     },
     [
-      getTransformedPointerPosition,
+      getActiveTouches,
       getTouchDistance,
       getTouchCenter,
+      getCanvasPosition,
       updateViewTransform,
+      viewTransform,
+      continueAction,
     ],
   );
 
   /**
-   * 描画終了 / パン終了（マウス）
+   * ポインター終了（マウス・ペン・タッチ共通）
    */
-  const handleMouseUp = useCallback(() => {
-    // パン終了
-    if (isPanning.current) {
-      isPanning.current = false;
-      if (containerRef.current) {
-        containerRef.current.style.cursor = isSpacePressed.current
-          ? "grab"
-          : "crosshair";
+  const handlePointerUp = useCallback(
+    (e: Konva.KonvaEventObject<PointerEvent>) => {
+      const evt = e.evt;
+      activePointers.current.delete(evt.pointerId);
+      if (evt.pointerId === penPointerId.current) {
+        penPointerId.current = null;
       }
-      return;
-    }
 
-    // 描画終了
-    if (!isDrawing.current) return;
-    isDrawing.current = false;
+      // ピンチズーム終了（残った指は離すまで操作しない）
+      if (pinchState.current) {
+        if (getActiveTouches().length < 2) {
+          pinchState.current = null;
+        }
+        return;
+      }
 
-    if (currentStroke.length >= 4) {
-      const newStroke: Stroke = {
-        id: generateId(),
-        points: currentStroke,
-        color: strokeColor,
-        strokeWidth,
-      };
+      // パン終了
+      if (isPanning.current && evt.pointerId === panPointerId.current) {
+        isPanning.current = false;
+        panPointerId.current = null;
+        lastPanPos.current = null;
+        if (containerRef.current) {
+          containerRef.current.style.cursor = isSpacePressed.current
+            ? "grab"
+            : "crosshair";
+        }
+        return;
+      }
 
-      const updatedStrokes = [...strokes, newStroke];
-      setStrokes(updatedStrokes);
+      // 操作を確定
+      if (evt.pointerId === drawingPointerId.current) {
+        drawingPointerId.current = null;
+        finishAction();
+      }
+    },
+    [getActiveTouches, finishAction],
+  );
 
-      // コールバックを呼び出し
-      onStrokeComplete?.(newStroke);
-      onStrokesChange?.(updatedStrokes);
+  /**
+   * ツールを切り替え
+   * ペン・消しゴムに切り替えた場合は選択を解除する
+   */
+  const handleToolChange = useCallback((nextTool: CanvasTool) => {
+    setTool(nextTool);
+    if (nextTool === "pen" || nextTool === "eraser") {
+      setSelectedStrokeIds([]);
     }
+  }, []);
 
-    setCurrentStroke([]);
-  }, [
-    currentStroke,
-    strokeColor,
-    strokeWidth,
-    strokes,
-    onStrokeComplete,
-    onStrokesChange,
-    generateId,
-  ]);
+  /**
+   * 選択中のストロークを削除
+   */
+  const deleteSelectedStrokes = useCallback(() => {
+    if (selectedStrokes.length === 0) return;
+    const updatedStrokes = strokes.filter(
+      (stroke) => !selectedIdSet.has(stroke.id),
+    );
+    setStrokes(updatedStrokes);
+    setSelectedStrokeIds([]);
+    onStrokesChange?.(updatedStrokes, "delete");
+  }, [strokes, selectedStrokes, selectedIdSet, onStrokesChange]);
 
   /**
-   * タッチ終了（タッチデバイス専用）
-   * 範囲選択などのデフォルト動作を防ぐ
+   * 選択中のストロークの色を変更
    */
-  const handleTouchEnd = useCallback(
-    (e: Konva.KonvaEventObject<TouchEvent>) => {
-      // デフォルト動作を防ぐ
-      e.evt.preventDefault();
+  const recolorSelectedStrokes = useCallback(
+    (color: string) => {
+      if (selectedStrokes.length === 0) return;
+      const updatedStrokes = strokes.map((stroke) =>
+        selectedIdSet.has(stroke.id) ? { ...stroke, color } : stroke,
+      );
+      setStrokes(updatedStrokes);
+      onStrokesChange?.(updatedStrokes, "recolor");
+    },
+    [strokes, selectedStrokes, selectedIdSet, onStrokesChange],
+  );
 
-      // 2本指から1本指になった場合、ピンチズームを終了
-      if (e.evt.touches.length === 1 && pinchState.current) {
-        pinchState.current = null;
-        // 1本指が残っている場合は描画モードに切り替え
-        const touch = e.evt.touches[0];
-        if (touch) {
-          const stage = e.target.getStage();
-          if (stage) {
-            isDrawing.current = true;
-            const pos = getTransformedPointerPosition(stage);
-            if (pos) {
-              setCurrentStroke([pos.x, pos.y]);
-              lastTouchPos.current = { x: touch.clientX, y: touch.clientY };
-            }
-          }
-        }
+  // 選択中のストロークのキーボード操作（Delete: 削除、Escape: 選択解除）
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.isContentEditable)
+      ) {
         return;
       }
-
-      // 全てのタッチが終了した場合
-      if (e.evt.touches.length === 0) {
-        // タッチ中フラグを解除
-        isTouching.current = false;
-        lastTouchPos.current = null;
-        pinchState.current = null;
-
-        // 描画終了
-        if (isDrawing.current) {
-          isDrawing.current = false;
-
-          if (currentStroke.length >= 4) {
-            const newStroke: Stroke = {
-              id: generateId(),
-              points: currentStroke,
-              color: strokeColor,
-              strokeWidth,
-            };
-
-            const updatedStrokes = [...strokes, newStroke];
-            setStrokes(updatedStrokes);
-
-            // コールバックを呼び出し
-            onStrokeComplete?.(newStroke);
-            onStrokesChange?.(updatedStrokes);
-          }
-
-          setCurrentStroke([]);
-        }
+      if (e.key === "Delete" || e.key === "Backspace") {
+        if (selectedStrokeIds.length === 0) return;
+        e.preventDefault();
+        deleteSelectedStrokes();
+      } else if (e.key === "Escape") {
+        setSelectedStrokeIds([]);
       }
-    },
-    [
-      currentStroke,
-      strokeColor,
-      strokeWidth,
-      strokes,
-      onStrokeComplete,
-      onStrokesChange,
-      generateId,
-      getTransformedPointerPosition,
-    ],
-  );
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [selectedStrokeIds, deleteSelectedStrokes]);
 
   /**
    * ホイールでズーム
@@ -708,8 +1046,9 @@ const HandwritingCanvas = forwardRef<
    */
   const clearCanvas = useCallback(() => {
     setStrokes([]);
-    setCurrentStroke([]);
-    onStrokesChange?.([]);
+    setCurrentStroke(null);
+    setSelectedStrokeIds([]);
+    onStrokesChange?.([], "clear");
   }, [onStrokesChange]);
 
   /**
@@ -719,7 +1058,7 @@ const HandwritingCanvas = forwardRef<
     if (strokes.length === 0) return;
     const updatedStrokes = strokes.slice(0, -1);
     setStrokes(updatedStrokes);
-    onStrokesChange?.(updatedStrokes);
+    onStrokesChange?.(updatedStrokes, "delete");
   }, [strokes, onStrokesChange]);
 
   // ズーム倍率の表示用
@@ -739,17 +1078,102 @@ const HandwritingCanvas = forwardRef<
       }}
     >
       {/* ツールバー */}
-      <div className="absolute top-3 right-3 z-10 flex flex-col gap-2">
-        <div className="flex gap-2">
+      <div className="absolute top-3 right-3 z-10 flex flex-col items-end gap-2">
+        {/* ツールの切り替え */}
+        <div className="flex bg-white/90 backdrop-blur border border-gray-200 rounded-lg shadow-sm overflow-hidden">
+          {TOOL_OPTIONS.map((option) => (
+            <button
+              key={option.tool}
+              type="button"
+              onClick={() => handleToolChange(option.tool)}
+              className={`w-8 h-8 flex items-center justify-center text-sm transition-colors ${
+                tool === option.tool
+                  ? "bg-violet-100 text-violet-700"
+                  : "text-gray-600 hover:bg-gray-100"
+              }`}
+              title={option.label}
+              aria-pressed={tool === option.tool}
+            >
+              {option.icon}
+            </button>
+          ))}
           <button
             type="button"
-            onClick={undoLastStroke}
-            disabled={strokes.length === 0}
-            className="px-3 py-1.5 text-sm bg-white/90 backdrop-blur border border-gray-200 rounded-lg shadow-sm hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
-            title="元に戻す (Undo)"
+            onClick={() => setPenOnly((prev) => !prev)}
+            className={`px-2 h-8 flex items-center justify-center text-xs border-l border-gray-200 transition-colors ${
+              penOnly
+                ? "bg-violet-100 text-violet-700"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}
+            title="ペンのみで描画（指はパン・ズーム専用、手のひらの誤入力を防ぐ）"
+            aria-pressed={penOnly}
           >
-            ↶ 戻す
+            🖊 ペンのみ
           </button>
+          <button
+            type="button"
+            onClick={() => {
+              setBeautify((prev) => !prev);
+              setLastBeautified(null);
+            }}
+            className={`px-2 h-8 flex items-center justify-center text-xs border-l border-gray-200 transition-colors ${
+              beautify
+                ? "bg-violet-100 text-violet-700"
+                : "text-gray-600 hover:bg-gray-100"
+            }`}
+            title="描き終えた線を四角形・ひし形・楕円・線・矢印に整形"
+            aria-pressed={beautify}
+          >
+            ✨ 整形
+            {beautify && lastBeautified && (
+              <span className="ml-1 text-violet-500">
+                ({STROKE_SHAPE_LABELS[lastBeautified]})
+              </span>
+            )}
+          </button>
+        </div>
+
+        <div className="flex gap-2">
+          {history ? (
+            <>
+              <button
+                type="button"
+                onClick={history.onUndo}
+                disabled={!history.canUndo}
+                className="px-3 py-1.5 text-sm bg-white/90 backdrop-blur border border-gray-200 rounded-lg shadow-sm hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                title={
+                  history.undoLabel
+                    ? `元に戻す: ${history.undoLabel} (Ctrl+Z)`
+                    : "元に戻す (Ctrl+Z)"
+                }
+              >
+                ↶ 戻す
+              </button>
+              <button
+                type="button"
+                onClick={history.onRedo}
+                disabled={!history.canRedo}
+                className="px-3 py-1.5 text-sm bg-white/90 backdrop-blur border border-gray-200 rounded-lg shadow-sm hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                title={
+                  history.redoLabel
+                    ? `やり直す: ${history.redoLabel} (Ctrl+Shift+Z)`
+                    : "やり直す (Ctrl+Shift+Z)"
+                }
+              >
+                ↷ やり直す
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              onClick={undoLastStroke}
+              disabled={strokes.length === 0}
+              className="px-3 py-1.5 text-sm bg-white/90 backdrop-blur border border-gray-200 rounded-lg shadow-sm hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              title="元に戻す (Undo)"
+            >
+              ↶ 戻す
+            </button>
+          )}
           <button
             type="button"
             onClick={clearCanvas}
@@ -792,9 +1216,46 @@ const HandwritingCanvas = forwardRef<
         </div>
       </div>
 
-      {/* パン操作ヒント */}
+      {/* 選択中のストロークの操作 */}
+      {selectedStrokes.length > 0 && !moveOffset && (
+        <div className="absolute top-3 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 px-3 py-1.5 bg-white/90 backdrop-blur border border-gray-200 rounded-lg shadow-sm text-xs text-gray-600">
+          <span>{selectedStrokes.length} ストローク選択中</span>
+          <div className="flex items-center gap-1">
+            {STROKE_COLOR_OPTIONS.map((color) => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => recolorSelectedStrokes(color)}
+                className="w-4 h-4 rounded-full border border-white ring-1 ring-gray-300 hover:scale-110 transition-transform"
+                style={{ backgroundColor: color }}
+                title={`色を変更: ${color}`}
+              />
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={deleteSelectedStrokes}
+            className="px-2 py-0.5 rounded hover:bg-red-50 hover:text-red-600 transition-colors"
+            title="削除 (Delete)"
+          >
+            🗑 削除
+          </button>
+          <button
+            type="button"
+            onClick={() => setSelectedStrokeIds([])}
+            className="px-2 py-0.5 rounded hover:bg-gray-100 transition-colors"
+            title="選択を解除 (Escape)"
+          >
+            ✕
+          </button>
+        </div>
+      )}
+
+      {/* 操作ヒント */}
       <div className="absolute bottom-3 right-3 text-xs text-gray-400 bg-white/80 px-2 py-1 rounded">
-        🖱 ホイール: ズーム / Space+ドラッグ: 移動
+        {tool === "lasso" || tool === "rectangle"
+          ? "ドラッグ: 選択 / 選択範囲をドラッグ: 移動 / Delete: 削除"
+          : "🖱 ホイール: ズーム / Space+ドラッグ: 移動"}
       </div>
 
       {/* キャンバス */}
@@ -806,42 +1267,131 @@ const HandwritingCanvas = forwardRef<
         scaleY={viewTransform.scale}
         x={viewTransform.x}
         y={viewTransform.y}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
-        onTouchCancel={handleTouchEnd}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerUp}
         onWheel={handleWheel}
         className="cursor-crosshair"
         style={{ touchAction: "none" }}
       >
         <Layer>
-          {/* 完了したストローク */}
-          {strokes.map((stroke) => (
-            <Line
-              key={stroke.id}
-              points={stroke.points}
-              stroke={stroke.color}
-              strokeWidth={stroke.strokeWidth}
-              tension={0.5}
-              lineCap="round"
-              lineJoin="round"
-              globalCompositeOperation="source-over"
-            />
-          ))}
+          {/* 完了したストローク（選択中のストロークは移動量を反映） */}
+          {strokes.map((stroke) => {
+            const offset =
+              moveOffset && selectedIdSet.has(stroke.id) ? moveOffset : null;
+            // 筆圧のあるストロークは太さを変えて描画
+            if (hasPressure(stroke)) {
+              return (
+                <Shape
+                  key={stroke.id}
+                  x={offset?.x ?? 0}
+                  y={offset?.y ?? 0}
+                  sceneFunc={(context) => drawPressureStroke(context, stroke)}
+                  listening={false}
+                />
+              );
+            }
+            return (
+              <Line
+                key={stroke.id}
+                points={stroke.points}
+                x={offset?.x ?? 0}
+                y={offset?.y ?? 0}
+                stroke={stroke.color}
+                strokeWidth={stroke.strokeWidth}
+                tension={0.5}
+                lineCap="round"
+                lineJoin="round"
+                globalCompositeOperation="source-over"
+              />
+            );
+          })}
           {/* 描画中のストローク */}
-          {currentStroke.length >= 4 && (
+          {currentStroke &&
+            currentStroke.points.length >= 4 &&
+            hasPressure(currentStroke) && (
+              <Shape
+                sceneFunc={(context) =>
+                  drawPressureStroke(context, {
+                    ...currentStroke,
+                    color: strokeColor,
+                    strokeWidth,
+                  })
+                }
+                listening={false}
+              />
+            )}
+          {currentStroke &&
+            currentStroke.points.length >= 4 &&
+            !hasPressure(currentStroke) && (
+              <Line
+                points={currentStroke.points}
+                stroke={strokeColor}
+                strokeWidth={strokeWidth}
+                tension={0.5}
+                lineCap="round"
+                lineJoin="round"
+                globalCompositeOperation="source-over"
+              />
+            )}
+          {/* 選択中のストロークの範囲 */}
+          {selectionBounds && (
+            <Rect
+              x={selectionBounds.x + (moveOffset?.x ?? 0)}
+              y={selectionBounds.y + (moveOffset?.y ?? 0)}
+              width={selectionBounds.width}
+              height={selectionBounds.height}
+              stroke="#7c3aed"
+              strokeWidth={1}
+              dash={[6, 4]}
+              strokeScaleEnabled={false}
+              listening={false}
+            />
+          )}
+          {/* 投げ縄の軌跡 */}
+          {tool === "lasso" && selectionPath.length >= 4 && (
             <Line
-              points={currentStroke}
-              stroke={strokeColor}
-              strokeWidth={strokeWidth}
-              tension={0.5}
-              lineCap="round"
-              lineJoin="round"
-              globalCompositeOperation="source-over"
+              points={selectionPath}
+              closed
+              stroke="#7c3aed"
+              strokeWidth={1}
+              dash={[6, 4]}
+              fill="rgba(124, 58, 237, 0.08)"
+              strokeScaleEnabled={false}
+              listening={false}
+            />
+          )}
+          {/* 選択中の矩形 */}
+          {tool === "rectangle" && selectionPath.length === 4 && (
+            <Rect
+              x={Math.min(selectionPath[0] ?? 0, selectionPath[2] ?? 0)}
+              y={Math.min(selectionPath[1] ?? 0, selectionPath[3] ?? 0)}
+              width={Math.abs(
+                (selectionPath[2] ?? 0) - (selectionPath[0] ?? 0),
+              )}
+              height={Math.abs(
+                (selectionPath[3] ?? 0) - (selectionPath[1] ?? 0),
+              )}
+              stroke="#7c3aed"
+              strokeWidth={1}
+              dash={[6, 4]}
+              fill="rgba(124, 58, 237, 0.08)"
+              strokeScaleEnabled={false}
+              listening={false}
+            />
+          )}
+          {/* 消しゴムの範囲 */}
+          {eraserPosition && (
+            <Circle
+              x={eraserPosition.x}
+              y={eraserPosition.y}
+              radius={ERASER_RADIUS / viewTransform.scale}
+              stroke="#9ca3af"
+              strokeWidth={1}
+              strokeScaleEnabled={false}
+              listening={false}
             />
           )}
         </Layer>
@@ -1,80 +1,147 @@
 "use client";
 
+import {
+  extractEdgePositions,
+  extractNodePositions,
+} from "@/lib/utils/mermaidPositions";
 import mermaid from "mermaid";
 import { useEffect, useRef, useState } from "react";
 
+/** ハイライトの種類 */
+export type HighlightKind = "added" | "removed" | "changed";
+
+/** ダイアグラム上でハイライトする要素 */
+export type DiagramHighlights = {
+  nodes: Array<{ id: string; kind: HighlightKind }>;
+  edges: Array<{ source: string; target: string; kind: HighlightKind }>;
+};
+
+/** ハイライトの色（追加: 緑、削除: 赤、変更: 黄） */
+const HIGHLIGHT_COLORS: Record<
+  HighlightKind,
+  { stroke: string; fill: string }
+> = {
+  added: { stroke: "#10b981", fill: "#d1fae5" },
+  removed: { stroke: "#ef4444", fill: "#fee2e2" },
+  changed: { stroke: "#f59e0b", fill: "#fef3c7" },
+};
+
+/**
+ * 正規表現の特殊文字をエスケープ
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * ノードIDに対応するSVG要素を探す
+ * flowchart-A-0 / state-A-0 / classId-A-0 / entity-A-0 形式のID、
+ * シーケンス図の参加者（name属性）、ガントチャートのタスク（タスクIDがそのままID）に対応する
+ */
+function findNodeElements(
+  svgElement: SVGSVGElement,
+  nodeId: string,
+): Element[] {
+  const pattern = new RegExp(
+    `^(?:flowchart|state|classId|entity)-${escapeRegExp(nodeId)}-\\d+$`,
+  );
+  const elements = Array.from(svgElement.querySelectorAll("g[id]")).filter(
+    (element) => pattern.test(element.id),
+  );
+  const actors = svgElement.querySelectorAll(
+    `rect.actor[name="${CSS.escape(nodeId)}"]`,
+  );
+  const tasks = svgElement.querySelectorAll(
+    `rect.task[id="${CSS.escape(nodeId)}"]`,
+  );
+  return [...elements, ...actors, ...tasks];
+}
+
 /**
- * MermaidのSVGからノードの位置情報を抽出する
+ * エッジに対応するSVGのパス要素を探す（flowchartの L_A_B_0 / L-A-B-0 形式）
  */
-function extractNodePositions(
+function findEdgeElements(
   svgElement: SVGSVGElement,
-  container: HTMLElement,
-): NodePosition[] {
-  const positions: NodePosition[] = [];
-
-  // コンテナの位置を取得（相対座標計算用）
-  const containerRect = container.getBoundingClientRect();
-  const svgRect = svgElement.getBoundingClientRect();
-
-  // SVGのviewBoxを考慮したスケール計算
-  const viewBox = svgElement.viewBox.baseVal;
-  const _scaleX = svgRect.width / (viewBox.width || svgRect.width);
-  const _scaleY = svgRect.height / (viewBox.height || svgRect.height);
-
-  // SVGのオフセット（コンテナ内でのSVGの位置）
-  const _svgOffsetX = svgRect.left - containerRect.left;
-  const _svgOffsetY = svgRect.top - containerRect.top;
-
-  // .node クラスを持つ要素（フローチャートのノード）を取得
-  const nodeElements = svgElement.querySelectorAll(".node");
-
-  for (const node of nodeElements) {
-    try {
-      // ノードのIDを取得（flowchart-nodeId-xxx 形式）
-      const fullId = node.id || "";
-      // flowchart-A-0 → A のように抽出
-      const idMatch = fullId.match(/flowchart-([^-]+)-/);
-      const nodeId: string = idMatch?.[1] ?? fullId;
-
-      // ラベルテキストを取得
-      const labelElement = node.querySelector(
-        ".nodeLabel, text, foreignObject",
-      );
-      const label: string = labelElement?.textContent?.trim() ?? nodeId;
-
-      // ノードのbounding boxを取得
-      const nodeRect = node.getBoundingClientRect();
-
-      // コンテナ内の相対座標に変換
-      const x: number = nodeRect.left - containerRect.left;
-      const y: number = nodeRect.top - containerRect.top;
-      const nodeWidth: number = nodeRect.width;
-      const nodeHeight: number = nodeRect.height;
-
-      positions.push({
-        id: nodeId,
-        label,
-        x: Math.round(x),
-        y: Math.round(y),
-        width: Math.round(nodeWidth),
-        height: Math.round(nodeHeight),
-        centerX: Math.round(x + nodeWidth / 2),
-        centerY: Math.round(y + nodeHeight / 2),
-      });
-    } catch (err) {
-      console.warn("ノード位置の抽出に失敗:", err);
+  source: string,
+  target: string,
+): Element[] {
+  const pattern = new RegExp(
+    `^L[-_]${escapeRegExp(source)}[-_]${escapeRegExp(target)}[-_]\\d+$`,
+  );
+  return Array.from(svgElement.querySelectorAll("path[id]")).filter((element) =>
+    pattern.test(element.id),
+  );
+}
+
+/**
+ * SVG上の要素に差分のハイライトを適用する
+ */
+function applyHighlights(
+  svgElement: SVGSVGElement,
+  highlights: DiagramHighlights,
+) {
+  for (const node of highlights.nodes) {
+    const colors = HIGHLIGHT_COLORS[node.kind];
+    for (const element of findNodeElements(svgElement, node.id)) {
+      const shapes =
+        element.tagName.toLowerCase() === "g"
+          ? element.querySelectorAll("rect, polygon, circle, ellipse, path")
+          : [element];
+      for (const shape of shapes) {
+        if (!(shape instanceof SVGElement)) continue;
+        shape.style.stroke = colors.stroke;
+        shape.style.strokeWidth = "3px";
+        shape.style.fill = colors.fill;
+      }
     }
   }
 
-  return positions;
+  for (const edge of highlights.edges) {
+    const colors = HIGHLIGHT_COLORS[edge.kind];
+    for (const element of findEdgeElements(
+      svgElement,
+      edge.source,
+      edge.target,
+    )) {
+      if (!(element instanceof SVGElement)) continue;
+      element.style.stroke = colors.stroke;
+      element.style.strokeWidth = "3px";
+    }
+  }
 }
 
+/**
+ * 位置情報を持つ図の要素の種類
+ * lifeline・message はシーケンス図のみ（message の id は「送信元->送信先」）
+ */
+export type NodePositionKind =
+  | "node"
+  | "participant"
+  | "lifeline"
+  | "message"
+  | "class"
+  | "state"
+  | "entity"
+  | "task"
+  | "topic"
+  | "period"
+  | "event"
+  | "element"
+  | "service"
+  | "boundary";
+
 /** ノードの位置情報 */
 export type NodePosition = {
   /** ノードのID（Mermaidコード内のID） */
   id: string;
   /** ノードのラベルテキスト */
   label: string;
+  /** 要素の種類（省略時は node） */
+  kind?: NodePositionKind;
+  /** メッセージの送信元の参加者ID（message のみ） */
+  source?: string;
+  /** メッセージの送信先の参加者ID（message のみ） */
+  target?: string;
   /** 左上のX座標 */
   x: number;
   /** 左上のY座標 */
@@ -89,6 +156,20 @@ export type NodePosition = {
   centerY: number;
 };
 
+/** エッジ（ノード間の接続線）の位置情報 */
+export type EdgePosition = {
+  /** エッジのID（SVG上のパスのID） */
+  id: string;
+  /** 接続元のノードID */
+  source: string;
+  /** 接続先のノードID */
+  target: string;
+  /** エッジのラベルテキスト（ない場合は空文字） */
+  label: string;
+  /** 経路の折れ線 [x1, y1, x2, y2, ...]（接続元から接続先の順） */
+  points: number[];
+};
+
 type MermaidPreviewProps = {
   /** Mermaidコード */
   code: string;
@@ -100,8 +181,13 @@ type MermaidPreviewProps = {
   id?: string;
   /** パースエラー時のコールバック */
   onParseError?: (error: string, code: string) => void;
-  /** レンダリング成功時のコールバック（ノード位置情報付き） */
-  onRenderSuccess?: (nodePositions: NodePosition[]) => void;
+  /** レンダリング成功時のコールバック（ノード・エッジの位置情報付き） */
+  onRenderSuccess?: (
+    nodePositions: NodePosition[],
+    edgePositions: EdgePosition[],
+  ) => void;
+  /** 差分表示用のハイライト */
+  highlights?: DiagramHighlights;
 };
 
 /**
@@ -115,6 +201,7 @@ export default function MermaidPreview({
   id = "mermaid-preview",
   onParseError,
   onRenderSuccess,
+  highlights,
 }: MermaidPreviewProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [error, setError] = useState<string | null>(null);
@@ -168,14 +255,23 @@ export default function MermaidPreview({
             svgElement.style.maxWidth = "100%";
             svgElement.style.maxHeight = "100%";
 
-            // ノードの位置情報を抽出
+            if (highlights) {
+              applyHighlights(svgElement, highlights);
+            }
+
+            // ノード・エッジの位置情報を抽出
             const nodePositions = extractNodePositions(
               svgElement,
               containerRef.current,
             );
+            const edgePositions = extractEdgePositions(
+              svgElement,
+              containerRef.current,
+              nodePositions,
+            );
 
-            // レンダリング成功を通知（ノード位置情報付き）
-            onRenderSuccess?.(nodePositions);
+            // レンダリング成功を通知（位置情報付き）
+            onRenderSuccess?.(nodePositions, edgePositions);
           }
         }
       } catch (err) {
@@ -188,7 +284,7 @@ export default function MermaidPreview({
     };
 
     renderDiagram();
-  }, [code, id, isInitialized]);
+  }, [code, id, isInitialized, highlights]);
 
   return (
     <div
@@ -0,0 +1,141 @@
+"use client";
+
+import { trpc } from "@/lib/trpc/client";
+import { MAX_TAGS, parseTags } from "@/lib/utils/tags";
+import { useState } from "react";
+
+type ProjectOrganizeDialogProps = {
+  /** 整理するプロジェクト */
+  project: {
+    id: string;
+    name: string;
+    folder: string | null;
+    tags: string[];
+  };
+  /** 既存のフォルダ（入力候補） */
+  folders: string[];
+  /** 保存したとき */
+  onSaved: () => void;
+  /** 閉じる */
+  onClose: () => void;
+};
+
+/**
+ * プロジェクトのフォルダ・タグを設定するダイアログ
+ */
+export default function ProjectOrganizeDialog({
+  project,
+  folders,
+  onSaved,
+  onClose,
+}: ProjectOrganizeDialogProps) {
+  const [folder, setFolder] = useState(project.folder ?? "");
+  const [tagsText, setTagsText] = useState(project.tags.join(", "));
+
+  const setProjectFolder = trpc.diagram.setProjectFolder.useMutation();
+  const setProjectTags = trpc.diagram.setProjectTags.useMutation();
+
+  const isSaving = setProjectFolder.isPending || setProjectTags.isPending;
+  const error = setProjectFolder.error ?? setProjectTags.error;
+
+  /**
+   * フォルダとタグを保存
+   */
+  const handleSave = async () => {
+    try {
+      await Promise.all([
+        setProjectFolder.mutateAsync({
+          projectId: project.id,
+          folder: folder.trim() || null,
+        }),
+        setProjectTags.mutateAsync({
+          projectId: project.id,
+          tags: parseTags(tagsText),
+        }),
+      ]);
+      onSaved();
+    } catch {
+      // エラーはダイアログ内に表示する
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-6">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md flex flex-col overflow-hidden">
+        {/* ヘッダー */}
+        <div className="p-4 border-b border-gray-200 flex items-center gap-2">
+          <span className="text-lg">🏷️</span>
+          <h2 className="text-sm font-semibold text-gray-800 truncate">
+            「{project.name}」を整理
+          </h2>
+        </div>
+
+        <div className="p-4 space-y-3 text-sm">
+          <div>
+            <label
+              htmlFor="project-folder"
+              className="block font-medium text-gray-600 mb-1"
+            >
+              フォルダ（空欄の場合は未分類）
+            </label>
+            <input
+              id="project-folder"
+              type="text"
+              list="project-folder-options"
+              value={folder}
+              onChange={(e) => setFolder(e.target.value)}
+              placeholder="例: 業務フロー"
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-500/20 focus:border-violet-400"
+            />
+            <datalist id="project-folder-options">
+              {folders.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </div>
+          <div>
+            <label
+              htmlFor="project-tags"
+              className="block font-medium text-gray-600 mb-1"
+            >
+              タグ（カンマ・空白区切り、{MAX_TAGS}件まで）
+            </label>
+            <input
+              id="project-tags"
+              type="text"
+              value={tagsText}
+              onChange={(e) => setTagsText(e.target.value)}
+              placeholder="例: 設計, レビュー中"
+              className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-500/20 focus:border-violet-400"
+            />
+          </div>
+          {error && (
+            <p className="text-red-600">
+              ❌ 保存に失敗しました: {error.message}
+            </p>
+          )}
+        </div>
+
+        {/* 操作 */}
+        <div className="p-4 border-t border-gray-200 flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm text-gray-600 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+          >
+            キャンセル
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-white bg-violet-600 rounded-lg hover:bg-violet-700 disabled:opacity-50 transition-colors"
+          >
+            {isSaving ? "保存中..." : "保存"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
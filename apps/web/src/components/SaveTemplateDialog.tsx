@@ -0,0 +1,166 @@
+"use client";
+
+import { trpc } from "@/lib/trpc/client";
+import { renderExportSnapshot } from "@/lib/utils/exportSnapshot";
+import { MAX_TAGS, parseTags } from "@/lib/utils/tags";
+import { useState } from "react";
+
+type SaveTemplateDialogProps = {
+  /** プロジェクトID */
+  projectId: string;
+  /** テンプレートにするバージョンのID */
+  versionId: number;
+  /** テンプレートにするバージョンの番号（表示用） */
+  versionNumber: number;
+  /** テンプレートにするバージョンのMermaidコード（サムネイルの作成に使う） */
+  mermaidCode: string;
+  /** 閉じる */
+  onClose: () => void;
+};
+
+/** サムネイルを描画するときのキャンバスサイズ */
+const THUMBNAIL_CANVAS_SIZE = { width: 1000, height: 600 };
+
+/**
+ * バージョンをテンプレートとして保存するダイアログ
+ * 保存したテンプレートはトップページのギャラリーに「チーム」のテンプレートとして表示される
+ */
+export default function SaveTemplateDialog({
+  projectId,
+  versionId,
+  versionNumber,
+  mermaidCode,
+  onClose,
+}: SaveTemplateDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [tagsText, setTagsText] = useState("");
+  const [isRendering, setIsRendering] = useState(false);
+
+  const saveTemplate = trpc.template.saveFromVersion.useMutation();
+
+  /**
+   * サムネイルを作成してテンプレートを保存
+   */
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    // サムネイルを描画できない場合は、バージョンのスナップショットに任せる
+    setIsRendering(true);
+    const thumbnail = await renderExportSnapshot(
+      mermaidCode,
+      THUMBNAIL_CANVAS_SIZE,
+    )
+      .then((snapshot) => snapshot.svg)
+      .catch(() => undefined);
+    setIsRendering(false);
+
+    saveTemplate.mutate({
+      projectId,
+      versionId,
+      name: name.trim(),
+      description: description.trim() || undefined,
+      tags: parseTags(tagsText),
+      thumbnail,
+    });
+  };
+
+  const isSaving = isRendering || saveTemplate.isPending;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-6">
+      <div className="bg-slate-900 text-slate-100 rounded-xl shadow-2xl w-full max-w-md flex flex-col overflow-hidden">
+        {/* ヘッダー */}
+        <div className="p-4 border-b border-slate-700 flex items-center gap-2">
+          <span className="text-lg">📑</span>
+          <h2 className="text-sm font-semibold">
+            v{versionNumber} をテンプレートとして保存
+          </h2>
+        </div>
+
+        {saveTemplate.isSuccess ? (
+          <div className="p-4 text-xs text-slate-200">
+            ✅ テンプレート「{saveTemplate.data.name}」を保存しました。
+            トップページのギャラリーから新しいプロジェクトを作成できます
+          </div>
+        ) : (
+          <div className="p-4 space-y-3 text-xs">
+            <div>
+              <label
+                htmlFor="template-name"
+                className="block font-medium text-slate-300 mb-1"
+              >
+                名前
+              </label>
+              <input
+                id="template-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="例: 承認フロー"
+                className="w-full px-2 py-1.5 text-xs text-slate-100 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-500"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="template-description"
+                className="block font-medium text-slate-300 mb-1"
+              >
+                説明
+              </label>
+              <textarea
+                id="template-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                placeholder="どのような図に使うテンプレートか"
+                className="w-full px-2 py-1.5 text-xs text-slate-100 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-500"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="template-tags"
+                className="block font-medium text-slate-300 mb-1"
+              >
+                タグ（カンマ・空白区切り、{MAX_TAGS}件まで）
+              </label>
+              <input
+                id="template-tags"
+                type="text"
+                value={tagsText}
+                onChange={(e) => setTagsText(e.target.value)}
+                placeholder="例: 業務, 承認"
+                className="w-full px-2 py-1.5 text-xs text-slate-100 bg-slate-800 border border-slate-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-violet-500"
+              />
+            </div>
+            {saveTemplate.error && (
+              <p className="text-red-300">⚠️ {saveTemplate.error.message}</p>
+            )}
+          </div>
+        )}
+
+        {/* 操作 */}
+        <div className="p-4 border-t border-slate-700 flex items-center justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isSaving}
+            className="px-3 py-1.5 text-xs rounded-lg bg-slate-700 text-slate-200 hover:bg-slate-600 disabled:opacity-50 transition-colors"
+          >
+            {saveTemplate.isSuccess ? "閉じる" : "キャンセル"}
+          </button>
+          {!saveTemplate.isSuccess && (
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={isSaving || !name.trim()}
+              className="px-3 py-1.5 text-xs font-medium rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-50 transition-colors"
+            >
+              {isSaving ? "保存中..." : "✓ 保存"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
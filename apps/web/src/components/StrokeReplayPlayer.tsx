@@ -0,0 +1,231 @@
+"use client";
+
+import { getPointWidth, hasPressure } from "@/lib/utils/strokeInput";
+import {
+  type ReplayFrame,
+  buildReplayTimeline,
+  getReplayFrame,
+} from "@/lib/utils/strokeReplay";
+import { getStrokesBounds } from "@/lib/utils/strokeSelection";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { Stroke } from "./HandwritingCanvas";
+
+type StrokeReplayPlayerProps = {
+  /** 再生するストローク（描画順） */
+  strokes: Stroke[];
+  /** 表示サイズ（幅） */
+  width?: number;
+  /** 表示サイズ（高さ） */
+  height?: number;
+};
+
+/** 再生速度の選択肢 */
+const REPLAY_SPEEDS = [1, 2, 4] as const;
+/** 表示領域の余白（ピクセル） */
+const REPLAY_PADDING = 8;
+
+/**
+ * 再生時間を「0:00.0」の形式でフォーマット
+ */
+function formatReplayTime(ms: number): string {
+  const totalSeconds = ms / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, "0");
+  return `${minutes}:${seconds}`;
+}
+
+/**
+ * 再生のコマをCanvasに描画
+ */
+function drawReplayFrame(
+  ctx: CanvasRenderingContext2D,
+  frame: ReplayFrame,
+  transform: { scale: number; x: number; y: number },
+) {
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  const toX = (value: number) => value * transform.scale + transform.x;
+  const toY = (value: number) => value * transform.scale + transform.y;
+
+  for (const { stroke, pointCount } of frame) {
+    const points = stroke.points.slice(0, pointCount * 2);
+    const firstX = points[0];
+    const firstY = points[1];
+    if (firstX === undefined || firstY === undefined) continue;
+    ctx.strokeStyle = stroke.color;
+
+    // 筆圧のあるストロークは線分ごとに太さを変えて描画
+    if (hasPressure(stroke)) {
+      for (let i = 2; i + 1 < points.length; i += 2) {
+        const index = i / 2;
+        ctx.lineWidth =
+          ((getPointWidth(stroke, index - 1) + getPointWidth(stroke, index)) /
+            2) *
+          transform.scale;
+        ctx.beginPath();
+        ctx.moveTo(toX(points[i - 2] ?? 0), toY(points[i - 1] ?? 0));
+        ctx.lineTo(toX(points[i] ?? 0), toY(points[i + 1] ?? 0));
+        ctx.stroke();
+      }
+      continue;
+    }
+
+    ctx.lineWidth = stroke.strokeWidth * transform.scale;
+    ctx.beginPath();
+    ctx.moveTo(toX(firstX), toY(firstY));
+    for (let i = 2; i + 1 < points.length; i += 2) {
+      ctx.lineTo(toX(points[i] ?? 0), toY(points[i + 1] ?? 0));
+    }
+    // 1点だけの場合も点として表示
+    if (points.length === 2) {
+      ctx.lineTo(toX(firstX), toY(firstY));
+    }
+    ctx.stroke();
+  }
+}
+
+/**
+ * ストロークの再生プレイヤー
+ * 記録した時刻に沿って、ストロークを描いた順序・速さで再生する
+ */
+export default function StrokeReplayPlayer({
+  strokes,
+  width = 272,
+  height = 170,
+}: StrokeReplayPlayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // 再生時刻（ミリ秒）
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState<(typeof REPLAY_SPEEDS)[number]>(1);
+
+  const timeline = useMemo(() => buildReplayTimeline(strokes), [strokes]);
+
+  // ストロークが収まるように縮小・中央寄せする変換
+  const transform = useMemo(() => {
+    const bounds = getStrokesBounds(strokes);
+    if (!bounds) return { scale: 1, x: 0, y: 0 };
+    const scale = Math.min(
+      (width - REPLAY_PADDING * 2) / (bounds.width || 1),
+      (height - REPLAY_PADDING * 2) / (bounds.height || 1),
+      1,
+    );
+    return {
+      scale,
+      x: (width - bounds.width * scale) / 2 - bounds.x * scale,
+      y: (height - bounds.height * scale) / 2 - bounds.y * scale,
+    };
+  }, [strokes, width, height]);
+
+  // ストロークが変わったら停止し、描き終えた状態を表示
+  useEffect(() => {
+    setTime(timeline.duration);
+    setIsPlaying(false);
+  }, [timeline]);
+
+  // 再生中はアニメーションフレームごとに時刻を進める
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frameId = 0;
+    let lastTimestamp: number | null = null;
+
+    const tick = (timestamp: number) => {
+      const delta = lastTimestamp === null ? 0 : timestamp - lastTimestamp;
+      lastTimestamp = timestamp;
+      setTime((prev) => Math.min(prev + delta * speed, timeline.duration));
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, speed, timeline.duration]);
+
+  // 最後まで再生したら停止
+  useEffect(() => {
+    if (isPlaying && time >= timeline.duration) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, time, timeline.duration]);
+
+  // 再生時刻のコマを描画
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+    drawReplayFrame(ctx, getReplayFrame(timeline, time), transform);
+  }, [timeline, time, transform, width, height]);
+
+  /**
+   * 再生/一時停止を切り替え（最後まで再生済みの場合は最初から）
+   */
+  const handleTogglePlay = useCallback(() => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    if (time >= timeline.duration) setTime(0);
+    setIsPlaying(true);
+  }, [isPlaying, time, timeline.duration]);
+
+  if (strokes.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <canvas
+        ref={canvasRef}
+        style={{ width, height }}
+        className="rounded border border-slate-700"
+      />
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          onClick={handleTogglePlay}
+          className="w-7 h-6 flex items-center justify-center bg-violet-600 hover:bg-violet-700 text-white text-xs rounded transition-colors"
+          title={isPlaying ? "一時停止" : "再生"}
+        >
+          {isPlaying ? "⏸" : "▶"}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={timeline.duration}
+          step={10}
+          value={time}
+          onChange={(e) => {
+            setIsPlaying(false);
+            setTime(Number(e.target.value));
+          }}
+          className="flex-1 accent-violet-500"
+          aria-label="再生位置"
+        />
+        <span className="text-xs text-slate-400 tabular-nums">
+          {formatReplayTime(time)}/{formatReplayTime(timeline.duration)}
+        </span>
+      </div>
+      <div className="flex items-center justify-end gap-1 text-xs">
+        <span className="text-slate-500">速度:</span>
+        {REPLAY_SPEEDS.map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setSpeed(value)}
+            className={`px-1.5 py-0.5 rounded transition-colors ${
+              speed === value
+                ? "bg-violet-600 text-white"
+                : "text-slate-400 hover:bg-slate-700"
+            }`}
+          >
+            {value}x
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { trpc } from "@/lib/trpc/client";
+import {
+  DIAGRAM_TYPES,
+  DIAGRAM_TYPE_INFO,
+  type DiagramType,
+} from "@/server/db/schema";
+import { useMemo, useState } from "react";
+
+/**
+ * ギャラリーで選択したテンプレート
+ * 組み込み: 図の種類ごとの最小限のテンプレート / チーム: ユーザーが保存したテンプレート
+ */
+export type TemplateSelection =
+  | { kind: "builtIn"; diagramType: DiagramType }
+  | { kind: "team"; templateId: string; diagramType: DiagramType };
+
+type TemplateGalleryProps = {
+  /** 選択中のテンプレート */
+  selection: TemplateSelection;
+  /** テンプレートを選択 */
+  onSelect: (selection: TemplateSelection) => void;
+};
+
+/** 表示するテンプレートの絞り込み */
+type GalleryFilter = "all" | "builtIn" | "team";
+
+const GALLERY_FILTER_LABELS: Record<GalleryFilter, string> = {
+  all: "すべて",
+  builtIn: "組み込み",
+  team: "チーム",
+};
+
+/**
+ * SVGを画像として表示するためのデータURLに変換
+ * imgタグで表示するため、SVG内のスクリプトは実行されない
+ */
+function toSvgDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * テンプレートのギャラリー
+ * 組み込みのテンプレートと、チームで保存したテンプレートを並べて選択できる
+ */
+export default function TemplateGallery({
+  selection,
+  onSelect,
+}: TemplateGalleryProps) {
+  const [filter, setFilter] = useState<GalleryFilter>("all");
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+
+  // チームのテンプレートを取得
+  const { data: teamTemplates, refetch } = trpc.template.list.useQuery();
+
+  const deleteTemplate = trpc.template.delete.useMutation({
+    onSuccess: (_data, variables) => {
+      // 削除したテンプレートを選択中の場合は選択を解除
+      if (
+        selection.kind === "team" &&
+        selection.templateId === variables.templateId
+      ) {
+        onSelect({ kind: "builtIn", diagramType: selection.diagramType });
+      }
+      refetch();
+    },
+  });
+
+  // チームのテンプレートに付いているタグ（絞り込み用）
+  const tags = useMemo(
+    () =>
+      [...new Set((teamTemplates ?? []).flatMap((t) => t.tags))].sort((a, b) =>
+        a.localeCompare(b, "ja"),
+      ),
+    [teamTemplates],
+  );
+
+  const visibleTeamTemplates = (teamTemplates ?? []).filter(
+    (template) => !selectedTag || template.tags.includes(selectedTag),
+  );
+  const showBuiltIn = filter !== "team" && !selectedTag;
+  const showTeam = filter !== "builtIn";
+
+  /**
+   * チームのテンプレートを削除
+   */
+  const handleDelete = (
+    e: React.MouseEvent,
+    templateId: string,
+    name: string,
+  ) => {
+    e.stopPropagation();
+    if (window.confirm(`テンプレート「${name}」を削除しますか？`)) {
+      deleteTemplate.mutate({ templateId });
+    }
+  };
+
+  return (
+    <div>
+      {/* 絞り込み */}
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {(Object.keys(GALLERY_FILTER_LABELS) as GalleryFilter[]).map(
+          (value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setFilter(value)}
+              className={`px-3 py-1 text-xs rounded-full transition-colors ${
+                filter === value
+                  ? "bg-violet-600 text-white"
+                  : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+              }`}
+            >
+              {GALLERY_FILTER_LABELS[value]}
+            </button>
+          ),
+        )}
+        {showTeam && tags.length > 0 && (
+          <>
+            <span className="text-gray-300">|</span>
+            {tags.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => setSelectedTag(selectedTag === tag ? null : tag)}
+                className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                  selectedTag === tag
+                    ? "bg-fuchsia-100 text-fuchsia-700"
+                    : "text-gray-500 hover:bg-gray-100"
+                }`}
+              >
+                #{tag}
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-3 max-h-80 overflow-y-auto p-0.5">
+        {/* 組み込みのテンプレート */}
+        {showBuiltIn &&
+          DIAGRAM_TYPES.map((type) => {
+            const typeInfo = DIAGRAM_TYPE_INFO[type];
+            const isSelected =
+              selection.kind === "builtIn" && selection.diagramType === type;
+            return (
+              <button
+                key={type}
+                type="button"
+                onClick={() => onSelect({ kind: "builtIn", diagramType: type })}
+                className={`text-left p-3 rounded-lg border transition-all ${
+                  isSelected
+                    ? "border-violet-500 ring-2 ring-violet-500/20 bg-violet-50"
+                    : "border-gray-200 hover:border-violet-300"
+                }`}
+              >
+                <span className="text-2xl block mb-1">{typeInfo.icon}</span>
+                <span className="block text-sm font-medium text-gray-800 truncate">
+                  {typeInfo.label}
+                </span>
+                <span className="block text-xs text-gray-400 truncate">
+                  {typeInfo.description}
+                </span>
+              </button>
+            );
+          })}
+
+        {/* チームのテンプレート */}
+        {showTeam &&
+          visibleTeamTemplates.map((template) => {
+            const diagramType = template.diagramType as DiagramType;
+            const typeInfo = DIAGRAM_TYPE_INFO[diagramType];
+            const isSelected =
+              selection.kind === "team" && selection.templateId === template.id;
+            return (
+              <div
+                key={template.id}
+                onClick={() =>
+                  onSelect({
+                    kind: "team",
+                    templateId: template.id,
+                    diagramType,
+                  })
+                }
+                onKeyDown={(e) =>
+                  e.key === "Enter" &&
+                  onSelect({
+                    kind: "team",
+                    templateId: template.id,
+                    diagramType,
+                  })
+                }
+                className={`relative p-2 rounded-lg border cursor-pointer transition-all group ${
+                  isSelected
+                    ? "border-violet-500 ring-2 ring-violet-500/20 bg-violet-50"
+                    : "border-gray-200 hover:border-violet-300"
+                }`}
+                title={template.description ?? template.name}
+              >
+                <div className="h-16 mb-1.5 bg-white rounded flex items-center justify-center overflow-hidden">
+                  {template.thumbnail ? (
+                    <img
+                      src={toSvgDataUrl(template.thumbnail)}
+                      alt={template.name}
+                      className="max-w-full max-h-full object-contain"
+                    />
+                  ) : (
+                    <span className="text-2xl">{typeInfo.icon}</span>
+                  )}
+                </div>
+                <span className="block text-sm font-medium text-gray-800 truncate">
+                  {template.name}
+                </span>
+                <span className="block text-xs text-gray-400 truncate">
+                  {typeInfo.icon} {typeInfo.label}
+                  {template.tags.length > 0 &&
+                    ` · ${template.tags.map((tag) => `#${tag}`).join(" ")}`}
+                </span>
+                <button
+                  type="button"
+                  onClick={(e) => handleDelete(e, template.id, template.name)}
+                  disabled={deleteTemplate.isPending}
+                  className="absolute top-1 right-1 w-5 h-5 text-xs text-gray-400 bg-white/80 rounded opacity-0 group-hover:opacity-100 hover:text-red-600 transition-all"
+                  title="テンプレートを削除"
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+      </div>
+
+      {showTeam && visibleTeamTemplates.length === 0 && filter === "team" && (
+        <p className="text-xs text-gray-400 mt-2">
+          チームのテンプレートはまだありません。エディタのバージョン履歴から保存できます
+        </p>
+      )}
+    </div>
+  );
+}
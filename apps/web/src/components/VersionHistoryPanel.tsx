@@ -1,7 +1,13 @@
 "use client";
 
 import { trpc } from "@/lib/trpc/client";
-import { useCallback, useEffect, useState } from "react";
+import { buildDiffHighlights } from "@/lib/utils/diagramHighlights";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import DiagramDiffList from "./DiagramDiffList";
+import type { Stroke } from "./HandwritingCanvas";
+import type { DiagramHighlights } from "./MermaidPreview";
+import SaveTemplateDialog from "./SaveTemplateDialog";
+import StrokeReplayPlayer from "./StrokeReplayPlayer";
 
 type VersionHistoryPanelProps = {
   /** プロジェクトID */
@@ -16,7 +22,9 @@ type VersionHistoryPanelProps = {
   onVersionPreview?: (data: {
     versionId: number;
     mermaidCode: string;
-    strokes: Array<{ points: number[]; color: string; width: number }>;
+    strokes: Stroke[];
+    /** 差分表示時のハイライト */
+    highlights?: DiagramHighlights;
   }) => void;
   /** プレビューをキャンセル */
   onPreviewCancel?: () => void;
@@ -33,6 +41,10 @@ function getUpdateTypeIcon(updateType: string): string {
       return "✏️";
     case "chat":
       return "🤖";
+    case "import":
+      return "📥";
+    case "convert":
+      return "🔁";
     default:
       return "📝";
   }
@@ -49,6 +61,10 @@ function getUpdateTypeLabel(updateType: string): string {
       return "手書き";
     case "chat":
       return "AI";
+    case "import":
+      return "インポート";
+    case "convert":
+      return "種類の変換";
     default:
       return updateType;
   }
@@ -86,6 +102,18 @@ export default function VersionHistoryPanel({
   const [confirmingRollback, setConfirmingRollback] = useState<number | null>(
     null,
   );
+  // 比較モード
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  // 比較対象のバージョンID（最大2件、選択順）
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  // 差分のプレビュー対象（変更前/変更後）
+  const [diffView, setDiffView] = useState<"before" | "after">("after");
+  // テンプレートとして保存するバージョン
+  const [templateSource, setTemplateSource] = useState<{
+    versionId: number;
+    versionNumber: number;
+    mermaidCode: string;
+  } | null>(null);
 
   // バージョン履歴を取得
   const {
@@ -104,6 +132,20 @@ export default function VersionHistoryPanel({
       { enabled: !!selectedVersionId },
     );
 
+  // 比較対象のバージョン（バージョン番号の小さい方を比較元とする）
+  const comparedVersions = (versions ?? [])
+    .filter((version) => compareIds.includes(version.id))
+    .sort((a, b) => a.versionNumber - b.versionNumber);
+  const fromVersionId = comparedVersions[0]?.id ?? 0;
+  const toVersionId = comparedVersions[1]?.id ?? 0;
+
+  // 2つのバージョンの差分を取得
+  const { data: comparison, isLoading: isLoadingComparison } =
+    trpc.diagram.compareVersions.useQuery(
+      { projectId, fromVersionId, toVersionId },
+      { enabled: isCompareMode && comparedVersions.length === 2 },
+    );
+
   // ロールバックmutation
   const rollbackMutation = trpc.diagram.rollbackToVersion.useMutation({
     onSuccess: () => {
@@ -131,24 +173,70 @@ export default function VersionHistoryPanel({
     [selectedVersionId, onPreviewCancel],
   );
 
+  // 選択中のバージョンのストローク（保存時にスキーマで検証済み）
+  const selectedStrokes = useMemo(
+    () => (selectedVersion?.strokes ?? []) as Stroke[],
+    [selectedVersion],
+  );
+
   /**
    * 選択中のバージョンの詳細が取得できたらプレビューを通知
    */
   useEffect(() => {
     if (selectedVersionId && selectedVersion) {
-      // strokesの型を適切に変換
-      const strokes = (selectedVersion.strokes || []) as Array<{
-        points: number[];
-        color: string;
-        width: number;
-      }>;
       onVersionPreview?.({
         versionId: selectedVersionId,
         mermaidCode: selectedVersion.mermaidCode,
-        strokes,
+        strokes: selectedStrokes,
       });
     }
-  }, [selectedVersionId, selectedVersion, onVersionPreview]);
+  }, [selectedVersionId, selectedVersion, selectedStrokes, onVersionPreview]);
+
+  /**
+   * 比較モードを切り替え
+   * 開始時は最新と1つ前のバージョンを比較対象にする
+   */
+  const handleToggleCompareMode = useCallback(() => {
+    setSelectedVersionId(null);
+    setConfirmingRollback(null);
+    setDiffView("after");
+    onPreviewCancel?.();
+
+    if (isCompareMode) {
+      setIsCompareMode(false);
+      setCompareIds([]);
+      return;
+    }
+    setIsCompareMode(true);
+    setCompareIds((versions ?? []).slice(0, 2).map((version) => version.id));
+  }, [isCompareMode, versions, onPreviewCancel]);
+
+  /**
+   * 比較対象のバージョンを選択/解除（2件を超える場合は古い選択を外す）
+   */
+  const handleToggleCompareVersion = useCallback((versionId: number) => {
+    setCompareIds((prev) =>
+      prev.includes(versionId)
+        ? prev.filter((id) => id !== versionId)
+        : [...prev, versionId].slice(-2),
+    );
+  }, []);
+
+  /**
+   * 差分が取得できたら比較結果をハイライト付きでプレビュー
+   */
+  useEffect(() => {
+    if (!isCompareMode || !comparison) return;
+    const target = diffView === "after" ? comparison.to : comparison.from;
+    onVersionPreview?.({
+      versionId: target.id,
+      mermaidCode: target.mermaidCode,
+      strokes: [],
+      highlights: comparison.structuralDiff
+        ? buildDiffHighlights(comparison.structuralDiff, diffView)
+        : undefined,
+    });
+  }, [isCompareMode, comparison, diffView, onVersionPreview]);
 
   /**
    * ロールバックを実行
@@ -177,16 +265,78 @@ export default function VersionHistoryPanel({
             </span>
           )}
         </div>
-        <button
-          type="button"
-          onClick={onClose}
-          className="text-slate-400 hover:text-slate-200 transition-colors text-lg"
-          title="閉じる"
-        >
-          ×
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={handleToggleCompareMode}
+            disabled={!versions || versions.length < 2}
+            className={`text-xs px-2 py-0.5 rounded transition-colors disabled:opacity-40 ${
+              isCompareMode
+                ? "bg-violet-600 text-white"
+                : "text-slate-400 hover:text-slate-200"
+            }`}
+            title="2つのバージョンを比較"
+          >
+            🔍 比較
+          </button>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-slate-400 hover:text-slate-200 transition-colors text-lg"
+            title="閉じる"
+          >
+            ×
+          </button>
+        </div>
       </div>
 
+      {/* 比較結果 */}
+      {isCompareMode && (
+        <div className="p-3 border-b border-slate-700 bg-slate-800/30 max-h-[50%] overflow-y-auto text-xs">
+          {comparedVersions.length < 2 ? (
+            <p className="text-slate-400">
+              比較するバージョンを2つ選択してください
+            </p>
+          ) : isLoadingComparison || !comparison ? (
+            <div className="flex items-center gap-2 text-slate-400">
+              <span className="w-3 h-3 border-2 border-violet-500 border-t-transparent rounded-full animate-spin" />
+              差分を計算中...
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-medium text-slate-200">
+                  v{comparison.from.versionNumber} → v
+                  {comparison.to.versionNumber}
+                </span>
+                <div className="flex rounded overflow-hidden border border-slate-700">
+                  {(["before", "after"] as const).map((view) => (
+                    <button
+                      key={view}
+                      type="button"
+                      onClick={() => setDiffView(view)}
+                      className={`px-2 py-0.5 transition-colors ${
+                        diffView === view
+                          ? "bg-violet-600 text-white"
+                          : "text-slate-400 hover:bg-slate-700"
+                      }`}
+                    >
+                      {view === "before" ? "変更前" : "変更後"}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <DiagramDiffList
+                structuralDiff={comparison.structuralDiff}
+                hasStructuralChanges={comparison.hasStructuralChanges}
+                lineDiff={comparison.lineDiff}
+              />
+            </>
+          )}
+        </div>
+      )}
+
       {/* バージョン一覧 */}
       <div className="flex-1 overflow-y-auto">
         {isLoading ? (
@@ -199,15 +349,31 @@ export default function VersionHistoryPanel({
               const isLatest = index === 0;
               const isSelected = selectedVersionId === version.id;
               const isConfirming = confirmingRollback === version.id;
+              const compareRole =
+                comparedVersions.length === 2
+                  ? comparedVersions[0]?.id === version.id
+                    ? "比較元"
+                    : comparedVersions[1]?.id === version.id
+                      ? "比較先"
+                      : null
+                  : compareIds.includes(version.id)
+                    ? "選択中"
+                    : null;
 
               return (
                 <li key={version.id}>
                   {/* バージョン項目 */}
                   <button
                     type="button"
-                    onClick={() => handleSelectVersion(version.id)}
+                    onClick={() =>
+                      isCompareMode
+                        ? handleToggleCompareVersion(version.id)
+                        : handleSelectVersion(version.id)
+                    }
                     className={`w-full p-3 text-left transition-colors ${
-                      isSelected ? "bg-violet-900/50" : "hover:bg-slate-800/50"
+                      isSelected || compareRole
+                        ? "bg-violet-900/50"
+                        : "hover:bg-slate-800/50"
                     }`}
                   >
                     <div className="flex items-start justify-between gap-2">
@@ -225,6 +391,11 @@ export default function VersionHistoryPanel({
                                 最新
                               </span>
                             )}
+                            {compareRole && (
+                              <span className="text-xs bg-violet-600 text-white px-1.5 py-0.5 rounded">
+                                {compareRole}
+                              </span>
+                            )}
                           </div>
                           <p className="text-xs text-slate-400 mt-0.5">
                             {getUpdateTypeLabel(version.updateType)}・
@@ -234,8 +405,8 @@ export default function VersionHistoryPanel({
                       </div>
                       <span
                         className={`text-xs transition-transform ${
-                          isSelected ? "rotate-90" : ""
-                        }`}
+                          isCompareMode ? "hidden" : ""
+                        } ${isSelected ? "rotate-90" : ""}`}
                       >
                         ▶
                       </span>
@@ -265,6 +436,19 @@ export default function VersionHistoryPanel({
                         </pre>
                       </div>
 
+                      {/* 手書きの再生（ストロークを保存したバージョンのみ） */}
+                      {!isLoadingVersion && selectedStrokes.length > 0 && (
+                        <div className="mb-3">
+                          <p className="text-xs text-slate-500 mb-1">
+                            手書きの再生（{selectedStrokes.length}ストローク）:
+                          </p>
+                          <StrokeReplayPlayer
+                            key={version.id}
+                            strokes={selectedStrokes}
+                          />
+                        </div>
+                      )}
+
                       {/* ロールバックボタン（最新以外に表示） */}
                       {!isLatest && (
                         <div className="flex flex-col gap-2">
@@ -306,6 +490,22 @@ export default function VersionHistoryPanel({
                           )}
                         </div>
                       )}
+
+                      {/* テンプレートとして保存 */}
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setTemplateSource({
+                            versionId: version.id,
+                            versionNumber: version.versionNumber,
+                            mermaidCode: version.mermaidCode,
+                          })
+                        }
+                        className="mt-2 w-full px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs rounded transition-colors flex items-center justify-center gap-1"
+                      >
+                        <span>📑</span>
+                        テンプレートとして保存
+                      </button>
                     </div>
                   )}
                 </li>
@@ -322,12 +522,31 @@ export default function VersionHistoryPanel({
 
       {/* フッター */}
       <div className="p-3 border-t border-slate-700 text-xs text-slate-500">
-        <p>
-          ロールバックすると、選択したバージョンの
-          <br />
-          状態を新しいバージョンとして復元します
-        </p>
+        {isCompareMode ? (
+          <p>
+            2つのバージョンを選択すると差分を表示します
+            <br />
+            追加は緑、削除は赤、変更は黄色で表示されます
+          </p>
+        ) : (
+          <p>
+            ロールバックすると、選択したバージョンの
+            <br />
+            状態を新しいバージョンとして復元します
+          </p>
+        )}
       </div>
+
+      {/* テンプレートとして保存（モーダル） */}
+      {templateSource && (
+        <SaveTemplateDialog
+          projectId={projectId}
+          versionId={templateSource.versionId}
+          versionNumber={templateSource.versionNumber}
+          mermaidCode={templateSource.mermaidCode}
+          onClose={() => setTemplateSource(null)}
+        />
+      )}
     </aside>
   );
 }
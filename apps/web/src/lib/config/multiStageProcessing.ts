@@ -37,4 +37,10 @@ export const MULTI_STAGE_CONFIG = {
     /** 最小クラスタサイズ */
     MIN_CLUSTER_SIZE: 3,
   },
+
+  // 時間分割設定
+  TIME_DIVISION: {
+    /** 別のまとまりとみなすストローク間の描画の間隔（ミリ秒） */
+    GAP_THRESHOLD_MS: 1200,
+  },
 } as const;
@@ -1,7 +1,7 @@
 "use client";
 
 import type { Stroke } from "@/components/HandwritingCanvas";
-import type { NodePosition } from "@/components/MermaidPreview";
+import type { EdgePosition, NodePosition } from "@/components/MermaidPreview";
 import {
   isStrokeDataTooLarge,
   simplifyStrokes,
@@ -38,6 +38,7 @@ type InterpretParams = {
   strokes: Stroke[];
   currentMermaidCode: string;
   nodePositions: NodePosition[];
+  edgePositions: EdgePosition[];
   canvasImage?: string;
   hint?: string;
   diagramType: DiagramType;
@@ -0,0 +1,21 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * 値の変更を一定時間遅らせて反映する
+ * 入力中の検索キーワードなど、変更のたびにリクエストしたくない値に使う
+ *
+ * @param value - 遅らせる値
+ * @param delayMs - 最後の変更から反映するまでの時間（ミリ秒）
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValue(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debouncedValue;
+}
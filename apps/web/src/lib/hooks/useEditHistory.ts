@@ -0,0 +1,207 @@
+"use client";
+
+import type { Stroke, StrokeChangeKind } from "@/components/HandwritingCanvas";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * 履歴に記録する編集状態（図とストローク）
+ */
+export type EditSnapshot = {
+  mermaidCode: string;
+  strokes: Stroke[];
+};
+
+/**
+ * 編集の種類
+ * - StrokeChangeKind: 手書きキャンバスでのストロークの編集
+ * - code: Mermaidコードの手動編集（方向の切り替えなど）
+ * - ai: AIによる変換の適用（手書きの変換・チャット）
+ * - rollback: バージョンのロールバック
+ */
+export type EditKind = StrokeChangeKind | "code" | "ai" | "rollback";
+
+/**
+ * Undo/Redoのボタンに渡す操作
+ */
+export type EditHistoryControls = {
+  canUndo: boolean;
+  canRedo: boolean;
+  /** 元に戻す編集の説明 */
+  undoLabel: string | null;
+  /** やり直す編集の説明 */
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
+};
+
+/** 編集の種類ごとの表示名 */
+export const EDIT_KIND_LABELS: Record<EditKind, string> = {
+  draw: "ストロークの追加",
+  erase: "消しゴム",
+  move: "ストロークの移動",
+  recolor: "色の変更",
+  delete: "ストロークの削除",
+  clear: "全てクリア",
+  replace: "ストロークの置き換え",
+  code: "コードの編集",
+  ai: "AIによる変換",
+  rollback: "ロールバック",
+};
+
+/** 保持する履歴の最大数 */
+const MAX_HISTORY_ENTRIES = 100;
+
+/**
+ * 履歴の1件（その編集を行う前の状態と、編集の種類）
+ */
+type HistoryEntry = {
+  snapshot: EditSnapshot;
+  kind: EditKind;
+};
+
+/**
+ * 編集セッションのUndo/Redo履歴を管理するカスタムフック
+ * ストロークの編集・AIの適用・コードの編集を1つの履歴で扱う
+ * キャンバスの再マウントとは独立して保持し、scopeKey（プロジェクトID）が変わるとリセットする
+ *
+ * @param scopeKey - 履歴の範囲を表すキー
+ */
+export function useEditHistory(scopeKey: string) {
+  // 元に戻せる編集（末尾が最新）
+  const pastRef = useRef<HistoryEntry[]>([]);
+  // やり直せる編集（末尾が次にやり直す編集）
+  const futureRef = useRef<HistoryEntry[]>([]);
+  // 現在の状態
+  const presentRef = useRef<EditSnapshot | null>(null);
+  // ボタンの表示用（履歴が変わったときに再レンダリングする）
+  const [status, setStatus] = useState<{
+    undoKind: EditKind | null;
+    redoKind: EditKind | null;
+  }>({ undoKind: null, redoKind: null });
+
+  /**
+   * 表示用の状態を履歴に合わせる
+   */
+  const syncStatus = useCallback(() => {
+    setStatus({
+      undoKind: pastRef.current.at(-1)?.kind ?? null,
+      redoKind: futureRef.current.at(-1)?.kind ?? null,
+    });
+  }, []);
+
+  // プロジェクトが変わったら履歴をリセット
+  // biome-ignore lint/correctness/useExhaustiveDependencies: scopeKeyの変化でリセットする意図的な実装
+  useEffect(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    presentRef.current = null;
+    syncStatus();
+  }, [scopeKey, syncStatus]);
+
+  /**
+   * 履歴の起点となる状態を設定（設定済みの場合は何もしない）
+   */
+  const initialize = useCallback((snapshot: EditSnapshot) => {
+    if (presentRef.current === null) {
+      presentRef.current = snapshot;
+    }
+  }, []);
+
+  /**
+   * 履歴を破棄し、指定した状態を新しい起点にする（図の種類の変換など、元に戻せない変更の後）
+   */
+  const reset = useCallback(
+    (snapshot: EditSnapshot) => {
+      pastRef.current = [];
+      futureRef.current = [];
+      presentRef.current = snapshot;
+      syncStatus();
+    },
+    [syncStatus],
+  );
+
+  /**
+   * 編集を記録（やり直せる編集は破棄する）
+   */
+  const record = useCallback(
+    (snapshot: EditSnapshot, kind: EditKind) => {
+      const present = presentRef.current;
+      if (present) {
+        pastRef.current = [
+          ...pastRef.current,
+          { snapshot: present, kind },
+        ].slice(-MAX_HISTORY_ENTRIES);
+      }
+      futureRef.current = [];
+      presentRef.current = snapshot;
+      syncStatus();
+    },
+    [syncStatus],
+  );
+
+  /**
+   * 履歴を増やさずに現在の状態を置き換える（エラーの自動修正など）
+   */
+  const replace = useCallback((snapshot: EditSnapshot) => {
+    presentRef.current = snapshot;
+  }, []);
+
+  /**
+   * 元に戻す
+   *
+   * @returns 戻した後の状態（戻せない場合はnull）
+   */
+  const undo = useCallback((): EditSnapshot | null => {
+    const entry = pastRef.current.at(-1);
+    const present = presentRef.current;
+    if (!entry || !present) return null;
+
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [
+      ...futureRef.current,
+      { snapshot: present, kind: entry.kind },
+    ];
+    presentRef.current = entry.snapshot;
+    syncStatus();
+    return entry.snapshot;
+  }, [syncStatus]);
+
+  /**
+   * やり直す
+   *
+   * @returns やり直した後の状態（やり直せない場合はnull）
+   */
+  const redo = useCallback((): EditSnapshot | null => {
+    const entry = futureRef.current.at(-1);
+    const present = presentRef.current;
+    if (!entry || !present) return null;
+
+    futureRef.current = futureRef.current.slice(0, -1);
+    pastRef.current = [
+      ...pastRef.current,
+      { snapshot: present, kind: entry.kind },
+    ];
+    presentRef.current = entry.snapshot;
+    syncStatus();
+    return entry.snapshot;
+  }, [syncStatus]);
+
+  /**
+   * 現在の状態を取得
+   */
+  const getPresent = useCallback(() => presentRef.current, []);
+
+  return {
+    canUndo: status.undoKind !== null,
+    canRedo: status.redoKind !== null,
+    undoLabel: status.undoKind ? EDIT_KIND_LABELS[status.undoKind] : null,
+    redoLabel: status.redoKind ? EDIT_KIND_LABELS[status.redoKind] : null,
+    initialize,
+    reset,
+    record,
+    replace,
+    undo,
+    redo,
+    getPresent,
+  };
+}
@@ -1,7 +1,7 @@
 "use client";
 
-import type { Stroke } from "@/components/HandwritingCanvas";
-import type { NodePosition } from "@/components/MermaidPreview";
+import type { Stroke, ViewTransform } from "@/components/HandwritingCanvas";
+import type { EdgePosition, NodePosition } from "@/components/MermaidPreview";
 import { MULTI_STAGE_CONFIG } from "@/lib/config/multiStageProcessing";
 import {
   divideStrokesOptimally,
@@ -12,6 +12,7 @@ import {
   isStrokeDataTooLarge,
   simplifyStrokes,
 } from "@/lib/utils/strokeSimplification";
+import { type AiCandidate, parseAiCandidates } from "@/server/ai/parsing";
 import type { DiagramType } from "@/server/db/schema";
 import { useCallback, useRef, useState } from "react";
 
@@ -85,10 +86,15 @@ type InterpretParams = {
   strokes: Stroke[];
   currentMermaidCode: string;
   nodePositions: NodePosition[];
+  edgePositions: EdgePosition[];
   canvasImage?: string;
+  /** キャンバスの画像の座標変換（手書き文字の読み取りに使用） */
+  canvasTransform?: ViewTransform;
   hint?: string;
   diagramType: DiagramType;
   canvasSize?: { width: number; height: number };
+  /** 解釈の候補数（多段階処理では使用しない） */
+  candidateCount?: number;
 };
 
 /**
@@ -183,7 +189,7 @@ async function normalProcessing(
   params: InterpretParams,
   signal: AbortSignal,
   onProgress: (thinking: string, output: string) => void,
-): Promise<ParsedResult> {
+): Promise<ParsedResult & { candidates: AiCandidate[] }> {
   const response = await fetch("/api/ai/interpret-stream", {
     method: "POST",
     headers: {
@@ -193,10 +199,13 @@ async function normalProcessing(
       strokes: params.strokes,
       currentMermaidCode: params.currentMermaidCode,
       nodePositions: params.nodePositions,
+      edgePositions: params.edgePositions,
       canvasImage: params.canvasImage,
+      canvasTransform: params.canvasTransform,
       hint: params.hint,
       diagramType: params.diagramType,
       mode: "normal",
+      candidateCount: params.candidateCount,
     }),
     signal,
   });
@@ -213,7 +222,12 @@ async function normalProcessing(
 
   const { outputBuffer } = await readSSEStream(reader, onProgress);
 
-  return parseResult(outputBuffer);
+  // 候補は確信度の高い順のため、先頭を最終結果とする
+  const candidates = parseAiCandidates(outputBuffer);
+  const [best] = candidates;
+  return best
+    ? { mermaidCode: best.mermaidCode, reason: best.reason, candidates }
+    : { ...parseResult(outputBuffer), candidates };
 }
 
 /**
@@ -244,7 +258,9 @@ async function processStage1(
       strokes: simplifiedStrokes,
       currentMermaidCode: params.currentMermaidCode,
       nodePositions: params.nodePositions,
+      edgePositions: params.edgePositions,
       canvasImage: params.canvasImage,
+      canvasTransform: params.canvasTransform,
       hint: params.hint,
       diagramType: params.diagramType,
       mode: "structure-extraction",
@@ -301,7 +317,9 @@ async function processStage2A(
       strokes: remainingStrokes,
       currentMermaidCode: baseMermaidCode,
       nodePositions: params.nodePositions,
+      edgePositions: params.edgePositions,
       canvasImage: params.canvasImage,
+      canvasTransform: params.canvasTransform,
       hint: params.hint,
       diagramType: params.diagramType,
       mode: "detail-addition",
@@ -450,6 +468,8 @@ export function useMultiStageAIStream() {
         mermaidCode: string | null;
         reason: string | null;
         thinking: string;
+        /** 解釈の候補（通常処理で候補数を指定した場合） */
+        candidates?: AiCandidate[];
       }) => void,
       onStage1Complete?: (result: {
         mermaidCode: string;
@@ -510,6 +530,7 @@ export function useMultiStageAIStream() {
             mermaidCode: result.mermaidCode,
             reason: result.reason,
             thinking: finalThinking,
+            candidates: result.candidates,
           });
 
           return;
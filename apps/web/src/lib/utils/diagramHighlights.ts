@@ -0,0 +1,33 @@
+import type { DiagramHighlights } from "@/components/MermaidPreview";
+import type { DiagramDiff } from "@/server/mermaid/diff";
+
+/**
+ * 差分からダイアグラムのハイライトを作成
+ * 変更後の表示では追加・変更を、変更前の表示では削除・変更をハイライトする
+ */
+export function buildDiffHighlights(
+  diff: DiagramDiff,
+  view: "before" | "after",
+): DiagramHighlights {
+  const nodes: DiagramHighlights["nodes"] = [];
+  const edges: DiagramHighlights["edges"] = [];
+
+  const nodeChanges = view === "after" ? diff.nodes.added : diff.nodes.removed;
+  const edgeChanges = view === "after" ? diff.edges.added : diff.edges.removed;
+  const kind = view === "after" ? "added" : "removed";
+
+  for (const node of nodeChanges) {
+    nodes.push({ id: node.id, kind });
+  }
+  for (const { after } of diff.nodes.relabeled) {
+    nodes.push({ id: after.id, kind: "changed" });
+  }
+  for (const edge of edgeChanges) {
+    edges.push({ source: edge.source, target: edge.target, kind });
+  }
+  for (const { after } of diff.edges.relabeled) {
+    edges.push({ source: after.source, target: after.target, kind: "changed" });
+  }
+
+  return { nodes, edges };
+}
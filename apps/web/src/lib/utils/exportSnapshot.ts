@@ -0,0 +1,84 @@
+import type { ExportSnapshot } from "@/server/db/schema";
+
+/**
+ * エクスポート用の描画設定
+ * foreignObject（HTMLラベル）はサーバー側のラスタライズで描画できないため、SVGのtext要素で描画する
+ */
+const EXPORT_INIT_DIRECTIVE =
+  '%%{init: {"htmlLabels": false, "flowchart": {"htmlLabels": false}}}%%';
+
+/**
+ * Mermaidコードにエクスポート用の描画設定を追加
+ * フロントマター（--- ... ---）がある場合はその直後に追加する
+ * サーバー側の描画（server/export/snapshot.ts）でも使う
+ */
+export function withExportDirective(mermaidCode: string): string {
+  const frontmatter = mermaidCode.match(/^\s*---\r?\n[\s\S]*?\r?\n---\s*\r?\n/);
+  if (frontmatter) {
+    const head = frontmatter[0];
+    return `${head}${EXPORT_INIT_DIRECTIVE}\n${mermaidCode.slice(head.length)}`;
+  }
+  return `${EXPORT_INIT_DIRECTIVE}\n${mermaidCode}`;
+}
+
+/**
+ * エディタ（MermaidPreview）と同じレイアウトでSVGを配置し、表示される領域を計測
+ * 手書きストロークはこの領域を基準とした座標で保存されている
+ */
+function measureFrame(
+  svg: string,
+  canvasSize: { width: number; height: number },
+): ExportSnapshot["frame"] {
+  const container = document.createElement("div");
+  Object.assign(container.style, {
+    position: "fixed",
+    left: "-100000px",
+    top: "0",
+    width: `${canvasSize.width}px`,
+    height: `${canvasSize.height}px`,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    visibility: "hidden",
+  });
+  container.innerHTML = svg;
+  document.body.appendChild(container);
+
+  try {
+    const svgElement = container.querySelector("svg");
+    if (!svgElement) {
+      throw new Error("SVGの描画に失敗しました");
+    }
+    svgElement.style.maxWidth = "100%";
+    svgElement.style.maxHeight = "100%";
+
+    const containerRect = container.getBoundingClientRect();
+    const rect = svgElement.getBoundingClientRect();
+    return {
+      x: rect.left - containerRect.left,
+      y: rect.top - containerRect.top,
+      width: rect.width,
+      height: rect.height,
+    };
+  } finally {
+    container.remove();
+  }
+}
+
+/**
+ * バージョンのMermaidコードからエクスポート用のSVGスナップショットを作成
+ *
+ * @param mermaidCode - 描画するMermaidコード
+ * @param canvasSize - エディタのキャンバスサイズ（手書きレイヤーの位置合わせに使う）
+ */
+export async function renderExportSnapshot(
+  mermaidCode: string,
+  canvasSize: { width: number; height: number },
+): Promise<ExportSnapshot> {
+  const { default: mermaid } = await import("mermaid");
+  const { svg } = await mermaid.render(
+    `export-snapshot-${Date.now()}`,
+    withExportDirective(mermaidCode),
+  );
+  return { svg, frame: measureFrame(svg, canvasSize) };
+}
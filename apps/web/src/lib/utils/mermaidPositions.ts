@@ -0,0 +1,608 @@
+import type {
+  EdgePosition,
+  NodePosition,
+  NodePositionKind,
+} from "@/components/MermaidPreview";
+
+/**
+ * 要素の矩形（コンテナ内の相対座標）
+ */
+type Rect = { x: number; y: number; width: number; height: number };
+
+/** 経路の点がないエッジをパスから標本化する間隔（px） */
+const EDGE_SAMPLE_INTERVAL = 20;
+
+/** パスから標本化する点の上限 */
+const EDGE_SAMPLE_LIMIT = 30;
+
+/**
+ * 共通のレンダラー（g.node）で描画される図の種類
+ */
+type GraphDiagramKind = "flowchart" | "class" | "state" | "er";
+
+/**
+ * 図の要素のDOM IDからMermaidコード内のIDを取り出す規則（図の種類ごと）
+ * flowchart-A-0 / classId-A-0 / state-A-0 / entity-A-0 の形式
+ */
+const DOM_ID_PATTERNS: Record<
+  GraphDiagramKind,
+  { pattern: RegExp; kind: NodePositionKind }
+> = {
+  flowchart: { pattern: /^flowchart-(.+)-\d+$/, kind: "node" },
+  class: { pattern: /^classId-(.+)-\d+$/, kind: "class" },
+  state: { pattern: /^state-(.+)-\d+$/, kind: "state" },
+  er: { pattern: /^entity-(.+)-\d+$/, kind: "entity" },
+};
+
+/**
+ * 独自のレンダラーで描画される図の種類
+ */
+type CustomDiagramKind =
+  | "sequence"
+  | "gantt"
+  | "mindmap"
+  | "timeline"
+  | "c4"
+  | "architecture";
+
+/**
+ * SVGのaria-roledescription（Mermaidが設定する図の種類）から抽出方法を決める
+ */
+function getDiagramKind(
+  svgElement: SVGSVGElement,
+): GraphDiagramKind | CustomDiagramKind | null {
+  const role = svgElement.getAttribute("aria-roledescription") ?? "";
+  if (role.startsWith("flowchart")) return "flowchart";
+  if (role === "sequence") return "sequence";
+  if (role.startsWith("class")) return "class";
+  if (role.startsWith("state")) return "state";
+  if (role === "er") return "er";
+  if (role === "gantt") return "gantt";
+  if (role === "mindmap") return "mindmap";
+  if (role === "timeline") return "timeline";
+  if (role === "c4") return "c4";
+  if (role === "architecture") return "architecture";
+  return null;
+}
+
+/**
+ * 要素の矩形をコンテナ内の相対座標で取得
+ */
+function getRect(element: Element, containerRect: DOMRect): Rect {
+  const rect = element.getBoundingClientRect();
+  return {
+    x: rect.left - containerRect.left,
+    y: rect.top - containerRect.top,
+    width: rect.width,
+    height: rect.height,
+  };
+}
+
+/**
+ * 2つの矩形を囲む矩形
+ */
+function unionRect(a: Rect, b: Rect): Rect {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+/**
+ * 矩形から位置情報を作成（整数に丸める）
+ */
+function toPosition(
+  id: string,
+  label: string,
+  kind: NodePositionKind,
+  rect: Rect,
+  extra?: Pick<NodePosition, "source" | "target">,
+): NodePosition {
+  return {
+    id,
+    label,
+    kind,
+    x: Math.round(rect.x),
+    y: Math.round(rect.y),
+    width: Math.round(rect.width),
+    height: Math.round(rect.height),
+    centerX: Math.round(rect.x + rect.width / 2),
+    centerY: Math.round(rect.y + rect.height / 2),
+    ...extra,
+  };
+}
+
+/**
+ * ノードのラベルテキストを取得
+ */
+function getLabel(element: Element, fallback: string): string {
+  const labelElement = element.querySelector(
+    ".label-group, .nodeLabel, .label, text, foreignObject",
+  );
+  const text = (labelElement?.textContent ?? "").replace(/\s+/g, " ").trim();
+  return text || fallback;
+}
+
+/**
+ * ダイアグラムのノード（g.node）を抽出
+ * flowchart / クラス図 / 状態遷移図 / ER図 は共通のレンダラーで描画され、
+ * 要素のIDに元のIDが含まれる
+ */
+function extractGraphNodes(
+  svgElement: SVGSVGElement,
+  containerRect: DOMRect,
+  diagramKind: GraphDiagramKind,
+): NodePosition[] {
+  const rule = DOM_ID_PATTERNS[diagramKind];
+  const positions: NodePosition[] = [];
+  for (const node of svgElement.querySelectorAll("g.node[id]")) {
+    const idMatch = node.id.match(rule.pattern);
+    const nodeId = idMatch?.[1];
+    // 状態遷移図のノート（state-A----note-0）はノードとして扱わない
+    if (!nodeId || nodeId.includes("----")) continue;
+
+    positions.push(
+      toPosition(
+        nodeId,
+        getLabel(node, nodeId),
+        rule.kind,
+        getRect(node, containerRect),
+      ),
+    );
+  }
+
+  // 状態遷移図の複合状態はクラスタ（IDは元の状態ID）として描画される
+  if (diagramKind === "state") {
+    for (const cluster of svgElement.querySelectorAll("g.cluster[id]")) {
+      const label =
+        cluster.querySelector(".cluster-label")?.textContent?.trim() ||
+        cluster.id;
+      positions.push(
+        toPosition(cluster.id, label, "state", getRect(cluster, containerRect)),
+      );
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * SVG要素内の座標を画面座標に変換
+ */
+function toScreenX(element: SVGGraphicsElement, x: number, y: number): number {
+  const matrix = element.getScreenCTM();
+  return matrix ? new DOMPoint(x, y).matrixTransform(matrix).x : x;
+}
+
+/**
+ * シーケンス図の参加者・ライフライン・メッセージを抽出
+ * 参加者とライフラインは name 属性に参加者のIDを持つ
+ * メッセージは元のIDを持たないため、線の両端に最も近いライフラインから送信元・送信先を求める
+ */
+function extractSequenceElements(
+  svgElement: SVGSVGElement,
+  containerRect: DOMRect,
+): NodePosition[] {
+  const positions: NodePosition[] = [];
+
+  // 参加者（上下の箱、actor の場合は人型の図形）
+  for (const actor of svgElement.querySelectorAll(
+    ".actor-top[name], .actor-bottom[name]",
+  )) {
+    const id = actor.getAttribute("name") ?? "";
+    // 箱（rect）の場合はラベルが兄弟要素にある
+    const labelRoot =
+      actor.tagName.toLowerCase() === "g" ? actor : actor.parentElement;
+    const label =
+      labelRoot
+        ?.querySelector("text")
+        ?.textContent?.replace(/\s+/g, " ")
+        .trim() || id;
+    positions.push(
+      toPosition(id, label, "participant", getRect(actor, containerRect)),
+    );
+  }
+
+  // ライフライン（細い線のため、判定しやすいよう左右に余白を持たせる）
+  // X印などの判定でメッセージを優先するよう、位置情報の最後に追加する
+  const lifelinePositions: NodePosition[] = [];
+  const lifelines: { id: string; screenX: number }[] = [];
+  for (const line of svgElement.querySelectorAll("line.actor-line[name]")) {
+    const id = line.getAttribute("name") ?? "";
+    const rect = getRect(line, containerRect);
+    const label =
+      positions.find((p) => p.id === id && p.kind === "participant")?.label ??
+      id;
+    lifelinePositions.push(
+      toPosition(id, label, "lifeline", {
+        x: rect.x - 8,
+        y: rect.y,
+        width: rect.width + 16,
+        height: rect.height,
+      }),
+    );
+    lifelines.push({
+      id,
+      screenX: rect.x + rect.width / 2 + containerRect.left,
+    });
+  }
+
+  const nearestLifeline = (screenX: number): string | null => {
+    let nearest: { id: string; distance: number } | null = null;
+    for (const lifeline of lifelines) {
+      const distance = Math.abs(lifeline.screenX - screenX);
+      if (!nearest || distance < nearest.distance) {
+        nearest = { id: lifeline.id, distance };
+      }
+    }
+    return nearest?.id ?? null;
+  };
+
+  // メッセージ（線の直前にメッセージのテキストが描画される）
+  for (const message of svgElement.querySelectorAll(
+    ".messageLine0, .messageLine1",
+  )) {
+    if (!(message instanceof SVGGraphicsElement)) continue;
+
+    let rect = getRect(message, containerRect);
+    let source: string | null;
+    let target: string | null;
+    if (message instanceof SVGLineElement) {
+      const y = message.y1.baseVal.value;
+      source = nearestLifeline(toScreenX(message, message.x1.baseVal.value, y));
+      target = nearestLifeline(toScreenX(message, message.x2.baseVal.value, y));
+    } else {
+      // 自分自身へのメッセージ（曲線）
+      source = nearestLifeline(rect.x + containerRect.left);
+      target = source;
+    }
+    if (!source || !target) continue;
+
+    const textElement = message.previousElementSibling;
+    let label = "";
+    if (textElement?.classList.contains("messageText")) {
+      label = textElement.textContent?.replace(/\s+/g, " ").trim() ?? "";
+      rect = unionRect(rect, getRect(textElement, containerRect));
+    }
+
+    positions.push(
+      toPosition(`${source}->${target}`, label, "message", rect, {
+        source,
+        target,
+      }),
+    );
+  }
+
+  return [...positions, ...lifelinePositions];
+}
+
+/**
+ * ガントチャートのタスクを抽出
+ * タスクの棒（rect.task）はタスクIDをそのままIDに持ち、ラベルは「ID-text」のテキスト要素にある
+ */
+function extractGanttTasks(
+  svgElement: SVGSVGElement,
+  containerRect: DOMRect,
+): NodePosition[] {
+  return Array.from(svgElement.querySelectorAll("rect.task[id]")).map((bar) => {
+    const label =
+      svgElement
+        .querySelector(`#${CSS.escape(`${bar.id}-text`)}`)
+        ?.textContent?.replace(/\s+/g, " ")
+        .trim() || bar.id;
+    return toPosition(bar.id, label, "task", getRect(bar, containerRect));
+  });
+}
+
+/**
+ * マインドマップのノードを抽出
+ * 描画上のID（node_0 など）は連番でコード内のIDを持たないため、ラベルをIDとする
+ * （IDを省略したノードはコード上もラベルがIDになる）
+ */
+function extractMindmapNodes(
+  svgElement: SVGSVGElement,
+  containerRect: DOMRect,
+): NodePosition[] {
+  return Array.from(svgElement.querySelectorAll("g.mindmap-node")).map(
+    (node) => {
+      const label = getLabel(node, node.id);
+      return toPosition(label, label, "topic", getRect(node, containerRect));
+    },
+  );
+}
+
+/**
+ * タイムラインの時期・出来事を抽出
+ * 要素はIDを持たず、時期（taskWrapper）の後にその時期の出来事（eventWrapper）が描画される
+ * 出来事のIDはMermaidコードの書き方に合わせて「時期 : 出来事」とする
+ */
+function extractTimelineElements(
+  svgElement: SVGSVGElement,
+  containerRect: DOMRect,
+): NodePosition[] {
+  const positions: NodePosition[] = [];
+  let period: string | null = null;
+
+  for (const wrapper of svgElement.querySelectorAll(
+    "g.taskWrapper, g.eventWrapper",
+  )) {
+    const node = wrapper.querySelector("g.timeline-node");
+    if (!node) continue;
+    // 折り返した行はtspanに分かれている
+    const label = Array.from(
+      node.querySelectorAll("text tspan"),
+      (tspan) => tspan.textContent ?? "",
+    )
+      .join(" ")
+      .replace(/\s+/g, " ")
+      .trim();
+    if (!label) continue;
+
+    const rect = getRect(node, containerRect);
+    if (wrapper.classList.contains("taskWrapper")) {
+      period = label;
+      positions.push(toPosition(label, label, "period", rect));
+    } else if (period) {
+      positions.push(toPosition(`${period} : ${label}`, label, "event", rect));
+    }
+  }
+
+  return positions;
+}
+
+/**
+ * C4図の太字のテキスト（要素・境界の名前）を取得
+ * 名前は1行ずつ太字の text 要素として描画される
+ */
+function getC4Label(element: Element): string {
+  return Array.from(element.querySelectorAll("text"))
+    .filter((text) => text.style.fontWeight === "bold")
+    .map((text) => text.textContent ?? "")
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * C4図の要素・境界を抽出
+ * 要素（g.person-man）も境界（破線の rect）もコード内のIDを描画に残さないため、名前をIDとする
+ */
+function extractC4Elements(
+  svgElement: SVGSVGElement,
+  containerRect: DOMRect,
+): NodePosition[] {
+  const positions: NodePosition[] = [];
+
+  for (const shape of svgElement.querySelectorAll("g.person-man")) {
+    const label = getC4Label(shape);
+    if (!label) continue;
+    positions.push(
+      toPosition(label, label, "element", getRect(shape, containerRect)),
+    );
+  }
+
+  // 境界は破線の枠で描画され、同じグループに名前のテキストを持つ
+  for (const frame of svgElement.querySelectorAll(
+    'rect[stroke-dasharray="7.0,7.0"]',
+  )) {
+    const label = frame.parentElement ? getC4Label(frame.parentElement) : "";
+    if (!label) continue;
+    positions.push(
+      toPosition(label, label, "boundary", getRect(frame, containerRect)),
+    );
+  }
+
+  return positions;
+}
+
+/**
+ * アーキテクチャ図のサービス・グループを抽出
+ * サービスは service-<ID>、グループの枠は group-<ID> の形式のIDを持つ
+ */
+function extractArchitectureElements(
+  svgElement: SVGSVGElement,
+  containerRect: DOMRect,
+): NodePosition[] {
+  const positions: NodePosition[] = [];
+
+  for (const service of svgElement.querySelectorAll(
+    'g.architecture-service[id^="service-"]',
+  )) {
+    const id = service.id.slice("service-".length);
+    positions.push(
+      toPosition(
+        id,
+        getLabel(service, id),
+        "service",
+        getRect(service, containerRect),
+      ),
+    );
+  }
+
+  // グループの名前は枠の直後のグループに描画される
+  for (const frame of svgElement.querySelectorAll('rect[id^="group-"]')) {
+    const id = frame.id.slice("group-".length);
+    const label =
+      frame.nextElementSibling?.textContent?.replace(/\s+/g, " ").trim() || id;
+    positions.push(
+      toPosition(id, label, "boundary", getRect(frame, containerRect)),
+    );
+  }
+
+  return positions;
+}
+
+/**
+ * MermaidのSVGから図の要素の位置情報を抽出する
+ * 図の種類（SVGの aria-roledescription）ごとに、描画された要素をMermaidコード内のIDに対応付ける
+ *
+ * @param svgElement - Mermaidが描画したSVG
+ * @param container - 座標の基準とするコンテナ（手書きレイヤーと同じ座標系）
+ */
+export function extractNodePositions(
+  svgElement: SVGSVGElement,
+  container: HTMLElement,
+): NodePosition[] {
+  const containerRect = container.getBoundingClientRect();
+  const diagramKind = getDiagramKind(svgElement);
+
+  try {
+    if (diagramKind === "sequence") {
+      return extractSequenceElements(svgElement, containerRect);
+    }
+    if (diagramKind === "gantt") {
+      return extractGanttTasks(svgElement, containerRect);
+    }
+    if (diagramKind === "mindmap") {
+      return extractMindmapNodes(svgElement, containerRect);
+    }
+    if (diagramKind === "timeline") {
+      return extractTimelineElements(svgElement, containerRect);
+    }
+    if (diagramKind === "c4") {
+      return extractC4Elements(svgElement, containerRect);
+    }
+    if (diagramKind === "architecture") {
+      return extractArchitectureElements(svgElement, containerRect);
+    }
+    if (diagramKind) {
+      return extractGraphNodes(svgElement, containerRect, diagramKind);
+    }
+    // その他の図はノードのDOM IDをそのまま使う
+    return Array.from(svgElement.querySelectorAll("g.node[id]")).map((node) =>
+      toPosition(
+        node.id,
+        getLabel(node, node.id),
+        "node",
+        getRect(node, containerRect),
+      ),
+    );
+  } catch (err) {
+    console.warn("ノード位置の抽出に失敗:", err);
+  }
+  return [];
+}
+
+/**
+ * エッジの経路をコンテナ内の相対座標の折れ線として取得
+ * Mermaidはパスの data-points 属性に経路の点（JSONをBase64エンコードしたもの）を持つ。
+ * 属性がない場合はパスに沿って一定間隔で点を取る
+ */
+function getEdgePoints(path: SVGPathElement, containerRect: DOMRect): number[] {
+  let points: { x: number; y: number }[] = [];
+  const encoded = path.getAttribute("data-points");
+  if (encoded) {
+    try {
+      points = JSON.parse(atob(encoded));
+    } catch {
+      points = [];
+    }
+  }
+  if (points.length < 2) {
+    const length = path.getTotalLength();
+    const steps = Math.min(
+      EDGE_SAMPLE_LIMIT,
+      Math.max(1, Math.ceil(length / EDGE_SAMPLE_INTERVAL)),
+    );
+    points = Array.from({ length: steps + 1 }, (_, i) =>
+      path.getPointAtLength((length * i) / steps),
+    );
+  }
+
+  const matrix = path.getScreenCTM();
+  return points.flatMap((point) => {
+    const screen = matrix
+      ? new DOMPoint(point.x, point.y).matrixTransform(matrix)
+      : point;
+    return [
+      Math.round(screen.x - containerRect.left),
+      Math.round(screen.y - containerRect.top),
+    ];
+  });
+}
+
+/**
+ * 点に最も近いノード（点と矩形の距離が最小のもの）を探す
+ */
+function findNearestNode(
+  x: number,
+  y: number,
+  nodePositions: NodePosition[],
+): NodePosition | null {
+  let nearest: { node: NodePosition; distance: number } | null = null;
+  for (const node of nodePositions) {
+    const dx = Math.max(node.x - x, 0, x - (node.x + node.width));
+    const dy = Math.max(node.y - y, 0, y - (node.y + node.height));
+    const distance = Math.hypot(dx, dy);
+    if (!nearest || distance < nearest.distance) {
+      nearest = { node, distance };
+    }
+  }
+  return nearest?.node ?? null;
+}
+
+/**
+ * MermaidのSVGからエッジ（ノード間の接続線）の経路を抽出する
+ * エッジのIDは図の種類ごとに形式が異なり（L_A_B_0 / id_A_B_1 / edge0 など）元のIDを復元できないため、
+ * 経路の両端に最も近いノードを接続元・接続先とする（境界・グループは接続元・接続先にしない）
+ *
+ * @param svgElement - Mermaidが描画したSVG
+ * @param container - 座標の基準とするコンテナ（手書きレイヤーと同じ座標系）
+ * @param nodePositions - extractNodePositions で抽出したノードの位置情報
+ */
+export function extractEdgePositions(
+  svgElement: SVGSVGElement,
+  container: HTMLElement,
+  nodePositions: NodePosition[],
+): EdgePosition[] {
+  // シーケンス図のメッセージはノードの位置情報（message）として扱う
+  if (getDiagramKind(svgElement) === "sequence") return [];
+
+  const containerRect = container.getBoundingClientRect();
+  const endpoints = nodePositions.filter((node) => node.kind !== "boundary");
+  const edges: EdgePosition[] = [];
+
+  try {
+    // アーキテクチャ図の接続は data-edge 属性を持たない
+    for (const path of svgElement.querySelectorAll(
+      'path[data-edge="true"][id], .architecture-edges path.edge[id]',
+    )) {
+      if (!(path instanceof SVGPathElement)) continue;
+
+      const points = getEdgePoints(path, containerRect);
+      const [startX, startY] = points;
+      const endX = points[points.length - 2];
+      const endY = points[points.length - 1];
+      if (
+        startX === undefined ||
+        startY === undefined ||
+        endX === undefined ||
+        endY === undefined
+      ) {
+        continue;
+      }
+
+      const source = findNearestNode(startX, startY, endpoints);
+      const target = findNearestNode(endX, endY, endpoints);
+      if (!source || !target) continue;
+
+      const labelElement = svgElement.querySelector(
+        `.edgeLabel .label[data-id="${CSS.escape(path.id)}"]`,
+      );
+      edges.push({
+        id: path.id,
+        source: source.id,
+        target: target.id,
+        label: (labelElement?.textContent ?? "").replace(/\s+/g, " ").trim(),
+        points,
+      });
+    }
+  } catch (err) {
+    console.warn("エッジ位置の抽出に失敗:", err);
+  }
+  return edges;
+}
@@ -0,0 +1,155 @@
+import type { Stroke } from "@/components/HandwritingCanvas";
+import { classifyStroke } from "@/server/ai/recognizer";
+import type { StrokeShapeKind } from "@/server/db/schema";
+import { getStrokeTimeRange } from "./strokeInput";
+
+/** 図形の種類ごとの表示名 */
+export const STROKE_SHAPE_LABELS: Record<StrokeShapeKind, string> = {
+  rectangle: "四角形",
+  diamond: "ひし形",
+  ellipse: "楕円",
+  line: "線",
+  arrow: "矢印",
+};
+
+/** 楕円を近似する点の数 */
+const ELLIPSE_SEGMENTS = 48;
+/** 矢じりの長さ（線の長さに対する比率） */
+const ARROW_HEAD_RATIO = 0.2;
+/** 矢じりの長さの範囲（px） */
+const ARROW_HEAD_MIN = 10;
+const ARROW_HEAD_MAX = 24;
+/** 矢じりの開き（ラジアン） */
+const ARROW_HEAD_ANGLE = Math.PI / 6;
+
+/**
+ * 整形した図形の点を作成
+ *
+ * @returns 図形の点 [x1, y1, x2, y2, ...]（閉じた図形は始点に戻る）
+ */
+function createShapePoints(
+  kind: StrokeShapeKind,
+  geometry: {
+    bounds: { minX: number; minY: number; maxX: number; maxY: number };
+    from: { x: number; y: number };
+    to: { x: number; y: number };
+  },
+): number[] {
+  const { minX, minY, maxX, maxY } = geometry.bounds;
+  const centerX = (minX + maxX) / 2;
+  const centerY = (minY + maxY) / 2;
+  const { from, to } = geometry;
+
+  switch (kind) {
+    case "rectangle":
+      return [minX, minY, maxX, minY, maxX, maxY, minX, maxY, minX, minY];
+    case "diamond":
+      return [
+        centerX,
+        minY,
+        maxX,
+        centerY,
+        centerX,
+        maxY,
+        minX,
+        centerY,
+        centerX,
+        minY,
+      ];
+    case "ellipse": {
+      const radiusX = (maxX - minX) / 2;
+      const radiusY = (maxY - minY) / 2;
+      const points: number[] = [];
+      for (let i = 0; i <= ELLIPSE_SEGMENTS; i++) {
+        const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+        points.push(
+          centerX + radiusX * Math.cos(angle),
+          centerY + radiusY * Math.sin(angle),
+        );
+      }
+      return points;
+    }
+    case "line":
+      return [from.x, from.y, to.x, to.y];
+    case "arrow": {
+      // 軸 → 先端 → 矢じりの片側 → 先端 → 矢じりのもう片側（1本のストロークで描く）
+      const angle = Math.atan2(to.y - from.y, to.x - from.x);
+      const headLength = Math.min(
+        ARROW_HEAD_MAX,
+        Math.max(
+          ARROW_HEAD_MIN,
+          Math.hypot(to.x - from.x, to.y - from.y) * ARROW_HEAD_RATIO,
+        ),
+      );
+      const wing = (side: 1 | -1) => [
+        to.x - headLength * Math.cos(angle - side * ARROW_HEAD_ANGLE),
+        to.y - headLength * Math.sin(angle - side * ARROW_HEAD_ANGLE),
+      ];
+      return [from.x, from.y, to.x, to.y, ...wing(1), to.x, to.y, ...wing(-1)];
+    }
+  }
+}
+
+/**
+ * 描き終えたストロークを図形として認識し、整形したストロークに置き換える
+ * 認識にはローカル認識（`classifyStroke`）の判定を使う
+ *
+ * 点ごとの筆圧・傾きは整形後の点と対応しないため除き、時刻は描いた時間に均等に割り当てる
+ *
+ * @param stroke - 描き終えたストローク
+ * @returns 整形したストローク（図形として認識できない場合はnull）
+ */
+export function beautifyStroke(stroke: Stroke): Stroke | null {
+  const recognized = classifyStroke(stroke, 0);
+
+  let shape: StrokeShapeKind;
+  let points: number[];
+  switch (recognized.kind) {
+    case "rectangle":
+    case "diamond":
+    case "circle": {
+      shape = recognized.kind === "circle" ? "ellipse" : recognized.kind;
+      points = createShapePoints(shape, {
+        bounds: recognized.bounds,
+        from: { x: recognized.bounds.minX, y: recognized.bounds.minY },
+        to: { x: recognized.bounds.maxX, y: recognized.bounds.maxY },
+      });
+      break;
+    }
+    case "line":
+    case "arrow": {
+      shape = recognized.kind;
+      const { from, to } = recognized;
+      points = createShapePoints(shape, {
+        bounds: {
+          minX: Math.min(from.x, to.x),
+          minY: Math.min(from.y, to.y),
+          maxX: Math.max(from.x, to.x),
+          maxY: Math.max(from.y, to.y),
+        },
+        from,
+        to,
+      });
+      break;
+    }
+    default:
+      return null;
+  }
+
+  const range = getStrokeTimeRange(stroke);
+  const pointCount = points.length / 2;
+  return {
+    id: stroke.id,
+    points,
+    color: stroke.color,
+    strokeWidth: stroke.strokeWidth,
+    shape,
+    ...(stroke.pointerType && { pointerType: stroke.pointerType }),
+    ...(range && {
+      startedAt: range.start,
+      timestamps: Array.from({ length: pointCount }, (_, i) =>
+        Math.round(((range.end - range.start) * i) / (pointCount - 1 || 1)),
+      ),
+    }),
+  };
+}
@@ -1,5 +1,6 @@
 import type { Stroke } from "@/components/HandwritingCanvas";
 import { MULTI_STAGE_CONFIG } from "@/lib/config/multiStageProcessing";
+import { getStrokeTimeRange } from "./strokeInput";
 import {
   estimateStrokeDataSize,
   getStrokeBounds,
@@ -135,9 +136,43 @@ export function clusterStrokes(
   return clusters;
 }
 
+/**
+ * 描画の間隔でストロークをまとまりに分ける
+ * 前のストロークを描き終えてから次を描き始めるまでの間隔が閾値以上の位置で区切る
+ * 時刻を記録していないストロークの前後では区切らない
+ *
+ * @param strokes - ストローク配列（描画順）
+ * @param gapThresholdMs - 区切る間隔（ミリ秒）
+ * @returns まとまりごとのストロークのインデックス
+ */
+export function groupStrokeIndicesByTimeGap(
+  strokes: Array<Pick<Stroke, "startedAt" | "timestamps">>,
+  gapThresholdMs: number = MULTI_STAGE_CONFIG.TIME_DIVISION.GAP_THRESHOLD_MS,
+): number[][] {
+  const groups: number[][] = [];
+  let previous: { start: number; end: number } | null = null;
+
+  for (const [index, stroke] of strokes.entries()) {
+    const range = getStrokeTimeRange(stroke);
+    const current = groups.at(-1);
+    if (
+      !current ||
+      (previous && range && range.start - previous.end >= gapThresholdMs)
+    ) {
+      groups.push([index]);
+    } else {
+      current.push(index);
+    }
+    previous = range;
+  }
+
+  return groups;
+}
+
 /**
  * ストロークを時間的順序で分割する
- * 描画順序（ストロークのインデックス）で分割
+ * 描画の間隔で分けたまとまりを、1バッチのストローク数を超えない範囲でまとめる
+ * （時刻を記録していない場合は描画順序で均等に分割）
  *
  * @param strokes - ストローク配列
  * @param batchSize - 1バッチあたりのストローク数
@@ -149,8 +184,20 @@ export function divideStrokesByTime(
 ): Stroke[][] {
   const batches: Stroke[][] = [];
 
-  for (let i = 0; i < strokes.length; i += batchSize) {
-    batches.push(strokes.slice(i, i + batchSize));
+  for (const indices of groupStrokeIndicesByTimeGap(strokes)) {
+    const group = indices.flatMap((index) => strokes[index] ?? []);
+    const last = batches.at(-1);
+
+    // 前のバッチに収まる場合はまとめる
+    if (last && last.length + group.length <= batchSize) {
+      last.push(...group);
+      continue;
+    }
+
+    // 1バッチに収まらないまとまりは描画順序で分割
+    for (let i = 0; i < group.length; i += batchSize) {
+      batches.push(group.slice(i, i + batchSize));
+    }
   }
 
   return batches;
@@ -0,0 +1,152 @@
+import type { Stroke } from "@/components/HandwritingCanvas";
+
+/**
+ * ポインターイベントから取り出した1点分の入力
+ */
+export type PointerSample = {
+  /** 入力デバイス */
+  pointerType: "mouse" | "pen" | "touch";
+  /** 筆圧（0〜1） */
+  pressure: number;
+  /** X方向の傾き（-90〜90度） */
+  tiltX: number;
+  /** Y方向の傾き（-90〜90度） */
+  tiltY: number;
+  /** 入力された時刻（UNIXミリ秒） */
+  time: number;
+};
+
+/**
+ * 描画中のストローク（IDと見た目の設定を除いたもの）
+ */
+export type StrokeInput = Omit<Stroke, "id" | "color" | "strokeWidth">;
+
+/** 筆圧0のときの太さの倍率 */
+const MIN_PRESSURE_WIDTH_RATIO = 0.4;
+/** 筆圧1のときの太さの倍率（筆圧0.5で元の太さになる） */
+const MAX_PRESSURE_WIDTH_RATIO = 1.6;
+
+/**
+ * ポインターイベントから入力を取り出す
+ *
+ * @param evt - ポインターイベント
+ */
+export function getPointerSample(evt: PointerEvent): PointerSample {
+  const pointerType =
+    evt.pointerType === "pen" || evt.pointerType === "touch"
+      ? evt.pointerType
+      : "mouse";
+  return {
+    pointerType,
+    pressure: evt.pressure,
+    tiltX: evt.tiltX ?? 0,
+    tiltY: evt.tiltY ?? 0,
+    // timeStampはページ読み込みからの経過時間のため、UNIX時刻に変換する
+    time: Math.round(performance.timeOrigin + evt.timeStamp),
+  };
+}
+
+/**
+ * 描画中のストロークを開始
+ * 筆圧・傾きはペン入力の場合のみ記録する（マウス・タッチは値が固定のため）
+ *
+ * @param x - X座標
+ * @param y - Y座標
+ * @param sample - 入力（ない場合は座標のみ記録）
+ */
+export function startStrokeInput(
+  x: number,
+  y: number,
+  sample?: PointerSample,
+): StrokeInput {
+  if (!sample) return { points: [x, y] };
+  const isPen = sample.pointerType === "pen";
+  return {
+    points: [x, y],
+    pointerType: sample.pointerType,
+    startedAt: sample.time,
+    timestamps: [0],
+    ...(isPen && {
+      pressures: [sample.pressure],
+      tilts: [sample.tiltX, sample.tiltY],
+    }),
+  };
+}
+
+/**
+ * 描画中のストロークに点を追加
+ *
+ * @param input - 描画中のストローク
+ * @param x - X座標
+ * @param y - Y座標
+ * @param sample - 入力
+ */
+export function appendStrokeInput(
+  input: StrokeInput,
+  x: number,
+  y: number,
+  sample?: PointerSample,
+): StrokeInput {
+  return {
+    ...input,
+    points: [...input.points, x, y],
+    ...(input.timestamps &&
+      sample &&
+      input.startedAt !== undefined && {
+        timestamps: [...input.timestamps, sample.time - input.startedAt],
+      }),
+    ...(input.pressures &&
+      sample && { pressures: [...input.pressures, sample.pressure] }),
+    ...(input.tilts &&
+      sample && { tilts: [...input.tilts, sample.tiltX, sample.tiltY] }),
+  };
+}
+
+/**
+ * ストロークが筆圧を持っているか判定
+ */
+export function hasPressure(stroke: Pick<Stroke, "points" | "pressures">) {
+  return (
+    !!stroke.pressures &&
+    stroke.pressures.length === Math.floor(stroke.points.length / 2)
+  );
+}
+
+/**
+ * 指定した点での線の太さを計算（筆圧がない場合は元の太さ）
+ *
+ * @param stroke - ストローク
+ * @param pointIndex - 点のインデックス（pointsの要素番号ではなく点の番号）
+ */
+export function getPointWidth(
+  stroke: Pick<Stroke, "points" | "strokeWidth" | "pressures">,
+  pointIndex: number,
+): number {
+  const pressure = hasPressure(stroke)
+    ? stroke.pressures?.[pointIndex]
+    : undefined;
+  if (pressure === undefined) return stroke.strokeWidth;
+  return (
+    stroke.strokeWidth *
+    (MIN_PRESSURE_WIDTH_RATIO +
+      (MAX_PRESSURE_WIDTH_RATIO - MIN_PRESSURE_WIDTH_RATIO) * pressure)
+  );
+}
+
+/**
+ * ストロークを描いた時間の範囲を取得
+ *
+ * @param stroke - ストローク
+ * @returns 描き始めと描き終わりの時刻（UNIXミリ秒）。時刻を記録していない場合はnull
+ */
+export function getStrokeTimeRange(
+  stroke: Pick<Stroke, "startedAt" | "timestamps">,
+): { start: number; end: number } | null {
+  if (stroke.startedAt === undefined || !stroke.timestamps?.length) {
+    return null;
+  }
+  return {
+    start: stroke.startedAt,
+    end: stroke.startedAt + (stroke.timestamps.at(-1) ?? 0),
+  };
+}
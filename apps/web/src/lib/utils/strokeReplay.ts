@@ -0,0 +1,102 @@
+import type { Stroke } from "@/components/HandwritingCanvas";
+import { getStrokeTimeRange } from "./strokeInput";
+
+/** 再生時のストローク間の最大の間隔（ミリ秒、長い休止は詰めて再生する） */
+const MAX_REPLAY_GAP_MS = 1000;
+/** 時刻を記録していないストロークの点の間隔（ミリ秒） */
+const FALLBACK_POINT_INTERVAL_MS = 8;
+/** 時刻を記録していないストロークの前の間隔（ミリ秒） */
+const FALLBACK_STROKE_GAP_MS = 300;
+
+/**
+ * 再生タイムライン上の1ストローク
+ */
+type ReplayEntry = {
+  stroke: Stroke;
+  /** 描き始めの再生時刻（ミリ秒） */
+  start: number;
+  /** 点ごとの描き始めからの時刻（ミリ秒） */
+  offsets: number[];
+};
+
+/**
+ * ストロークの再生タイムライン
+ */
+export type ReplayTimeline = {
+  entries: ReplayEntry[];
+  /** 再生時間の合計（ミリ秒） */
+  duration: number;
+};
+
+/**
+ * 再生の1コマ（描き始めたストロークと、描画済みの点の数）
+ */
+export type ReplayFrame = Array<{ stroke: Stroke; pointCount: number }>;
+
+/**
+ * ストロークから再生タイムラインを作成
+ * 記録した時刻どおりに再生し、時刻のないストローク（Pointer Events対応前のデータ）は一定の速さで再生する
+ *
+ * @param strokes - ストローク配列（描画順）
+ */
+export function buildReplayTimeline(strokes: Stroke[]): ReplayTimeline {
+  const entries: ReplayEntry[] = [];
+  let cursor = 0;
+  // 直前のストロークを描き終えた実際の時刻（時刻がない場合はnull）
+  let previousEnd: number | null = null;
+
+  for (const [index, stroke] of strokes.entries()) {
+    const pointCount = Math.floor(stroke.points.length / 2);
+    const range = getStrokeTimeRange(stroke);
+    const hasTimestamps = !!range && stroke.timestamps?.length === pointCount;
+
+    let gap = 0;
+    if (index > 0) {
+      gap =
+        hasTimestamps && range && previousEnd !== null
+          ? Math.min(Math.max(range.start - previousEnd, 0), MAX_REPLAY_GAP_MS)
+          : FALLBACK_STROKE_GAP_MS;
+    }
+
+    const offsets =
+      hasTimestamps && stroke.timestamps
+        ? stroke.timestamps
+        : Array.from(
+            { length: pointCount },
+            (_, i) => i * FALLBACK_POINT_INTERVAL_MS,
+          );
+
+    const start = cursor + gap;
+    entries.push({ stroke, start, offsets });
+    cursor = start + (offsets.at(-1) ?? 0);
+    previousEnd = hasTimestamps && range ? range.end : null;
+  }
+
+  return { entries, duration: cursor };
+}
+
+/**
+ * 指定した再生時刻のコマを取得
+ *
+ * @param timeline - 再生タイムライン
+ * @param time - 再生時刻（ミリ秒）
+ */
+export function getReplayFrame(
+  timeline: ReplayTimeline,
+  time: number,
+): ReplayFrame {
+  const frame: ReplayFrame = [];
+  for (const entry of timeline.entries) {
+    if (entry.start > time) break;
+    const elapsed = time - entry.start;
+    let pointCount = 0;
+    while (
+      pointCount < entry.offsets.length &&
+      (entry.offsets[pointCount] ?? 0) <= elapsed
+    ) {
+      pointCount++;
+    }
+    frame.push({ stroke: entry.stroke, pointCount });
+  }
+  return frame;
+}
@@ -0,0 +1,183 @@
+import type { Stroke } from "@/components/HandwritingCanvas";
+import { getStrokeBounds } from "./strokeSimplification";
+
+/** 投げ縄・矩形の内側にあるとみなすために必要な点の割合 */
+const SELECTION_INCLUSION_RATIO = 0.5;
+
+/**
+ * 点から線分までの距離を計算
+ */
+function distanceToSegment(
+  px: number,
+  py: number,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lenSq = dx * dx + dy * dy;
+  const t =
+    lenSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lenSq));
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+}
+
+/**
+ * 指定した位置に触れているストロークを取得（消しゴム用）
+ * ストロークの太さも当たり判定に含める
+ *
+ * @param strokes - ストローク配列
+ * @param x - X座標
+ * @param y - Y座標
+ * @param radius - 当たり判定の半径
+ * @returns 触れているストロークのID
+ */
+export function getStrokesHitByPoint(
+  strokes: Stroke[],
+  x: number,
+  y: number,
+  radius: number,
+): string[] {
+  return strokes
+    .filter((stroke) => {
+      const { points } = stroke;
+      const tolerance = radius + stroke.strokeWidth / 2;
+      const firstX = points[0];
+      const firstY = points[1];
+      if (firstX === undefined || firstY === undefined) return false;
+
+      // 1点だけのストローク
+      if (points.length < 4) {
+        return Math.hypot(x - firstX, y - firstY) <= tolerance;
+      }
+
+      for (let i = 0; i + 3 < points.length; i += 2) {
+        const x1 = points[i] ?? 0;
+        const y1 = points[i + 1] ?? 0;
+        const x2 = points[i + 2] ?? 0;
+        const y2 = points[i + 3] ?? 0;
+        if (distanceToSegment(x, y, x1, y1, x2, y2) <= tolerance) {
+          return true;
+        }
+      }
+      return false;
+    })
+    .map((stroke) => stroke.id);
+}
+
+/**
+ * 点が多角形の内側にあるか判定（レイキャスティング法）
+ *
+ * @param x - X座標
+ * @param y - Y座標
+ * @param polygon - 多角形の頂点 [x1, y1, x2, y2, ...]
+ */
+export function isPointInPolygon(
+  x: number,
+  y: number,
+  polygon: number[],
+): boolean {
+  let inside = false;
+  const count = Math.floor(polygon.length / 2);
+  for (let i = 0, j = count - 1; i < count; j = i++) {
+    const xi = polygon[i * 2] ?? 0;
+    const yi = polygon[i * 2 + 1] ?? 0;
+    const xj = polygon[j * 2] ?? 0;
+    const yj = polygon[j * 2 + 1] ?? 0;
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * 投げ縄で囲まれたストロークを取得
+ * ストロークの点の半分以上が内側にあれば選択する
+ *
+ * @param strokes - ストローク配列
+ * @param polygon - 投げ縄の軌跡 [x1, y1, x2, y2, ...]（始点と終点は自動で閉じる）
+ * @returns 囲まれたストロークのID
+ */
+export function getStrokesInPolygon(
+  strokes: Stroke[],
+  polygon: number[],
+): string[] {
+  // 3点未満では囲めない
+  if (polygon.length < 6) return [];
+
+  return strokes
+    .filter((stroke) => {
+      const total = Math.floor(stroke.points.length / 2);
+      if (total === 0) return false;
+      let inside = 0;
+      for (let i = 0; i + 1 < stroke.points.length; i += 2) {
+        const x = stroke.points[i] ?? 0;
+        const y = stroke.points[i + 1] ?? 0;
+        if (isPointInPolygon(x, y, polygon)) inside++;
+      }
+      return inside / total >= SELECTION_INCLUSION_RATIO;
+    })
+    .map((stroke) => stroke.id);
+}
+
+/**
+ * 矩形で囲まれたストロークを取得
+ *
+ * @param strokes - ストローク配列
+ * @param rect - 矩形の対角の2点 [x1, y1, x2, y2]
+ * @returns 囲まれたストロークのID
+ */
+export function getStrokesInRect(strokes: Stroke[], rect: number[]): string[] {
+  const [x1 = 0, y1 = 0, x2 = 0, y2 = 0] = rect;
+  return getStrokesInPolygon(strokes, [x1, y1, x2, y1, x2, y2, x1, y2]);
+}
+
+/**
+ * 複数のストロークを囲むバウンディングボックスを計算
+ *
+ * @param strokes - ストローク配列
+ * @returns バウンディングボックス（ストロークがない場合はnull）
+ */
+export function getStrokesBounds(strokes: Stroke[]) {
+  if (strokes.length === 0) return null;
+  const bounds = getStrokeBounds(strokes.flatMap((stroke) => stroke.points));
+  // 線の太さの分だけ広げる
+  const margin = Math.max(...strokes.map((stroke) => stroke.strokeWidth)) / 2;
+  return {
+    x: bounds.minX - margin,
+    y: bounds.minY - margin,
+    width: bounds.maxX - bounds.minX + margin * 2,
+    height: bounds.maxY - bounds.minY + margin * 2,
+  };
+}
+
+/**
+ * 指定したストロークを平行移動
+ *
+ * @param strokes - ストローク配列
+ * @param ids - 移動するストロークのID
+ * @param dx - X方向の移動量
+ * @param dy - Y方向の移動量
+ * @returns 移動後のストローク配列
+ */
+export function translateStrokes(
+  strokes: Stroke[],
+  ids: ReadonlySet<string>,
+  dx: number,
+  dy: number,
+): Stroke[] {
+  return strokes.map((stroke) =>
+    ids.has(stroke.id)
+      ? {
+          ...stroke,
+          points: stroke.points.map((value, i) =>
+            i % 2 === 0 ? value + dx : value + dy,
+          ),
+        }
+      : stroke,
+  );
+}
@@ -12,9 +12,39 @@ export function simplifyStrokePoints(
   points: number[],
   tolerance = 2.0,
 ): number[] {
+  return pickPoints(points, getSimplifiedPointIndices(points, tolerance));
+}
+
+/**
+ * 指定した点だけのpoints配列を作成
+ *
+ * @param points - 元のpoints配列 [x1, y1, x2, y2, ...]
+ * @param indices - 残す点のインデックス（点の番号）
+ */
+function pickPoints(points: number[], indices: number[]): number[] {
+  return indices.flatMap((index) => {
+    const x = points[index * 2];
+    const y = points[index * 2 + 1];
+    return x !== undefined && y !== undefined ? [x, y] : [];
+  });
+}
+
+/**
+ * 簡略化で残す点のインデックスを計算
+ * 点ごとの値（筆圧・時刻など）を間引いた点に合わせるため、座標ではなく点の番号を返す
+ *
+ * @param points - 元のpoints配列 [x1, y1, x2, y2, ...]
+ * @param tolerance - 許容誤差（ピクセル単位）
+ * @returns 残す点のインデックス（点の番号）
+ */
+function getSimplifiedPointIndices(
+  points: number[],
+  tolerance: number,
+): number[] {
+  const pointCount = Math.floor(points.length / 2);
   if (points.length < 6) {
     // 3点未満の場合はそのまま返す
-    return points;
+    return Array.from({ length: pointCount }, (_, i) => i);
   }
 
   // 2点間の距離を計算
@@ -63,11 +93,11 @@ export function simplifyStrokePoints(
     return Math.sqrt(dx * dx + dy * dy);
   };
 
-  // 簡略化されたpointsを格納する配列
+  // 残す点のインデックスを格納する配列
   const simplified: number[] = [];
 
   // 最初の点は必ず含める
-  simplified.push(points[0]!, points[1]!);
+  simplified.push(0);
 
   let lastIndex = 0;
 
@@ -94,17 +124,13 @@ export function simplifyStrokePoints(
     const angleDistance = pointToLineDistance(x, y, lastX, lastY, nextX, nextY);
 
     if (dist > tolerance || angleDistance > tolerance) {
-      simplified.push(x, y);
+      simplified.push(i / 2);
       lastIndex = i;
     }
   }
 
   // 最後の点は必ず含める
-  const lastX = points[points.length - 2];
-  const lastY = points[points.length - 1];
-  if (lastX !== undefined && lastY !== undefined) {
-    simplified.push(lastX, lastY);
-  }
+  simplified.push(pointCount - 1);
 
   return simplified;
 }
@@ -123,38 +149,36 @@ export function simplifyStrokes(
   maxPointsPerStroke = 500,
 ): Stroke[] {
   return strokes.map((stroke) => {
-    let simplifiedPoints = simplifyStrokePoints(stroke.points, tolerance);
+    let indices = getSimplifiedPointIndices(stroke.points, tolerance);
 
     // 最大points数を超える場合は、さらに間引く
-    if (simplifiedPoints.length > maxPointsPerStroke * 2) {
-      const step = Math.ceil(
-        simplifiedPoints.length / (maxPointsPerStroke * 2),
-      );
-      const sampled: number[] = [];
-      for (let i = 0; i < simplifiedPoints.length; i += step * 2) {
-        const x = simplifiedPoints[i];
-        const y = simplifiedPoints[i + 1];
-        if (x !== undefined && y !== undefined) {
-          sampled.push(x, y);
-        }
-      }
+    if (indices.length > maxPointsPerStroke) {
+      const step = Math.ceil(indices.length / maxPointsPerStroke);
+      const sampled = indices.filter((_, i) => i % step === 0);
       // 最後の点を確実に含める
-      const lastX = simplifiedPoints[simplifiedPoints.length - 2];
-      const lastY = simplifiedPoints[simplifiedPoints.length - 1];
-      if (
-        lastX !== undefined &&
-        lastY !== undefined &&
-        (sampled[sampled.length - 2] !== lastX ||
-          sampled[sampled.length - 1] !== lastY)
-      ) {
-        sampled.push(lastX, lastY);
+      const lastIndex = indices.at(-1);
+      if (lastIndex !== undefined && sampled.at(-1) !== lastIndex) {
+        sampled.push(lastIndex);
       }
-      simplifiedPoints = sampled;
+      indices = sampled;
     }
 
+    // 時刻は残した点に合わせて間引く（描画の時間的なまとまりの判定に使う）
+    // 筆圧・傾きは解釈に使わないため含めない（整形した図形の種類は残す）
+    const { timestamps } = stroke;
+    const hasTimestamps =
+      stroke.startedAt !== undefined &&
+      timestamps?.length === Math.floor(stroke.points.length / 2);
     return {
-      ...stroke,
-      points: simplifiedPoints,
+      id: stroke.id,
+      points: pickPoints(stroke.points, indices),
+      color: stroke.color,
+      strokeWidth: stroke.strokeWidth,
+      ...(stroke.shape && { shape: stroke.shape }),
+      ...(hasTimestamps && {
+        startedAt: stroke.startedAt,
+        timestamps: indices.map((index) => timestamps[index] ?? 0),
+      }),
     };
   });
 }
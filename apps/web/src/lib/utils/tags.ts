@@ -0,0 +1,16 @@
+/** 1件に付けられるタグの最大数 */
+export const MAX_TAGS = 10;
+/** タグの最大文字数 */
+export const MAX_TAG_LENGTH = 30;
+
+/**
+ * 入力されたタグ（カンマ・読点・空白区切り、先頭の # は省略可）を配列に変換
+ * 空のタグと重複は除く
+ */
+export function parseTags(value: string): string[] {
+  const tags = value
+    .split(/[,、\s]+/)
+    .map((tag) => tag.replace(/^#/, "").trim())
+    .filter((tag) => tag.length > 0);
+  return [...new Set(tags)];
+}
@@ -1,15 +1,202 @@
 import { anthropic } from "@ai-sdk/anthropic";
 import { google } from "@ai-sdk/google";
-import { openai } from "@ai-sdk/openai";
+import { createOpenAI, openai } from "@ai-sdk/openai";
+import { z } from "zod";
+import { type MockRequestContext, createMockModel } from "./mock";
 
 /**
- * 現在のAIプロバイダーを取得
+ * 対応しているAIプロバイダー
  */
-export function getProvider(): "anthropic" | "google" | "openai" {
-  return (process.env.AI_PROVIDER ?? "anthropic") as
-    | "anthropic"
-    | "google"
-    | "openai";
+export const AI_PROVIDERS = [
+  "anthropic",
+  "google",
+  "openai",
+  "openai-compatible",
+  "mock",
+] as const;
+
+export type AIProvider = (typeof AI_PROVIDERS)[number];
+
+/**
+ * プロバイダーごとのデフォルトモデル名
+ * 環境変数（ANTHROPIC_MODEL / GOOGLE_MODEL / OPENAI_MODEL / OPENAI_COMPATIBLE_MODEL / AI_MOCK_MODEL）で上書き可能
+ */
+const DEFAULT_MODEL_NAMES: Record<AIProvider, string> = {
+  anthropic: "claude-sonnet-4-20250514",
+  google: "gemini-2.0-flash",
+  openai: "gpt-4o-mini",
+  "openai-compatible": "llama3.2-vision",
+  mock: "mock",
+};
+
+/**
+ * プロバイダーごとのモデル名・必須設定の環境変数名
+ * openai-compatible はAPIキーが不要なサーバー（Ollamaなど）を想定し、接続先URLを必須とする
+ * mock は外部に接続しないため必須の設定はない
+ */
+const PROVIDER_ENV_VARS: Record<
+  AIProvider,
+  { model: string; required: string | null }
+> = {
+  anthropic: { model: "ANTHROPIC_MODEL", required: "ANTHROPIC_API_KEY" },
+  google: { model: "GOOGLE_MODEL", required: "GOOGLE_GENERATIVE_AI_API_KEY" },
+  openai: { model: "OPENAI_MODEL", required: "OPENAI_API_KEY" },
+  "openai-compatible": {
+    model: "OPENAI_COMPATIBLE_MODEL",
+    required: "OPENAI_COMPATIBLE_BASE_URL",
+  },
+  mock: { model: "AI_MOCK_MODEL", required: null },
+};
+
+/** extended thinkingのデフォルトのトークン数 */
+const DEFAULT_THINKING_BUDGET_TOKENS = 10000;
+
+/** Anthropicのextended thinkingで指定できる最小のトークン数 */
+const MIN_THINKING_BUDGET_TOKENS = 1024;
+
+/**
+ * 環境変数で設定されたプロバイダーのモデル名（未設定の場合はデフォルト）
+ */
+function getConfiguredModelName(provider: AIProvider): string {
+  return (
+    process.env[PROVIDER_ENV_VARS[provider].model] ??
+    DEFAULT_MODEL_NAMES[provider]
+  );
+}
+
+/**
+ * リクエストで指定できるモデル名を取得
+ * プロバイダーごとに設定されたモデルに加え、環境変数 AI_ALLOWED_MODELS
+ * （`provider:modelName` のカンマ区切り、例: `openai:gpt-4o,anthropic:claude-opus-4-20250514`）で追加できる
+ */
+export function getAllowedModelNames(provider: AIProvider): string[] {
+  const additional = (process.env.AI_ALLOWED_MODELS ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.startsWith(`${provider}:`))
+    .map((entry) => entry.slice(provider.length + 1))
+    .filter((modelName) => modelName.length > 0);
+  return [...new Set([getConfiguredModelName(provider), ...additional])];
+}
+
+/**
+ * リクエストで指定できるプロバイダーか
+ * 環境変数 AI_PROVIDER のプロバイダーと、必須の環境変数が設定されたプロバイダーに限る
+ * mock はモックモード（AI_PROVIDER=mock）の場合のみ使える
+ */
+export function isProviderAvailable(provider: AIProvider): boolean {
+  if (provider === getProvider()) {
+    return true;
+  }
+  const envVarName = PROVIDER_ENV_VARS[provider].required;
+  return provider !== "mock" && !!envVarName && !!process.env[envVarName];
+}
+
+/**
+ * リクエストごとのモデル指定のZodスキーマ
+ * 省略した項目は環境変数の設定が使われる
+ * プロバイダーは設定されたもの（isProviderAvailable）、
+ * モデル名は設定されたもの（getAllowedModelNames）に限る
+ */
+export const modelSelectionSchema = z
+  .object({
+    /** 使用するプロバイダー */
+    provider: z.enum(AI_PROVIDERS).optional(),
+    /** 使用するモデル名 */
+    modelName: z.string().min(1).optional(),
+  })
+  .refine(
+    ({ provider }) => provider === undefined || isProviderAvailable(provider),
+    {
+      message: "設定されていないプロバイダーです",
+      path: ["provider"],
+    },
+  )
+  .refine(
+    ({ provider, modelName }) =>
+      modelName === undefined ||
+      getAllowedModelNames(provider ?? getProvider()).includes(modelName),
+    {
+      message: "許可されていないモデルです",
+      path: ["modelName"],
+    },
+  );
+
+export type ModelSelection = z.infer<typeof modelSelectionSchema>;
+
+/**
+ * 解決済みのモデル設定
+ */
+export type ModelConfig = {
+  provider: AIProvider;
+  modelName: string;
+  /** extended thinkingのトークン数（無効な場合はnull） */
+  thinkingBudgetTokens: number | null;
+  /** 画像入力（マルチモーダル）に対応しているか */
+  supportsVision: boolean;
+};
+
+/**
+ * 環境変数で指定されたAIプロバイダーを取得
+ * 未対応の値が指定された場合はanthropicを使う
+ */
+export function getProvider(): AIProvider {
+  const provider = process.env.AI_PROVIDER ?? "anthropic";
+  return (AI_PROVIDERS as readonly string[]).includes(provider)
+    ? (provider as AIProvider)
+    : "anthropic";
+}
+
+/**
+ * extended thinkingのトークン数を取得
+ * 環境変数 AI_THINKING_BUDGET_TOKENS で指定（0で無効化）
+ */
+function getThinkingBudgetTokens(): number | null {
+  const value = process.env.AI_THINKING_BUDGET_TOKENS;
+  if (value === undefined || value === "") {
+    return DEFAULT_THINKING_BUDGET_TOKENS;
+  }
+  const budget = Number.parseInt(value, 10);
+  if (Number.isNaN(budget) || budget <= 0) {
+    return null;
+  }
+  return Math.max(budget, MIN_THINKING_BUDGET_TOKENS);
+}
+
+/**
+ * OpenAI互換サーバーのモデルが画像入力に対応しているか
+ * 環境変数 OPENAI_COMPATIBLE_SUPPORTS_VISION が "true" の場合のみ対応とみなす
+ */
+function getOpenAICompatibleVisionSupport(): boolean {
+  return process.env.OPENAI_COMPATIBLE_SUPPORTS_VISION === "true";
+}
+
+/**
+ * リクエストのモデル指定と環境変数からモデル設定を解決
+ * 優先順位: リクエストの指定 → プロバイダーごとの環境変数 → デフォルト
+ */
+export function resolveModelConfig(selection?: ModelSelection): ModelConfig {
+  const provider = selection?.provider ?? getProvider();
+  const modelName = selection?.modelName ?? getConfiguredModelName(provider);
+
+  return {
+    provider,
+    modelName,
+    // extended thinkingはClaudeのみ対応
+    thinkingBudgetTokens:
+      provider === "anthropic" ? getThinkingBudgetTokens() : null,
+    supportsVision:
+      provider === "openai-compatible"
+        ? getOpenAICompatibleVisionSupport()
+        : true,
+  };
+}
+
+/**
+ * 使用するAIモデル名を取得（ログ用）
+ */
+export function getModelName(selection?: ModelSelection): string {
+  return resolveModelConfig(selection).modelName;
 }
 
 /**
@@ -17,33 +204,75 @@ export function getProvider(): "anthropic" | "google" | "openai" {
  * 環境変数 AI_PROVIDER で切り替え可能
  * - "anthropic" → Claude (デフォルト)
  * - "google" → Gemini
- * - "openai" → GPT-4o-mini
+ * - "openai" → GPT
+ * - "openai-compatible" → OpenAI互換API（Ollama、LM Studio、vLLMなどのローカルLLM）
+ * - "mock" → フィクスチャを返すモック（テスト・デモ用）
+ *
+ * mockContext はモックプロバイダーのフィクスチャ選択にのみ使用する
  */
-export function getModel() {
-  const provider = getProvider();
+export function getModel(
+  selection?: ModelSelection,
+  mockContext?: MockRequestContext,
+) {
+  const { provider, modelName } = resolveModelConfig(selection);
+  if (provider === "mock") {
+    return createMockModel(modelName, mockContext);
+  }
+  if (provider === "openai-compatible") {
+    const openaiCompatible = createOpenAI({
+      name: "openai-compatible",
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      // ローカルサーバーの多くはAPIキーを検証しないため、未設定時はダミー値を送る
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+    });
+    // ローカルサーバーはResponses APIに未対応のことが多いためChat Completions APIを使う
+    return openaiCompatible.chat(modelName);
+  }
   if (provider === "openai") {
-    return openai("gpt-4o-mini");
+    return openai(modelName);
   }
   if (provider === "google") {
-    return google("gemini-2.0-flash");
+    return google(modelName);
   }
-  return anthropic("claude-sonnet-4-20250514");
+  return anthropic(modelName);
 }
 
 /**
  * Claude用のextended thinking設定を取得
  */
-export function getProviderOptions() {
-  const provider = getProvider();
-  if (provider === "anthropic") {
-    return {
-      anthropic: {
-        thinking: {
-          type: "enabled" as const,
-          budgetTokens: 10000, // 思考に使うトークン数
-        },
+export function getProviderOptions(selection?: ModelSelection) {
+  const { thinkingBudgetTokens } = resolveModelConfig(selection);
+  if (thinkingBudgetTokens === null) {
+    return undefined;
+  }
+  return {
+    anthropic: {
+      thinking: {
+        type: "enabled" as const,
+        budgetTokens: thinkingBudgetTokens, // 思考に使うトークン数
       },
-    };
+    },
+  };
+}
+
+/**
+ * 未設定の必須環境変数名を取得（設定済みの場合はnull）
+ * クラウドプロバイダーはAPIキー、openai-compatible は接続先URLが必須
+ */
+export function getMissingProviderEnvVar(
+  selection?: ModelSelection,
+): string | null {
+  const { provider } = resolveModelConfig(selection);
+  const envVarName = PROVIDER_ENV_VARS[provider].required;
+  if (!envVarName) {
+    return null;
   }
-  return undefined;
+  return process.env[envVarName] ? null : envVarName;
+}
+
+/**
+ * 使用するモデルが画像入力に対応しているか
+ */
+export function supportsVision(selection?: ModelSelection): boolean {
+  return resolveModelConfig(selection).supportsVision;
 }
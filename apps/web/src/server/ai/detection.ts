@@ -1,11 +1,35 @@
+import type { StrokeShapeKind } from "@/server/db/schema";
 import { getStrokeBounds } from "./strokeUtils";
 
+/**
+ * 位置情報を持つ図の要素の種類
+ */
+export type NodePositionKind =
+  | "node"
+  | "participant"
+  | "lifeline"
+  | "message"
+  | "class"
+  | "state"
+  | "entity"
+  | "task"
+  | "topic"
+  | "period"
+  | "event"
+  | "element"
+  | "service"
+  | "boundary";
+
 /**
  * ノード位置情報の型
+ * シーケンス図のメッセージは id が「送信元->送信先」、source・target に参加者IDを持つ
  */
 export type NodePosition = {
   id: string;
   label: string;
+  kind?: NodePositionKind;
+  source?: string;
+  target?: string;
   x: number;
   y: number;
   width: number;
@@ -14,6 +38,18 @@ export type NodePosition = {
   centerY: number;
 };
 
+/**
+ * エッジ（ノード間の接続線）の位置情報の型
+ * points は経路の折れ線 [x1, y1, x2, y2, ...]（接続元から接続先の順）
+ */
+export type EdgePosition = {
+  id: string;
+  source: string;
+  target: string;
+  label: string;
+  points: number[];
+};
+
 /**
  * ストロークの型
  */
@@ -22,6 +58,8 @@ export type Stroke = {
   points: number[];
   color: string;
   strokeWidth: number;
+  /** キャンバスで整形した図形の種類（整形していない場合はなし） */
+  shape?: StrokeShapeKind;
 };
 
 /**
@@ -32,6 +70,8 @@ export type XMarkDetection = {
   centerX: number;
   centerY: number;
   targetNodeId: string | null;
+  /** X印が描かれた要素（プロンプトで種類・ラベルを伝えるため） */
+  targetNode: NodePosition | null;
 };
 
 /**
@@ -51,6 +91,185 @@ export type EnclosureDetection = {
   enclosedNodeIds: string[];
 };
 
+/**
+ * 既存のエッジ上への書き込みの検出結果
+ */
+export type EdgeStrokeDetection = {
+  /** 書き込みの対象のエッジ */
+  edge: EdgePosition;
+  /** エッジ上に書かれたストロークのインデックス */
+  strokeIndices: number[];
+  /** ストロークがエッジと交差しているか（取り消し線・X印）。交差していない場合はエッジの近くへの書き込み（ラベルなど） */
+  isCrossing: boolean;
+};
+
+/** ストロークの中心がエッジに近いとみなす距離（px） */
+const EDGE_NEAR_DISTANCE = 30;
+
+/** ストロークの中心がノード上にあるとみなす余白（px） */
+const NODE_MARGIN = 10;
+
+/**
+ * 点と線分の距離
+ */
+function distanceToSegment(
+  px: number,
+  py: number,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSq));
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+}
+
+/**
+ * 2つの線分が交差しているか
+ */
+function segmentsIntersect(
+  ax1: number,
+  ay1: number,
+  ax2: number,
+  ay2: number,
+  bx1: number,
+  by1: number,
+  bx2: number,
+  by2: number,
+): boolean {
+  const cross = (
+    ox: number,
+    oy: number,
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+  ) => (x1 - ox) * (y2 - oy) - (y1 - oy) * (x2 - ox);
+  const d1 = cross(bx1, by1, bx2, by2, ax1, ay1);
+  const d2 = cross(bx1, by1, bx2, by2, ax2, ay2);
+  const d3 = cross(ax1, ay1, ax2, ay2, bx1, by1);
+  const d4 = cross(ax1, ay1, ax2, ay2, bx2, by2);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+/**
+ * 折れ線 [x1, y1, x2, y2, ...] の各線分を列挙
+ */
+function forEachSegment(
+  points: number[],
+  callback: (x1: number, y1: number, x2: number, y2: number) => void,
+) {
+  for (let i = 0; i + 3 < points.length; i += 2) {
+    const x1 = points[i];
+    const y1 = points[i + 1];
+    const x2 = points[i + 2];
+    const y2 = points[i + 3];
+    if (
+      x1 === undefined ||
+      y1 === undefined ||
+      x2 === undefined ||
+      y2 === undefined
+    ) {
+      continue;
+    }
+    callback(x1, y1, x2, y2);
+  }
+}
+
+/**
+ * 点と折れ線の距離
+ */
+function distanceToPolyline(px: number, py: number, points: number[]): number {
+  let min = Number.POSITIVE_INFINITY;
+  forEachSegment(points, (x1, y1, x2, y2) => {
+    min = Math.min(min, distanceToSegment(px, py, x1, y1, x2, y2));
+  });
+  return min;
+}
+
+/**
+ * 2つの折れ線が交差しているか
+ */
+function polylinesIntersect(a: number[], b: number[]): boolean {
+  let intersects = false;
+  forEachSegment(a, (ax1, ay1, ax2, ay2) => {
+    if (intersects) return;
+    forEachSegment(b, (bx1, by1, bx2, by2) => {
+      if (segmentsIntersect(ax1, ay1, ax2, ay2, bx1, by1, bx2, by2)) {
+        intersects = true;
+      }
+    });
+  });
+  return intersects;
+}
+
+/**
+ * 既存のエッジ上（またはその近く）に書かれたストロークを検出し、対象のエッジを特定
+ * ストロークごとに中心から最も近いエッジを求め、最も多くのストロークが集まったエッジを対象とする。
+ * 中心がノード上にあるストロークはノードへの書き込みとして扱い、対象外とする
+ */
+export function detectEdgeStroke(
+  strokes: Stroke[],
+  edgePositions?: EdgePosition[],
+  nodePositions?: NodePosition[],
+): EdgeStrokeDetection | null {
+  if (!edgePositions || edgePositions.length === 0) return null;
+
+  const strokeIndicesByEdge = new Map<EdgePosition, number[]>();
+  for (let i = 0; i < strokes.length; i++) {
+    const stroke = strokes[i];
+    if (!stroke || stroke.points.length < 4) continue;
+
+    const { centerX, centerY } = getStrokeBounds(stroke.points);
+    const isOnNode = nodePositions?.some(
+      (node) =>
+        node.kind !== "lifeline" &&
+        centerX >= node.x - NODE_MARGIN &&
+        centerX <= node.x + node.width + NODE_MARGIN &&
+        centerY >= node.y - NODE_MARGIN &&
+        centerY <= node.y + node.height + NODE_MARGIN,
+    );
+    if (isOnNode) continue;
+
+    let nearest: { edge: EdgePosition; distance: number } | null = null;
+    for (const edge of edgePositions) {
+      const distance = distanceToPolyline(centerX, centerY, edge.points);
+      if (
+        distance <= EDGE_NEAR_DISTANCE &&
+        (!nearest || distance < nearest.distance)
+      ) {
+        nearest = { edge, distance };
+      }
+    }
+    if (!nearest) continue;
+
+    const indices = strokeIndicesByEdge.get(nearest.edge) ?? [];
+    indices.push(i);
+    strokeIndicesByEdge.set(nearest.edge, indices);
+  }
+
+  let result: EdgeStrokeDetection | null = null;
+  for (const [edge, strokeIndices] of strokeIndicesByEdge) {
+    if (result && result.strokeIndices.length >= strokeIndices.length) {
+      continue;
+    }
+    result = {
+      edge,
+      strokeIndices,
+      isCrossing: strokeIndices.some((index) =>
+        polylinesIntersect(strokes[index]?.points ?? [], edge.points),
+      ),
+    };
+  }
+  return result;
+}
+
 /**
  * 2本のストロークがX印（バツ）を形成しているか判定
  */
@@ -131,7 +350,7 @@ export function detectXMark(
       const yCenter = (bounds1.centerY + bounds2.centerY) / 2;
 
       // どのノードの上にあるか判定
-      let targetNodeId: string | null = null;
+      let targetNode: NodePosition | null = null;
       if (nodePositions && nodePositions.length > 0) {
         for (const node of nodePositions) {
           // X印の中心がノードの範囲内にあるか
@@ -141,7 +360,7 @@ export function detectXMark(
             yCenter >= node.y - 20 &&
             yCenter <= node.y + node.height + 20
           ) {
-            targetNodeId = node.id;
+            targetNode = node;
             break;
           }
         }
@@ -151,7 +370,8 @@ export function detectXMark(
         isXMark: true,
         centerX: xCenter,
         centerY: yCenter,
-        targetNodeId,
+        targetNodeId: targetNode?.id ?? null,
+        targetNode,
       };
     }
   }
@@ -237,9 +457,14 @@ export function detectEnclosure(
       };
 
       // 囲み線内に含まれるノードを特定
+      // ライフラインは図の縦方向全体に伸びるため対象外とし、
+      // 同じIDの要素（シーケンス図の上下の参加者など）は1つにまとめる
       const enclosedNodeIds: string[] = [];
       if (nodePositions && nodePositions.length > 0) {
         for (const node of nodePositions) {
+          if (node.kind === "lifeline" || enclosedNodeIds.includes(node.id)) {
+            continue;
+          }
           // ノードの中心点が囲み線内にあるかチェック
           if (isPointInPolygon(node.centerX, node.centerY, points)) {
             enclosedNodeIds.push(node.id);
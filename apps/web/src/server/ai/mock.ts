@@ -0,0 +1,184 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { type LanguageModel, simulateReadableStream } from "ai";
+import type { DiagramType } from "../db/schema";
+
+/**
+ * フィクスチャ名を指定するリクエストヘッダー
+ */
+export const MOCK_FIXTURE_HEADER = "x-inkmaid-mock-fixture";
+
+/**
+ * エラーを発生させる特別なフィクスチャ名（エラー処理・リトライの確認用）
+ */
+const ERROR_FIXTURE_NAME = "error";
+
+/** フィクスチャ名として許可する形式（パストラバーサル防止） */
+const FIXTURE_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+
+/** 1チャンクあたりの文字数 */
+const CHUNK_SIZE = 24;
+
+/**
+ * モックモデルに渡すリクエストの情報
+ */
+export type MockRequestContext = {
+  /** 図の種類（フィクスチャの選択に使用） */
+  diagramType?: DiagramType;
+  /** リクエストヘッダーで指定されたフィクスチャ名 */
+  fixture?: string | null;
+  /** 処理の種類（"structure-extraction" など。`<フィクスチャ名>.<処理の種類>.txt` を優先して使用） */
+  purpose?: string;
+};
+
+type MockLanguageModel = Exclude<LanguageModel, string>;
+
+/**
+ * フィクスチャのディレクトリを取得
+ * 作業ディレクトリによらないよう、このモジュールの場所を基準にする
+ * 環境変数 AI_MOCK_FIXTURES_DIR で変更可能
+ */
+function getFixturesDir(): string {
+  return (
+    process.env.AI_MOCK_FIXTURES_DIR ??
+    path.join(path.dirname(fileURLToPath(import.meta.url)), "mock-fixtures")
+  );
+}
+
+/**
+ * チャンク間の待ち時間を取得（環境変数 AI_MOCK_CHUNK_DELAY_MS、デフォルト: 20ms）
+ */
+function getChunkDelayMs(): number {
+  const delay = Number.parseInt(process.env.AI_MOCK_CHUNK_DELAY_MS ?? "", 10);
+  return Number.isNaN(delay) || delay < 0 ? 20 : delay;
+}
+
+/**
+ * 使用するフィクスチャ名を決定
+ * 優先順位: リクエストヘッダー → 環境変数 AI_MOCK_FIXTURE → 図の種類 → flowchart
+ */
+function resolveFixtureName(context: MockRequestContext): string {
+  const candidates = [
+    context.fixture,
+    process.env.AI_MOCK_FIXTURE,
+    context.diagramType,
+  ];
+  for (const candidate of candidates) {
+    if (candidate && FIXTURE_NAME_PATTERN.test(candidate)) {
+      return candidate;
+    }
+  }
+  return "flowchart";
+}
+
+/**
+ * フィクスチャを読み込み、思考過程と出力テキストに分ける
+ * フィクスチャ内の ---REASONING_START--- 〜 ---REASONING_END--- は思考過程として扱う
+ */
+async function loadFixture(
+  context: MockRequestContext,
+): Promise<{ name: string; reasoning: string; text: string }> {
+  const name = resolveFixtureName(context);
+  if (name === ERROR_FIXTURE_NAME) {
+    throw new Error("モックプロバイダー: エラーフィクスチャが指定されました");
+  }
+
+  const fixturesDir = getFixturesDir();
+  const fileNames = context.purpose
+    ? [`${name}.${context.purpose}.txt`, `${name}.txt`]
+    : [`${name}.txt`];
+
+  for (const fileName of fileNames) {
+    let content: string;
+    try {
+      content = await readFile(path.join(fixturesDir, fileName), "utf-8");
+    } catch {
+      continue;
+    }
+
+    const reasoningMatch = content.match(
+      /---REASONING_START---\s*([\s\S]*?)\s*---REASONING_END---/,
+    );
+    return {
+      name: fileName,
+      reasoning:
+        reasoningMatch?.[1] ??
+        `モックプロバイダー: フィクスチャ「${fileName}」の内容を返します。`,
+      text: content.replace(reasoningMatch?.[0] ?? "", "").trim(),
+    };
+  }
+
+  throw new Error(
+    `モックプロバイダー: フィクスチャ「${name}」が見つかりません（${fixturesDir}）`,
+  );
+}
+
+/**
+ * テキストを一定の文字数ごとに分割
+ */
+function splitIntoChunks(text: string): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+    chunks.push(text.slice(i, i + CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+/**
+ * 固定の応答を返すモックモデルを作成
+ * 実際のLLMを呼ばずに、フィクスチャの思考過程と出力をストリーミングする
+ */
+export function createMockModel(
+  modelName: string,
+  context: MockRequestContext = {},
+): MockLanguageModel {
+  const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+  return {
+    specificationVersion: "v2",
+    provider: "mock",
+    modelId: modelName,
+    supportedUrls: {},
+
+    async doGenerate() {
+      const fixture = await loadFixture(context);
+      return {
+        content: [
+          { type: "reasoning", text: fixture.reasoning },
+          { type: "text", text: fixture.text },
+        ],
+        finishReason: "stop",
+        usage,
+        warnings: [],
+      };
+    },
+
+    async doStream() {
+      const fixture = await loadFixture(context);
+      return {
+        stream: simulateReadableStream({
+          chunkDelayInMs: getChunkDelayMs(),
+          chunks: [
+            { type: "stream-start", warnings: [] },
+            { type: "reasoning-start", id: "reasoning-0" },
+            ...splitIntoChunks(fixture.reasoning).map((delta) => ({
+              type: "reasoning-delta" as const,
+              id: "reasoning-0",
+              delta,
+            })),
+            { type: "reasoning-end", id: "reasoning-0" },
+            { type: "text-start", id: "text-0" },
+            ...splitIntoChunks(fixture.text).map((delta) => ({
+              type: "text-delta" as const,
+              id: "text-0",
+              delta,
+            })),
+            { type: "text-end", id: "text-0" },
+            { type: "finish", finishReason: "stop", usage },
+          ],
+        }),
+      };
+    },
+  };
+}
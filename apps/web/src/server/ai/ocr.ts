@@ -0,0 +1,349 @@
+import { generateText } from "ai";
+import { rasterizeSvg } from "../export/raster";
+import { type ModelSelection, getModel } from "./config";
+import type { NodePosition, Stroke } from "./detection";
+import type { MockRequestContext } from "./mock";
+import { parseOcrText } from "./parsing";
+import { LABEL_OCR_PROMPT } from "./prompts";
+import { type ClosedShapeKind, recognizeShapes } from "./recognizer";
+import { describeNodePosition, getStrokeBounds } from "./strokeUtils";
+
+/**
+ * キャンバス画像の座標変換（画像上の位置 = ストロークの座標 × scale + x/y）
+ */
+export type CanvasTransform = { x: number; y: number; scale: number };
+
+/**
+ * 文字を読み取る領域
+ * - shape: 閉じた図形と、その中に書かれた文字
+ * - text: 図形の外に書かれた文字のまとまり
+ */
+export type LabelRegion = {
+  kind: "shape" | "text";
+  /** 図形の種類（kind: "shape" の場合） */
+  shapeKind?: ClosedShapeKind;
+  /** 図形のストロークのインデックス（kind: "shape" の場合） */
+  shapeStrokeIndex?: number;
+  /** 文字のストロークのインデックス */
+  textStrokeIndices: number[];
+  /** 切り出す範囲（ストロークの座標） */
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+};
+
+/**
+ * 読み取った文字（ラベルの候補）
+ */
+export type LabelCandidate = LabelRegion & { text: string };
+
+/** 一度に読み取る領域の最大数 */
+const MAX_LABEL_REGIONS = 8;
+
+/** 同じ文字のまとまりとみなすストローク間の距離（px） */
+const TEXT_CLUSTER_GAP = 24;
+
+/** 切り出す範囲の余白（px、画像上） */
+const CROP_PADDING = 8;
+
+/** 切り出した画像の最小の高さ（px、小さい場合は拡大する） */
+const MIN_CROP_HEIGHT = 96;
+
+/** 切り出した画像の最大の拡大率 */
+const MAX_CROP_ZOOM = 4;
+
+/** 図形の種類ごとの表示名 */
+const SHAPE_NAMES: Record<ClosedShapeKind, string> = {
+  rectangle: "四角形",
+  diamond: "ひし形",
+  circle: "円",
+};
+
+/**
+ * ラベルの読み取り（OCR）が有効か
+ * 環境変数 AI_LABEL_OCR が "false" の場合は読み取らない
+ */
+export function isLabelOcrEnabled(): boolean {
+  return process.env.AI_LABEL_OCR !== "false";
+}
+
+/**
+ * 2つの範囲の間の距離（重なっている場合は0）
+ */
+function boundsGap(a: LabelRegion["bounds"], b: LabelRegion["bounds"]): number {
+  const dx = Math.max(a.minX - b.maxX, 0, b.minX - a.maxX);
+  const dy = Math.max(a.minY - b.maxY, 0, b.minY - a.maxY);
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * 複数の範囲を囲む範囲
+ */
+function mergeBounds(boundsList: LabelRegion["bounds"][]) {
+  return {
+    minX: Math.min(...boundsList.map((b) => b.minX)),
+    minY: Math.min(...boundsList.map((b) => b.minY)),
+    maxX: Math.max(...boundsList.map((b) => b.maxX)),
+    maxY: Math.max(...boundsList.map((b) => b.maxY)),
+  };
+}
+
+/**
+ * 文字を読み取る領域を検出
+ *
+ * - 閉じた図形ごとに、中心が図形の内側にある文字のストロークをまとめる
+ * - 図形の外の文字は、近接するストロークをまとめる
+ * - 文字のストロークがない図形・線や矢印だけのまとまりは対象外
+ *
+ * @param strokes - ストローク配列
+ * @returns 領域（描画順、最大 MAX_LABEL_REGIONS 件）
+ */
+export function findLabelRegions(strokes: Stroke[]): LabelRegion[] {
+  const shapes = recognizeShapes(strokes);
+  const strokeBounds = strokes.map((stroke) => getStrokeBounds(stroke.points));
+
+  // 認識できなかったストローク（文字の可能性があるもの）と、線のストローク
+  const unknownIndices = new Set<number>();
+  const lineIndices = new Set<number>();
+  for (const shape of shapes) {
+    for (const index of shape.strokeIndices) {
+      if (shape.kind === "unknown") unknownIndices.add(index);
+      if (shape.kind === "line") lineIndices.add(index);
+    }
+  }
+
+  // 閉じた図形（小さい順。入れ子の場合は内側の図形に割り当てる）
+  const closedShapes = shapes
+    .flatMap((shape) =>
+      shape.kind === "rectangle" ||
+      shape.kind === "diamond" ||
+      shape.kind === "circle"
+        ? [shape]
+        : [],
+    )
+    .sort(
+      (a, b) =>
+        (a.bounds.maxX - a.bounds.minX) * (a.bounds.maxY - a.bounds.minY) -
+        (b.bounds.maxX - b.bounds.minX) * (b.bounds.maxY - b.bounds.minY),
+    );
+
+  const shapeRegions = new Map<number, LabelRegion>();
+  const outsideIndices: number[] = [];
+  for (const [index, bounds] of strokeBounds.entries()) {
+    // 漢字の横棒などは線として認識されるため、図形の内側の線も文字として扱う
+    const isText = unknownIndices.has(index) || lineIndices.has(index);
+    if (!isText) continue;
+
+    const container = closedShapes.find(
+      (shape) =>
+        shape.strokeIndices[0] !== index &&
+        bounds.centerX > shape.bounds.minX &&
+        bounds.centerX < shape.bounds.maxX &&
+        bounds.centerY > shape.bounds.minY &&
+        bounds.centerY < shape.bounds.maxY,
+    );
+    const shapeIndex = container?.strokeIndices[0];
+    if (container && shapeIndex !== undefined) {
+      const region = shapeRegions.get(shapeIndex) ?? {
+        kind: "shape",
+        shapeKind: container.kind,
+        shapeStrokeIndex: shapeIndex,
+        textStrokeIndices: [],
+        bounds: container.bounds,
+      };
+      region.textStrokeIndices.push(index);
+      shapeRegions.set(shapeIndex, region);
+    } else if (unknownIndices.has(index)) {
+      outsideIndices.push(index);
+    }
+  }
+
+  // 図形の外の文字を近接するストロークでまとめる
+  const textRegions: LabelRegion[] = [];
+  for (const index of outsideIndices) {
+    const bounds = strokeBounds[index];
+    if (!bounds) continue;
+    const nearby = textRegions.filter(
+      (region) => boundsGap(region.bounds, bounds) <= TEXT_CLUSTER_GAP,
+    );
+    const merged: LabelRegion = {
+      kind: "text",
+      textStrokeIndices: [
+        ...nearby.flatMap((region) => region.textStrokeIndices),
+        index,
+      ].sort((a, b) => a - b),
+      bounds: mergeBounds([...nearby.map((region) => region.bounds), bounds]),
+    };
+    for (const region of nearby) {
+      textRegions.splice(textRegions.indexOf(region), 1);
+    }
+    textRegions.push(merged);
+  }
+
+  const firstIndex = (region: LabelRegion) =>
+    region.shapeStrokeIndex ?? region.textStrokeIndices[0] ?? 0;
+  return [...shapeRegions.values(), ...textRegions]
+    .sort((a, b) => firstIndex(a) - firstIndex(b))
+    .slice(0, MAX_LABEL_REGIONS);
+}
+
+/**
+ * PNGのData URLから画像のサイズを取得（PNG以外の場合はnull）
+ */
+function getPngSize(dataUrl: string): { width: number; height: number } | null {
+  const match = dataUrl.match(/^data:image\/png;base64,(.+)$/);
+  if (!match?.[1]) return null;
+  const header = Buffer.from(match[1].slice(0, 44), "base64");
+  // シグネチャ（8バイト）の後のIHDRチャンクに幅・高さがある
+  if (header.length < 24 || header.toString("ascii", 12, 16) !== "IHDR") {
+    return null;
+  }
+  return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+}
+
+/**
+ * キャンバス画像から領域を切り出す
+ * 小さい領域は読み取りやすいように拡大する
+ *
+ * @param canvasImage - キャンバス画像（PNGのData URL）
+ * @param bounds - 切り出す範囲（ストロークの座標）
+ * @param transform - キャンバス画像の座標変換
+ * @returns 切り出した画像（PNGのData URL）。範囲が画像の外の場合はnull
+ */
+export function cropCanvasImage(
+  canvasImage: string,
+  bounds: LabelRegion["bounds"],
+  transform: CanvasTransform,
+): string | null {
+  const size = getPngSize(canvasImage);
+  if (!size) return null;
+
+  const minX = Math.max(
+    0,
+    Math.floor(bounds.minX * transform.scale + transform.x - CROP_PADDING),
+  );
+  const minY = Math.max(
+    0,
+    Math.floor(bounds.minY * transform.scale + transform.y - CROP_PADDING),
+  );
+  const maxX = Math.min(
+    size.width,
+    Math.ceil(bounds.maxX * transform.scale + transform.x + CROP_PADDING),
+  );
+  const maxY = Math.min(
+    size.height,
+    Math.ceil(bounds.maxY * transform.scale + transform.y + CROP_PADDING),
+  );
+  const width = maxX - minX;
+  const height = maxY - minY;
+  if (width <= 0 || height <= 0) return null;
+
+  // 画像を埋め込んだSVGのviewBoxで範囲を切り出す
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}"><image x="0" y="0" width="${size.width}" height="${size.height}" xlink:href="${canvasImage}"/></svg>`;
+  const zoom = Math.min(MAX_CROP_ZOOM, Math.max(1, MIN_CROP_HEIGHT / height));
+  const { png } = rasterizeSvg(svg, zoom);
+  return `data:image/png;base64,${png.toString("base64")}`;
+}
+
+/**
+ * 各領域の手書き文字を読み取る
+ * 領域ごとに切り出した画像を個別にAIで書き起こす（読み取れなかった領域は除く）
+ *
+ * @param options.regions - 文字を読み取る領域
+ * @param options.canvasImage - キャンバス画像（PNGのData URL）
+ * @param options.transform - キャンバス画像の座標変換
+ * @param options.model - 使用するモデル
+ * @param options.mockContext - モックプロバイダーのフィクスチャ選択
+ */
+export async function recognizeLabels(options: {
+  regions: LabelRegion[];
+  canvasImage: string;
+  transform: CanvasTransform;
+  model?: ModelSelection;
+  mockContext?: MockRequestContext;
+}): Promise<LabelCandidate[]> {
+  const { regions, canvasImage, transform, model, mockContext } = options;
+
+  const results = await Promise.all(
+    regions.map(async (region): Promise<LabelCandidate | null> => {
+      try {
+        const image = cropCanvasImage(canvasImage, region.bounds, transform);
+        if (!image) return null;
+
+        const result = await generateText({
+          model: getModel(model, { ...mockContext, purpose: "ocr" }),
+          system: LABEL_OCR_PROMPT,
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "image", image },
+                {
+                  type: "text",
+                  text:
+                    region.kind === "shape"
+                      ? "図形の中に書かれた文字を読み取ってください。"
+                      : "書かれた文字を読み取ってください。",
+                },
+              ],
+            },
+          ],
+        });
+
+        const text = parseOcrText(result.text);
+        return text ? { ...region, text } : null;
+      } catch (error) {
+        // 読み取りに失敗しても解釈は続行する（画像全体からAIが読み取る）
+        console.warn("[label-ocr] 文字の読み取りに失敗:", error);
+        return null;
+      }
+    }),
+  );
+
+  return results.filter(
+    (candidate): candidate is LabelCandidate => candidate !== null,
+  );
+}
+
+/**
+ * 読み取った文字をラベルの候補としてテキストに変換
+ *
+ * @param candidates - 読み取った文字
+ * @param strokes - ストローク配列（候補のインデックスの参照先）
+ * @param nodePositions - 既存ノードの位置（文字が重なるノードの説明に使用）
+ */
+export function formatLabelCandidates(
+  candidates: LabelCandidate[],
+  strokes: Stroke[],
+  nodePositions: NodePosition[] = [],
+): string {
+  const describeStrokes = (indices: number[]) =>
+    indices
+      .map((index) => `ストローク${index + 1}（ID: ${strokes[index]?.id}）`)
+      .join("、");
+
+  return candidates
+    .map((candidate) => {
+      const text = `「${candidate.text}」: ${describeStrokes(candidate.textStrokeIndices)}`;
+      if (
+        candidate.kind === "shape" &&
+        candidate.shapeKind &&
+        candidate.shapeStrokeIndex !== undefined
+      ) {
+        return `- ${SHAPE_NAMES[candidate.shapeKind]}の${describeStrokes([candidate.shapeStrokeIndex])}の中の文字 ${text}`;
+      }
+
+      // 既存ノードの上に書かれた文字（ラベルの変更の可能性）
+      const centerX = (candidate.bounds.minX + candidate.bounds.maxX) / 2;
+      const centerY = (candidate.bounds.minY + candidate.bounds.maxY) / 2;
+      const node = nodePositions.find(
+        (position) =>
+          centerX >= position.x &&
+          centerX <= position.x + position.width &&
+          centerY >= position.y &&
+          centerY <= position.y + position.height,
+      );
+      return node
+        ? `- ${describeNodePosition(node)}の上に書かれた文字 ${text}`
+        : `- 文字 ${text}`;
+    })
+    .join("\n");
+}
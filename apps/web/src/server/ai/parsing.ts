@@ -17,3 +17,71 @@ export function parseAiResponse(text: string): {
     reason: reasonMatch?.[1]?.trim() ?? null,
   };
 }
+
+/**
+ * Mermaidコードと理由をAIの応答と同じ形式のテキストに変換
+ * （AIを使わずに結果を返す場合に、クライアントで同じ解析処理を使うため）
+ */
+export function formatAiResponse(mermaidCode: string, reason: string): string {
+  return `---MERMAID_START---
+${mermaidCode}
+---MERMAID_END---
+
+---REASON_START---
+${reason}
+---REASON_END---`;
+}
+
+/**
+ * 解釈の候補（複数の候補を出力させた場合）
+ */
+export type AiCandidate = {
+  mermaidCode: string;
+  reason: string | null;
+  /** 確信度（0〜1。AIが出力しなかった場合はnull） */
+  confidence: number | null;
+};
+
+/** 一度に出力させる候補の最大数 */
+export const MAX_CANDIDATE_COUNT = 3;
+
+/**
+ * AIの応答から解釈の候補を抽出（確信度の高い順）
+ * ---CANDIDATE_START--- 〜 ---CANDIDATE_END--- がない場合は、応答全体を1つの候補として扱う
+ */
+export function parseAiCandidates(text: string): AiCandidate[] {
+  const blocks = Array.from(
+    text.matchAll(/---CANDIDATE_START---([\s\S]*?)---CANDIDATE_END---/g),
+    (match) => match[1] ?? "",
+  );
+
+  const candidates: AiCandidate[] = [];
+  for (const block of blocks.length > 0 ? blocks : [text]) {
+    const { mermaidCode, reason } = parseAiResponse(block);
+    if (!mermaidCode) continue;
+
+    const confidenceMatch = block.match(
+      /---CONFIDENCE_START---\s*([\s\S]*?)\s*---CONFIDENCE_END---/,
+    );
+    // 「60%」のような百分率で出力された場合も0〜1に変換する
+    const value = Number.parseFloat(confidenceMatch?.[1] ?? "");
+    const confidence = Number.isNaN(value)
+      ? null
+      : Math.min(1, Math.max(0, value > 1 ? value / 100 : value));
+
+    candidates.push({ mermaidCode, reason, confidence });
+  }
+
+  return candidates.sort((a, b) => (b.confidence ?? -1) - (a.confidence ?? -1));
+}
+
+/**
+ * 手書き文字の読み取り結果を抽出
+ * ---TEXT_START--- 〜 ---TEXT_END--- がない・文字がない（「なし」）場合はnull
+ */
+export function parseOcrText(text: string): string | null {
+  const match = text.match(/---TEXT_START---\s*([\s\S]*?)\s*---TEXT_END---/);
+  const value = match?.[1]?.replace(/\s*\n\s*/g, " ").trim();
+  if (!value || /^[（(]?なし[）)]?$/.test(value)) return null;
+  return value;
+}
@@ -51,6 +51,67 @@ export const DIAGRAM_SYNTAX_RULES: Record<DiagramType, string> = {
 - 属性タイプ: \`string\`, \`int\`, \`text\`, \`date\` など
 - キー: \`PK\` (主キー), \`FK\` (外部キー)
 - リレーション: \`||--o{\` (1対多), \`||--||\` (1対1), \`}o--o{\` (多対多)`,
+
+  gantt: `## ガントチャート (gantt) の構文
+- \`gantt\` で始まる
+- 設定: \`title タイトル\`, \`dateFormat YYYY-MM-DD\`, \`axisFormat %m/%d\`
+- セクション: \`section セクション名\`（以降のタスクはそのセクションに属する）
+- タスク: \`タスク名 :ID, 開始日, 期間\`（例: \`設計 :a1, 2026-01-05, 7d\`）
+- 前のタスクに続くタスク: \`タスク名 :ID, after a1, 3d\`（IDを省略すると直前のタスクの後）
+- 状態: \`done\`（完了）, \`active\`（進行中）, \`crit\`（重要）を先頭に付ける（例: \`:done, a1, 2026-01-05, 7d\`）
+- マイルストーン: \`リリース :milestone, m1, 2026-02-01, 0d\``,
+
+  mindmap: `## マインドマップ (mindmap) の構文
+- \`mindmap\` で始まる
+- **インデント（字下げ）で親子関係を表す**。子ノードは親ノードより深くインデントする
+- ルート（中心）は1つだけ: \`root((中心テーマ))\`
+- ノードの形: \`[四角]\`, \`(角丸)\`, \`((円))\`, \`))爆発((\`, \`)雲(\`, \`{{六角形}}\`, 記号なし（枠なし）
+- 接続の構文（\`-->\` など）はない
+- 例:
+  \`\`\`
+  mindmap
+    root((旅行))
+      準備
+        パスポート
+      行き先
+        京都
+  \`\`\``,
+
+  timeline: `## タイムライン (timeline) の構文
+- \`timeline\` で始まる
+- タイトル: \`title タイトル\`
+- 時期と出来事: \`時期 : 出来事\`（例: \`2024 : サービス開始\`）
+- 1つの時期に複数の出来事: \`時期 : 出来事1 : 出来事2\`、または次の行に \`: 出来事\` と続ける
+- セクション: \`section 期間名\`（以降の時期をまとめる）
+- 時期は上から順に左から右へ並ぶ（時系列順に書く）`,
+
+  C4Context: `## C4 コンテキスト図 (C4Context) の構文
+- \`C4Context\` で始まる
+- 要素: \`Person(ID, "名前", "説明")\`, \`System(ID, "名前", "説明")\`
+- データベース・キュー: \`SystemDb(ID, "名前")\`, \`SystemQueue(ID, "名前")\`
+- 外部の要素: \`Person_Ext(...)\`, \`System_Ext(...)\`, \`SystemDb_Ext(...)\`（末尾に \`_Ext\`）
+- 境界: \`Enterprise_Boundary(ID, "名前") { ... }\`, \`System_Boundary(ID, "名前") { ... }\`
+- 関係: \`Rel(元ID, 先ID, "ラベル", "技術")\`, 双方向は \`BiRel(...)\`
+- 配置の向きの指定: \`Rel_U\` / \`Rel_D\` / \`Rel_L\` / \`Rel_R\`（上・下・左・右）`,
+
+  C4Container: `## C4 コンテナ図 (C4Container) の構文
+- \`C4Container\` で始まる
+- コンテナ: \`Container(ID, "名前", "技術", "説明")\`
+- データベース・キュー: \`ContainerDb(ID, "名前", "技術")\`, \`ContainerQueue(ID, "名前", "技術")\`
+- 利用者・外部システム: \`Person(...)\`, \`System_Ext(...)\`, \`Container_Ext(...)\`
+- 境界: \`System_Boundary(ID, "名前") { ... }\`, \`Container_Boundary(ID, "名前") { ... }\`（境界内にコンテナを書く）
+- 関係: \`Rel(元ID, 先ID, "ラベル", "技術")\`, 双方向は \`BiRel(...)\``,
+
+  architecture: `## アーキテクチャ図 (architecture-beta) の構文
+- \`architecture-beta\` で始まる
+- グループ: \`group ID(アイコン)[名前]\`、入れ子は \`group ID(アイコン)[名前] in 親グループID\`
+- サービス: \`service ID(アイコン)[名前]\`、グループ内は \`service ID(アイコン)[名前] in グループID\`
+- アイコン: \`cloud\`, \`database\`, \`disk\`, \`internet\`, \`server\`
+- 接続: \`ID1:R -- L:ID2\`（\`T\` / \`B\` / \`L\` / \`R\` は接続する辺: 上・下・左・右）
+- 矢印: \`ID1:R --> L:ID2\`, 双方向は \`<-->\`
+- 分岐: \`junction ID\`（複数の接続をまとめる点）
+- ラベル付きの接続の構文はない。IDにはハイフン以外の記号や日本語を使わない
+- 名前（\`[...]\`）もASCII文字のみで書く（日本語などを含むと構文エラーになる）。手書きの日本語は英語に訳して使う`,
 };
 
 /**
@@ -74,27 +135,156 @@ export const DIAGRAM_STROKE_RULES: Record<DiagramType, string> = {
 - 横向きの矢印 → メッセージの追加
 - 点線の矢印 → 応答メッセージ
 - 四角の囲み → アクティベーション領域
-- **X印（バツ）が参加者上に描かれた場合 → その参加者を削除**`,
+- **X印（バツ）が参加者上に描かれた場合 → その参加者を削除**
+- **X印（バツ）がメッセージ上に描かれた場合 → そのメッセージのみを削除**
+- **閉じた図形（囲み線）が複数の参加者を囲んでいる場合 → それらの参加者を box でグループ化**`,
 
   classDiagram: `## ストロークの解釈ルール（クラス図）
 - 四角形 → 新しいクラスの追加
 - 三角矢印 → 継承関係
 - 通常の矢印 → 関連
 - ひし形 → 集約/合成
-- **X印（バツ）がクラス上に描かれた場合 → そのクラスを削除**`,
+- **X印（バツ）がクラス上に描かれた場合 → そのクラスを削除**
+- **閉じた図形（囲み線）が複数のクラスを囲んでいる場合 → それらのクラスを namespace でグループ化**`,
 
   stateDiagram: `## ストロークの解釈ルール（状態遷移図）
 - 円形/楕円 → 状態の追加
 - 塗りつぶした円 → 開始状態 [*]
 - 二重円 → 終了状態
 - 矢印 → 状態遷移
-- **X印（バツ）が状態上に描かれた場合 → その状態を削除**`,
+- **X印（バツ）が状態上に描かれた場合 → その状態を削除**
+- **閉じた図形（囲み線）が複数の状態を囲んでいる場合 → それらの状態を複合状態にまとめる**`,
 
   erDiagram: `## ストロークの解釈ルール（ER図）
 - 四角形 → エンティティの追加
 - 線 → リレーションの追加
 - 線の端の形状で多重度を判断（1、多など）
 - **X印（バツ）がエンティティ上に描かれた場合 → そのエンティティを削除**`,
+
+  gantt: `## ストロークの解釈ルール（ガントチャート）
+- 横長の棒（横線・細長い四角形） → タスクの追加
+  - 棒の左端が開始日、長さが期間。既存タスクの位置と期間から1日あたりの幅を推定する
+  - 棒の高さ（縦の位置）が近い既存タスクのセクションに追加する
+- 既存タスクの右端から続けて描いた棒、またはタスクからタスクへの矢印 → 依存関係（\`after タスクID\`）
+- 小さなひし形・点 → マイルストーン（\`milestone\`, 期間 \`0d\`）
+- 既存タスクの棒を延ばす・縮める線 → そのタスクの期間を変更
+- 既存タスク上のチェック印・塗りつぶし → 完了（\`done\`）
+- **X印（バツ）がタスク上に描かれた場合 → そのタスクを削除**（そのタスクを \`after\` で参照するタスクは開始日を補う）
+- **閉じた図形（囲み線）が複数のタスクを囲んでいる場合 → それらのタスクを section にまとめる**`,
+
+  mindmap: `## ストロークの解釈ルール（マインドマップ）
+- 中心に描いた円・囲み → ルート（\`root((テーマ))\`）
+- 既存ノードから外側へ放射状に伸びる線（枝） → そのノードの子ノードを追加（枝の先の文字がラベル）
+- 追加した枝の先からさらに伸びる枝 → 孫ノード（インデントを1段深くする）
+- 線で結ばれていない文字 → 最も近いノードの子ノード
+- 文字を丸で囲む → \`((円))\`、四角で囲む → \`[四角]\`
+- ノードから別のノードへの矢印 → 矢印の元のノードを、矢印の先のノードの子に移動
+- **X印（バツ）がノード上に描かれた場合 → そのノードと子孫のノードを削除**
+- **閉じた図形（囲み線）が複数のノードを囲んでいる場合 → それらを新しい親ノードの子にまとめる**`,
+
+  timeline: `## ストロークの解釈ルール（タイムライン）
+- 横の線（時間軸）に沿って描いた短い縦線・点と、その近くの文字 → 時期の追加（左から右が時系列順）
+- 既存の時期の下（近く）に書いた文字・四角 → その時期の出来事を追加
+- 既存の時期の間に描いた縦線・文字 → その位置（時系列順）に時期を挿入
+- 時期から別の時期の間への矢印 → 時期の順序を移動
+- **X印（バツ）が時期上に描かれた場合 → その時期と出来事を削除**
+- **X印（バツ）が出来事上に描かれた場合 → その出来事のみを削除**
+- **閉じた図形（囲み線）が複数の時期を囲んでいる場合 → それらの時期を section にまとめる**`,
+
+  C4Context: `## ストロークの解釈ルール（C4 コンテキスト図）
+- 人型（丸と棒）・人の絵 → 利用者（\`Person\`）
+- 四角形 → システム（\`System\`）
+- 円柱（上下が楕円の縦長の図形） → データベース（\`SystemDb\`）
+- 横長の円柱・筒 → キュー（\`SystemQueue\`）
+- 雲形（もこもこした閉じた図形） → 外部システム（\`System_Ext\`）
+- 破線の四角形・大きな囲み → 境界（\`Enterprise_Boundary\` / \`System_Boundary\`）
+- 要素間の線・矢印 → 関係（\`Rel\`）、両端が矢印の場合は \`BiRel\`。線の近くの文字はラベル
+- **X印（バツ）が要素上に描かれた場合 → その要素と関係を削除**
+- **X印（バツ）が関係上に描かれた場合 → その関係のみを削除**`,
+
+  C4Container: `## ストロークの解釈ルール（C4 コンテナ図）
+- 四角形 → コンテナ（\`Container\`）。近くの文字から技術（例: "Next.js"）を読み取る
+- 円柱（上下が楕円の縦長の図形） → データベース（\`ContainerDb\`）
+- 横長の円柱・筒 → キュー（\`ContainerQueue\`）
+- 雲形（もこもこした閉じた図形） → 外部システム（\`System_Ext\`）
+- 人型（丸と棒）・人の絵 → 利用者（\`Person\`）
+- 破線の四角形・大きな囲み → 境界（\`System_Boundary\` / \`Container_Boundary\`）。既存の境界の中に描いた要素はその境界内に追加する
+- 要素間の線・矢印 → 関係（\`Rel\`）、両端が矢印の場合は \`BiRel\`。線の近くの文字はラベル
+- **X印（バツ）が要素上に描かれた場合 → その要素と関係を削除**
+- **X印（バツ）が関係上に描かれた場合 → その関係のみを削除**`,
+
+  architecture: `## ストロークの解釈ルール（アーキテクチャ図）
+- 四角形 → サーバー（\`service ID(server)[名前]\`）。名前はASCII文字のみで書く（手書きの日本語は英語に訳す）
+- 円柱（上下が楕円の縦長の図形） → データベース（\`database\` アイコン）
+- 雲形（もこもこした閉じた図形） → 外部のサービス・クラウド（\`cloud\` または \`internet\` アイコン）
+- 円盤・ディスクの形 → ストレージ（\`disk\` アイコン）
+- 破線の四角形・大きな囲み → グループ（\`group\`）。既存のグループの中に描いた要素は \`in グループID\` で追加する
+- 要素間の線 → 接続。線が要素のどの辺（上下左右）から出ているかで \`T\` / \`B\` / \`L\` / \`R\` を決める。矢印の場合は \`-->\`
+- 3本以上の線が集まる点 → \`junction\`
+- **X印（バツ）が要素上に描かれた場合 → その要素と接続を削除**`,
+};
+
+/**
+ * 囲み線を検出したときのグループ化の指示（図の種類ごと）
+ */
+export const ENCLOSURE_GROUPING_RULES: Record<DiagramType, string> = {
+  flowchart: `**重要**: 囲み線内に含まれるノードをsubgraphとしてグループ化してください。
+- subgraph構文: \`subgraph タイトル\` ... \`end\`
+- 囲み線内のノードをsubgraphブロック内に移動してください
+- 囲み線のタイトルは、囲み線内のノードの内容から推測するか、空白にしてください
+- 既存の接続は維持してください（subgraph内のノードと外部ノードの接続も保持）`,
+
+  sequence: `**重要**: 囲み線内に含まれる参加者をboxとしてグループ化してください。
+- box構文: \`box タイトル\` ... \`end\`（participant の宣言をbox内に移動）
+- box内の参加者は連続して並べる必要があります
+- 囲み線がメッセージだけを囲んでいる場合は、\`rect rgb(240, 240, 255)\` ... \`end\` で強調してください
+- 既存のメッセージは維持してください`,
+
+  classDiagram: `**重要**: 囲み線内に含まれるクラスをnamespaceとしてグループ化してください。
+- namespace構文: \`namespace タイトル { class A  class B }\`
+- タイトルは囲み線内のクラスの内容から推測してください（空白は不可）
+- 既存のリレーションは維持してください`,
+
+  stateDiagram: `**重要**: 囲み線内に含まれる状態を複合状態としてまとめてください。
+- 複合状態の構文: \`state タイトル { ... }\`
+- 囲み線内の状態と、それらの間の遷移を複合状態の中に移動してください
+- 外部の状態との遷移は、複合状態の外側に残してください`,
+
+  erDiagram: `**重要**: ER図にはグループ化の構文がありません。
+- 手書きの文字などで指示がある場合はそれに従い、なければ既存のエンティティは変更しないでください`,
+
+  gantt: `**重要**: 囲み線内に含まれるタスクをsectionとしてまとめてください。
+- section構文: \`section タイトル\`（以降のタスクがそのセクションに属する）
+- 囲み線内のタスクを新しいsectionの下に移動してください
+- タイトルは囲み線内のタスクの内容から推測してください（空白は不可）
+- タスクのIDと \`after\` による依存関係は維持してください`,
+
+  mindmap: `**重要**: 囲み線内に含まれるノードを、新しい親ノードの子としてまとめてください。
+- 囲まれたノードに共通する親の下に新しいノードを追加し、囲まれたノードをその子に移動してください（インデントを1段深くする）
+- 新しいノードのラベルは、囲み線の近くの文字か、囲まれたノードの内容から推測してください
+- 囲まれたノードの子孫もそのまま一緒に移動してください`,
+
+  timeline: `**重要**: 囲み線内に含まれる時期をsectionとしてまとめてください。
+- section構文: \`section タイトル\`（以降の時期がそのセクションに属する）
+- 囲み線内の時期を新しいsectionの下に移動してください（時系列の順序は維持）
+- タイトルは囲み線内の時期の内容から推測してください（空白は不可）`,
+
+  C4Context: `**重要**: 囲み線内に含まれる要素を境界としてまとめてください。
+- 境界の構文: \`Enterprise_Boundary(ID, "名前") { ... }\` または \`System_Boundary(ID, "名前") { ... }\`
+- 囲み線内の要素の定義を境界のブロック内に移動してください
+- 名前は囲み線の近くの文字か、囲まれた要素の内容から推測してください
+- 既存の関係（\`Rel\`）は維持してください`,
+
+  C4Container: `**重要**: 囲み線内に含まれる要素を境界としてまとめてください。
+- 境界の構文: \`System_Boundary(ID, "名前") { ... }\` または \`Container_Boundary(ID, "名前") { ... }\`
+- 囲み線内の要素の定義を境界のブロック内に移動してください
+- 名前は囲み線の近くの文字か、囲まれた要素の内容から推測してください
+- 既存の関係（\`Rel\`）は維持してください`,
+
+  architecture: `**重要**: 囲み線内に含まれるサービスをグループとしてまとめてください。
+- グループの構文: \`group ID(cloud)[名前]\` を追加し、囲まれたサービスに \`in グループID\` を付けてください
+- 既存のグループの中を囲んだ場合は \`in 親グループID\` で入れ子にしてください
+- 既存の接続は維持してください`,
 };
 
 /**
@@ -160,6 +350,154 @@ ${DIAGRAM_STROKE_RULES[diagramType]}
 - 図の種類に適した構文を使用すること`;
 }
 
+/**
+ * 複数の解釈の候補を出力させる指示（ストローク解釈のプロンプトに追加する）
+ */
+export function getCandidatesPrompt(candidateCount: number): string {
+  return `## 複数の解釈の候補
+手書きの解釈が曖昧な場合に備えて、異なる解釈の候補を${candidateCount}個出力してください。
+- 候補は確信度の高い順に並べてください
+- 確信度は0〜1の数値で、全候補の合計が1になるようにしてください
+- 理由には、その候補が他の候補とどう違う解釈なのかを簡潔に書いてください
+- 解釈が1つしか考えられない場合でも、細部（ラベル・接続の向きなど）を変えた候補を${candidateCount}個出力してください
+
+この場合は、上記の出力形式の代わりに、候補ごとに以下の形式で出力してください：
+
+---CANDIDATE_START---
+---MERMAID_START---
+(候補のMermaidコード)
+---MERMAID_END---
+
+---REASON_START---
+(候補の解釈の説明)
+---REASON_END---
+
+---CONFIDENCE_START---
+(確信度。例: 0.6)
+---CONFIDENCE_END---
+---CANDIDATE_END---`;
+}
+
+/**
+ * Stage 1用: 構造抽出プロンプトを生成
+ */
+export function getStructureExtractionPrompt(diagramType: DiagramType): string {
+  return `あなたは手書きストロークからMermaidダイアグラムの**全体構造**を把握するAIアシスタントです。
+
+## 現在編集中の図の種類: ${diagramType}
+
+## あなたの役割（Stage 1: 構造抽出）
+- **主要な要素（ノード、接続）のみを抽出してください**
+- 詳細な装飾、細かい要素、不完全なストロークは無視してください
+- 全体の骨格構造、流れ、主要な関係性を優先してください
+- 不完全な情報でも構いません。全体像を把握することが重要です
+
+${DIAGRAM_SYNTAX_RULES[diagramType]}
+
+${DIAGRAM_STROKE_RULES[diagramType]}
+
+## 出力形式
+以下の形式で出力してください：
+
+---MERMAID_START---
+(主要な構造のみのMermaidコード)
+---MERMAID_END---
+
+---REASON_START---
+(抽出した主要要素の説明: どのようなノードや接続を検出したか)
+---REASON_END---
+
+## 注意事項
+- 詳細は後で追加されます。今は全体構造に集中してください
+- 不完全でも構いません。主要な要素を優先してください
+- 必ず有効なMermaid ${diagramType} 構文を出力すること`;
+}
+
+/**
+ * Stage 2用: 詳細追加プロンプトを生成
+ */
+export function getDetailAdditionPrompt(
+  diagramType: DiagramType,
+  baseMermaidCode: string,
+): string {
+  return `あなたは既存のMermaidダイアグラムに**詳細を追加**するAIアシスタントです。
+
+## 現在編集中の図の種類: ${diagramType}
+
+## 既存のMermaidコード（主要構造）
+\`\`\`mermaid
+${baseMermaidCode}
+\`\`\`
+
+## あなたの役割（Stage 2: 詳細追加）
+- 既存の構造を**保持**しつつ、追加ストロークで詳細を追加してください
+- 新しいノード、接続、ラベル、スタイルなどを追加できます
+- 既存の要素を修正・削除することも可能です
+- 追加ストロークの意図を推測し、適切に統合してください
+
+${DIAGRAM_SYNTAX_RULES[diagramType]}
+
+${DIAGRAM_STROKE_RULES[diagramType]}
+
+## 出力形式
+以下の形式で出力してください：
+
+---MERMAID_START---
+(詳細を追加した完全なMermaidコード)
+---MERMAID_END---
+
+---REASON_START---
+(追加した詳細の説明: 何を追加・修正したか)
+---REASON_END---
+
+## 注意事項
+- 既存の構造を壊さないようにしてください
+- 追加ストロークの意図を最大限に反映してください
+- 必ず有効なMermaid ${diagramType} 構文を出力すること`;
+}
+
+/**
+ * 図の種類の変換用プロンプトを生成
+ */
+export function getDiagramConversionPrompt(
+  fromType: DiagramType,
+  toType: DiagramType,
+  mermaidCode: string,
+): string {
+  return `あなたはMermaidダイアグラムを**別の種類の図に変換**するAIアシスタントです。
+
+## 変換元の図の種類: ${fromType}
+## 変換先の図の種類: ${toType}
+
+## 変換元のMermaidコード
+\`\`\`mermaid
+${mermaidCode}
+\`\`\`
+
+## あなたの役割
+- 変換元の図が表している要素と関係を読み取ってください
+- 変換先の図の種類で最も自然な表現に置き換えてください（例: フローチャートの処理 → 状態図の状態、クラス → ERのエンティティ）
+- ラベル・名前などのテキストはできる限りそのまま引き継いでください
+- 変換先の図で表現できない情報は省略し、その内容を説明に書いてください
+
+${DIAGRAM_SYNTAX_RULES[toType]}
+
+## 出力形式
+以下の形式で出力してください：
+
+---MERMAID_START---
+(変換後のMermaidコード)
+---MERMAID_END---
+
+---REASON_START---
+(変換の説明: 何を何に置き換えたか、省略した情報があれば何か)
+---REASON_END---
+
+## 注意事項
+- 必ず有効なMermaid ${toType} 構文を出力すること
+- 変換元の図の種類の構文を混ぜないこと`;
+}
+
 /**
  * Mermaid操作用のシステムプロンプト
  */
@@ -193,3 +531,26 @@ export const SYSTEM_PROMPT = `あなたはMermaidダイアグラムの編集を
 - 必ず有効なMermaid構文を出力すること
 - 既存のノードや接続を保持しつつ、ユーザーの指示に従って修正すること
 - 必ず上記の形式で出力すること`;
+
+/**
+ * 手書き文字の読み取り（ラベルのOCR）用のシステムプロンプト
+ */
+export const LABEL_OCR_PROMPT = `あなたは手書き文字の読み取りを行うアシスタントです。
+
+画像は手書きの図の一部を切り出したもので、図形（四角・ひし形・円など）の中や近くに書かれた文字が含まれます。
+
+## あなたの役割
+- 画像内の手書き文字（日本語・英語・数字・記号）をそのまま書き起こす
+- 図形の枠線・矢印・線は文字として扱わない
+- 判読しにくい文字は、図のラベルとして自然な語を推測する
+
+## 出力形式
+以下の形式で出力してください：
+
+---TEXT_START---
+(読み取った文字。文字がない場合は「なし」)
+---TEXT_END---
+
+## 注意事項
+- 読み取った文字以外の説明は出力しないこと
+- 複数行の文字は1行にまとめること`;
@@ -0,0 +1,667 @@
+import type { DiagramType } from "../db/schema";
+import { getSourceLines, parseMermaid } from "../mermaid/parser";
+import {
+  type NodePosition,
+  type Stroke,
+  detectEnclosure,
+  detectXMark,
+} from "./detection";
+import { getStrokeBounds } from "./strokeUtils";
+
+/**
+ * 座標
+ */
+type Point = { x: number; y: number };
+
+/**
+ * ストロークのバウンディングボックス
+ */
+type Bounds = ReturnType<typeof getStrokeBounds>;
+
+/**
+ * 矢印の向き（矢じりのある方向）
+ */
+export type ArrowDirection = "up" | "down" | "left" | "right";
+
+/**
+ * 閉じた図形の種類
+ */
+export type ClosedShapeKind = "rectangle" | "diamond" | "circle";
+
+/**
+ * 線・矢印の認識結果
+ */
+export type ConnectorShape = {
+  kind: "line" | "arrow";
+  /** 認識に使ったストロークのインデックス（矢じりを別に描いた場合は複数） */
+  strokeIndices: number[];
+  /** 始点（矢印の場合は矢じりのない側） */
+  from: Point;
+  /** 終点（矢印の場合は矢じりの側） */
+  to: Point;
+  /** 矢じりの向き（線の場合はnull） */
+  direction: ArrowDirection | null;
+};
+
+/**
+ * ストロークの認識結果
+ */
+export type RecognizedShape =
+  | {
+      kind: ClosedShapeKind;
+      strokeIndices: number[];
+      bounds: Bounds;
+    }
+  | ConnectorShape
+  | {
+      kind: "unknown";
+      strokeIndices: number[];
+    };
+
+/**
+ * ローカル認識の結果（AIの応答と同じ形式で扱える）
+ */
+export type LocalRecognitionResult = {
+  mermaidCode: string;
+  reason: string;
+  shapes: RecognizedShape[];
+};
+
+/** 図形として扱う最小サイズ（px） */
+const MIN_SHAPE_SIZE = 20;
+
+/** 線として扱う最小の長さ（px） */
+const MIN_LINE_LENGTH = 30;
+
+/** 1筆書きの矢じりとみなす折り返しの最小の長さ（px、線の長さの8%未満でも矢じりとみなす） */
+const MIN_ARROW_BARB_LENGTH = 8;
+
+/** 線の端点をノードに接続するとみなす距離（px） */
+const CONNECT_DISTANCE = 40;
+
+/** 新しく追加するノードのラベル */
+const NEW_NODE_LABEL = "新しいノード";
+
+/** 図形の種類ごとのMermaid記法 */
+const SHAPE_SYNTAX: Record<ClosedShapeKind, [string, string]> = {
+  rectangle: ["[", "]"],
+  diamond: ["{", "}"],
+  circle: ["((", "))"],
+};
+
+/** 図形の種類ごとの表示名 */
+const SHAPE_NAMES: Record<ClosedShapeKind, string> = {
+  rectangle: "四角形",
+  diamond: "ひし形",
+  circle: "円",
+};
+
+/** 矢印の向きの表示 */
+const DIRECTION_SYMBOLS: Record<ArrowDirection, string> = {
+  up: "↑",
+  down: "↓",
+  left: "←",
+  right: "→",
+};
+
+/**
+ * ローカル認識が有効か
+ * 環境変数 AI_LOCAL_RECOGNITION が "false" の場合は常にAIで解釈する
+ */
+export function isLocalRecognitionEnabled(): boolean {
+  return process.env.AI_LOCAL_RECOGNITION !== "false";
+}
+
+/**
+ * フラットな座標配列を点の配列に変換
+ */
+function toPoints(points: number[]): Point[] {
+  const result: Point[] = [];
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    const x = points[i];
+    const y = points[i + 1];
+    if (x !== undefined && y !== undefined) {
+      result.push({ x, y });
+    }
+  }
+  return result;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * 点から線分までの距離
+ */
+function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return distance(p, a);
+  const t = Math.max(
+    0,
+    Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq),
+  );
+  return distance(p, { x: a.x + t * dx, y: a.y + t * dy });
+}
+
+/**
+ * 折れ線の長さ（from〜toのインデックス範囲）
+ */
+function pathLength(points: Point[], from = 0, to = points.length - 1): number {
+  let length = 0;
+  for (let i = from; i < to; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    if (a && b) length += distance(a, b);
+  }
+  return length;
+}
+
+/**
+ * 閉じた折れ線の面積（Shoelace formula）
+ */
+function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    if (a && b) area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+/**
+ * バウンディングボックスの四隅から折れ線までの距離の平均（対角線の長さに対する比率）
+ * 四角形は0に近く、円は約0.15、ひし形は約0.25になる
+ */
+function cornerDistanceRatio(points: Point[], bounds: Bounds): number {
+  const corners: Point[] = [
+    { x: bounds.minX, y: bounds.minY },
+    { x: bounds.maxX, y: bounds.minY },
+    { x: bounds.maxX, y: bounds.maxY },
+    { x: bounds.minX, y: bounds.maxY },
+  ];
+  const diagonal = Math.hypot(
+    bounds.maxX - bounds.minX,
+    bounds.maxY - bounds.minY,
+  );
+
+  let total = 0;
+  for (const corner of corners) {
+    let min = Number.POSITIVE_INFINITY;
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      if (a && b) min = Math.min(min, distanceToSegment(corner, a, b));
+    }
+    total += min;
+  }
+  return total / 4 / diagonal;
+}
+
+/**
+ * ベクトルの向きを上下左右に分類
+ */
+function getDirection(from: Point, to: Point): ArrowDirection {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    return dx >= 0 ? "right" : "left";
+  }
+  return dy >= 0 ? "down" : "up";
+}
+
+/**
+ * 閉じた図形を四角形・ひし形・円に分類
+ * バウンディングボックスに対する面積の比率（四角形≒1、円≒0.79、ひし形≒0.5）と
+ * 四隅からの距離を組み合わせて判定する
+ */
+function classifyClosedShape(
+  points: Point[],
+  bounds: Bounds,
+): ClosedShapeKind | null {
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const fillRatio = polygonArea(points) / (width * height);
+  const cornerRatio = cornerDistanceRatio(points, bounds);
+
+  if (cornerRatio < 0.08 && fillRatio > 0.75) {
+    return "rectangle";
+  }
+  if (cornerRatio > 0.17 && fillRatio < 0.65) {
+    return "diamond";
+  }
+  if (cornerRatio >= 0.08 && fillRatio >= 0.6 && fillRatio <= 0.9) {
+    return "circle";
+  }
+  return null;
+}
+
+/**
+ * キャンバスで整形済みのストロークを、記録した図形の種類どおりに分類
+ * 整形した線・矢印の点は始点・先端の順に並んでいる
+ */
+function classifyShapedStroke(
+  stroke: Stroke,
+  strokeIndex: number,
+): RecognizedShape | null {
+  const points = toPoints(stroke.points);
+  const from = points[0];
+  const to = points[1];
+  if (!stroke.shape || !from || !to) return null;
+
+  switch (stroke.shape) {
+    case "rectangle":
+    case "diamond":
+      return {
+        kind: stroke.shape,
+        strokeIndices: [strokeIndex],
+        bounds: getStrokeBounds(stroke.points),
+      };
+    case "ellipse":
+      return {
+        kind: "circle",
+        strokeIndices: [strokeIndex],
+        bounds: getStrokeBounds(stroke.points),
+      };
+    case "line":
+      return {
+        kind: "line",
+        strokeIndices: [strokeIndex],
+        from,
+        to,
+        direction: null,
+      };
+    case "arrow":
+      return {
+        kind: "arrow",
+        strokeIndices: [strokeIndex],
+        from,
+        to,
+        direction: getDirection(from, to),
+      };
+  }
+}
+
+/**
+ * 開いたストロークを線・矢印として分類（分類できない場合はnull）
+ * 始点から最も遠い点を先端とし、そこまでがほぼ直線かを判定する
+ * 先端の後の折り返しは1筆書きの矢じりとみなす
+ */
+function classifyOpenStroke(
+  points: Point[],
+  strokeIndex: number,
+): ConnectorShape | null {
+  const start = points[0];
+  if (!start) return null;
+
+  let tipIndex = 0;
+  let tipDistance = 0;
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    if (p && distance(start, p) > tipDistance) {
+      tipDistance = distance(start, p);
+      tipIndex = i;
+    }
+  }
+  const tip = points[tipIndex];
+  if (!tip || tipDistance < MIN_LINE_LENGTH) return null;
+
+  const shaftLength = pathLength(points, 0, tipIndex);
+  if (shaftLength / tipDistance > 1.3) return null;
+
+  // 先端の後の折り返し（1筆書きの矢じり）
+  // 短い折り返しは、軸の側へ戻っている場合のみ矢じりとみなす（ペンを離すときのはねと区別する）
+  const tailLength = pathLength(points, tipIndex);
+  const tailEnd = points[points.length - 1] ?? tip;
+  const pointsBack =
+    (tailEnd.x - tip.x) * (start.x - tip.x) +
+      (tailEnd.y - tip.y) * (start.y - tip.y) >
+    0;
+  const isBarb =
+    tailLength >= tipDistance * 0.08 ||
+    (tailLength >= MIN_ARROW_BARB_LENGTH && pointsBack);
+  if (!isBarb) {
+    return {
+      kind: "line",
+      strokeIndices: [strokeIndex],
+      from: start,
+      to: tip,
+      direction: null,
+    };
+  }
+
+  const tail = points.slice(tipIndex);
+  const isArrowHead =
+    tailLength <= tipDistance * 1.2 &&
+    tail.every((p) => distance(p, tip) <= tipDistance * 0.45);
+  if (isArrowHead) {
+    return {
+      kind: "arrow",
+      strokeIndices: [strokeIndex],
+      from: start,
+      to: tip,
+      direction: getDirection(start, tip),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * 1本のストロークを図形として分類
+ * 整形済みのストロークは記録した図形の種類を使う
+ */
+export function classifyStroke(
+  stroke: Stroke,
+  strokeIndex: number,
+): RecognizedShape {
+  const shaped = classifyShapedStroke(stroke, strokeIndex);
+  if (shaped) return shaped;
+
+  const unknown: RecognizedShape = {
+    kind: "unknown",
+    strokeIndices: [strokeIndex],
+  };
+  const points = toPoints(stroke.points);
+  const start = points[0];
+  const end = points[points.length - 1];
+  if (!start || !end || points.length < 3) return unknown;
+
+  const bounds = getStrokeBounds(stroke.points);
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+  const size = Math.max(width, height);
+  if (size < MIN_SHAPE_SIZE) return unknown;
+
+  // 閉じた図形: 始点と終点が図形のサイズに比べて近い
+  const closeThreshold = Math.max(20, size * 0.25);
+  if (
+    distance(start, end) <= closeThreshold &&
+    width >= MIN_SHAPE_SIZE &&
+    height >= MIN_SHAPE_SIZE
+  ) {
+    const kind = classifyClosedShape(points, bounds);
+    return kind ? { kind, strokeIndices: [strokeIndex], bounds } : unknown;
+  }
+
+  // 開いた図形: 線・矢印
+  // 矢じりから描き始めた場合（矢じり → 先端 → 軸）は、逆順にすると軸 → 先端 → 矢じりになる
+  const forward = classifyOpenStroke(points, strokeIndex);
+  if (forward?.kind === "arrow") return forward;
+  const reversed = classifyOpenStroke([...points].reverse(), strokeIndex);
+  if (reversed?.kind === "arrow") return reversed;
+  return forward ?? unknown;
+}
+
+/**
+ * 線の端の近くに別に描かれた矢じりを線と結合する
+ * 矢じりは線の長さに比べて小さく、端点の近くにある開いたストロークとみなす
+ */
+function attachArrowHeads(
+  shapes: RecognizedShape[],
+  strokes: Stroke[],
+): RecognizedShape[] {
+  const consumed = new Set<number>();
+  const lines = shapes
+    .filter((shape): shape is ConnectorShape => shape.kind === "line")
+    .sort((a, b) => distance(b.from, b.to) - distance(a.from, a.to));
+
+  const replaced = new Map<RecognizedShape, RecognizedShape>();
+
+  for (const line of lines) {
+    const lineIndex = line.strokeIndices[0];
+    if (lineIndex === undefined || consumed.has(lineIndex)) continue;
+
+    const length = distance(line.from, line.to);
+    const headRadius = Math.max(25, length * 0.25);
+    const maxHeadSize = Math.max(40, length * 0.4);
+    const headsAtFrom: number[] = [];
+    const headsAtTo: number[] = [];
+
+    for (const candidate of shapes) {
+      const index = candidate.strokeIndices[0];
+      if (
+        candidate === line ||
+        index === undefined ||
+        consumed.has(index) ||
+        (candidate.kind !== "line" && candidate.kind !== "unknown")
+      ) {
+        continue;
+      }
+      const stroke = strokes[index];
+      if (!stroke) continue;
+
+      const bounds = getStrokeBounds(stroke.points);
+      const size = Math.max(
+        bounds.maxX - bounds.minX,
+        bounds.maxY - bounds.minY,
+      );
+      if (size > maxHeadSize) continue;
+
+      const center = { x: bounds.centerX, y: bounds.centerY };
+      if (distance(center, line.to) <= headRadius) {
+        headsAtTo.push(index);
+      } else if (distance(center, line.from) <= headRadius) {
+        headsAtFrom.push(index);
+      }
+    }
+
+    // 両端に矢じりがある場合は判断しない
+    if (headsAtTo.length > 0 && headsAtFrom.length > 0) continue;
+
+    const heads = headsAtTo.length > 0 ? headsAtTo : headsAtFrom;
+    if (heads.length === 0) continue;
+
+    const [from, to] =
+      headsAtTo.length > 0 ? [line.from, line.to] : [line.to, line.from];
+    for (const index of [lineIndex, ...heads]) {
+      consumed.add(index);
+    }
+    replaced.set(line, {
+      kind: "arrow",
+      strokeIndices: [lineIndex, ...heads],
+      from,
+      to,
+      direction: getDirection(from, to),
+    });
+  }
+
+  return shapes.flatMap((shape) => {
+    const replacement = replaced.get(shape);
+    if (replacement) return [replacement];
+    const index = shape.strokeIndices[0];
+    return index !== undefined && consumed.has(index) ? [] : [shape];
+  });
+}
+
+/**
+ * ストロークを図形に分類（矢じりの結合を含む）
+ */
+export function recognizeShapes(strokes: Stroke[]): RecognizedShape[] {
+  return attachArrowHeads(
+    strokes.map((stroke, index) => classifyStroke(stroke, index)),
+    strokes,
+  );
+}
+
+/**
+ * 点から矩形までの距離（矩形内は0）
+ */
+function distanceToRect(
+  p: Point,
+  rect: { x: number; y: number; width: number; height: number },
+): number {
+  const dx = Math.max(rect.x - p.x, 0, p.x - (rect.x + rect.width));
+  const dy = Math.max(rect.y - p.y, 0, p.y - (rect.y + rect.height));
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * 2つの矩形が重なっているか
+ */
+function rectsOverlap(
+  a: { x: number; y: number; width: number; height: number },
+  b: { x: number; y: number; width: number; height: number },
+): boolean {
+  return (
+    a.x < b.x + b.width &&
+    b.x < a.x + a.width &&
+    a.y < b.y + b.height &&
+    b.y < a.y + a.height
+  );
+}
+
+/**
+ * 既存のコードで使われていない新しいノードIDを生成
+ */
+function createIdGenerator(usedIds: Set<string>): () => string {
+  let counter = 1;
+  return () => {
+    while (usedIds.has(`N${counter}`)) {
+      counter++;
+    }
+    const id = `N${counter}`;
+    usedIds.add(id);
+    return id;
+  };
+}
+
+/**
+ * 追記する行のインデント（ヘッダーの次の行に合わせる）
+ */
+function getBodyIndent(code: string): string {
+  const bodyLine = getSourceLines(code)[1];
+  return bodyLine ? " ".repeat(bodyLine.column - 1) : "    ";
+}
+
+/**
+ * 単純な手書き（図形・線・矢印）をAIを使わずにMermaidの編集に変換する
+ *
+ * - 既存ノードと重ならない閉じた図形 → ノードを追加
+ * - 両端がノード（既存または追加したノード）の近くにある線・矢印 → 接続を追加
+ *
+ * 文字・X印・囲み線など、解釈できないストロークが1本でもある場合はnullを返す（AIで解釈する）
+ */
+export function recognizeStrokesLocally(options: {
+  strokes: Stroke[];
+  currentMermaidCode: string;
+  diagramType: DiagramType;
+  nodePositions?: NodePosition[];
+}): LocalRecognitionResult | null {
+  const {
+    strokes,
+    currentMermaidCode,
+    diagramType,
+    nodePositions = [],
+  } = options;
+
+  if (diagramType !== "flowchart" || strokes.length === 0) return null;
+
+  const parsed = parseMermaid(currentMermaidCode);
+  if (parsed.diagramType !== "flowchart") return null;
+
+  // 削除・グループ化の指示はAIに任せる
+  if (
+    detectXMark(strokes, nodePositions) ||
+    detectEnclosure(strokes, nodePositions)
+  ) {
+    return null;
+  }
+
+  const shapes = recognizeShapes(strokes);
+  if (shapes.some((shape) => shape.kind === "unknown")) return null;
+
+  const usedIds = new Set([
+    ...parsed.nodes.map((node) => node.id),
+    ...parsed.subgraphs.map((subgraph) => subgraph.id),
+  ]);
+  const nextId = createIdGenerator(usedIds);
+
+  type Target = {
+    id: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  };
+  const targets: Target[] = nodePositions.map((node) => ({ ...node }));
+  const addedLines: string[] = [];
+  const summaries: string[] = [];
+
+  // 閉じた図形をノードとして追加
+  for (const shape of shapes) {
+    if (
+      shape.kind !== "rectangle" &&
+      shape.kind !== "diamond" &&
+      shape.kind !== "circle"
+    ) {
+      continue;
+    }
+    const rect = {
+      x: shape.bounds.minX,
+      y: shape.bounds.minY,
+      width: shape.bounds.maxX - shape.bounds.minX,
+      height: shape.bounds.maxY - shape.bounds.minY,
+    };
+    // 既存ノードや他の図形と重なる場合は文字や装飾の可能性があるためAIに任せる
+    if (targets.some((target) => rectsOverlap(target, rect))) {
+      return null;
+    }
+
+    const id = nextId();
+    const [open, close] = SHAPE_SYNTAX[shape.kind];
+    targets.push({ id, ...rect });
+    addedLines.push(`${id}${open}"${NEW_NODE_LABEL}"${close}`);
+    summaries.push(`${SHAPE_NAMES[shape.kind]}のノード「${id}」を追加`);
+  }
+
+  // 線・矢印を接続として追加
+  const findTarget = (point: Point): Target | null => {
+    let nearest: Target | null = null;
+    let nearestDistance = CONNECT_DISTANCE;
+    for (const target of targets) {
+      const d = distanceToRect(point, target);
+      if (d <= nearestDistance) {
+        nearest = target;
+        nearestDistance = d;
+      }
+    }
+    return nearest;
+  };
+
+  for (const shape of shapes) {
+    if (shape.kind !== "line" && shape.kind !== "arrow") continue;
+
+    const source = findTarget(shape.from);
+    const target = findTarget(shape.to);
+    if (!source || !target || source.id === target.id) {
+      return null;
+    }
+
+    if (shape.kind === "arrow" && shape.direction) {
+      addedLines.push(`${source.id} --> ${target.id}`);
+      summaries.push(
+        `矢印（${DIRECTION_SYMBOLS[shape.direction]}）で「${source.id}」から「${target.id}」への接続を追加`,
+      );
+    } else {
+      addedLines.push(`${source.id} --- ${target.id}`);
+      summaries.push(`線で「${source.id}」と「${target.id}」の接続を追加`);
+    }
+  }
+
+  if (addedLines.length === 0) return null;
+
+  const indent = getBodyIndent(currentMermaidCode);
+  const mermaidCode = `${currentMermaidCode.trimEnd()}\n${addedLines
+    .map((line) => `${indent}${line}`)
+    .join("\n")}`;
+
+  return {
+    mermaidCode,
+    reason: `手書きの図形をローカルで認識しました（AI不使用）: ${summaries.join("、")}`,
+    shapes,
+  };
+}
@@ -1,3 +1,9 @@
+import { STROKE_SHAPE_LABELS } from "@/lib/utils/strokeBeautify";
+import { groupStrokeIndicesByTimeGap } from "@/lib/utils/strokeDivision";
+import { getStrokeTimeRange } from "@/lib/utils/strokeInput";
+import type { StrokeShapeKind } from "@/server/db/schema";
+import type { EdgePosition, NodePosition, NodePositionKind } from "./detection";
+
 /**
  * ストロークのバウンディングボックスを計算
  */
@@ -37,7 +43,7 @@ export function getStrokeBounds(points: number[]): {
  * ストロークデータを解析用のテキストに変換
  */
 export function formatStrokeDescriptions(
-  strokes: Array<{ id: string; points: number[] }>,
+  strokes: Array<{ id: string; points: number[]; shape?: StrokeShapeKind }>,
 ): string {
   return strokes
     .map((stroke, index) => {
@@ -70,7 +76,12 @@ export function formatStrokeDescriptions(
       // アスペクト比
       const aspectRatio = width / (height || 1);
 
-      return `ストローク${index + 1}:
+      // キャンバスで整形済みの場合は図形の種類が確定している
+      const shapeLine = stroke.shape
+        ? `\n  - 図形: ${STROKE_SHAPE_LABELS[stroke.shape]}（ユーザーが整形済み）`
+        : "";
+
+      return `ストローク${index + 1}:${shapeLine}
   - 点数: ${numPoints}
   - 範囲: (${Math.round(minX)}, ${Math.round(minY)}) ～ (${Math.round(maxX)}, ${Math.round(maxY)})
   - 中心: (${Math.round(centerX)}, ${Math.round(centerY)})
@@ -81,27 +92,116 @@ export function formatStrokeDescriptions(
     .join("\n\n");
 }
 
+/**
+ * 描画の間隔によるストロークのまとまりをテキストに変換
+ * 続けて描かれたストロークは同じ要素（文字・図形）である可能性が高いため、グループ化のヒントとして渡す
+ *
+ * @param strokes - ストローク配列（描画順）
+ * @returns まとまりの説明（時刻がない・まとまりが1つの場合はnull）
+ */
+export function formatStrokeTimeGroups(
+  strokes: Array<{ startedAt?: number; timestamps?: number[] }>,
+): string | null {
+  const groups = groupStrokeIndicesByTimeGap(strokes);
+  if (groups.length < 2) return null;
+
+  const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}秒`;
+
+  return groups
+    .map((indices, groupIndex) => {
+      const first = indices[0] ?? 0;
+      const last = indices.at(-1) ?? first;
+      const target =
+        first === last
+          ? `ストローク${first + 1}`
+          : `ストローク${first + 1}〜${last + 1}`;
+
+      // 次のまとまりまでの間隔
+      const end = getStrokeTimeRange(strokes[last] ?? {})?.end;
+      const nextFirst = groups[groupIndex + 1]?.[0];
+      const nextStart =
+        nextFirst !== undefined
+          ? getStrokeTimeRange(strokes[nextFirst] ?? {})?.start
+          : undefined;
+      const gap =
+        end !== undefined && nextStart !== undefined
+          ? `（次のまとまりまで${formatSeconds(nextStart - end)}の間隔）`
+          : "";
+
+      return `- まとまり${groupIndex + 1}: ${target}${gap}`;
+    })
+    .join("\n");
+}
+
+/**
+ * 要素の種類ごとの表示名
+ */
+const NODE_KIND_LABELS: Record<NodePositionKind, string> = {
+  node: "ノード",
+  participant: "参加者",
+  lifeline: "ライフライン",
+  message: "メッセージ",
+  class: "クラス",
+  state: "状態",
+  entity: "エンティティ",
+  task: "タスク",
+  topic: "トピック",
+  period: "時期",
+  event: "出来事",
+  element: "要素",
+  service: "サービス",
+  boundary: "境界",
+};
+
+/**
+ * 図の要素を「種類「ラベル」(ID)」の形式で説明
+ */
+export function describeNodePosition(node: NodePosition): string {
+  const kind = node.kind ?? "node";
+  if (kind === "message") {
+    return `メッセージ「${node.label}」(${node.source} → ${node.target})`;
+  }
+  return `${NODE_KIND_LABELS[kind]}「${node.label}」(ID: ${node.id})`;
+}
+
 /**
  * ノード位置情報をテキストに変換
  */
-export function formatNodePositions(
-  nodePositions?: Array<{
-    id: string;
-    label: string;
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-    centerX: number;
-    centerY: number;
-  }>,
-): string {
+export function formatNodePositions(nodePositions?: NodePosition[]): string {
   return nodePositions && nodePositions.length > 0
     ? nodePositions
         .map(
           (node) =>
-            `- ノード「${node.label}」(ID: ${node.id}): 位置=(${node.x}, ${node.y}), サイズ=${node.width}x${node.height}, 中心=(${node.centerX}, ${node.centerY})`,
+            `- ${describeNodePosition(node)}: 位置=(${node.x}, ${node.y}), サイズ=${node.width}x${node.height}, 中心=(${node.centerX}, ${node.centerY})`,
         )
         .join("\n")
     : "（ノード位置情報なし）";
 }
+
+/**
+ * エッジを「接続「A → B」（ラベル「...」）」の形式で説明
+ */
+export function describeEdgePosition(edge: EdgePosition): string {
+  const label = edge.label ? `（ラベル「${edge.label}」）` : "";
+  return `接続「${edge.source} → ${edge.target}」${label}`;
+}
+
+/**
+ * エッジの経路をテキストに変換
+ */
+export function formatEdgePositions(edgePositions?: EdgePosition[]): string {
+  if (!edgePositions || edgePositions.length === 0) {
+    return "（接続の位置情報なし）";
+  }
+  return edgePositions
+    .map((edge) => {
+      const route: string[] = [];
+      for (let i = 0; i + 1 < edge.points.length; i += 2) {
+        route.push(
+          `(${Math.round(edge.points[i] ?? 0)}, ${Math.round(edge.points[i + 1] ?? 0)})`,
+        );
+      }
+      return `- ${describeEdgePosition(edge)}: 経路=${route.join(" → ")}`;
+    })
+    .join("\n");
+}
@@ -1,13 +1,20 @@
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
 import * as schema from "./schema";
 
+/**
+ * Drizzle ORMのデータベースの型
+ * ドライバーによらない共通の型（テストではPGliteのインスタンスを使う）
+ */
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
 const connectionString = process.env.DATABASE_URL!;
 
 // PostgreSQLクライアント
 const client = postgres(connectionString);
 
 // Drizzle ORMインスタンス
-export const db = drizzle(client, { schema });
+export const db: Database = drizzle(client, { schema });
 
 export { schema };
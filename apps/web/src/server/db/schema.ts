@@ -1,4 +1,6 @@
+import { sql } from "drizzle-orm";
 import {
+  index,
   integer,
   jsonb,
   pgTable,
@@ -8,6 +10,7 @@ import {
   uuid,
   varchar,
 } from "drizzle-orm/pg-core";
+import { z } from "zod";
 
 /**
  * サポートする図の種類
@@ -18,6 +21,12 @@ export const DIAGRAM_TYPES = [
   "classDiagram",
   "stateDiagram",
   "erDiagram",
+  "gantt",
+  "mindmap",
+  "timeline",
+  "C4Context",
+  "C4Container",
+  "architecture",
 ] as const;
 
 export type DiagramType = (typeof DIAGRAM_TYPES)[number];
@@ -54,6 +63,36 @@ export const DIAGRAM_TYPE_INFO: Record<
     icon: "🗄️",
     description: "データベース設計",
   },
+  gantt: {
+    label: "ガントチャート",
+    icon: "📅",
+    description: "タスクとスケジュール",
+  },
+  mindmap: {
+    label: "マインドマップ",
+    icon: "🧠",
+    description: "アイデアの広がりを整理",
+  },
+  timeline: {
+    label: "タイムライン",
+    icon: "🕒",
+    description: "出来事を時系列で表現",
+  },
+  C4Context: {
+    label: "C4 コンテキスト図",
+    icon: "🌐",
+    description: "システムと利用者・外部システムの関係",
+  },
+  C4Container: {
+    label: "C4 コンテナ図",
+    icon: "🧱",
+    description: "システム内のアプリ・データストアの構成",
+  },
+  architecture: {
+    label: "アーキテクチャ図",
+    icon: "🏗️",
+    description: "サービスとインフラの構成",
+  },
 };
 
 /**
@@ -70,36 +109,126 @@ export const DIAGRAM_TEMPLATES: Record<DiagramType, string> = {
     [*] --> State1`,
   erDiagram: `erDiagram
     ENTITY`,
+  gantt: `gantt
+    dateFormat YYYY-MM-DD
+    section セクション
+    タスク :task1, 2026-01-01, 7d`,
+  mindmap: `mindmap
+  root((テーマ))`,
+  timeline: `timeline
+    title タイムライン
+    2026 : 出来事`,
+  C4Context: `C4Context
+    Person(user, "利用者")
+    System(system, "システム")
+    Rel(user, system, "利用する")`,
+  C4Container: `C4Container
+    Person(user, "利用者")
+    System_Boundary(system, "システム") {
+        Container(app, "アプリケーション")
+    }
+    Rel(user, app, "利用する")`,
+  architecture: `architecture-beta
+    service server(server)[Server]`,
 };
 
+/**
+ * エクスポート用のSVGスナップショット
+ * Mermaidの描画はブラウザでしか正しく行えないため、クライアントで描画したSVGを保存しておき、
+ * サーバー側のエクスポート（PNG・PDF変換、手書きレイヤーの合成）に使う
+ * スナップショットがないバージョンはエクスポート時にサーバーで描画する（ラベルのサイズは概算）
+ */
+export type ExportSnapshot = {
+  /** htmlLabels を無効にして描画したSVG（foreignObjectを含まない） */
+  svg: string;
+  /** エディタのキャンバス上でSVGが表示される領域（手書きストロークの座標系） */
+  frame: { x: number; y: number; width: number; height: number };
+};
+
+/**
+ * 検索でラベルを対象にする構造化データ（parsedStructure）の項目
+ */
+const LABELED_STRUCTURE_KEYS = [
+  "nodes",
+  "participants",
+  "classes",
+  "states",
+  "entities",
+  "subgraphs",
+] as const;
+
 // 1. プロジェクト（図）の基本情報
-export const projects = pgTable("projects", {
-  id: uuid("id").defaultRandom().primaryKey(),
-  name: varchar("name", { length: 255 }).notNull(),
-  /** 図の種類（flowchart, sequence, erDiagram など） */
-  diagramType: varchar("diagram_type", { length: 50 })
-    .notNull()
-    .default("flowchart"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-  /** アーカイブ日時（nullの場合はアクティブ） */
-  archivedAt: timestamp("archived_at"),
-});
+// 検索（部分一致）はpg_trgmのGINインデックスで行う（日本語は単語に分割できないため、全文検索ではなくトライグラムを使う）
+export const projects = pgTable(
+  "projects",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    name: varchar("name", { length: 255 }).notNull(),
+    /** 図の種類（flowchart, sequence, erDiagram, gantt など） */
+    diagramType: varchar("diagram_type", { length: 50 })
+      .notNull()
+      .default("flowchart"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    /** アーカイブ日時（nullの場合はアクティブ） */
+    archivedAt: timestamp("archived_at"),
+    /** 絞り込み用のタグ */
+    tags: jsonb("tags").$type<string[]>().notNull().default([]),
+    /** フォルダ名（nullの場合は未分類） */
+    folder: varchar("folder", { length: 255 }),
+  },
+  (table) => [
+    index("projects_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+  ],
+);
 
 // 2. ダイアグラムのバージョン管理（Mermaidコードの履歴）
-export const diagramVersions = pgTable("diagram_versions", {
-  id: serial("id").primaryKey(),
-  projectId: uuid("project_id")
-    .references(() => projects.id, { onDelete: "cascade" })
-    .notNull(),
-  versionNumber: integer("version_number").notNull(),
-  mermaidCode: text("mermaid_code").notNull(),
-  // 構造化データ（AST）をJSONとして保存しておくと検索や比較に便利
-  parsedStructure: jsonb("parsed_structure"),
-  updateType: varchar("update_type", { length: 50 }).notNull(), // 'initial', 'chat', 'handwriting'
-  reason: text("reason"), // AIが生成した変更理由のサマリー
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+export const diagramVersions = pgTable(
+  "diagram_versions",
+  {
+    id: serial("id").primaryKey(),
+    projectId: uuid("project_id")
+      .references(() => projects.id, { onDelete: "cascade" })
+      .notNull(),
+    versionNumber: integer("version_number").notNull(),
+    mermaidCode: text("mermaid_code").notNull(),
+    // 構造化データ（AST）をJSONとして保存しておくと検索や比較に便利
+    parsedStructure: jsonb("parsed_structure"),
+    updateType: varchar("update_type", { length: 50 }).notNull(), // 'initial', 'chat', 'handwriting', 'import', 'convert'
+    reason: text("reason"), // AIが生成した変更理由のサマリー
+    // エクスポート用のSVGスナップショット（未作成の場合はnull）
+    exportSnapshot: jsonb("export_snapshot").$type<ExportSnapshot>(),
+    // 検索用のラベル（構造化データのラベルのJSON配列、parsedStructureから自動で生成）
+    labelText: text("label_text").generatedAlwaysAs(
+      sql.raw(
+        `(${LABELED_STRUCTURE_KEYS.map(
+          (key) =>
+            `jsonb_path_query_array(parsed_structure, '$.${key}[*].label')`,
+        ).join(" || ")})::text`,
+      ),
+    ),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    // 最新バージョンの取得用
+    index("diagram_versions_project_version_idx").on(
+      table.projectId,
+      table.versionNumber,
+    ),
+    index("diagram_versions_mermaid_code_trgm_idx").using(
+      "gin",
+      table.mermaidCode.op("gin_trgm_ops"),
+    ),
+    index("diagram_versions_label_text_trgm_idx").using(
+      "gin",
+      table.labelText.op("gin_trgm_ops"),
+    ),
+    index("diagram_versions_reason_trgm_idx").using(
+      "gin",
+      table.reason.op("gin_trgm_ops"),
+    ),
+  ],
+);
 
 // 3. AIエージェントとの対話セッション
 export const chatSessions = pgTable("chat_sessions", {
@@ -125,6 +254,43 @@ export const chatMessages = pgTable("chat_messages", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+/**
+ * 手書きの整形モードで整形した図形の種類（ストロークデータの shape）
+ */
+export const STROKE_SHAPE_KINDS = [
+  "rectangle",
+  "diamond",
+  "ellipse",
+  "line",
+  "arrow",
+] as const;
+export type StrokeShapeKind = (typeof STROKE_SHAPE_KINDS)[number];
+
+/**
+ * ストロークデータのZodスキーマ
+ * 保存（diagram.*）とAIでの解釈（ai.interpretStrokes・/api/ai/interpret-stream）で共通に使う
+ */
+export const strokeSchema = z.object({
+  id: z.string(),
+  points: z.array(z.number()),
+  color: z.string(),
+  strokeWidth: z.number(),
+  /** 入力デバイス */
+  pointerType: z.enum(["mouse", "pen", "touch"]).optional(),
+  /** 描き始めの時刻（UNIXミリ秒） */
+  startedAt: z.number().optional(),
+  /** 点ごとの時刻（描き始めからのミリ秒） */
+  timestamps: z.array(z.number()).optional(),
+  /** 点ごとの筆圧（0〜1） */
+  pressures: z.array(z.number()).optional(),
+  /** 点ごとの傾き [tiltX1, tiltY1, ...] */
+  tilts: z.array(z.number()).optional(),
+  /** 整形モードで認識した図形の種類 */
+  shape: z.enum(STROKE_SHAPE_KINDS).optional(),
+});
+
+export type StrokeData = z.infer<typeof strokeSchema>;
+
 // 5. 手書きデータの保存（解析後の修正指示の根拠として保持）
 export const handwritingStrokes = pgTable("handwriting_strokes", {
   id: serial("id").primaryKey(),
@@ -132,10 +298,30 @@ export const handwritingStrokes = pgTable("handwriting_strokes", {
     .references(() => diagramVersions.id, { onDelete: "cascade" })
     .notNull(),
   // Konva.js等のCanvasから出力される座標データのJSON
+  // （ペン入力の場合は点ごとの筆圧・傾き・時刻も含む）
   strokeData: jsonb("stroke_data").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// 6. ユーザーが保存したテンプレート（組み込みのテンプレートは DIAGRAM_TEMPLATES）
+export const templates = pgTable("templates", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  diagramType: varchar("diagram_type", { length: 50 }).notNull(),
+  mermaidCode: text("mermaid_code").notNull(),
+  /** 絞り込み用のタグ */
+  tags: jsonb("tags").$type<string[]>().notNull().default([]),
+  /** 一覧に表示するサムネイル（SVG、作成できなかった場合はnull） */
+  thumbnail: text("thumbnail"),
+  // 保存元のバージョン（削除されてもテンプレートは残す）
+  sourceVersionId: integer("source_version_id").references(
+    () => diagramVersions.id,
+    { onDelete: "set null" },
+  ),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // 型のエクスポート
 export type Project = typeof projects.$inferSelect;
 export type NewProject = typeof projects.$inferInsert;
@@ -151,3 +337,6 @@ export type NewChatMessage = typeof chatMessages.$inferInsert;
 
 export type HandwritingStroke = typeof handwritingStrokes.$inferSelect;
 export type NewHandwritingStroke = typeof handwritingStrokes.$inferInsert;
+
+export type Template = typeof templates.$inferSelect;
+export type NewTemplate = typeof templates.$inferInsert;
@@ -0,0 +1,82 @@
+import { deflateSync } from "node:zlib";
+
+/**
+ * RGBA画素から1ページのPDFを生成
+ * 画像をFlateDecodeで圧縮して埋め込むだけの最小構成のため、外部ライブラリは使わない
+ *
+ * @param rgba - 画素データ（RGBA、背景は不透明である前提）
+ * @param pixelWidth - 画像の幅（px）
+ * @param pixelHeight - 画像の高さ（px）
+ * @param pageWidth - ページの幅（pt）
+ * @param pageHeight - ページの高さ（pt）
+ */
+export function createImagePdf(
+  rgba: Uint8Array,
+  pixelWidth: number,
+  pixelHeight: number,
+  pageWidth: number,
+  pageHeight: number,
+): Buffer {
+  // PDFの画像はアルファを持てないため、RGBのみを取り出す
+  const rgb = Buffer.alloc(pixelWidth * pixelHeight * 3);
+  for (let src = 0, dst = 0; dst < rgb.length; src += 4, dst += 3) {
+    rgb[dst] = rgba[src] ?? 255;
+    rgb[dst + 1] = rgba[src + 1] ?? 255;
+    rgb[dst + 2] = rgba[src + 2] ?? 255;
+  }
+  const image = deflateSync(rgb);
+
+  const width = pageWidth.toFixed(2);
+  const height = pageHeight.toFixed(2);
+  const content = `q\n${width} 0 0 ${height} 0 0 cm\n/Im0 Do\nQ\n`;
+
+  const objects: Buffer[] = [
+    Buffer.from("<< /Type /Catalog /Pages 2 0 R >>"),
+    Buffer.from("<< /Type /Pages /Kids [3 0 R] /Count 1 >>"),
+    Buffer.from(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`,
+    ),
+    Buffer.concat([
+      Buffer.from(
+        `<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode /Length ${image.length} >>\nstream\n`,
+      ),
+      image,
+      Buffer.from("\nendstream"),
+    ]),
+    Buffer.from(
+      `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}endstream`,
+    ),
+  ];
+
+  // 各オブジェクトのバイト位置を記録しながら連結し、最後に相互参照表を付ける
+  const chunks: Buffer[] = [
+    Buffer.from("%PDF-1.4\n%\xff\xff\xff\xff\n", "latin1"),
+  ];
+  let offset = chunks[0]?.length ?? 0;
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    const chunk = Buffer.concat([
+      Buffer.from(`${index + 1} 0 obj\n`),
+      body,
+      Buffer.from("\nendobj\n"),
+    ]);
+    offsets.push(offset);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+  ].join("\n");
+  chunks.push(Buffer.from(`${xref}\n`));
+
+  return Buffer.concat(chunks);
+}
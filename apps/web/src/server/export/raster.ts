@@ -0,0 +1,61 @@
+import { Resvg } from "@resvg/resvg-js";
+
+/**
+ * ラスタライズ結果
+ */
+export type RasterImage = {
+  /** 画素データ（RGBA） */
+  pixels: Uint8Array;
+  width: number;
+  height: number;
+  /** PNG形式のデータ */
+  png: Buffer;
+};
+
+/**
+ * ラスタライズできる最大の画素数（幅×高さ）
+ * RGBAの画素データとPNGを同時にメモリに持つため、大きな図・高い倍率での過大な確保を防ぐ
+ */
+export const MAX_RASTER_PIXELS = 25_000_000;
+
+/**
+ * 指定倍率でラスタライズした画像が最大の画素数に収まるか
+ *
+ * @param width - SVGの幅（px）
+ * @param height - SVGの高さ（px）
+ * @param scale - 倍率
+ */
+export function isRasterSizeAllowed(
+  width: number,
+  height: number,
+  scale: number,
+): boolean {
+  return width * height * scale * scale <= MAX_RASTER_PIXELS;
+}
+
+/**
+ * SVGを指定倍率でラスタライズ
+ * 日本語のラベルを描画できるよう、システムフォント（Dockerでは Noto Sans CJK）を使う
+ * 画素数が MAX_RASTER_PIXELS を超える場合はエラーにする
+ */
+export function rasterizeSvg(svg: string, scale: number): RasterImage {
+  const resvg = new Resvg(svg, {
+    background: "#ffffff",
+    fitTo: { mode: "zoom", value: scale },
+    font: {
+      loadSystemFonts: true,
+      defaultFontFamily: "Noto Sans CJK JP",
+      sansSerifFamily: "Noto Sans CJK JP",
+    },
+  });
+  if (!isRasterSizeAllowed(resvg.width, resvg.height, scale)) {
+    throw new Error("画像が大きすぎるためラスタライズできません");
+  }
+  const rendered = resvg.render();
+  return {
+    pixels: rendered.pixels,
+    width: rendered.width,
+    height: rendered.height,
+    png: rendered.asPng(),
+  };
+}
@@ -0,0 +1,46 @@
+import type { DOMPurify } from "dompurify";
+import type { DOMWindow } from "jsdom";
+
+/** SVGのサニタイズに使うDOMPurifyのインスタンス（jsdomのwindowで初期化） */
+let purifyPromise: Promise<{ purify: DOMPurify; window: DOMWindow }> | null =
+  null;
+
+/**
+ * jsdomのwindowで初期化したDOMPurifyを取得
+ * サーバーにはDOMがないため、初回の呼び出し時に作成して使い回す
+ */
+function getPurify(): Promise<{ purify: DOMPurify; window: DOMWindow }> {
+  purifyPromise ??= (async () => {
+    const [{ default: createDOMPurify }, { JSDOM }] = await Promise.all([
+      import("dompurify"),
+      import("jsdom"),
+    ]);
+    const window = new JSDOM("").window;
+    return { purify: createDOMPurify(window), window };
+  })();
+  return purifyPromise;
+}
+
+/**
+ * SVGをサニタイズ
+ * スクリプト・イベントハンドラ・foreignObject（HTML）を除き、SVGの要素と属性だけを残す
+ * image要素はラスタライズ時に外部・ローカルのファイルを読み込ませないよう除く
+ *
+ * @param svg - サニタイズするSVG（クライアントから受け取ったスナップショットなど）
+ * @returns サニタイズしたSVG（XMLとして出力）。ルート要素がsvgでない場合はnull
+ */
+export async function sanitizeSvg(svg: string): Promise<string | null> {
+  const { purify, window } = await getPurify();
+  const fragment = purify.sanitize(svg, {
+    USE_PROFILES: { svg: true, svgFilters: true },
+    FORBID_TAGS: ["image"],
+    RETURN_DOM_FRAGMENT: true,
+  });
+
+  const root = fragment.firstElementChild;
+  if (!root || root.tagName.toLowerCase() !== "svg") {
+    return null;
+  }
+  // HTMLとして出力すると &nbsp; などXMLとして不正な文字参照が含まれるため、XMLとして出力する
+  return new window.XMLSerializer().serializeToString(root);
+}
@@ -0,0 +1,287 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { runInContext } from "node:vm";
+import { withExportDirective } from "@/lib/utils/exportSnapshot";
+import type { ExportSnapshot } from "../db/schema";
+
+/**
+ * jsdomのwindowの中で実行するMermaid（使う関数のみ）
+ */
+type MermaidRenderer = {
+  initialize: (config: Record<string, unknown>) => void;
+  render: (id: string, code: string) => Promise<{ svg: string }>;
+};
+
+/**
+ * 描画範囲
+ */
+type Box = { x: number; y: number; width: number; height: number };
+
+/**
+ * サーバーで描画する場合のキャンバスサイズ
+ * エディタのキャンバスサイズは分からないため、手書きストロークの位置合わせはこのサイズを仮定した近似になる
+ */
+const SERVER_CANVAS_SIZE = { width: 1000, height: 600 };
+
+/** ラベルの文字サイズ（Mermaidの既定値、px） */
+const FONT_SIZE = 16;
+
+/** ラベルの行の高さ（文字サイズに対する比率） */
+const LINE_HEIGHT = 1.1875;
+
+/**
+ * Mermaidのブラウザ用バンドル
+ * Node.jsのグローバルにwindow・documentを定義しないよう、jsdomのwindowの中で実行する
+ */
+const MERMAID_BUNDLE_PATH = path.join(
+  process.cwd(),
+  "node_modules/mermaid/dist/mermaid.min.js",
+);
+
+/** jsdomのwindowで初期化したMermaid（初回の描画時に作成して使い回す） */
+let rendererPromise: Promise<MermaidRenderer> | null = null;
+
+/**
+ * 文字列の表示幅を概算（全角は1文字、半角は約0.6文字分）
+ */
+function estimateTextWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 0;
+    if (code >= 0x2e80) {
+      width += FONT_SIZE;
+    } else if (char === " ") {
+      width += FONT_SIZE * 0.3;
+    } else if (/[A-Z0-9mw]/.test(char)) {
+      width += FONT_SIZE * 0.65;
+    } else {
+      width += FONT_SIZE * 0.55;
+    }
+  }
+  return width;
+}
+
+/**
+ * 数値の属性を取得（ない場合は0）
+ */
+function numberAttribute(element: Element, name: string): number {
+  const value = Number.parseFloat(element.getAttribute(name) ?? "");
+  return Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * 複数の範囲を囲む範囲
+ */
+function unionBoxes(boxes: Box[]): Box | null {
+  if (boxes.length === 0) return null;
+  const minX = Math.min(...boxes.map((box) => box.x));
+  const minY = Math.min(...boxes.map((box) => box.y));
+  const maxX = Math.max(...boxes.map((box) => box.x + box.width));
+  const maxY = Math.max(...boxes.map((box) => box.y + box.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * 座標の並び（x1 y1 x2 y2 ...）を囲む範囲
+ */
+function pointsBox(values: number[]): Box | null {
+  const boxes: Box[] = [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    boxes.push({
+      x: values[i] ?? 0,
+      y: values[i + 1] ?? 0,
+      width: 0,
+      height: 0,
+    });
+  }
+  return unionBoxes(boxes);
+}
+
+/**
+ * テキスト要素の範囲を概算
+ * x・dy属性を持つtspanを1行として数える（Mermaidはラベルの行ごとにtspanを作る）
+ */
+function textBox(element: Element): Box {
+  const lines: string[] = [];
+  const tspans = [...element.children].filter(
+    (child) => child.tagName.toLowerCase() === "tspan",
+  );
+  if (tspans.length === 0) {
+    lines.push(element.textContent ?? "");
+  }
+  for (const tspan of tspans) {
+    const text = tspan.textContent ?? "";
+    if (
+      lines.length === 0 ||
+      tspan.hasAttribute("x") ||
+      tspan.hasAttribute("dy")
+    ) {
+      lines.push(text);
+    } else {
+      lines[lines.length - 1] += text;
+    }
+  }
+
+  const width = Math.max(0, ...lines.map(estimateTextWidth));
+  const x = numberAttribute(element, "x");
+  const anchor = element.getAttribute("text-anchor");
+  return {
+    x: anchor === "middle" ? x - width / 2 : anchor === "end" ? x - width : x,
+    y: numberAttribute(element, "y") - FONT_SIZE * 0.9,
+    width,
+    height: lines.length * FONT_SIZE * LINE_HEIGHT,
+  };
+}
+
+/**
+ * SVG要素の範囲を概算（jsdomにはレイアウトがないため getBBox の代わりに使う）
+ * 図形は属性から、グループは子要素の範囲（translateの移動を含む）から求める
+ */
+function estimateBBox(element: Element): Box | null {
+  switch (element.tagName.toLowerCase()) {
+    case "text":
+      return textBox(element);
+    case "rect":
+    case "foreignobject":
+      return {
+        x: numberAttribute(element, "x"),
+        y: numberAttribute(element, "y"),
+        width: numberAttribute(element, "width"),
+        height: numberAttribute(element, "height"),
+      };
+    case "circle": {
+      const r = numberAttribute(element, "r");
+      return {
+        x: numberAttribute(element, "cx") - r,
+        y: numberAttribute(element, "cy") - r,
+        width: r * 2,
+        height: r * 2,
+      };
+    }
+    case "ellipse": {
+      const rx = numberAttribute(element, "rx");
+      const ry = numberAttribute(element, "ry");
+      return {
+        x: numberAttribute(element, "cx") - rx,
+        y: numberAttribute(element, "cy") - ry,
+        width: rx * 2,
+        height: ry * 2,
+      };
+    }
+    case "line":
+      return pointsBox(
+        ["x1", "y1", "x2", "y2"].map((name) => numberAttribute(element, name)),
+      );
+    case "path":
+    case "polygon":
+    case "polyline": {
+      const attribute =
+        element.getAttribute(
+          element.tagName.toLowerCase() === "path" ? "d" : "points",
+        ) ?? "";
+      const values = attribute.match(/-?\d*\.?\d+(?:e-?\d+)?/gi) ?? [];
+      return pointsBox(values.map(Number));
+    }
+  }
+
+  const boxes: Box[] = [];
+  for (const child of element.children) {
+    const box = estimateBBox(child);
+    if (!box) continue;
+    const translate = (child.getAttribute("transform") ?? "").match(
+      /translate\(\s*(-?[\d.e]+)[\s,]*(-?[\d.e]+)?/,
+    );
+    boxes.push({
+      ...box,
+      x: box.x + Number(translate?.[1] ?? 0),
+      y: box.y + Number(translate?.[2] ?? 0),
+    });
+  }
+  return unionBoxes(boxes);
+}
+
+/**
+ * jsdomのwindowの中でMermaidのブラウザ用バンドルを実行
+ * ラベルのサイズ計測（getBBox・getComputedTextLength）は文字数からの概算で代用する
+ */
+async function createRenderer(): Promise<MermaidRenderer> {
+  const [{ JSDOM }, bundle] = await Promise.all([
+    import("jsdom"),
+    readFile(MERMAID_BUNDLE_PATH, "utf-8"),
+  ]);
+  const dom = new JSDOM("<!DOCTYPE html><html><body></body></html>", {
+    runScripts: "outside-only",
+    pretendToBeVisual: true,
+  });
+  const window = dom.window;
+
+  Object.assign(window.SVGElement.prototype, {
+    getBBox(this: Element) {
+      return estimateBBox(this) ?? { x: 0, y: 0, width: 0, height: 0 };
+    },
+    getComputedTextLength(this: Element) {
+      return estimateTextWidth(this.textContent ?? "");
+    },
+  });
+
+  // バンドルはstrictモードのため、evalではなくスクリプトとして実行してグローバルに公開させる
+  runInContext(bundle, dom.getInternalVMContext());
+  const { mermaid } = window as unknown as { mermaid: MermaidRenderer };
+  mermaid.initialize({
+    startOnLoad: false,
+    // ガントチャートは親要素の幅で描画するため、幅を指定する
+    gantt: { useWidth: SERVER_CANVAS_SIZE.width },
+  });
+  return mermaid;
+}
+
+/**
+ * SVGをキャンバスの中央に、はみ出す場合は縮小して配置したときの領域
+ * エディタ（MermaidPreview）のレイアウトを近似する
+ */
+function centerFrame(svg: string): ExportSnapshot["frame"] {
+  const viewBox = svg
+    .match(/<svg\b[^>]*\sviewBox="([^"]*)"/)?.[1]
+    ?.trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  const width = viewBox?.[2] ?? 0;
+  const height = viewBox?.[3] ?? 0;
+  if (!(width > 0 && height > 0)) {
+    throw new Error("SVGの描画に失敗しました");
+  }
+
+  const scale = Math.min(
+    1,
+    SERVER_CANVAS_SIZE.width / width,
+    SERVER_CANVAS_SIZE.height / height,
+  );
+  return {
+    x: (SERVER_CANVAS_SIZE.width - width * scale) / 2,
+    y: (SERVER_CANVAS_SIZE.height - height * scale) / 2,
+    width: width * scale,
+    height: height * scale,
+  };
+}
+
+/**
+ * バージョンのMermaidコードからエクスポート用のSVGスナップショットをサーバーで作成
+ * クライアントで作成したスナップショット（diagram.saveExportSnapshot）がないバージョンのエクスポートに使う
+ * ラベルのサイズは概算のため、ブラウザで描画した場合とレイアウトが少し異なることがある
+ *
+ * @param mermaidCode - 描画するMermaidコード
+ */
+export async function renderServerSnapshot(
+  mermaidCode: string,
+): Promise<ExportSnapshot> {
+  rendererPromise ??= createRenderer().catch((error) => {
+    rendererPromise = null;
+    throw error;
+  });
+  const mermaid = await rendererPromise;
+  const { svg } = await mermaid.render(
+    `export-snapshot-${Date.now()}`,
+    withExportDirective(mermaidCode),
+  );
+  return { svg, frame: centerFrame(svg) };
+}
@@ -0,0 +1,184 @@
+import { getPointWidth, hasPressure } from "@/lib/utils/strokeInput";
+import type { ExportSnapshot } from "../db/schema";
+
+/**
+ * 保存されている手書きストローク
+ */
+export type ExportStroke = {
+  points: number[];
+  color: string;
+  strokeWidth: number;
+  /** 点ごとの筆圧（ペン入力のみ） */
+  pressures?: number[];
+};
+
+/**
+ * SVGの描画範囲
+ */
+type Box = { x: number; y: number; width: number; height: number };
+
+/** 図の周囲の余白（px） */
+const EXPORT_PADDING = 16;
+
+/**
+ * 属性値として埋め込めるようにエスケープ
+ */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;");
+}
+
+/**
+ * ルート要素の開始タグから属性値を取得
+ */
+function getAttribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match?.[1] ?? null;
+}
+
+/**
+ * SVGのviewBox（なければwidth/height属性）から描画範囲を取得
+ */
+function getViewBox(tag: string): Box | null {
+  const viewBox = getAttribute(tag, "viewBox")
+    ?.trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  if (viewBox && viewBox.length === 4 && viewBox.every(Number.isFinite)) {
+    const [x = 0, y = 0, width = 0, height = 0] = viewBox;
+    if (width > 0 && height > 0) {
+      return { x, y, width, height };
+    }
+  }
+
+  const width = Number.parseFloat(getAttribute(tag, "width") ?? "");
+  const height = Number.parseFloat(getAttribute(tag, "height") ?? "");
+  if (width > 0 && height > 0) {
+    return { x: 0, y: 0, width, height };
+  }
+  return null;
+}
+
+/**
+ * 手書きストロークをキャンバス座標からSVG座標に変換してpath要素を生成
+ * ストロークはエディタ上でSVGが表示されていた領域（frame）を基準に変換する
+ */
+function buildStrokePaths(
+  strokes: ExportStroke[],
+  frame: ExportSnapshot["frame"],
+  viewBox: Box,
+): { paths: string[]; bounds: Box | null } {
+  const scaleX = viewBox.width / frame.width;
+  const scaleY = viewBox.height / frame.height;
+  const paths: string[] = [];
+  let minX = Number.POSITIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+
+  for (const stroke of strokes) {
+    const width = stroke.strokeWidth * scaleX;
+    const commands: string[] = [];
+    for (let i = 0; i + 1 < stroke.points.length; i += 2) {
+      const px = stroke.points[i];
+      const py = stroke.points[i + 1];
+      if (px === undefined || py === undefined) continue;
+      const x = viewBox.x + (px - frame.x) * scaleX;
+      const y = viewBox.y + (py - frame.y) * scaleY;
+      commands.push(
+        `${commands.length === 0 ? "M" : "L"}${x.toFixed(2)} ${y.toFixed(2)}`,
+      );
+      minX = Math.min(minX, x - width / 2);
+      minY = Math.min(minY, y - width / 2);
+      maxX = Math.max(maxX, x + width / 2);
+      maxY = Math.max(maxY, y + width / 2);
+    }
+    if (commands.length === 0) continue;
+
+    // 筆圧のあるストロークは線分ごとに太さを変える
+    if (hasPressure(stroke) && commands.length > 1) {
+      for (let i = 1; i < commands.length; i++) {
+        const segmentWidth =
+          ((getPointWidth(stroke, i - 1) + getPointWidth(stroke, i)) / 2) *
+          scaleX;
+        paths.push(
+          `<path d="M${commands[i - 1]?.slice(1)} L${commands[i]?.slice(1)}" fill="none" stroke="${escapeAttribute(stroke.color)}" stroke-width="${segmentWidth.toFixed(2)}" stroke-linecap="round"/>`,
+        );
+      }
+      continue;
+    }
+
+    // 1点だけのストロークも点として表示されるようにする
+    if (commands.length === 1) {
+      commands.push(commands[0]?.replace("M", "L") ?? "");
+    }
+    paths.push(
+      `<path d="${commands.join(" ")}" fill="none" stroke="${escapeAttribute(stroke.color)}" stroke-width="${width.toFixed(2)}" stroke-linecap="round" stroke-linejoin="round"/>`,
+    );
+  }
+
+  const bounds =
+    paths.length > 0
+      ? { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+      : null;
+  return { paths, bounds };
+}
+
+/**
+ * エクスポート用のSVGを生成
+ * スナップショットの図を白背景の上に配置し、必要に応じて手書きレイヤーを重ねる
+ * 図からはみ出したストロークも含まれるように描画範囲を広げる
+ */
+export function composeExportSvg(
+  snapshot: ExportSnapshot,
+  strokes: ExportStroke[],
+  includeHandwriting: boolean,
+): { svg: string; width: number; height: number } {
+  const openTag = snapshot.svg.match(/<svg\b[^>]*>/)?.[0];
+  const viewBox = openTag ? getViewBox(openTag) : null;
+  if (!openTag || !viewBox) {
+    throw new Error("SVGスナップショットの形式が不正です");
+  }
+
+  const { paths, bounds: strokeBounds } =
+    includeHandwriting && snapshot.frame.width > 0 && snapshot.frame.height > 0
+      ? buildStrokePaths(strokes, snapshot.frame, viewBox)
+      : { paths: [], bounds: null };
+
+  // 図とストロークを囲む範囲
+  let minX = viewBox.x;
+  let minY = viewBox.y;
+  let maxX = viewBox.x + viewBox.width;
+  let maxY = viewBox.y + viewBox.height;
+  if (strokeBounds) {
+    minX = Math.min(minX, strokeBounds.x);
+    minY = Math.min(minY, strokeBounds.y);
+    maxX = Math.max(maxX, strokeBounds.x + strokeBounds.width);
+    maxY = Math.max(maxY, strokeBounds.y + strokeBounds.height);
+  }
+  const box = {
+    x: minX - EXPORT_PADDING,
+    y: minY - EXPORT_PADDING,
+    width: Math.ceil(maxX - minX + EXPORT_PADDING * 2),
+    height: Math.ceil(maxY - minY + EXPORT_PADDING * 2),
+  };
+
+  // 元のSVGはサイズ指定（width="100%"・max-width）を除き、viewBoxの位置に入れ子で配置する
+  const id = getAttribute(openTag, "id");
+  const nestedOpenTag = `<svg${id ? ` id="${escapeAttribute(id)}"` : ""} x="${viewBox.x}" y="${viewBox.y}" width="${viewBox.width}" height="${viewBox.height}" viewBox="${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}" overflow="visible">`;
+  const diagram = snapshot.svg
+    .slice(snapshot.svg.indexOf(openTag))
+    .replace(openTag, nestedOpenTag);
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${box.width}" height="${box.height}" viewBox="${box.x} ${box.y} ${box.width} ${box.height}">`,
+    `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" fill="#ffffff"/>`,
+    diagram,
+    paths.length > 0 ? `<g id="handwriting">${paths.join("")}</g>` : "",
+    "</svg>",
+  ].join("\n");
+
+  return { svg, width: box.width, height: box.height };
+}
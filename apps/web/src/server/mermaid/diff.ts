@@ -0,0 +1,141 @@
+import type { ParsedDiagram, ParsedEdge, ParsedNode } from "./types";
+
+/**
+ * ラベルが変更された要素
+ */
+export type RelabeledElement<T> = {
+  before: T;
+  after: T;
+};
+
+/**
+ * 2つの構造化データの差分
+ */
+export type DiagramDiff = {
+  nodes: {
+    added: ParsedNode[];
+    removed: ParsedNode[];
+    relabeled: RelabeledElement<ParsedNode>[];
+  };
+  edges: {
+    added: ParsedEdge[];
+    removed: ParsedEdge[];
+    relabeled: RelabeledElement<ParsedEdge>[];
+  };
+};
+
+/**
+ * 行単位の差分
+ */
+export type LineDiffEntry = {
+  type: "same" | "added" | "removed";
+  text: string;
+};
+
+/** 行差分を計算する最大行数（これを超える場合は全行を置換として扱う） */
+const MAX_LINE_DIFF_LINES = 2000;
+
+/**
+ * IDをキーにして要素を比較する
+ */
+function diffById<T extends { id: string; label: string | null }>(
+  before: T[],
+  after: T[],
+): { added: T[]; removed: T[]; relabeled: RelabeledElement<T>[] } {
+  const beforeMap = new Map(before.map((item) => [item.id, item]));
+  const afterMap = new Map(after.map((item) => [item.id, item]));
+
+  const added = after.filter((item) => !beforeMap.has(item.id));
+  const removed = before.filter((item) => !afterMap.has(item.id));
+  const relabeled: RelabeledElement<T>[] = [];
+  for (const item of after) {
+    const previous = beforeMap.get(item.id);
+    if (previous && previous.label !== item.label) {
+      relabeled.push({ before: previous, after: item });
+    }
+  }
+
+  return { added, removed, relabeled };
+}
+
+/**
+ * 2つの構造化データのノード・エッジの差分を計算
+ */
+export function diffParsedDiagrams(
+  before: ParsedDiagram,
+  after: ParsedDiagram,
+): DiagramDiff {
+  return {
+    nodes: diffById(before.nodes, after.nodes),
+    edges: diffById(before.edges, after.edges),
+  };
+}
+
+/**
+ * 差分が存在するかどうか
+ */
+export function hasDiagramChanges(diff: DiagramDiff): boolean {
+  return (
+    diff.nodes.added.length > 0 ||
+    diff.nodes.removed.length > 0 ||
+    diff.nodes.relabeled.length > 0 ||
+    diff.edges.added.length > 0 ||
+    diff.edges.removed.length > 0 ||
+    diff.edges.relabeled.length > 0
+  );
+}
+
+/**
+ * 2つのテキストの行単位の差分を計算（LCSベース）
+ */
+export function diffLines(before: string, after: string): LineDiffEntry[] {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  if (a.length > MAX_LINE_DIFF_LINES || b.length > MAX_LINE_DIFF_LINES) {
+    return [
+      ...a.map((text) => ({ type: "removed" as const, text })),
+      ...b.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = a[i..] と b[j..] の最長共通部分列の長さ
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    const row = lcs[i]!;
+    const nextRow = lcs[i + 1]!;
+    for (let j = b.length - 1; j >= 0; j--) {
+      row[j] =
+        a[i] === b[j]
+          ? nextRow[j + 1]! + 1
+          : Math.max(nextRow[j]!, row[j + 1]!);
+    }
+  }
+
+  const result: LineDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: "same", text: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      result.push({ type: "removed", text: a[i]! });
+      i++;
+    } else {
+      result.push({ type: "added", text: b[j]! });
+      j++;
+    }
+  }
+  while (i < a.length) {
+    result.push({ type: "removed", text: a[i++]! });
+  }
+  while (j < b.length) {
+    result.push({ type: "added", text: b[j++]! });
+  }
+
+  return result;
+}
@@ -0,0 +1,151 @@
+import type { DiagramType } from "../db/schema";
+import { detectDiagramType } from "./parser";
+
+/**
+ * インポート元のファイルから取り出した図
+ */
+export type ExtractedDiagram = {
+  /** プロジェクト名の候補（直前の見出し、またはファイル名） */
+  name: string;
+  /** 元のMermaidコード（フェンスの中身をそのまま保持） */
+  mermaidCode: string;
+  /** ヘッダー行から判定した図の種類（未対応の図はnull） */
+  diagramType: DiagramType | null;
+  /** ファイル内での位置（1始まり、Markdownのフェンスの順番） */
+  index: number;
+  /** 図が始まる行番号（1始まり） */
+  line: number;
+};
+
+/** Mermaidファイルの拡張子 */
+const MERMAID_EXTENSIONS = [".mmd", ".mermaid"];
+
+/** Markdownファイルの拡張子 */
+const MARKDOWN_EXTENSIONS = [".md", ".markdown"];
+
+/**
+ * ファイル名から拡張子を除いた名前を取得
+ */
+function getBaseName(filename: string): string {
+  const name = filename.split(/[\\/]/).pop() ?? filename;
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(0, dot) : name;
+}
+
+/**
+ * ファイル名の拡張子を小文字で取得
+ */
+function getExtension(filename: string): string {
+  const dot = filename.lastIndexOf(".");
+  return dot >= 0 ? filename.slice(dot).toLowerCase() : "";
+}
+
+/**
+ * Markdownの見出しからプロジェクト名に使うテキストを取得
+ */
+function headingText(line: string): string | null {
+  const match = line.match(/^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/);
+  // 見出し内の強調・コード・リンク記法は除去する
+  const text = match?.[1]
+    ?.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`]/g, "")
+    .trim();
+  return text ? text : null;
+}
+
+/**
+ * Markdownから ```mermaid（または ~~~mermaid）のフェンスを取り出す
+ * 他の言語のコードブロック内の行（# で始まるコメントなど）は見出しとして扱わない
+ */
+function extractFromMarkdown(
+  content: string,
+  baseName: string,
+): ExtractedDiagram[] {
+  const lines = content.split(/\r?\n/);
+  const blocks: { code: string; heading: string | null; line: number }[] = [];
+  let heading: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i] ?? "";
+    const fence = text.match(/^( {0,3})(`{3,}|~{3,})\s*([^\s`]*)/);
+    if (!fence) {
+      heading = headingText(text) ?? heading;
+      continue;
+    }
+
+    // 開始と同じ記号で、同じ長さ以上のフェンスで閉じる
+    const marker = fence[2] ?? "```";
+    const closing = new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`);
+    const indent = new RegExp(`^ {0,${fence[1]?.length ?? 0}}`);
+    const body: string[] = [];
+    let j = i + 1;
+    while (j < lines.length && !closing.test(lines[j] ?? "")) {
+      // フェンス自体のインデントは本文から除く
+      body.push((lines[j] ?? "").replace(indent, ""));
+      j++;
+    }
+
+    if (fence[3]?.toLowerCase() === "mermaid") {
+      blocks.push({ code: body.join("\n"), heading, line: i + 2 });
+    }
+    i = j;
+  }
+
+  // 同じ見出しの下に複数の図がある場合は番号を付けて区別する
+  const nameCounts = new Map<string, number>();
+  for (const block of blocks) {
+    const name = block.heading ?? baseName;
+    nameCounts.set(name, (nameCounts.get(name) ?? 0) + 1);
+  }
+  const nameIndexes = new Map<string, number>();
+
+  return blocks.map((block, i) => {
+    const name = block.heading ?? baseName;
+    const nameIndex = (nameIndexes.get(name) ?? 0) + 1;
+    nameIndexes.set(name, nameIndex);
+    return {
+      name: (nameCounts.get(name) ?? 0) > 1 ? `${name} (${nameIndex})` : name,
+      mermaidCode: block.code,
+      diagramType: detectDiagramType(block.code),
+      index: i + 1,
+      line: block.line,
+    };
+  });
+}
+
+/**
+ * インポートするファイルから図を取り出す
+ * .mmd / .mermaid はファイル全体を1つの図、Markdownは mermaid フェンスごとに1つの図とする
+ *
+ * @param filename - ファイル名（拡張子で形式を判定）
+ * @param content - ファイルの内容
+ * @returns 取り出した図（空の図は除く）。未対応の形式の場合はnull
+ */
+export function extractDiagrams(
+  filename: string,
+  content: string,
+): ExtractedDiagram[] | null {
+  const extension = getExtension(filename);
+  const baseName = getBaseName(filename);
+  // BOMは除去する
+  const text = content.replace(/^\uFEFF/, "");
+
+  let diagrams: ExtractedDiagram[];
+  if (MERMAID_EXTENSIONS.includes(extension)) {
+    diagrams = [
+      {
+        name: baseName,
+        mermaidCode: text,
+        diagramType: detectDiagramType(text),
+        index: 1,
+        line: 1,
+      },
+    ];
+  } else if (MARKDOWN_EXTENSIONS.includes(extension)) {
+    diagrams = extractFromMarkdown(text, baseName);
+  } else {
+    return null;
+  }
+
+  return diagrams.filter((diagram) => diagram.mermaidCode.trim() !== "");
+}
@@ -0,0 +1,1337 @@
+import type { DiagramType } from "../db/schema";
+import {
+  PARSED_STRUCTURE_VERSION,
+  type ParsedClass,
+  type ParsedDiagram,
+  type ParsedEntity,
+  type ParsedNode,
+  type ParsedNodeKind,
+  type ParsedState,
+  type ParsedSubgraph,
+} from "./types";
+
+/**
+ * コメント・空行を除いた1行分のソース
+ */
+export type SourceLine = {
+  /** 前後の空白を除いたテキスト */
+  text: string;
+  /** 行番号（1始まり） */
+  line: number;
+  /** 元の行での開始列（1始まり、先頭の空白を除いた位置） */
+  column: number;
+};
+
+/**
+ * ヘッダー行と図の種類の対応
+ */
+const HEADER_PATTERNS: Array<[RegExp, DiagramType]> = [
+  [/^(?:flowchart|graph)\b/, "flowchart"],
+  [/^sequenceDiagram\b/, "sequence"],
+  [/^classDiagram(?:-v2)?\b/, "classDiagram"],
+  [/^stateDiagram(?:-v2)?\b/, "stateDiagram"],
+  [/^erDiagram\b/, "erDiagram"],
+  [/^gantt\b/, "gantt"],
+  [/^mindmap\b/, "mindmap"],
+  [/^timeline\b/, "timeline"],
+  [/^C4Context\b/, "C4Context"],
+  [/^C4Container\b/, "C4Container"],
+  [/^architecture-beta\b/, "architecture"],
+];
+
+/**
+ * Mermaidコードを解析対象の行に分割
+ * フロントマター（--- ... ---）、%% コメント、空行を除外する
+ */
+export function getSourceLines(code: string): SourceLine[] {
+  const rawLines = code.split(/\r?\n/);
+  const lines: SourceLine[] = [];
+  let inFrontmatter = false;
+
+  for (let i = 0; i < rawLines.length; i++) {
+    const raw = rawLines[i] ?? "";
+    const text = raw.trim();
+
+    // フロントマターは図の先頭にのみ置ける
+    if (text === "---" && (inFrontmatter || lines.length === 0)) {
+      inFrontmatter = !inFrontmatter;
+      continue;
+    }
+    if (inFrontmatter || text === "" || text.startsWith("%%")) {
+      continue;
+    }
+
+    lines.push({ text, line: i + 1, column: raw.indexOf(text) + 1 });
+  }
+
+  return lines;
+}
+
+/**
+ * ヘッダー行から図の種類を判定
+ */
+export function detectDiagramType(code: string): DiagramType | null {
+  const header = getSourceLines(code)[0];
+  if (!header) return null;
+
+  for (const [pattern, diagramType] of HEADER_PATTERNS) {
+    if (pattern.test(header.text)) {
+      return diagramType;
+    }
+  }
+  return null;
+}
+
+/**
+ * 同じIDのノードが異なるラベル・形状で再定義された箇所
+ */
+export type NodeRedefinition = {
+  id: string;
+  /** 再定義された行番号（1始まり） */
+  line: number;
+  /** 最初に登録された行番号（1始まり） */
+  firstLine: number;
+};
+
+/**
+ * 解析中の状態
+ */
+type ParseContext = {
+  result: ParsedDiagram;
+  nodeIndex: Map<string, ParsedNode>;
+  subgraphIndex: Map<string, ParsedSubgraph>;
+  edgeCounts: Map<string, number>;
+  redefinitions: NodeRedefinition[];
+};
+
+function createContext(diagramType: DiagramType | null): ParseContext {
+  return {
+    result: {
+      schemaVersion: PARSED_STRUCTURE_VERSION,
+      diagramType,
+      direction: null,
+      nodes: [],
+      edges: [],
+      subgraphs: [],
+      participants: [],
+      classes: [],
+      states: [],
+      entities: [],
+    },
+    nodeIndex: new Map(),
+    subgraphIndex: new Map(),
+    edgeCounts: new Map(),
+    redefinitions: [],
+  };
+}
+
+/**
+ * ラベル文字列を正規化（囲みの引用符・Markdown記法・改行タグを除去）
+ */
+function cleanLabel(text: string): string {
+  let label = text.trim();
+  if (label.length >= 2 && label.startsWith('"') && label.endsWith('"')) {
+    label = label.slice(1, -1);
+  }
+  if (label.length >= 2 && label.startsWith("`") && label.endsWith("`")) {
+    label = label.slice(1, -1);
+  }
+  return label.replace(/<br\s*\/?>/gi, " ").trim();
+}
+
+/**
+ * ノードを登録（既存の場合は未設定の情報のみ補完）
+ */
+function addNode(
+  ctx: ParseContext,
+  id: string,
+  options: {
+    kind: ParsedNodeKind;
+    line: number;
+    label?: string | null;
+    shape?: string | null;
+    parent?: string | null;
+  },
+): ParsedNode {
+  const { kind, line, label, shape = null, parent = null } = options;
+  const existing = ctx.nodeIndex.get(id);
+
+  if (existing) {
+    // 定義済みのノードが異なるラベル・形状で再定義された場合は記録する（検証用）
+    // 状態の説明などは複数行に分けて書けるため、フローチャートのノードのみ対象とする
+    const hasDefinition = existing.label !== existing.id || existing.shape;
+    if (
+      kind === "node" &&
+      hasDefinition &&
+      ((label && label !== existing.label) ||
+        (shape && existing.shape && shape !== existing.shape))
+    ) {
+      ctx.redefinitions.push({ id, line, firstLine: existing.line });
+    }
+
+    // 参照のみで登録されたノードに、後から定義されたラベル・形状を反映
+    if (label && existing.label === existing.id) {
+      existing.label = label;
+    }
+    if (shape && !existing.shape) {
+      existing.shape = shape;
+    }
+    if (parent && !existing.parent) {
+      existing.parent = parent;
+      ctx.subgraphIndex.get(parent)?.memberIds.push(id);
+    }
+    return existing;
+  }
+
+  const node: ParsedNode = {
+    id,
+    label: label || id,
+    kind,
+    shape,
+    parent,
+    line,
+  };
+  ctx.nodeIndex.set(id, node);
+  ctx.result.nodes.push(node);
+  if (parent) {
+    ctx.subgraphIndex.get(parent)?.memberIds.push(id);
+  }
+  return node;
+}
+
+/**
+ * エッジを登録（同じ接続が複数ある場合はIDに連番を付与）
+ */
+function addEdge(
+  ctx: ParseContext,
+  edge: {
+    source: string;
+    target: string;
+    arrow: string;
+    label: string | null;
+    line: number;
+  },
+): void {
+  const baseId = `${edge.source}->${edge.target}`;
+  const count = (ctx.edgeCounts.get(baseId) ?? 0) + 1;
+  ctx.edgeCounts.set(baseId, count);
+
+  ctx.result.edges.push({
+    id: count === 1 ? baseId : `${baseId}#${count}`,
+    source: edge.source,
+    target: edge.target,
+    label: edge.label ? cleanLabel(edge.label) || null : null,
+    arrow: edge.arrow,
+    line: edge.line,
+  });
+}
+
+/**
+ * サブグラフを登録
+ */
+function addSubgraph(
+  ctx: ParseContext,
+  id: string,
+  label: string,
+  parent: string | null,
+): ParsedSubgraph {
+  const existing = ctx.subgraphIndex.get(id);
+  if (existing) return existing;
+
+  const subgraph: ParsedSubgraph = { id, label, parent, memberIds: [] };
+  ctx.subgraphIndex.set(id, subgraph);
+  ctx.result.subgraphs.push(subgraph);
+  return subgraph;
+}
+
+// ---------------------------------------------------------------------------
+// フローチャート
+// ---------------------------------------------------------------------------
+
+/**
+ * フローチャートのノード形状（開き記号の長いものから順に判定）
+ */
+const FLOWCHART_SHAPES: Array<{ open: string; close: string; shape: string }> =
+  [
+    { open: "(((", close: ")))", shape: "doublecircle" },
+    { open: "((", close: "))", shape: "circle" },
+    { open: "([", close: "])", shape: "stadium" },
+    { open: "(", close: ")", shape: "round" },
+    { open: "[[", close: "]]", shape: "subroutine" },
+    { open: "[(", close: ")]", shape: "cylinder" },
+    { open: "[/", close: "/]", shape: "parallelogram" },
+    { open: "[/", close: "\\]", shape: "trapezoid" },
+    { open: "[\\", close: "\\]", shape: "parallelogram-alt" },
+    { open: "[\\", close: "/]", shape: "trapezoid-alt" },
+    { open: "[", close: "]", shape: "rect" },
+    { open: "{{", close: "}}", shape: "hexagon" },
+    { open: "{", close: "}", shape: "diamond" },
+    { open: ">", close: "]", shape: "asymmetric" },
+  ];
+
+/** フローチャートのノードの開き記号（FLOWCHART_SHAPES の順、重複なし） */
+const FLOWCHART_SHAPE_OPENERS = [
+  ...new Set(FLOWCHART_SHAPES.map((candidate) => candidate.open)),
+];
+
+/** フローチャートのノードID */
+const FLOWCHART_NODE_ID = /^[\p{L}\p{N}_]+/u;
+
+/** 矢印（ラベルなし / パイプ記法のラベル） */
+const FLOWCHART_EDGE = /^([<xo]?)(-{2,}|={2,}|-\.+-)([>xo]?)/;
+
+/** インラインラベル付き矢印の開始（例: `-- text -->`） */
+const FLOWCHART_LABELED_EDGE_OPEN = /^([<xo]?)(--|==|-\.)(?=\s)/;
+
+/** インラインラベル付き矢印の終了記号 */
+const FLOWCHART_LABELED_EDGE_CLOSE: Record<string, RegExp> = {
+  "--": /(-{3,}|-{2,}[>xo])/,
+  "==": /(={3,}|={2,}[>xo])/,
+  "-.": /(\.+-[>xo]?)/,
+};
+
+/** フローチャートで構造に影響しない文 */
+const FLOWCHART_IGNORED_STATEMENT =
+  /^(?:style|classDef|class|click|linkStyle|direction)\b/;
+
+/**
+ * `;` で区切られた文に分割（引用符・括弧内の `;` は無視）
+ */
+function splitStatements(text: string): string[] {
+  const statements: string[] = [];
+  let depth = 0;
+  let inQuote = false;
+  let current = "";
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuote = !inQuote;
+    } else if (!inQuote && "[({".includes(char)) {
+      depth++;
+    } else if (!inQuote && "])}".includes(char)) {
+      depth = Math.max(0, depth - 1);
+    } else if (char === ";" && !inQuote && depth === 0) {
+      statements.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  statements.push(current.trim());
+
+  return statements.filter((s) => s.length > 0);
+}
+
+/**
+ * フローチャートの1文（ノード定義・接続チェーン）を解析
+ */
+function parseFlowchartStatement(
+  ctx: ParseContext,
+  statement: string,
+  parent: string | null,
+  line: number,
+): void {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < statement.length && /\s/.test(statement[pos] ?? "")) {
+      pos++;
+    }
+  };
+
+  // ノード参照（ID + 形状・ラベル）を読み取る
+  const readNodeRef = (): string | null => {
+    const idMatch = statement.slice(pos).match(FLOWCHART_NODE_ID);
+    if (!idMatch) return null;
+    const id = idMatch[0];
+    pos += id.length;
+
+    let label: string | null = null;
+    let shape: string | null = null;
+    for (const open of FLOWCHART_SHAPE_OPENERS) {
+      if (!statement.startsWith(open, pos)) continue;
+
+      let searchFrom = pos + open.length;
+      // 引用符で囲まれたラベル内の閉じ記号は無視する
+      if (statement[searchFrom] === '"') {
+        const quoteEnd = statement.indexOf('"', searchFrom + 1);
+        if (quoteEnd >= 0) searchFrom = quoteEnd + 1;
+      }
+
+      // 開き記号が同じ形状（例: `[/` の `/]` と `\]`）は、閉じ記号が最初に現れるものを選ぶ
+      let matched: { shape: string; close: string; index: number } | null =
+        null;
+      for (const candidate of FLOWCHART_SHAPES) {
+        if (candidate.open !== open) continue;
+        const closeIndex = statement.indexOf(candidate.close, searchFrom);
+        if (closeIndex < 0) continue;
+        if (!matched || closeIndex < matched.index) {
+          matched = { ...candidate, index: closeIndex };
+        }
+      }
+      if (!matched) continue;
+
+      label = cleanLabel(statement.slice(pos + open.length, matched.index));
+      shape = matched.shape;
+      pos = matched.index + matched.close.length;
+      break;
+    }
+
+    // クラス指定（A:::className）は構造に影響しないため読み飛ばす
+    const classMatch = statement.slice(pos).match(/^:::[\w-]+/);
+    if (classMatch) pos += classMatch[0].length;
+
+    addNode(ctx, id, { kind: "node", line, label, shape, parent });
+    return id;
+  };
+
+  // `&` で連結されたノード群を読み取る
+  const readNodeGroup = (): string[] => {
+    const ids: string[] = [];
+    while (true) {
+      skipWhitespace();
+      const id = readNodeRef();
+      if (!id) break;
+      ids.push(id);
+      skipWhitespace();
+      if (statement[pos] !== "&") break;
+      pos++;
+    }
+    return ids;
+  };
+
+  // 矢印とラベルを読み取る
+  const readEdge = (): { arrow: string; label: string | null } | null => {
+    const rest = statement.slice(pos);
+
+    const labeledOpen = rest.match(FLOWCHART_LABELED_EDGE_OPEN);
+    if (labeledOpen) {
+      const [openText, head = "", body = ""] = labeledOpen;
+      const closePattern = FLOWCHART_LABELED_EDGE_CLOSE[body];
+      const closeMatch = closePattern
+        ? rest.slice(openText.length).match(closePattern)
+        : null;
+      if (closeMatch?.[1] && closeMatch.index !== undefined) {
+        const label = rest.slice(
+          openText.length,
+          openText.length + closeMatch.index,
+        );
+        pos += openText.length + closeMatch.index + closeMatch[1].length;
+        const arrow =
+          body === "-."
+            ? `${head}-${closeMatch[1]}`
+            : `${head}${closeMatch[1]}`;
+        return { arrow, label: label.trim() || null };
+      }
+    }
+
+    const edgeMatch = rest.match(FLOWCHART_EDGE);
+    if (!edgeMatch) return null;
+    pos += edgeMatch[0].length;
+
+    // パイプ記法のラベル（A -->|label| B）
+    const pipeMatch = statement.slice(pos).match(/^\s*\|([^|]*)\|/);
+    if (pipeMatch) {
+      pos += pipeMatch[0].length;
+      return { arrow: edgeMatch[0], label: pipeMatch[1] ?? null };
+    }
+    return { arrow: edgeMatch[0], label: null };
+  };
+
+  let sources = readNodeGroup();
+  if (sources.length === 0) return;
+
+  while (pos < statement.length) {
+    skipWhitespace();
+    const edge = readEdge();
+    if (!edge) break;
+    const targets = readNodeGroup();
+    if (targets.length === 0) break;
+
+    for (const source of sources) {
+      for (const target of targets) {
+        addEdge(ctx, { source, target, ...edge, line });
+      }
+    }
+    sources = targets;
+  }
+}
+
+function parseFlowchart(ctx: ParseContext, lines: SourceLine[]): void {
+  const header = lines[0];
+  const directionMatch = header?.text.match(
+    /^(?:flowchart|graph)\s+(TB|TD|BT|RL|LR)\b/i,
+  );
+  ctx.result.direction = directionMatch?.[1]?.toUpperCase() ?? null;
+
+  const subgraphStack: string[] = [];
+
+  for (const { text, line } of lines.slice(1)) {
+    for (const statement of splitStatements(text)) {
+      const parent = subgraphStack[subgraphStack.length - 1] ?? null;
+
+      const subgraphMatch = statement.match(/^subgraph\b\s*(.*)$/);
+      if (subgraphMatch) {
+        const rest = (subgraphMatch[1] ?? "").trim();
+        const titledMatch = rest.match(/^([^\s[]+)\s*\[(.*)\]$/);
+        const id = titledMatch?.[1]
+          ? titledMatch[1]
+          : cleanLabel(rest) || `subgraph${ctx.result.subgraphs.length + 1}`;
+        const label = titledMatch ? cleanLabel(titledMatch[2] ?? "") : id;
+        addSubgraph(ctx, id, label, parent);
+        subgraphStack.push(id);
+        continue;
+      }
+
+      if (statement === "end") {
+        subgraphStack.pop();
+        continue;
+      }
+
+      if (FLOWCHART_IGNORED_STATEMENT.test(statement)) {
+        continue;
+      }
+
+      parseFlowchartStatement(ctx, statement, parent, line);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// シーケンス図
+// ---------------------------------------------------------------------------
+
+/** メッセージ（A->>B: text） */
+const SEQUENCE_MESSAGE =
+  /^([^\s:+<>-][^:]*?)\s*(<<-->>|<<->>|-->>|->>|--x|-x|--\)|-\)|-->|->)\s*[+-]?\s*([^:]+?)\s*(?::\s*(.*))?$/;
+
+/** ブロックの開始（end で閉じるもの） */
+const SEQUENCE_BLOCK_START = /^(?:loop|alt|opt|par|critical|break|rect)\b/;
+
+function parseSequence(ctx: ParseContext, lines: SourceLine[]): void {
+  // box は参加者のグループとしてサブグラフに、それ以外のブロックは読み飛ばす
+  const blockStack: Array<string | null> = [];
+
+  const addParticipant = (
+    id: string,
+    line: number,
+    options: { label?: string; type?: "participant" | "actor" } = {},
+  ) => {
+    const existing = ctx.result.participants.find((p) => p.id === id);
+    const boxId = blockStack.findLast((b) => b !== null) ?? null;
+    if (existing) {
+      if (options.label) existing.label = options.label;
+      if (options.type) existing.type = options.type;
+    } else {
+      ctx.result.participants.push({
+        id,
+        label: options.label ?? id,
+        type: options.type ?? "participant",
+      });
+    }
+    addNode(ctx, id, {
+      kind: "participant",
+      line,
+      label: options.label,
+      parent: boxId,
+    });
+  };
+
+  for (const { text, line } of lines.slice(1)) {
+    const participantMatch = text.match(/^(participant|actor)\s+(.+)$/);
+    if (participantMatch) {
+      const type = participantMatch[1] as "participant" | "actor";
+      const rest = participantMatch[2] ?? "";
+      const aliasMatch = rest.match(/^(\S+?)\s+as\s+(.+)$/);
+      if (aliasMatch?.[1]) {
+        addParticipant(aliasMatch[1], line, {
+          label: cleanLabel(aliasMatch[2] ?? ""),
+          type,
+        });
+      } else {
+        addParticipant(cleanLabel(rest), line, { type });
+      }
+      continue;
+    }
+
+    const boxMatch = text.match(/^box\b\s*(.*)$/);
+    if (boxMatch) {
+      const id = `box${ctx.result.subgraphs.length + 1}`;
+      // 先頭の色指定（rgb(...) / 色名）を除いたものをラベルとする
+      const label = (boxMatch[1] ?? "")
+        .replace(/^(?:rgba?\([^)]*\)|transparent|[a-zA-Z]+(?=\s))\s*/, "")
+        .trim();
+      addSubgraph(ctx, id, label || id, null);
+      blockStack.push(id);
+      continue;
+    }
+
+    if (SEQUENCE_BLOCK_START.test(text)) {
+      blockStack.push(null);
+      continue;
+    }
+
+    if (text === "end") {
+      blockStack.pop();
+      continue;
+    }
+
+    const messageMatch = text.match(SEQUENCE_MESSAGE);
+    if (messageMatch?.[1] && messageMatch[2] && messageMatch[3]) {
+      const source = messageMatch[1].trim();
+      const target = messageMatch[3].trim();
+      addParticipant(source, line);
+      addParticipant(target, line);
+      addEdge(ctx, {
+        source,
+        target,
+        arrow: messageMatch[2],
+        label: messageMatch[4] ?? null,
+        line,
+      });
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// クラス図
+// ---------------------------------------------------------------------------
+
+/** リレーション（A <|-- B : label） */
+const CLASS_RELATION =
+  /^([^\s"]+?)\s*(?:"([^"]*)"\s*)?(<\|--|<\|\.\.|\*--|o--|<--|<\.\.|--\|>|\.\.\|>|--\*|--o|-->|\.\.>|--|\.\.)\s*(?:"([^"]*)"\s*)?([^\s":]+)\s*(?::\s*(.*))?$/;
+
+/** クラス定義（class Name~T~["label"] {） */
+const CLASS_DEFINITION =
+  /^class\s+([^\s{[~:]+)(?:~[^~]*~)?(?:\["([^"]*)"\])?\s*(?::::[\w-]+)?\s*(\{)?\s*(.*)$/;
+
+function parseClassDiagram(ctx: ParseContext, lines: SourceLine[]): void {
+  const namespaceStack: string[] = [];
+  let currentClass: ParsedClass | null = null;
+
+  const addClass = (id: string, line: number, label?: string): ParsedClass => {
+    const parent = namespaceStack[namespaceStack.length - 1] ?? null;
+    let cls = ctx.result.classes.find((c) => c.id === id);
+    if (!cls) {
+      cls = { id, label: label ?? id, members: [], annotations: [] };
+      ctx.result.classes.push(cls);
+    } else if (label) {
+      cls.label = label;
+    }
+    addNode(ctx, id, { kind: "class", line, label, parent });
+    return cls;
+  };
+
+  for (const { text, line } of lines.slice(1)) {
+    // クラス本体（{ ... }）の中
+    if (currentClass) {
+      if (text === "}") {
+        currentClass = null;
+        continue;
+      }
+      const annotationMatch = text.match(/^<<(.+)>>$/);
+      if (annotationMatch?.[1]) {
+        currentClass.annotations.push(annotationMatch[1].trim());
+      } else {
+        currentClass.members.push(text);
+      }
+      continue;
+    }
+
+    const directionMatch = text.match(/^direction\s+(TB|TD|BT|RL|LR)\b/i);
+    if (directionMatch?.[1]) {
+      ctx.result.direction = directionMatch[1].toUpperCase();
+      continue;
+    }
+
+    const namespaceMatch = text.match(/^namespace\s+([^\s{]+)\s*\{$/);
+    if (namespaceMatch?.[1]) {
+      addSubgraph(
+        ctx,
+        namespaceMatch[1],
+        namespaceMatch[1],
+        namespaceStack[namespaceStack.length - 1] ?? null,
+      );
+      namespaceStack.push(namespaceMatch[1]);
+      continue;
+    }
+
+    if (text === "}") {
+      namespaceStack.pop();
+      continue;
+    }
+
+    const definitionMatch = text.match(CLASS_DEFINITION);
+    if (definitionMatch?.[1]) {
+      const cls = addClass(
+        definitionMatch[1],
+        line,
+        definitionMatch[2] ? cleanLabel(definitionMatch[2]) : undefined,
+      );
+      if (definitionMatch[3]) {
+        const rest = (definitionMatch[4] ?? "").trim();
+        if (rest.endsWith("}")) {
+          // 1行で閉じている場合（class A { }）
+          const inline = rest.slice(0, -1).trim();
+          if (inline) cls.members.push(inline);
+        } else {
+          currentClass = cls;
+        }
+      }
+      continue;
+    }
+
+    const annotationMatch = text.match(/^<<(.+)>>\s*(\S+)$/);
+    if (annotationMatch?.[1] && annotationMatch[2]) {
+      addClass(annotationMatch[2], line).annotations.push(
+        annotationMatch[1].trim(),
+      );
+      continue;
+    }
+
+    if (/^(?:note|style|classDef|cssClass|click|link|callback)\b/.test(text)) {
+      continue;
+    }
+
+    const relationMatch = text.match(CLASS_RELATION);
+    if (relationMatch?.[1] && relationMatch[3] && relationMatch[5]) {
+      addClass(relationMatch[1], line);
+      addClass(relationMatch[5], line);
+      addEdge(ctx, {
+        source: relationMatch[1],
+        target: relationMatch[5],
+        arrow: relationMatch[3],
+        label: relationMatch[6] ?? null,
+        line,
+      });
+      continue;
+    }
+
+    // メンバー定義（ClassName : +method()）
+    const memberMatch = text.match(/^([^\s:]+)\s*:\s*(.+)$/);
+    if (memberMatch?.[1] && memberMatch[2]) {
+      addClass(memberMatch[1], line).members.push(memberMatch[2].trim());
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// 状態遷移図
+// ---------------------------------------------------------------------------
+
+/** 遷移（A --> B : event） */
+const STATE_TRANSITION =
+  /^(\[\*\]|[^\s:]+?)\s*-->\s*(\[\*\]|[^\s:]+)\s*(?::\s*(.*))?$/;
+
+function parseStateDiagram(ctx: ParseContext, lines: SourceLine[]): void {
+  const compositeStack: string[] = [];
+  let inNote = false;
+
+  const addState = (
+    id: string,
+    line: number,
+    options: { type?: ParsedState["type"]; label?: string } = {},
+  ): void => {
+    const parent = compositeStack[compositeStack.length - 1] ?? null;
+    const existing = ctx.result.states.find((s) => s.id === id);
+    if (existing) {
+      if (options.type && existing.type === "state") {
+        existing.type = options.type;
+      }
+      if (options.label) existing.label = options.label;
+    } else {
+      ctx.result.states.push({
+        id,
+        label: options.label ?? id,
+        type: options.type ?? "state",
+        parent,
+      });
+    }
+    addNode(ctx, id, { kind: "state", line, label: options.label, parent });
+  };
+
+  // [*] はスコープ（複合状態）ごとの開始/終了状態として扱う
+  const resolvePseudoState = (
+    ref: string,
+    position: "source" | "target",
+    line: number,
+  ): string => {
+    const cleaned = ref.replace(/:::[\w-]+$/, "");
+    if (cleaned !== "[*]") {
+      addState(cleaned, line);
+      return cleaned;
+    }
+    const scope = compositeStack[compositeStack.length - 1] ?? "root";
+    const type = position === "source" ? "start" : "end";
+    const id = `${scope}_${type}`;
+    addState(id, line, { type, label: "[*]" });
+    return id;
+  };
+
+  for (const { text, line } of lines.slice(1)) {
+    if (inNote) {
+      if (/^end\s+note$/.test(text)) inNote = false;
+      continue;
+    }
+
+    if (/^note\b/.test(text)) {
+      // 複数行のノート（: がないもの）は end note まで読み飛ばす
+      if (!text.includes(":")) inNote = true;
+      continue;
+    }
+
+    const directionMatch = text.match(/^direction\s+(TB|TD|BT|RL|LR)\b/i);
+    if (directionMatch?.[1]) {
+      if (compositeStack.length === 0) {
+        ctx.result.direction = directionMatch[1].toUpperCase();
+      }
+      continue;
+    }
+
+    if (text === "}") {
+      compositeStack.pop();
+      continue;
+    }
+
+    if (text === "--" || /^(?:classDef|class|style)\b/.test(text)) {
+      continue;
+    }
+
+    const stateMatch = text.match(
+      /^state\s+(?:"([^"]*)"\s+as\s+)?([^\s{]+)\s*(?:<<(fork|join|choice)>>)?\s*(\{)?$/,
+    );
+    if (stateMatch?.[2]) {
+      const id = stateMatch[2];
+      const label = stateMatch[1] ? cleanLabel(stateMatch[1]) : undefined;
+      const pseudoType = stateMatch[3] as
+        | "fork"
+        | "join"
+        | "choice"
+        | undefined;
+      if (stateMatch[4]) {
+        addState(id, line, { type: "composite", label });
+        addSubgraph(
+          ctx,
+          id,
+          ctx.nodeIndex.get(id)?.label ?? id,
+          compositeStack[compositeStack.length - 1] ?? null,
+        );
+        compositeStack.push(id);
+      } else {
+        addState(id, line, { type: pseudoType, label });
+      }
+      continue;
+    }
+
+    const transitionMatch = text.match(STATE_TRANSITION);
+    if (transitionMatch?.[1] && transitionMatch[2]) {
+      const source = resolvePseudoState(transitionMatch[1], "source", line);
+      const target = resolvePseudoState(transitionMatch[2], "target", line);
+      addEdge(ctx, {
+        source,
+        target,
+        arrow: "-->",
+        label: transitionMatch[3] ?? null,
+        line,
+      });
+      continue;
+    }
+
+    // 状態の説明（StateId : description）
+    const descriptionMatch = text.match(/^([^\s:]+)\s*:\s*(.+)$/);
+    if (descriptionMatch?.[1] && descriptionMatch[2]) {
+      addState(descriptionMatch[1], line, {
+        label: cleanLabel(descriptionMatch[2]),
+      });
+      continue;
+    }
+
+    // 単独の状態名
+    if (/^[^\s:]+$/.test(text)) {
+      addState(text.replace(/:::[\w-]+$/, ""), line);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// ER図
+// ---------------------------------------------------------------------------
+
+/** リレーション（A ||--o{ B : label） */
+const ER_RELATION =
+  /^([^\s[{]+)\s*(\|o|\|\||\}o|\}\|)(--|\.\.)(o\||\|\||o\{|\|\{)\s*([^\s[{]+)\s*:\s*(.*)$/;
+
+/** エンティティ定義（ENTITY["alias"] {） */
+const ER_ENTITY = /^([^\s[{]+)(?:\[([^\]]*)\])?\s*(\{)?\s*(\})?$/;
+
+/** 属性（type name PK, FK "comment"） */
+const ER_ATTRIBUTE =
+  /^(\S+)\s+(\S+)((?:\s*,?\s*(?:PK|FK|UK))*)\s*(?:"([^"]*)")?$/;
+
+function parseErDiagram(ctx: ParseContext, lines: SourceLine[]): void {
+  let currentEntity: ParsedEntity | null = null;
+
+  const addEntity = (
+    rawId: string,
+    line: number,
+    label?: string,
+  ): ParsedEntity => {
+    const id = cleanLabel(rawId);
+    let entity = ctx.result.entities.find((e) => e.id === id);
+    if (!entity) {
+      entity = { id, label: label ?? id, attributes: [] };
+      ctx.result.entities.push(entity);
+    } else if (label) {
+      entity.label = label;
+    }
+    addNode(ctx, id, { kind: "entity", line, label });
+    return entity;
+  };
+
+  for (const { text, line } of lines.slice(1)) {
+    if (currentEntity) {
+      if (text === "}") {
+        currentEntity = null;
+        continue;
+      }
+      const attributeMatch = text.match(ER_ATTRIBUTE);
+      if (attributeMatch?.[1] && attributeMatch[2]) {
+        currentEntity.attributes.push({
+          type: attributeMatch[1],
+          name: attributeMatch[2],
+          keys: (attributeMatch[3] ?? "")
+            .split(/[\s,]+/)
+            .filter((k) => k.length > 0),
+          comment: attributeMatch[4] ?? null,
+        });
+      }
+      continue;
+    }
+
+    const directionMatch = text.match(/^direction\s+(TB|TD|BT|RL|LR)\b/i);
+    if (directionMatch?.[1]) {
+      ctx.result.direction = directionMatch[1].toUpperCase();
+      continue;
+    }
+
+    const relationMatch = text.match(ER_RELATION);
+    if (relationMatch?.[1] && relationMatch[5]) {
+      const source = addEntity(relationMatch[1], line).id;
+      const target = addEntity(relationMatch[5], line).id;
+      addEdge(ctx, {
+        source,
+        target,
+        arrow: `${relationMatch[2]}${relationMatch[3]}${relationMatch[4]}`,
+        label: relationMatch[6] ?? null,
+        line,
+      });
+      continue;
+    }
+
+    if (/^(?:style|classDef|class)\b/.test(text)) {
+      continue;
+    }
+
+    const entityMatch = text.match(ER_ENTITY);
+    if (entityMatch?.[1]) {
+      const entity = addEntity(
+        entityMatch[1],
+        line,
+        entityMatch[2] ? cleanLabel(entityMatch[2]) : undefined,
+      );
+      if (entityMatch[3] && !entityMatch[4]) {
+        currentEntity = entity;
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// ガントチャート
+// ---------------------------------------------------------------------------
+
+/** ガントチャートで構造に影響しない設定 */
+const GANTT_IGNORED_STATEMENT =
+  /^(?:title|dateFormat|axisFormat|tickInterval|excludes|includes|todayMarker|weekday|weekend|inclusiveEndDates|topAxis|displayMode|accTitle|accDescr|click)\b/;
+
+/** タスクの先頭に付ける状態のタグ */
+const GANTT_TASK_TAGS = new Set([
+  "active",
+  "done",
+  "crit",
+  "milestone",
+  "vert",
+]);
+
+function parseGantt(ctx: ParseContext, lines: SourceLine[]): void {
+  let section: string | null = null;
+  // IDを省略したタスクの連番（Mermaidと同じく task1, task2, ... を割り当てる）
+  let taskCount = 0;
+  let previousTaskId: string | null = null;
+
+  for (const { text, line } of lines.slice(1)) {
+    const sectionMatch = text.match(/^section\s+(.+)$/);
+    if (sectionMatch?.[1]) {
+      section = `section${ctx.result.subgraphs.length + 1}`;
+      addSubgraph(ctx, section, cleanLabel(sectionMatch[1]), null);
+      continue;
+    }
+
+    if (GANTT_IGNORED_STATEMENT.test(text)) {
+      continue;
+    }
+
+    // タスク（タスク名 :タグ, ID, 開始, 期間）
+    const taskMatch = text.match(/^([^:]+?)\s*:(.*)$/);
+    if (!taskMatch?.[1]) continue;
+
+    const data = (taskMatch[2] ?? "").split(",").map((value) => value.trim());
+    while (data.length > 1 && GANTT_TASK_TAGS.has(data[0] ?? "")) {
+      data.shift();
+    }
+    const id = data.length >= 3 && data[0] ? data[0] : `task${++taskCount}`;
+    addNode(ctx, id, {
+      kind: "task",
+      line,
+      label: cleanLabel(taskMatch[1]),
+      parent: section,
+    });
+
+    // 開始の指定がない場合は直前のタスクの後、`after` の場合は指定したタスクの後に始まる
+    const start = data.length >= 2 ? data[data.length - 2] : null;
+    const afterMatch = start?.match(/^after\s+(.+)$/);
+    const dependencies = afterMatch?.[1]
+      ? afterMatch[1].split(/\s+/)
+      : !start && previousTaskId
+        ? [previousTaskId]
+        : [];
+    for (const dependency of dependencies) {
+      addEdge(ctx, {
+        source: dependency,
+        target: id,
+        arrow: "after",
+        label: null,
+        line,
+      });
+    }
+    previousTaskId = id;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// マインドマップ
+// ---------------------------------------------------------------------------
+
+/**
+ * マインドマップのノード形状（開き記号の長いものから順に判定）
+ */
+const MINDMAP_SHAPES: Array<{ open: string; close: string; shape: string }> = [
+  { open: "((", close: "))", shape: "circle" },
+  { open: "))", close: "((", shape: "bang" },
+  { open: "{{", close: "}}", shape: "hexagon" },
+  { open: "(", close: ")", shape: "rounded" },
+  { open: ")", close: "(", shape: "cloud" },
+  { open: "[", close: "]", shape: "rect" },
+];
+
+/**
+ * マインドマップの1行（`ID(ラベル)` またはラベルのみ）を解析
+ * IDを省略した場合はラベルをIDとする
+ */
+function parseMindmapNode(text: string): {
+  id: string;
+  label: string;
+  shape: string | null;
+} {
+  for (const { open, close, shape } of MINDMAP_SHAPES) {
+    const start = text.indexOf(open);
+    if (
+      start < 0 ||
+      !text.endsWith(close) ||
+      text.length < start + open.length + close.length
+    ) {
+      continue;
+    }
+    const label = cleanLabel(
+      text.slice(start + open.length, text.length - close.length),
+    );
+    return { id: text.slice(0, start).trim() || label, label, shape };
+  }
+  const label = cleanLabel(text);
+  return { id: label, label, shape: null };
+}
+
+function parseMindmap(ctx: ParseContext, lines: SourceLine[]): void {
+  // 親の候補（インデントの浅いものから順）。インデントがより深い行はその子になる
+  const ancestors: Array<{ id: string; column: number }> = [];
+
+  for (const { text, line, column } of lines.slice(1)) {
+    // アイコン・クラスの指定は直前のノードの装飾
+    if (text.startsWith("::icon(") || text.startsWith(":::")) {
+      continue;
+    }
+
+    const { id, label, shape } = parseMindmapNode(text);
+    if (!id) continue;
+
+    while ((ancestors.at(-1)?.column ?? 0) >= column) {
+      ancestors.pop();
+    }
+    const parent = ancestors.at(-1);
+
+    addNode(ctx, id, { kind: "topic", line, label, shape });
+    if (parent) {
+      addEdge(ctx, {
+        source: parent.id,
+        target: id,
+        arrow: "--",
+        label: null,
+        line,
+      });
+    }
+    ancestors.push({ id, column });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// タイムライン
+// ---------------------------------------------------------------------------
+
+function parseTimeline(ctx: ParseContext, lines: SourceLine[]): void {
+  let section: string | null = null;
+  let period: string | null = null;
+
+  for (const { text, line } of lines.slice(1)) {
+    if (/^(?:title|accTitle|accDescr)\b/.test(text)) {
+      continue;
+    }
+
+    const sectionMatch = text.match(/^section\s+(.+)$/);
+    if (sectionMatch?.[1]) {
+      section = `section${ctx.result.subgraphs.length + 1}`;
+      addSubgraph(ctx, section, cleanLabel(sectionMatch[1]), null);
+      continue;
+    }
+
+    // 時期 : 出来事 : 出来事（`: 出来事` で始まる行は直前の時期の続き）
+    const [head = "", ...events] = text.split(":");
+    if (!text.startsWith(":")) {
+      period = cleanLabel(head);
+      if (!period) continue;
+      addNode(ctx, period, { kind: "period", line, parent: section });
+    }
+    if (!period) continue;
+
+    for (const event of events) {
+      const label = cleanLabel(event);
+      if (!label) continue;
+      // 出来事は時期ごとに区別するため「時期 : 出来事」をIDとする
+      const id = `${period} : ${label}`;
+      addNode(ctx, id, { kind: "event", line, label, parent: section });
+      addEdge(ctx, {
+        source: period,
+        target: id,
+        arrow: ":",
+        label: null,
+        line,
+      });
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// C4図
+// ---------------------------------------------------------------------------
+
+/** 要素（Person / System / Container / Component と、その Db・Queue・_Ext の派生） */
+const C4_ELEMENT =
+  /^((?:Person|System|Container|Component)(?:Db|Queue)?(?:_Ext)?)\s*\((.*)\)$/;
+
+/** 境界の開始（Enterprise_Boundary(id, "label") {） */
+const C4_BOUNDARY =
+  /^((?:Enterprise_|System_|Container_)?Boundary|Deployment_Node|Node(?:_L|_R)?)\s*\((.*)\)\s*\{$/;
+
+/** 関係（Rel(from, to, "label")、Rel_U などの配置の向き付きを含む） */
+const C4_RELATION =
+  /^(BiRel|Rel(?:_(?:U|Up|D|Down|L|Left|R|Right|Back))?)\s*\((.*)\)$/;
+
+/**
+ * マクロの引数を分割（引用符内の `,` は無視、`$tags=...` などの名前付き引数は除く）
+ */
+function splitC4Arguments(text: string): string[] {
+  const args: string[] = [];
+  let inQuote = false;
+  let current = "";
+
+  for (const char of text) {
+    if (char === '"') {
+      inQuote = !inQuote;
+    } else if (char === "," && !inQuote) {
+      args.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  args.push(current.trim());
+
+  return args.filter((arg) => !arg.startsWith("$")).map(cleanLabel);
+}
+
+function parseC4(ctx: ParseContext, lines: SourceLine[]): void {
+  // 境界の入れ子（`}` で閉じる）
+  const boundaryStack: string[] = [];
+
+  for (const { text, line } of lines.slice(1)) {
+    if (text === "}") {
+      boundaryStack.pop();
+      continue;
+    }
+
+    const parent = boundaryStack.at(-1) ?? null;
+
+    const boundaryMatch = text.match(C4_BOUNDARY);
+    if (boundaryMatch) {
+      const [id, label] = splitC4Arguments(boundaryMatch[2] ?? "");
+      if (!id) continue;
+      addSubgraph(ctx, id, label || id, parent);
+      boundaryStack.push(id);
+      continue;
+    }
+
+    const elementMatch = text.match(C4_ELEMENT);
+    if (elementMatch?.[1]) {
+      const [id, label] = splitC4Arguments(elementMatch[2] ?? "");
+      if (!id) continue;
+      addNode(ctx, id, {
+        kind: "element",
+        line,
+        label,
+        shape: elementMatch[1],
+        parent,
+      });
+      continue;
+    }
+
+    const relationMatch = text.match(C4_RELATION);
+    if (relationMatch?.[1]) {
+      const [source, target, label] = splitC4Arguments(relationMatch[2] ?? "");
+      if (!source || !target) continue;
+      addEdge(ctx, {
+        source,
+        target,
+        arrow: relationMatch[1],
+        label: label ?? null,
+        line,
+      });
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// アーキテクチャ図
+// ---------------------------------------------------------------------------
+
+/** グループ・サービス・ジャンクション（service id(icon)[title] in group） */
+const ARCHITECTURE_NODE =
+  /^(group|service|junction)\s+([\w-]+)(?:\(([^)]*)\))?(?:\[([^\]]*)\])?(?:\s+in\s+([\w-]+))?$/;
+
+/** 接続（a:R --> L:b、グループの辺に接続する場合は a{group}:R -- L:b） */
+const ARCHITECTURE_EDGE =
+  /^([\w-]+)(?:\{group\})?\s*:\s*([TBLR])\s*(<?-+>?)\s*([TBLR])\s*:\s*([\w-]+)(?:\{group\})?$/;
+
+function parseArchitecture(ctx: ParseContext, lines: SourceLine[]): void {
+  for (const { text, line } of lines.slice(1)) {
+    const nodeMatch = text.match(ARCHITECTURE_NODE);
+    const id = nodeMatch?.[2];
+    if (nodeMatch && id) {
+      const [, type, , icon, title, parent = null] = nodeMatch;
+      const label = title ? cleanLabel(title) : id;
+      if (type === "group") {
+        addSubgraph(ctx, id, label, parent);
+      } else {
+        addNode(ctx, id, {
+          kind: "service",
+          line,
+          label,
+          shape: type === "junction" ? "junction" : (icon ?? null),
+          parent,
+        });
+      }
+      continue;
+    }
+
+    const edgeMatch = text.match(ARCHITECTURE_EDGE);
+    if (edgeMatch?.[1] && edgeMatch[5]) {
+      addEdge(ctx, {
+        source: edgeMatch[1],
+        target: edgeMatch[5],
+        arrow: `${edgeMatch[2]}${edgeMatch[3]}${edgeMatch[4]}`,
+        label: null,
+        line,
+      });
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// エントリーポイント
+// ---------------------------------------------------------------------------
+
+/**
+ * Mermaidコードを解析し、構造データと検証用の情報を返す
+ */
+export function parseMermaidWithDiagnostics(code: string): {
+  diagram: ParsedDiagram;
+  redefinitions: NodeRedefinition[];
+} {
+  const lines = getSourceLines(code);
+  const diagramType = detectDiagramType(code);
+  const ctx = createContext(diagramType);
+
+  switch (diagramType) {
+    case "flowchart":
+      parseFlowchart(ctx, lines);
+      break;
+    case "sequence":
+      parseSequence(ctx, lines);
+      break;
+    case "classDiagram":
+      parseClassDiagram(ctx, lines);
+      break;
+    case "stateDiagram":
+      parseStateDiagram(ctx, lines);
+      break;
+    case "erDiagram":
+      parseErDiagram(ctx, lines);
+      break;
+    case "gantt":
+      parseGantt(ctx, lines);
+      break;
+    case "mindmap":
+      parseMindmap(ctx, lines);
+      break;
+    case "timeline":
+      parseTimeline(ctx, lines);
+      break;
+    case "C4Context":
+    case "C4Container":
+      parseC4(ctx, lines);
+      break;
+    case "architecture":
+      parseArchitecture(ctx, lines);
+      break;
+    default:
+      break;
+  }
+
+  return { diagram: ctx.result, redefinitions: ctx.redefinitions };
+}
+
+/**
+ * Mermaidコードを解析し、正規化された構造データに変換する
+ * 構文エラーがあっても解釈できた範囲の構造を返す（検証は行わない）
+ */
+export function parseMermaid(code: string): ParsedDiagram {
+  return parseMermaidWithDiagnostics(code).diagram;
+}
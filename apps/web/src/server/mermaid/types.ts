@@ -0,0 +1,141 @@
+import type { DiagramType } from "../db/schema";
+
+/**
+ * 解析結果の構造バージョン
+ * 構造を変更した場合はインクリメントし、既存データの再解析対象とする
+ */
+export const PARSED_STRUCTURE_VERSION = 3;
+
+/**
+ * ノードの種類（どの図の要素か）
+ */
+export type ParsedNodeKind =
+  | "node"
+  | "participant"
+  | "class"
+  | "state"
+  | "entity"
+  | "task"
+  | "topic"
+  | "period"
+  | "event"
+  | "element"
+  | "service";
+
+/**
+ * 正規化されたノード（すべての図で共通）
+ */
+export type ParsedNode = {
+  /** Mermaidコード内のID */
+  id: string;
+  /** 表示ラベル（未指定の場合はID） */
+  label: string;
+  /** ノードの種類 */
+  kind: ParsedNodeKind;
+  /**
+   * 形状（flowchart・mindmap: rect, round, diamond など、
+   * C4: 要素のマクロ名（SystemDb_Ext など）、architecture: アイコン名）
+   */
+  shape: string | null;
+  /** 所属するサブグラフ・複合状態のID */
+  parent: string | null;
+  /** 最初に定義された行番号（1始まり） */
+  line: number;
+};
+
+/**
+ * 正規化されたエッジ（接続・メッセージ・リレーション・遷移）
+ */
+export type ParsedEdge = {
+  /** `source->target`（重複時は `#2` などの連番付き） */
+  id: string;
+  source: string;
+  target: string;
+  /** ラベル（メッセージ、イベント名など） */
+  label: string | null;
+  /** Mermaid上の矢印表記（例: "-->", "->>", "||--o{"） */
+  arrow: string;
+  /** 定義された行番号（1始まり） */
+  line: number;
+};
+
+/**
+ * サブグラフ（flowchartのsubgraph、sequenceのbox、classのnamespace、stateの複合状態、
+ * ganttとtimelineのsection、C4の境界、architectureのgroup）
+ */
+export type ParsedSubgraph = {
+  id: string;
+  label: string;
+  parent: string | null;
+  /** 直下に含まれるノードのID */
+  memberIds: string[];
+};
+
+/**
+ * シーケンス図の参加者
+ */
+export type ParsedParticipant = {
+  id: string;
+  label: string;
+  type: "participant" | "actor";
+};
+
+/**
+ * クラス図のクラス
+ */
+export type ParsedClass = {
+  id: string;
+  label: string;
+  /** メンバー（属性・メソッド）の定義文字列 */
+  members: string[];
+  /** アノテーション（interface, abstract など） */
+  annotations: string[];
+};
+
+/**
+ * 状態遷移図の状態
+ */
+export type ParsedState = {
+  id: string;
+  label: string;
+  type: "state" | "start" | "end" | "fork" | "join" | "choice" | "composite";
+  parent: string | null;
+};
+
+/**
+ * ER図のエンティティ属性
+ */
+export type ParsedEntityAttribute = {
+  type: string;
+  name: string;
+  /** PK, FK, UK */
+  keys: string[];
+  comment: string | null;
+};
+
+/**
+ * ER図のエンティティ
+ */
+export type ParsedEntity = {
+  id: string;
+  label: string;
+  attributes: ParsedEntityAttribute[];
+};
+
+/**
+ * Mermaidコードの構造化データ（diagram_versions.parsed_structure に保存）
+ */
+export type ParsedDiagram = {
+  schemaVersion: number;
+  /** ヘッダー行から判定した図の種類（判定できない場合はnull） */
+  diagramType: DiagramType | null;
+  /** 描画方向（flowchart: TD/LR など） */
+  direction: string | null;
+  nodes: ParsedNode[];
+  edges: ParsedEdge[];
+  subgraphs: ParsedSubgraph[];
+  participants: ParsedParticipant[];
+  classes: ParsedClass[];
+  states: ParsedState[];
+  entities: ParsedEntity[];
+};
@@ -0,0 +1,351 @@
+import type { DiagramType } from "../db/schema";
+import { parseMermaidWithDiagnostics } from "./parser";
+
+/**
+ * 検証で見つかった問題の種類
+ */
+export type ValidationIssueCode =
+  | "empty-code"
+  | "unknown-diagram-type"
+  | "syntax-error"
+  | "duplicate-id"
+  | "dangling-edge"
+  | "non-ascii-id";
+
+/**
+ * 検証で見つかった問題
+ */
+export type ValidationIssue = {
+  code: ValidationIssueCode;
+  message: string;
+  /** 行番号（1始まり、特定できない場合はnull） */
+  line: number | null;
+  /** 列番号（1始まり、特定できない場合はnull） */
+  column: number | null;
+};
+
+/**
+ * Mermaidコードの検証結果
+ */
+export type ValidationResult = {
+  /** エラーがない（描画できる）か */
+  valid: boolean;
+  /** ヘッダー行から判定した図の種類 */
+  diagramType: DiagramType | null;
+  /** 描画できない問題（構文エラーなど） */
+  errors: ValidationIssue[];
+  /** 描画はできるが意図と異なる可能性がある問題 */
+  warnings: ValidationIssue[];
+};
+
+/**
+ * Mermaid（jison）のパースエラーに含まれる位置情報
+ */
+type MermaidParseErrorHash = {
+  loc?: {
+    first_line: number;
+    first_column: number;
+    last_line: number;
+    last_column: number;
+  };
+};
+
+/** ASCII以外の文字 */
+const NON_ASCII = /[^\x20-\x7e]/;
+
+/**
+ * IDとラベルを分けて書く図の種類（ASCII以外のIDを警告する）
+ * タイムライン・マインドマップなどはIDを自動で付けるか本文をIDとするため対象外
+ */
+const EXPLICIT_ID_DIAGRAM_TYPES: ReadonlySet<DiagramType> = new Set([
+  "flowchart",
+  "classDiagram",
+  "stateDiagram",
+  "erDiagram",
+]);
+
+/**
+ * Mermaidの前処理（フロントマター・コメント行の除去）後の行番号から元の行番号への対応表を作成
+ * Mermaidのパーサーは前処理後のコードの行番号でエラーを報告するため
+ */
+function buildLineMap(code: string): number[] {
+  const rawLines = code.split(/\r?\n/);
+  let start = 0;
+
+  // フロントマター（--- ... ---）と直後の空行
+  if (rawLines[0]?.trim() === "---") {
+    const end = rawLines.findIndex((line, i) => i > 0 && line.trim() === "---");
+    if (end > 0) {
+      start = end + 1;
+      while (start < rawLines.length && rawLines[start]?.trim() === "") {
+        start++;
+      }
+    }
+  }
+
+  const lineMap: number[] = [];
+  let pendingBlankLines: number[] = [];
+  for (let i = start; i < rawLines.length; i++) {
+    const text = rawLines[i] ?? "";
+    if (text.trim() === "") {
+      pendingBlankLines.push(i + 1);
+      continue;
+    }
+    // コメント行は直前の空行とともに除去される（%%{ で始まるディレクティブは除く）
+    if (/^\s*%%(?!\{)./.test(text)) {
+      pendingBlankLines = [];
+      continue;
+    }
+    // 先頭の空行は除去される
+    if (lineMap.length > 0) {
+      lineMap.push(...pendingBlankLines);
+    }
+    pendingBlankLines = [];
+    lineMap.push(i + 1);
+  }
+  lineMap.push(...pendingBlankLines);
+
+  return lineMap;
+}
+
+/**
+ * 前処理後のコードでの文字位置を、元のコードの行番号・列番号に変換
+ * 前処理後の各行は lineMap が指す元のコードの行と同じ内容として数える
+ */
+function offsetToLocation(
+  code: string,
+  lineMap: number[],
+  offset: number,
+): { line: number | null; column: number | null } {
+  const rawLines = code.split(/\r?\n/);
+  let lineStart = 0;
+  for (const line of lineMap) {
+    const lineEnd = lineStart + (rawLines[line - 1]?.length ?? 0);
+    if (offset <= lineEnd) {
+      return { line, column: offset - lineStart + 1 };
+    }
+    // 改行の1文字を含めて次の行へ
+    lineStart = lineEnd + 1;
+  }
+  return { line: null, column: null };
+}
+
+/**
+ * Mermaidのパースエラーから位置情報を取り出す
+ */
+function getErrorLocation(
+  error: unknown,
+  code: string,
+): { line: number | null; column: number | null } {
+  const lineMap = buildLineMap(code);
+  const hash = (error as { hash?: MermaidParseErrorHash }).hash;
+  if (hash?.loc) {
+    return {
+      line: lineMap[hash.loc.first_line - 1] ?? hash.loc.first_line,
+      column: hash.loc.first_column + 1,
+    };
+  }
+
+  // jison以外のパーサー（Langium）はメッセージに位置を含む
+  const message = error instanceof Error ? error.message : String(error);
+  const match = message.match(/line (\d+)(?:, column (\d+))?/i);
+  if (match?.[1]) {
+    const line = Number(match[1]);
+    return {
+      line: lineMap[line - 1] ?? line,
+      column: match[2] ? Number(match[2]) : null,
+    };
+  }
+  // 字句解析のエラーは前処理後のコードでの文字位置（offset）で示される
+  const offsetMatch = message.match(/at offset:? (\d+)/i);
+  if (offsetMatch?.[1]) {
+    return offsetToLocation(code, lineMap, Number(offsetMatch[1]));
+  }
+  return { line: null, column: null };
+}
+
+/**
+ * パースエラーのメッセージを要約（エラー箇所の図示を除いた最後の行）
+ */
+function summarizeErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const lines = message
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !/^-*\^$/.test(line));
+  return lines[lines.length - 1] ?? message;
+}
+
+/**
+ * 行内でIDが最初に現れる列番号を取得
+ */
+function findColumn(code: string, line: number, id: string): number | null {
+  const text = code.split(/\r?\n/)[line - 1];
+  if (text === undefined) return null;
+  const index = text.indexOf(id);
+  return index >= 0 ? index + 1 : null;
+}
+
+/**
+ * MermaidはラベルのサニタイズにDOMPurifyを使うが、サーバーにはDOMがないため
+ * jsdomのwindowで初期化したDOMPurifyをMermaidと共有のインスタンスに設定する
+ */
+async function setupDomPurify(): Promise<void> {
+  const { default: DOMPurify } = await import("dompurify");
+  if (DOMPurify.isSupported) return;
+
+  const { JSDOM } = await import("jsdom");
+  const purify = DOMPurify(new JSDOM("").window);
+  Object.assign(DOMPurify, purify);
+}
+
+/**
+ * Mermaid本体のパーサーで構文を検証
+ */
+async function checkSyntax(code: string): Promise<ValidationIssue | null> {
+  await setupDomPurify();
+  const { default: mermaid } = await import("mermaid");
+  try {
+    await mermaid.parse(code);
+    return null;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (/No diagram type detected/i.test(message)) {
+      return {
+        code: "unknown-diagram-type",
+        message:
+          "図の種類を判定できません。1行目に flowchart TD などの図の種類を記述してください。",
+        line: 1,
+        column: 1,
+      };
+    }
+    return {
+      code: "syntax-error",
+      message: summarizeErrorMessage(error),
+      ...getErrorLocation(error, code),
+    };
+  }
+}
+
+/**
+ * 構造の問題（重複したID、未定義のノードへの接続、ASCII以外のID）を検出
+ */
+function checkStructure(
+  code: string,
+  { diagram, redefinitions }: ReturnType<typeof parseMermaidWithDiagnostics>,
+): ValidationIssue[] {
+  const warnings: ValidationIssue[] = [];
+
+  for (const redefinition of redefinitions) {
+    warnings.push({
+      code: "duplicate-id",
+      message: `ID「${redefinition.id}」は${redefinition.firstLine}行目で定義済みです。後の定義でラベル・形状が上書きされます。`,
+      line: redefinition.line,
+      column: findColumn(code, redefinition.line, redefinition.id),
+    });
+  }
+
+  if (diagram.diagramType === "flowchart") {
+    const subgraphIds = new Set(diagram.subgraphs.map((s) => s.id));
+    const definedNodes = diagram.nodes.filter(
+      (node) => node.shape !== null || node.label !== node.id,
+    );
+
+    // サブグラフと同じIDのノード
+    for (const node of definedNodes) {
+      if (subgraphIds.has(node.id)) {
+        warnings.push({
+          code: "duplicate-id",
+          message: `ID「${node.id}」はサブグラフとノードの両方で使われています。`,
+          line: node.line,
+          column: findColumn(code, node.line, node.id),
+        });
+      }
+    }
+
+    // ラベル・形状を持つノードがある図で、接続でのみ参照されているノード（IDの入力ミスの可能性）
+    if (definedNodes.length > 0) {
+      const definedIds = new Set(definedNodes.map((node) => node.id));
+      const reported = new Set<string>();
+      for (const edge of diagram.edges) {
+        for (const id of [edge.source, edge.target]) {
+          if (definedIds.has(id) || subgraphIds.has(id) || reported.has(id)) {
+            continue;
+          }
+          reported.add(id);
+          warnings.push({
+            code: "dangling-edge",
+            message: `接続の「${id}」はラベル・形状が定義されていないノードです（IDの入力ミスの可能性があります）。`,
+            line: edge.line,
+            column: findColumn(code, edge.line, id),
+          });
+        }
+      }
+    }
+  }
+
+  if (
+    diagram.diagramType &&
+    EXPLICIT_ID_DIAGRAM_TYPES.has(diagram.diagramType)
+  ) {
+    for (const node of diagram.nodes) {
+      if (NON_ASCII.test(node.id)) {
+        warnings.push({
+          code: "non-ascii-id",
+          message: `ID「${node.id}」に英数字以外の文字が含まれています。日本語はラベルに記述し、IDは英数字にしてください。`,
+          line: node.line,
+          column: findColumn(code, node.line, node.id),
+        });
+      }
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Mermaidコードを検証し、行・列番号付きのエラーと警告を返す
+ * 構文はブラウザでの描画と同じMermaid本体のパーサーで検証する
+ */
+export async function validateMermaid(code: string): Promise<ValidationResult> {
+  if (code.trim() === "") {
+    return {
+      valid: false,
+      diagramType: null,
+      errors: [
+        {
+          code: "empty-code",
+          message: "Mermaidコードが空です。",
+          line: null,
+          column: null,
+        },
+      ],
+      warnings: [],
+    };
+  }
+
+  const parsed = parseMermaidWithDiagnostics(code);
+  const syntaxError = await checkSyntax(code);
+  const errors = syntaxError ? [syntaxError] : [];
+
+  return {
+    valid: errors.length === 0,
+    diagramType: parsed.diagram.diagramType,
+    errors,
+    warnings: checkStructure(code, parsed),
+  };
+}
+
+/**
+ * 検証で見つかった問題を1行のテキストに変換（エラーメッセージ・プロンプト用）
+ */
+export function formatValidationIssue(issue: ValidationIssue): string {
+  if (issue.line === null) {
+    return issue.message;
+  }
+  const position =
+    issue.column === null
+      ? `${issue.line}行目`
+      : `${issue.line}行目${issue.column}列`;
+  return `${position}: ${issue.message}`;
+}
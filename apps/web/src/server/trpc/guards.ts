@@ -0,0 +1,39 @@
+import { TRPCError } from "@trpc/server";
+import { type ModelSelection, getMissingProviderEnvVar } from "../ai/config";
+import {
+  type ValidationResult,
+  formatValidationIssue,
+  validateMermaid,
+} from "../mermaid/validator";
+
+/**
+ * 保存前にMermaidコードを検証
+ * エラーがある場合は保存を拒否する（allowInvalid の場合は検証結果を返して保存を続ける）
+ */
+export async function validateBeforeSave(
+  mermaidCode: string,
+  allowInvalid: boolean,
+): Promise<ValidationResult> {
+  const validation = await validateMermaid(mermaidCode);
+  if (!validation.valid && !allowInvalid) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: `Mermaidコードにエラーがあるため保存できません（${validation.errors.map(formatValidationIssue).join(" / ")}）`,
+    });
+  }
+  return validation;
+}
+
+/**
+ * AIの呼び出し前に、使用するプロバイダーの必須環境変数が設定されているか確認
+ * 未設定の場合はプロバイダーのエラーではなく、設定すべき環境変数を示すエラーにする
+ */
+export function assertProviderConfigured(selection?: ModelSelection): void {
+  const missingEnvVar = getMissingProviderEnvVar(selection);
+  if (missingEnvVar) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: `${missingEnvVar} が設定されていません。.env.local ファイルに設定してください。`,
+    });
+  }
+}
@@ -1,10 +1,13 @@
 import { initTRPC } from "@trpc/server";
+import type { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
 import { db } from "../db";
 
 // コンテキストの作成
-export const createTRPCContext = async () => {
+export const createTRPCContext = async (opts?: FetchCreateContextFnOptions) => {
   return {
     db,
+    /** リクエストヘッダー（モックプロバイダーのフィクスチャ指定などに使用） */
+    headers: opts?.req.headers ?? new Headers(),
   };
 };
 
@@ -1,19 +1,52 @@
+import { TRPCError } from "@trpc/server";
 import { generateText } from "ai";
+import { asc, desc, eq } from "drizzle-orm";
 import { z } from "zod";
-import { getModel, getProviderOptions } from "../../ai/config";
+import {
+  getModel,
+  getProviderOptions,
+  modelSelectionSchema,
+  supportsVision,
+} from "../../ai/config";
 import {
   type NodePosition,
-  type Stroke,
+  detectEdgeStroke,
   detectEnclosure,
   detectXMark,
 } from "../../ai/detection";
+import { MOCK_FIXTURE_HEADER } from "../../ai/mock";
 import { parseAiResponse } from "../../ai/parsing";
-import { SYSTEM_PROMPT, getStrokeInterpretationPrompt } from "../../ai/prompts";
 import {
+  ENCLOSURE_GROUPING_RULES,
+  SYSTEM_PROMPT,
+  getStrokeInterpretationPrompt,
+} from "../../ai/prompts";
+import {
+  isLocalRecognitionEnabled,
+  recognizeStrokesLocally,
+} from "../../ai/recognizer";
+import {
+  describeEdgePosition,
+  describeNodePosition,
+  formatEdgePositions,
   formatNodePositions,
   formatStrokeDescriptions,
 } from "../../ai/strokeUtils";
-import { DIAGRAM_TYPES, type DiagramType } from "../../db/schema";
+import {
+  DIAGRAM_TYPES,
+  type DiagramType,
+  chatMessages,
+  chatSessions,
+  diagramVersions,
+  projects,
+  strokeSchema,
+} from "../../db/schema";
+import { detectDiagramType, parseMermaid } from "../../mermaid/parser";
+import {
+  formatValidationIssue,
+  validateMermaid,
+} from "../../mermaid/validator";
+import { assertProviderConfigured, validateBeforeSave } from "../guards";
 import { publicProcedure, router } from "../init";
 
 /**
@@ -22,6 +55,8 @@ import { publicProcedure, router } from "../init";
 export const aiRouter = router({
   /**
    * Mermaidコードを修正するためのチャットエンドポイント
+   * projectId を指定した場合は、会話をチャットセッションに永続化し、
+   * 更新されたコードを新しいバージョンとして保存する
    */
   editDiagram: publicProcedure
     .input(
@@ -39,10 +74,39 @@ export const aiRouter = router({
             }),
           )
           .optional(),
+        /** 会話を永続化するプロジェクトID（オプション） */
+        projectId: z.string().uuid().optional(),
+        /** 使用するモデル（省略時は環境変数の設定） */
+        model: modelSelectionSchema.optional(),
       }),
     )
-    .mutation(async ({ input }) => {
-      const { message, currentMermaidCode, conversationHistory = [] } = input;
+    .mutation(async ({ ctx, input }) => {
+      const { message, currentMermaidCode, projectId } = input;
+      let { conversationHistory = [] } = input;
+
+      // projectId指定時は最新のチャットセッションを取得（作成は応答の保存時に行う）
+      let sessionId: string | null = null;
+      if (projectId) {
+        const existingSession = await ctx.db.query.chatSessions.findFirst({
+          where: eq(chatSessions.projectId, projectId),
+          orderBy: [desc(chatSessions.createdAt)],
+        });
+        sessionId = existingSession?.id ?? null;
+
+        // 会話履歴が渡されていない場合はDBに保存された履歴を使用
+        if (sessionId && !input.conversationHistory) {
+          const storedMessages = await ctx.db.query.chatMessages.findMany({
+            where: eq(chatMessages.sessionId, sessionId),
+            orderBy: [asc(chatMessages.id)],
+          });
+          conversationHistory = storedMessages
+            .filter(
+              (m): m is typeof m & { role: "user" | "assistant" } =>
+                m.role === "user" || m.role === "assistant",
+            )
+            .map((m) => ({ role: m.role, content: m.content }));
+        }
+      }
 
       // 会話履歴を構築
       const messages: { role: "user" | "assistant"; content: string }[] = [
@@ -58,12 +122,18 @@ ${currentMermaidCode}
         },
       ];
 
+      assertProviderConfigured(input.model);
+
       // AI SDKでテキスト生成
       const result = await generateText({
-        model: getModel(),
+        model: getModel(input.model, {
+          diagramType: detectDiagramType(currentMermaidCode) ?? undefined,
+          fixture: ctx.headers.get(MOCK_FIXTURE_HEADER),
+          purpose: "edit",
+        }),
         system: SYSTEM_PROMPT,
         messages,
-        providerOptions: getProviderOptions(),
+        providerOptions: getProviderOptions(input.model),
       });
 
       // 応答からMermaidコードと理由を抽出
@@ -74,10 +144,84 @@ ${currentMermaidCode}
         ? result.reasoning.map((r) => ("text" in r ? r.text : "")).join("\n")
         : null;
 
+      const responseText = reason || "コードを更新しました。";
+
+      // 会話と生成されたバージョンを永続化（途中で失敗した場合に一部だけ残らないようトランザクションで行う）
+      let versionId: number | null = null;
+      if (projectId) {
+        // 生成されたコードはsaveVersionと同様に検証し、エラーがある場合は保存しない
+        if (mermaidCode !== null) {
+          await validateBeforeSave(mermaidCode, false);
+        }
+
+        sessionId = await ctx.db.transaction(async (tx) => {
+          let txSessionId = sessionId;
+          if (!txSessionId) {
+            const [newSession] = await tx
+              .insert(chatSessions)
+              .values({ projectId })
+              .returning();
+            if (!newSession) {
+              throw new TRPCError({
+                code: "INTERNAL_SERVER_ERROR",
+                message: "チャットセッションの作成に失敗しました",
+              });
+            }
+            txSessionId = newSession.id;
+          }
+
+          if (mermaidCode !== null) {
+            const latestVersion = await tx.query.diagramVersions.findFirst({
+              where: eq(diagramVersions.projectId, projectId),
+              orderBy: (versions, { desc }) => [desc(versions.versionNumber)],
+            });
+
+            const [version] = await tx
+              .insert(diagramVersions)
+              .values({
+                projectId,
+                versionNumber: (latestVersion?.versionNumber ?? 0) + 1,
+                mermaidCode,
+                parsedStructure: parseMermaid(mermaidCode),
+                updateType: "chat",
+                reason: reason ?? message,
+              })
+              .returning();
+
+            if (!version) {
+              throw new TRPCError({
+                code: "INTERNAL_SERVER_ERROR",
+                message: "バージョンの作成に失敗しました",
+              });
+            }
+            versionId = version.id;
+
+            // プロジェクトのupdatedAtを更新
+            await tx
+              .update(projects)
+              .set({ updatedAt: new Date() })
+              .where(eq(projects.id, projectId));
+          }
+
+          // ユーザーの発言とAIの応答を保存（応答には生成したバージョンを紐付ける）
+          await tx.insert(chatMessages).values([
+            { sessionId: txSessionId, role: "user", content: message },
+            {
+              sessionId: txSessionId,
+              role: "assistant",
+              content: responseText,
+              resultingVersionId: versionId,
+            },
+          ]);
+
+          return txSessionId;
+        });
+      }
+
       // レスポンスを構築
       return {
         /** AIからのテキスト応答 */
-        response: reason || "コードを更新しました。",
+        response: responseText,
         /** 更新されたMermaidコード */
         updatedMermaidCode: mermaidCode,
         /** 修正理由 */
@@ -86,6 +230,10 @@ ${currentMermaidCode}
         thinking: thinkingProcess,
         /** コードが更新されたかどうか */
         wasUpdated: mermaidCode !== null,
+        /** 永続化先のチャットセッションID（projectId指定時のみ） */
+        sessionId,
+        /** 作成されたバージョンID（projectId指定時かつ更新時のみ） */
+        versionId,
       };
     }),
 
@@ -104,13 +252,19 @@ ${currentMermaidCode}
             }),
           )
           .optional(),
+        /** 使用するモデル（省略時は環境変数の設定） */
+        model: modelSelectionSchema.optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { message, conversationHistory = [] } = input;
 
+      assertProviderConfigured(input.model);
       const result = await generateText({
-        model: getModel(),
+        model: getModel(input.model, {
+          fixture: ctx.headers.get(MOCK_FIXTURE_HEADER),
+          purpose: "chat",
+        }),
         system:
           "あなたはMermaidダイアグラムの作成を支援するフレンドリーなAIアシスタントです。日本語で回答してください。",
         messages: [
@@ -131,14 +285,7 @@ ${currentMermaidCode}
     .input(
       z.object({
         /** 手書きストロークデータ */
-        strokes: z.array(
-          z.object({
-            id: z.string(),
-            points: z.array(z.number()),
-            color: z.string(),
-            strokeWidth: z.number(),
-          }),
-        ),
+        strokes: z.array(strokeSchema),
         /** 現在のMermaidコード */
         currentMermaidCode: z.string(),
         /** 現在のMermaidノードの位置情報 */
@@ -147,6 +294,26 @@ ${currentMermaidCode}
             z.object({
               id: z.string(),
               label: z.string(),
+              kind: z
+                .enum([
+                  "node",
+                  "participant",
+                  "lifeline",
+                  "message",
+                  "class",
+                  "state",
+                  "entity",
+                  "task",
+                  "topic",
+                  "period",
+                  "event",
+                  "element",
+                  "service",
+                  "boundary",
+                ])
+                .optional(),
+              source: z.string().optional(),
+              target: z.string().optional(),
               x: z.number(),
               y: z.number(),
               width: z.number(),
@@ -156,19 +323,34 @@ ${currentMermaidCode}
             }),
           )
           .optional(),
+        /** 現在のMermaidエッジ（接続線）の経路 */
+        edgePositions: z
+          .array(
+            z.object({
+              id: z.string(),
+              source: z.string(),
+              target: z.string(),
+              label: z.string(),
+              points: z.array(z.number()),
+            }),
+          )
+          .optional(),
         /** キャンバス画像（Base64 PNG） */
         canvasImage: z.string().optional(),
         /** 補助的なテキスト指示（オプション） */
         hint: z.string().optional(),
         /** 図の種類 */
         diagramType: z.enum(DIAGRAM_TYPES).optional().default("flowchart"),
+        /** 使用するモデル（省略時は環境変数の設定） */
+        model: modelSelectionSchema.optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const {
         strokes,
         currentMermaidCode,
         nodePositions,
+        edgePositions,
         canvasImage,
         hint,
         diagramType,
@@ -183,19 +365,14 @@ ${currentMermaidCode}
         };
       }
 
-      // ストロークを型安全に変換
-      const typedStrokes: Stroke[] = strokes.map((s) => ({
-        id: s.id,
-        points: s.points,
-        color: s.color,
-        strokeWidth: s.strokeWidth,
-      }));
-
       // ノード位置情報を型安全に変換
       const typedNodePositions: NodePosition[] | undefined = nodePositions?.map(
         (n) => ({
           id: n.id,
           label: n.label,
+          kind: n.kind,
+          source: n.source,
+          target: n.target,
           x: n.x,
           y: n.y,
           width: n.width,
@@ -205,20 +382,44 @@ ${currentMermaidCode}
         }),
       );
 
+      // 図形・線・矢印だけの単純な手書きはAIを使わずに解釈する
+      if (!hint && isLocalRecognitionEnabled()) {
+        const localResult = recognizeStrokesLocally({
+          strokes: strokes,
+          currentMermaidCode,
+          diagramType: diagramType as DiagramType,
+          nodePositions: typedNodePositions,
+        });
+        if (localResult) {
+          return {
+            response: localResult.reason,
+            updatedMermaidCode: localResult.mermaidCode,
+            reasoning: localResult.reason,
+            thinking: null,
+            wasUpdated: true,
+          };
+        }
+      }
+
       // X印を検出
-      const xMarkDetection = detectXMark(typedStrokes, typedNodePositions);
+      const xMarkDetection = detectXMark(strokes, typedNodePositions);
 
       // 囲み線を検出
-      const enclosureDetection = detectEnclosure(
-        typedStrokes,
+      const enclosureDetection = detectEnclosure(strokes, typedNodePositions);
+
+      // 既存のエッジへの書き込みを検出
+      const edgeStrokeDetection = detectEdgeStroke(
+        strokes,
+        edgePositions,
         typedNodePositions,
       );
 
       // ストロークデータを解析用のテキストに変換
-      const strokeDescriptions = formatStrokeDescriptions(typedStrokes);
+      const strokeDescriptions = formatStrokeDescriptions(strokes);
 
-      // ノード位置情報をテキストに変換
+      // ノード・エッジの位置情報をテキストに変換
       const nodePositionDescriptions = formatNodePositions(typedNodePositions);
+      const edgePositionDescriptions = formatEdgePositions(edgePositions);
 
       const userMessage = `現在のMermaidコード:
 \`\`\`mermaid
@@ -228,6 +429,9 @@ ${currentMermaidCode}
 ## 現在のダイアグラム上の各ノードの位置（ピクセル座標）:
 ${nodePositionDescriptions}
 
+## 現在のダイアグラム上の各接続の経路（ピクセル座標）:
+${edgePositionDescriptions}
+
 ## 手書きストロークデータ（${strokes.length}個のストローク）:
 ${strokeDescriptions}
 
@@ -235,24 +439,29 @@ ${
   xMarkDetection
     ? `## ⚠️ X印（バツ）を検出しました！
 - X印の中心座標: (${Math.round(xMarkDetection.centerX)}, ${Math.round(xMarkDetection.centerY)})
-- 対象ノード: ${xMarkDetection.targetNodeId ? `「${xMarkDetection.targetNodeId}」を削除してください` : "特定できませんでした（位置から判断してください）"}
+- 対象: ${xMarkDetection.targetNode ? `${describeNodePosition(xMarkDetection.targetNode)}を削除してください` : edgeStrokeDetection?.isCrossing ? `${describeEdgePosition(edgeStrokeDetection.edge)}を削除してください` : "特定できませんでした（位置から判断してください）"}
 
-**重要**: X印が描かれたノードとその接続を削除してください。
+**重要**: X印が描かれた要素とその接続を削除してください。
+`
+    : ""
+}
+${
+  edgeStrokeDetection && !xMarkDetection?.targetNode
+    ? `## ↔️ 既存の接続への書き込みを検出しました！
+- 対象: ${describeEdgePosition(edgeStrokeDetection.edge)}
+- 接続上のストローク: ${edgeStrokeDetection.strokeIndices.map((index) => `ストローク${index + 1}`).join(", ")}
+- ${edgeStrokeDetection.isCrossing ? "ストロークが接続と交差しています。取り消し線・X印の場合はこの接続を削除し、それ以外は接続の変更（線の種類・向きなど）として解釈してください" : "ストロークが接続の近くに書かれています。文字の場合はこの接続のラベルとして設定してください"}
 `
     : ""
 }
 ${
   enclosureDetection
-    ? `## 🔲 囲み線（サブグラフ）を検出しました！
+    ? `## 🔲 囲み線（グループ化）を検出しました！
 - 囲み線の範囲: (${Math.round(enclosureDetection.bounds.minX)}, ${Math.round(enclosureDetection.bounds.minY)}) ～ (${Math.round(enclosureDetection.bounds.maxX)}, ${Math.round(enclosureDetection.bounds.maxY)})
 - 囲み線の中心: (${Math.round(enclosureDetection.bounds.centerX)}, ${Math.round(enclosureDetection.bounds.centerY)})
-- 囲み線内に含まれるノード: ${enclosureDetection.enclosedNodeIds.length > 0 ? enclosureDetection.enclosedNodeIds.map((id) => `「${id}」`).join(", ") : "なし"}
+- 囲み線内に含まれる要素: ${enclosureDetection.enclosedNodeIds.length > 0 ? enclosureDetection.enclosedNodeIds.map((id) => `「${id}」`).join(", ") : "なし"}
 
-**重要**: 囲み線内に含まれるノードをsubgraphとしてグループ化してください。
-- subgraph構文: \`subgraph タイトル\` ... \`end\`
-- 囲み線内のノードをsubgraphブロック内に移動してください
-- 囲み線のタイトルは、囲み線内のノードの内容から推測するか、空白にしてください
-- 既存の接続は維持してください（subgraph内のノードと外部ノードの接続も保持）
+${ENCLOSURE_GROUPING_RULES[diagramType as DiagramType]}
 `
     : ""
 }
@@ -263,6 +472,7 @@ ${hint ? `## ユーザーからの補足: ${hint}` : ""}
 - ストロークがノードの近くにある場合、そのノードとの関連を考慮してください
 - ノード間を結ぶような線は、接続（矢印）を意味する可能性が高いです
 - **X印（バツ）がノード上に描かれた場合は、そのノードを削除してください**
+- **接続（矢印）の上や近くに書かれたストロークは、その接続の削除・変更やラベルの指示です**
 - **閉じた図形（囲み線）がノードを囲んでいる場合は、そのノードをsubgraphとしてグループ化してください**
 
 これらのストロークを解釈して、Mermaidダイアグラムを更新してください。`;
@@ -273,18 +483,21 @@ ${hint ? `## ユーザーからの補足: ${hint}` : ""}
         | { type: "image"; image: string };
       const messageContent: MessageContent[] = [];
 
+      // 画像入力に対応していないモデルの場合は画像を送らない
+      const imageToSend = supportsVision(input.model) ? canvasImage : undefined;
+
       // 画像がある場合は先に追加（視覚情報を優先）
-      if (canvasImage) {
+      if (imageToSend) {
         messageContent.push({
           type: "image",
-          image: canvasImage, // Base64 data URL
+          image: imageToSend, // Base64 data URL
         });
       }
 
       // テキストメッセージを追加
       messageContent.push({
         type: "text",
-        text: canvasImage
+        text: imageToSend
           ? `上の画像は現在のダイアグラム（Mermaid図）に手書きストローク（紫色の線）を重ねたものです。
 
 手書きの内容を解釈して、ダイアグラムを更新してください。
@@ -296,11 +509,15 @@ ${userMessage}`
           : userMessage,
       });
 
+      assertProviderConfigured(input.model);
       const result = await generateText({
-        model: getModel(),
+        model: getModel(input.model, {
+          diagramType: diagramType as DiagramType,
+          fixture: ctx.headers.get(MOCK_FIXTURE_HEADER),
+        }),
         system: getStrokeInterpretationPrompt(diagramType as DiagramType),
         messages: [{ role: "user" as const, content: messageContent }],
-        providerOptions: getProviderOptions(),
+        providerOptions: getProviderOptions(input.model),
       });
 
       const { mermaidCode, reason } = parseAiResponse(result.text);
@@ -333,16 +550,31 @@ ${userMessage}`
         errorMessage: z.string(),
         /** リトライ回数 */
         retryCount: z.number().optional(),
+        /** 使用するモデル（省略時は環境変数の設定） */
+        model: modelSelectionSchema.optional(),
       }),
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const { brokenCode, errorMessage, retryCount = 0 } = input;
 
+      // サーバー側でも検証し、エラー箇所の行・列番号をAIに伝える
+      const validation = await validateMermaid(brokenCode);
+      const codeLines = brokenCode.split(/\r?\n/);
+      const issueDescriptions = [...validation.errors, ...validation.warnings]
+        .map((issue) => {
+          const lineText =
+            issue.line !== null ? codeLines[issue.line - 1] : undefined;
+          return lineText !== undefined
+            ? `- ${formatValidationIssue(issue)}\n  該当行: \`${lineText.trim()}\``
+            : `- ${formatValidationIssue(issue)}`;
+        })
+        .join("\n");
+
       const fixPrompt = `以下のMermaidコードにパースエラーが発生しました。エラーを修正してください。
 
 ## エラーメッセージ
 ${errorMessage}
-
+${issueDescriptions ? `\n## 検証で見つかった問題（行・列番号は1始まり）\n${issueDescriptions}\n` : ""}
 ## エラーが発生したコード
 \`\`\`mermaid
 ${brokenCode}
@@ -364,12 +596,17 @@ ${brokenCode}
 (何を修正したかの説明)
 ---REASON_END---`;
 
+      assertProviderConfigured(input.model);
       const result = await generateText({
-        model: getModel(),
+        model: getModel(input.model, {
+          diagramType: detectDiagramType(brokenCode) ?? undefined,
+          fixture: ctx.headers.get(MOCK_FIXTURE_HEADER),
+          purpose: "fix",
+        }),
         system:
           "あなたはMermaidコードのエラーを修正する専門家です。必ず有効なMermaid構文を出力してください。",
         messages: [{ role: "user" as const, content: fixPrompt }],
-        providerOptions: getProviderOptions(),
+        providerOptions: getProviderOptions(input.model),
       });
 
       const { mermaidCode, reason } = parseAiResponse(result.text);
@@ -386,6 +623,8 @@ ${brokenCode}
         thinking: thinkingProcess,
         wasFixed: mermaidCode !== null,
         retryCount: retryCount + 1,
+        /** 修正前のコードの検証結果 */
+        validation,
       };
     }),
 });
@@ -0,0 +1,57 @@
+import { TRPCError } from "@trpc/server";
+import { asc, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+import { chatMessages, chatSessions } from "../../db/schema";
+import { publicProcedure, router } from "../init";
+
+/**
+ * チャット履歴用のルーター
+ * 送信処理は ai.editDiagram（projectId指定時）が行い、ここでは読み出しとセッション管理を扱う
+ */
+export const chatRouter = router({
+  /**
+   * プロジェクトの最新チャットセッションとメッセージ一覧を取得
+   * セッションが存在しない場合は sessionId: null と空配列を返す
+   */
+  getHistory: publicProcedure
+    .input(z.object({ projectId: z.string().uuid() }))
+    .query(async ({ ctx, input }) => {
+      const session = await ctx.db.query.chatSessions.findFirst({
+        where: eq(chatSessions.projectId, input.projectId),
+        orderBy: [desc(chatSessions.createdAt)],
+      });
+
+      if (!session) {
+        return { sessionId: null, messages: [] };
+      }
+
+      const messages = await ctx.db.query.chatMessages.findMany({
+        where: eq(chatMessages.sessionId, session.id),
+        orderBy: [asc(chatMessages.id)],
+      });
+
+      return { sessionId: session.id, messages };
+    }),
+
+  /**
+   * 新しいチャットセッションを開始
+   * 以前の会話は保持したまま、以降のAIへの会話履歴をリセットする
+   */
+  startNewSession: publicProcedure
+    .input(z.object({ projectId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [session] = await ctx.db
+        .insert(chatSessions)
+        .values({ projectId: input.projectId })
+        .returning();
+
+      if (!session) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "チャットセッションの作成に失敗しました",
+        });
+      }
+
+      return session;
+    }),
+});
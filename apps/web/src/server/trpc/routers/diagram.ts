@@ -1,40 +1,300 @@
 import { TRPCError } from "@trpc/server";
-import { and, eq, isNotNull, isNull } from "drizzle-orm";
+import { generateText } from "ai";
+import {
+  type SQL,
+  and,
+  asc,
+  desc,
+  eq,
+  getTableColumns,
+  isNotNull,
+  isNull,
+  or,
+  sql,
+} from "drizzle-orm";
 import { z } from "zod";
+import {
+  getModel,
+  getProviderOptions,
+  modelSelectionSchema,
+} from "../../ai/config";
+import { MOCK_FIXTURE_HEADER } from "../../ai/mock";
+import { parseAiResponse } from "../../ai/parsing";
+import { getDiagramConversionPrompt } from "../../ai/prompts";
 import {
   DIAGRAM_TEMPLATES,
   DIAGRAM_TYPES,
+  DIAGRAM_TYPE_INFO,
   type DiagramType,
   diagramVersions,
   handwritingStrokes,
   projects,
+  strokeSchema,
+  templates,
 } from "../../db/schema";
-import { publicProcedure, router } from "../init";
+import { sanitizeSvg } from "../../export/sanitize";
+import {
+  diffLines,
+  diffParsedDiagrams,
+  hasDiagramChanges,
+} from "../../mermaid/diff";
+import { extractDiagrams } from "../../mermaid/importer";
+import { detectDiagramType, parseMermaid } from "../../mermaid/parser";
+import {
+  PARSED_STRUCTURE_VERSION,
+  type ParsedDiagram,
+} from "../../mermaid/types";
+import { validateMermaid } from "../../mermaid/validator";
+import { assertProviderConfigured, validateBeforeSave } from "../guards";
+import { type TRPCContext, publicProcedure, router } from "../init";
+import { tagsSchema } from "./template";
 
 /**
- * ストロークデータのZodスキーマ
+ * 図の種類のZodスキーマ
  */
-const strokeSchema = z.object({
-  id: z.string(),
-  points: z.array(z.number()),
-  color: z.string(),
-  strokeWidth: z.number(),
-});
+const diagramTypeSchema = z.enum(DIAGRAM_TYPES);
 
 /**
- * 図の種類のZodスキーマ
+ * プロジェクト一覧の並び順ごとの列
  */
-const diagramTypeSchema = z.enum(DIAGRAM_TYPES);
+const PROJECT_SORT_COLUMNS = {
+  updatedAt: projects.updatedAt,
+  createdAt: projects.createdAt,
+  name: projects.name,
+} as const;
+
+/** 並び順ごとのデフォルトの方向（日時は新しい順、名前は昇順） */
+const PROJECT_SORT_DEFAULT_ORDER = {
+  updatedAt: "desc",
+  createdAt: "desc",
+  name: "asc",
+} as const;
+
+/**
+ * LIKE検索のパターンで特殊な意味を持つ文字（%・_・\）をエスケープ
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * プロジェクトの検索条件を作成
+ * 名前・最新バージョンのMermaidコードとラベル・全バージョンの変更理由を部分一致で検索する
+ * PostgreSQL標準の全文検索は日本語を単語に分割できないため、pg_trgmのGINインデックスを使ったILIKEで検索する
+ * （インデックスを使えるよう、相関サブクエリではなく一致したプロジェクトIDの集合で絞り込む）
+ */
+function buildProjectSearchCondition(query: string): SQL {
+  const pattern = `%${escapeLikePattern(query)}%`;
+
+  return sql`(
+    ${projects.name} ilike ${pattern}
+    or ${projects.id} in (
+      select matched.project_id from ${diagramVersions} matched
+      where (
+          matched.mermaid_code ilike ${pattern}
+          or matched.label_text ilike ${pattern}
+        )
+        and matched.version_number = (
+          select max(v.version_number) from ${diagramVersions} v
+          where v.project_id = matched.project_id
+        )
+    )
+    or ${projects.id} in (
+      select v.project_id from ${diagramVersions} v
+      where v.reason ilike ${pattern}
+    )
+  )`;
+}
+
+/**
+ * バージョンの構造化データを取得
+ * 保存済みの解析結果が古い、または未解析の場合はその場で解析する
+ */
+function resolveParsedStructure(version: {
+  mermaidCode: string;
+  parsedStructure: unknown;
+}): ParsedDiagram {
+  const stored = version.parsedStructure as ParsedDiagram | null;
+  if (stored && stored.schemaVersion === PARSED_STRUCTURE_VERSION) {
+    return stored;
+  }
+  return parseMermaid(version.mermaidCode);
+}
+
+/**
+ * 2つのMermaidコードの意味的な差分と行単位の差分を計算
+ * 図の種類が判定できない・異なる場合は structuralDiff: null となる
+ */
+function compareStructures(
+  from: { mermaidCode: string; structure: ParsedDiagram },
+  to: { mermaidCode: string; structure: ParsedDiagram },
+) {
+  const isComparable =
+    from.structure.diagramType !== null &&
+    from.structure.diagramType === to.structure.diagramType;
+  const structuralDiff = isComparable
+    ? diffParsedDiagrams(from.structure, to.structure)
+    : null;
+
+  return {
+    structuralDiff,
+    hasStructuralChanges: structuralDiff
+      ? hasDiagramChanges(structuralDiff)
+      : false,
+    lineDiff: diffLines(from.mermaidCode, to.mermaidCode),
+  };
+}
+
+/**
+ * プロジェクトと初期バージョン（バージョン1）を作成
+ */
+async function insertProjectWithInitialVersion(
+  db: TRPCContext["db"],
+  values: {
+    name: string;
+    diagramType: DiagramType;
+    mermaidCode: string;
+    updateType: string;
+    reason: string;
+  },
+) {
+  const [project] = await db
+    .insert(projects)
+    .values({
+      name: values.name,
+      diagramType: values.diagramType,
+    })
+    .returning();
+
+  if (!project) {
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "プロジェクトの作成に失敗しました",
+    });
+  }
+
+  await db.insert(diagramVersions).values({
+    projectId: project.id,
+    versionNumber: 1,
+    mermaidCode: values.mermaidCode,
+    parsedStructure: parseMermaid(values.mermaidCode),
+    updateType: values.updateType,
+    reason: values.reason,
+  });
+
+  return project;
+}
 
 export const diagramRouter = router({
   /**
    * アクティブなプロジェクト一覧を取得（アーカイブ済みを除外）
+   * 検索・絞り込み・並び替えに対応し、カーソルでページ単位に取得する
+   * カーソルには前のページの nextCursor を渡す（null の場合は最後のページ）
    */
-  listProjects: publicProcedure.query(async ({ ctx }) => {
-    return ctx.db.query.projects.findMany({
-      where: isNull(projects.archivedAt),
-      orderBy: (projects, { desc }) => [desc(projects.updatedAt)],
-    });
+  listProjects: publicProcedure
+    .input(
+      z
+        .object({
+          /** 名前・最新のコードとラベル・変更理由から検索するキーワード */
+          search: z.string().trim().max(200).optional(),
+          /** フォルダ（nullの場合は未分類のみ） */
+          folder: z.string().nullable().optional(),
+          /** すべてを含むプロジェクトに絞り込むタグ */
+          tags: z.array(z.string()).optional(),
+          diagramType: diagramTypeSchema.optional(),
+          sort: z.enum(["updatedAt", "createdAt", "name"]).optional(),
+          /** 並びの方向（省略時は並び順ごとのデフォルト） */
+          order: z.enum(["asc", "desc"]).optional(),
+          limit: z.number().int().min(1).max(100).optional().default(24),
+          cursor: z
+            .object({ value: z.string(), id: z.string().uuid() })
+            .nullish(),
+        })
+        .optional(),
+    )
+    .query(async ({ ctx, input }) => {
+      const sort = input?.sort ?? "updatedAt";
+      const order = input?.order ?? PROJECT_SORT_DEFAULT_ORDER[sort];
+      const limit = input?.limit ?? 24;
+      const sortColumn = PROJECT_SORT_COLUMNS[sort];
+      const cursor = input?.cursor;
+
+      // 日時はミリ秒より細かい精度を保つため、テキストのままカーソルに使う
+      const cursorValue = cursor
+        ? sort === "name"
+          ? sql`${cursor.value}::text`
+          : sql`${cursor.value}::timestamp`
+        : null;
+
+      const rows = await ctx.db
+        .select({
+          ...getTableColumns(projects),
+          sortKey: sql<string>`${sortColumn}::text`,
+        })
+        .from(projects)
+        .where(
+          and(
+            isNull(projects.archivedAt),
+            input?.search
+              ? buildProjectSearchCondition(input.search)
+              : undefined,
+            input?.folder === null
+              ? isNull(projects.folder)
+              : input?.folder
+                ? eq(projects.folder, input.folder)
+                : undefined,
+            input?.tags?.length
+              ? sql`${projects.tags} @> ${JSON.stringify(input.tags)}::jsonb`
+              : undefined,
+            input?.diagramType
+              ? eq(projects.diagramType, input.diagramType)
+              : undefined,
+            cursor && cursorValue
+              ? sql`(${sortColumn}, ${projects.id}) ${order === "desc" ? sql`<` : sql`>`} (${cursorValue}, ${cursor.id}::uuid)`
+              : undefined,
+          ),
+        )
+        .orderBy(
+          ...(order === "desc"
+            ? [desc(sortColumn), desc(projects.id)]
+            : [asc(sortColumn), asc(projects.id)]),
+        )
+        .limit(limit + 1);
+
+      const items = rows.slice(0, limit);
+      const last = items.at(-1);
+
+      return {
+        items: items.map(({ sortKey: _sortKey, ...project }) => project),
+        nextCursor:
+          rows.length > limit && last
+            ? { value: last.sortKey, id: last.id }
+            : null,
+      };
+    }),
+
+  /**
+   * プロジェクト一覧の絞り込みの選択肢（アクティブなプロジェクトのフォルダ・タグ）を取得
+   */
+  listProjectFilters: publicProcedure.query(async ({ ctx }) => {
+    const folderRows = await ctx.db
+      .selectDistinct({ folder: projects.folder })
+      .from(projects)
+      .where(and(isNull(projects.archivedAt), isNotNull(projects.folder)))
+      .orderBy(projects.folder);
+
+    const tagRows = await ctx.db
+      .selectDistinct({
+        tag: sql<string>`jsonb_array_elements_text(${projects.tags})`,
+      })
+      .from(projects)
+      .where(isNull(projects.archivedAt))
+      .orderBy(sql`1`);
+
+    return {
+      folders: folderRows.flatMap((row) => (row.folder ? [row.folder] : [])),
+      tags: tagRows.map((row) => row.tag),
+    };
   }),
 
   /**
@@ -54,38 +314,124 @@ export const diagramRouter = router({
         name: z.string().min(1).max(255),
         diagramType: diagramTypeSchema.optional().default("flowchart"),
         initialMermaidCode: z.string().optional(),
+        /** 作成元のテンプレート（指定時は図の種類・コードをテンプレートから取得） */
+        templateId: z.string().uuid().optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
-      const diagramType = input.diagramType as DiagramType;
+      if (input.templateId) {
+        const template = await ctx.db.query.templates.findFirst({
+          where: eq(templates.id, input.templateId),
+        });
 
-      const [project] = await ctx.db
-        .insert(projects)
-        .values({
-          name: input.name,
-          diagramType,
-        })
-        .returning();
+        if (!template) {
+          throw new TRPCError({
+            code: "NOT_FOUND",
+            message: "テンプレートが見つかりません",
+          });
+        }
 
-      if (!project) {
-        throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
-          message: "プロジェクトの作成に失敗しました",
+        return insertProjectWithInitialVersion(ctx.db, {
+          name: input.name,
+          diagramType: template.diagramType as DiagramType,
+          mermaidCode: template.mermaidCode,
+          updateType: "initial",
+          reason: `テンプレート「${template.name}」から作成`,
         });
       }
 
+      const diagramType = input.diagramType as DiagramType;
+
       // 初期バージョンを作成（図の種類に応じたテンプレートを使用）
-      const mermaidCode =
-        input.initialMermaidCode ?? DIAGRAM_TEMPLATES[diagramType];
-      await ctx.db.insert(diagramVersions).values({
-        projectId: project.id,
-        versionNumber: 1,
-        mermaidCode,
+      return insertProjectWithInitialVersion(ctx.db, {
+        name: input.name,
+        diagramType,
+        mermaidCode: input.initialMermaidCode ?? DIAGRAM_TEMPLATES[diagramType],
         updateType: "initial",
         reason: "プロジェクト作成",
       });
+    }),
 
-      return project;
+  /**
+   * Mermaidファイル（.mmd / .mermaid）とMarkdownをインポート
+   * 図ごとに1つのプロジェクトを作成し、元のコードをそのままバージョン1として保存する
+   * 図の種類はヘッダー行から判定し、未対応の図・形式は作成せずに skipped で返す
+   */
+  importFiles: publicProcedure
+    .input(
+      z.object({
+        files: z
+          .array(
+            z.object({
+              name: z.string().min(1).max(255),
+              content: z.string().max(1_000_000),
+            }),
+          )
+          .min(1)
+          .max(20),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const created: {
+        projectId: string;
+        name: string;
+        diagramType: DiagramType;
+        filename: string;
+        line: number;
+      }[] = [];
+      const skipped: {
+        filename: string;
+        line: number | null;
+        reason: string;
+      }[] = [];
+
+      for (const file of input.files) {
+        const diagrams = extractDiagrams(file.name, file.content);
+        if (diagrams === null) {
+          skipped.push({
+            filename: file.name,
+            line: null,
+            reason: "未対応のファイル形式です（.mmd / .mermaid / .md に対応）",
+          });
+          continue;
+        }
+        if (diagrams.length === 0) {
+          skipped.push({
+            filename: file.name,
+            line: null,
+            reason: "Mermaidの図が見つかりません",
+          });
+          continue;
+        }
+
+        for (const diagram of diagrams) {
+          if (!diagram.diagramType) {
+            skipped.push({
+              filename: file.name,
+              line: diagram.line,
+              reason: "未対応の図の種類です",
+            });
+            continue;
+          }
+
+          const project = await insertProjectWithInitialVersion(ctx.db, {
+            name: diagram.name.slice(0, 255),
+            diagramType: diagram.diagramType,
+            mermaidCode: diagram.mermaidCode,
+            updateType: "import",
+            reason: `インポート（${file.name}）`,
+          });
+          created.push({
+            projectId: project.id,
+            name: project.name,
+            diagramType: diagram.diagramType,
+            filename: file.name,
+            line: diagram.line,
+          });
+        }
+      }
+
+      return { created, skipped };
     }),
 
   // プロジェクトの詳細を取得（最新バージョン含む）
@@ -115,9 +461,86 @@ export const diagramRouter = router({
       return ctx.db.query.diagramVersions.findMany({
         where: eq(diagramVersions.projectId, input.projectId),
         orderBy: (versions, { desc }) => [desc(versions.versionNumber)],
+        // 一覧ではエクスポート用のSVGスナップショットは不要なため除外
+        columns: { exportSnapshot: false },
       });
     }),
 
+  /**
+   * Mermaidコードを検証
+   * 構文エラー（行・列番号付き）と、重複したIDなどの警告を返す
+   * コードが長い場合にURLの長さ制限を超えないよう mutation とする
+   */
+  validate: publicProcedure
+    .input(z.object({ mermaidCode: z.string() }))
+    .mutation(async ({ input }) => {
+      return validateMermaid(input.mermaidCode);
+    }),
+
+  /**
+   * 保存前のMermaidコード同士を比較（AIの変換結果のレビュー用）
+   * compareVersions と同じ形式の差分を返す
+   */
+  diffMermaidCode: publicProcedure
+    .input(z.object({ beforeCode: z.string(), afterCode: z.string() }))
+    .mutation(async ({ input }) => {
+      return compareStructures(
+        {
+          mermaidCode: input.beforeCode,
+          structure: parseMermaid(input.beforeCode),
+        },
+        {
+          mermaidCode: input.afterCode,
+          structure: parseMermaid(input.afterCode),
+        },
+      );
+    }),
+
+  /**
+   * エクスポート用のSVGスナップショットを保存
+   * Mermaidの描画はブラウザで行い、サーバー側のエクスポート（/api/export/[versionId]）で使う
+   * 受け取ったSVGはエクスポートにそのまま埋め込むため、スクリプトなどを除いてから保存する
+   */
+  saveExportSnapshot: publicProcedure
+    .input(
+      z.object({
+        versionId: z.number(),
+        svg: z.string().min(1),
+        frame: z.object({
+          x: z.number(),
+          y: z.number(),
+          width: z.number().positive(),
+          height: z.number().positive(),
+        }),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const svg = /^\s*(<\?xml[^>]*>\s*)?<svg\b/.test(input.svg)
+        ? await sanitizeSvg(input.svg)
+        : null;
+      if (!svg) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "SVGスナップショットの形式が不正です",
+        });
+      }
+
+      const [updated] = await ctx.db
+        .update(diagramVersions)
+        .set({ exportSnapshot: { svg, frame: input.frame } })
+        .where(eq(diagramVersions.id, input.versionId))
+        .returning({ id: diagramVersions.id });
+
+      if (!updated) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "バージョンが見つかりません",
+        });
+      }
+
+      return { versionId: updated.id };
+    }),
+
   // 新しいバージョンを保存
   saveVersion: publicProcedure
     .input(
@@ -126,9 +549,16 @@ export const diagramRouter = router({
         mermaidCode: z.string(),
         updateType: z.enum(["initial", "chat", "handwriting"]),
         reason: z.string().optional(),
+        /** エラーがあっても保存する（検証結果は返り値の validation で確認できる） */
+        allowInvalid: z.boolean().optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      const validation = await validateBeforeSave(
+        input.mermaidCode,
+        input.allowInvalid ?? false,
+      );
+
       // 現在の最新バージョン番号を取得
       const latestVersion = await ctx.db.query.diagramVersions.findFirst({
         where: eq(diagramVersions.projectId, input.projectId),
@@ -143,6 +573,7 @@ export const diagramRouter = router({
           projectId: input.projectId,
           versionNumber: newVersionNumber,
           mermaidCode: input.mermaidCode,
+          parsedStructure: parseMermaid(input.mermaidCode),
           updateType: input.updateType,
           reason: input.reason,
         })
@@ -161,7 +592,7 @@ export const diagramRouter = router({
         .set({ updatedAt: new Date() })
         .where(eq(projects.id, input.projectId));
 
-      return version;
+      return { ...version, validation };
     }),
 
   /**
@@ -176,9 +607,16 @@ export const diagramRouter = router({
         strokes: z.array(strokeSchema),
         updateType: z.enum(["initial", "chat", "handwriting"]),
         reason: z.string().optional(),
+        /** エラーがあっても保存する（検証結果は返り値の validation で確認できる） */
+        allowInvalid: z.boolean().optional(),
       }),
     )
     .mutation(async ({ ctx, input }) => {
+      const validation = await validateBeforeSave(
+        input.mermaidCode,
+        input.allowInvalid ?? false,
+      );
+
       // 現在の最新バージョン番号を取得
       const latestVersion = await ctx.db.query.diagramVersions.findFirst({
         where: eq(diagramVersions.projectId, input.projectId),
@@ -194,6 +632,7 @@ export const diagramRouter = router({
           projectId: input.projectId,
           versionNumber: newVersionNumber,
           mermaidCode: input.mermaidCode,
+          parsedStructure: parseMermaid(input.mermaidCode),
           updateType: input.updateType,
           reason: input.reason,
         })
@@ -220,7 +659,7 @@ export const diagramRouter = router({
         .set({ updatedAt: new Date() })
         .where(eq(projects.id, input.projectId));
 
-      return version;
+      return { ...version, validation };
     }),
 
   /**
@@ -301,6 +740,62 @@ export const diagramRouter = router({
       return { success: true, project: updatedProject };
     }),
 
+  /**
+   * プロジェクトのタグを設定
+   * 整理のための操作のため、updatedAt（更新順の並び）は変えない
+   */
+  setProjectTags: publicProcedure
+    .input(
+      z.object({
+        projectId: z.string().uuid(),
+        tags: tagsSchema,
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [project] = await ctx.db
+        .update(projects)
+        .set({ tags: input.tags })
+        .where(eq(projects.id, input.projectId))
+        .returning();
+
+      if (!project) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "プロジェクトが見つかりません",
+        });
+      }
+
+      return project;
+    }),
+
+  /**
+   * プロジェクトをフォルダに移動（nullまたは空文字の場合は未分類に戻す）
+   * 整理のための操作のため、updatedAt（更新順の並び）は変えない
+   */
+  setProjectFolder: publicProcedure
+    .input(
+      z.object({
+        projectId: z.string().uuid(),
+        folder: z.string().trim().max(255).nullable(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const [project] = await ctx.db
+        .update(projects)
+        .set({ folder: input.folder || null })
+        .where(eq(projects.id, input.projectId))
+        .returning();
+
+      if (!project) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "プロジェクトが見つかりません",
+        });
+      }
+
+      return project;
+    }),
+
   /**
    * プロジェクトの最新バージョンとストロークデータを取得
    */
@@ -378,6 +873,7 @@ export const diagramRouter = router({
           projectId: input.projectId,
           versionNumber: newVersionNumber,
           mermaidCode: targetVersion.mermaidCode,
+          parsedStructure: parseMermaid(targetVersion.mermaidCode),
           updateType: "chat", // ロールバックはchatタイプとして記録
           reason: `v${targetVersion.versionNumber} にロールバック`,
         })
@@ -403,9 +899,14 @@ export const diagramRouter = router({
       }
 
       // プロジェクトのupdatedAtを更新
+      // 図の種類を変換する前のバージョンに戻した場合は、図の種類も戻す
+      const rolledBackType = detectDiagramType(targetVersion.mermaidCode);
       await ctx.db
         .update(projects)
-        .set({ updatedAt: new Date() })
+        .set({
+          updatedAt: new Date(),
+          ...(rolledBackType && { diagramType: rolledBackType }),
+        })
         .where(eq(projects.id, input.projectId));
 
       return {
@@ -415,6 +916,147 @@ export const diagramRouter = router({
       };
     }),
 
+  /**
+   * 最新バージョンをAIで別の種類の図に変換
+   * preview の場合は保存せずに変換結果を返す。確定時はプレビューで確認したコードを
+   * convertedCode に渡すと、AIを呼ばずにそのコードを新しいバージョンとして保存し、
+   * プロジェクトの図の種類を更新する
+   */
+  convertDiagramType: publicProcedure
+    .input(
+      z.object({
+        projectId: z.string().uuid(),
+        /** 変換先の図の種類 */
+        targetType: diagramTypeSchema,
+        /** 保存せずに変換結果だけを返す */
+        preview: z.boolean().optional(),
+        /** プレビューで確認した変換結果（指定時はAIを呼ばずに保存する） */
+        convertedCode: z.string().optional(),
+        /** プレビューで確認した変換の説明 */
+        reason: z.string().optional(),
+        /** 使用するモデル（省略時は環境変数の設定） */
+        model: modelSelectionSchema.optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const project = await ctx.db.query.projects.findFirst({
+        where: eq(projects.id, input.projectId),
+      });
+
+      if (!project) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "プロジェクトが見つかりません",
+        });
+      }
+
+      const fromType = project.diagramType as DiagramType;
+      if (fromType === input.targetType) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `すでに${DIAGRAM_TYPE_INFO[fromType].label}です`,
+        });
+      }
+
+      const latestVersion = await ctx.db.query.diagramVersions.findFirst({
+        where: eq(diagramVersions.projectId, input.projectId),
+        orderBy: (versions, { desc }) => [desc(versions.versionNumber)],
+      });
+
+      if (!latestVersion) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "変換するバージョンがありません",
+        });
+      }
+
+      let mermaidCode = input.convertedCode ?? null;
+      let reason = input.reason ?? null;
+      if (mermaidCode === null) {
+        assertProviderConfigured(input.model);
+        const result = await generateText({
+          model: getModel(input.model, {
+            diagramType: input.targetType,
+            fixture: ctx.headers.get(MOCK_FIXTURE_HEADER),
+            purpose: "convert",
+          }),
+          system:
+            "あなたはMermaidダイアグラムの種類を変換する専門家です。必ず有効なMermaid構文を出力してください。",
+          messages: [
+            {
+              role: "user" as const,
+              content: getDiagramConversionPrompt(
+                fromType,
+                input.targetType,
+                latestVersion.mermaidCode,
+              ),
+            },
+          ],
+          providerOptions: getProviderOptions(input.model),
+        });
+        ({ mermaidCode, reason } = parseAiResponse(result.text));
+      }
+
+      if (!mermaidCode) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "AIの応答から変換後のMermaidコードを取得できませんでした",
+        });
+      }
+
+      // 変換先の種類になっていないコードは保存しない
+      if (detectDiagramType(mermaidCode) !== input.targetType) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `変換後のコードが${DIAGRAM_TYPE_INFO[input.targetType].label}になっていません`,
+        });
+      }
+
+      const conversion = {
+        fromType,
+        toType: input.targetType,
+        mermaidCode,
+        reason,
+      };
+
+      if (input.preview) {
+        const validation = await validateMermaid(mermaidCode);
+        return { ...conversion, validation, version: null };
+      }
+
+      const validation = await validateBeforeSave(mermaidCode, false);
+
+      // 変換結果を新しいバージョンとして保存
+      // 手書きストロークは変換前の図の配置に合わせたものなので引き継がない
+      const [version] = await ctx.db
+        .insert(diagramVersions)
+        .values({
+          projectId: input.projectId,
+          versionNumber: latestVersion.versionNumber + 1,
+          mermaidCode,
+          parsedStructure: parseMermaid(mermaidCode),
+          updateType: "convert",
+          reason:
+            reason ??
+            `${DIAGRAM_TYPE_INFO[fromType].label}から${DIAGRAM_TYPE_INFO[input.targetType].label}に変換`,
+        })
+        .returning();
+
+      if (!version) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "バージョンの作成に失敗しました",
+        });
+      }
+
+      await ctx.db
+        .update(projects)
+        .set({ diagramType: input.targetType, updatedAt: new Date() })
+        .where(eq(projects.id, input.projectId));
+
+      return { ...conversion, validation, version };
+    }),
+
   /**
    * 特定のバージョンの詳細を取得（プレビュー用）
    */
@@ -447,4 +1089,105 @@ export const diagramRouter = router({
         strokes: strokeRecord ? (strokeRecord.strokeData as unknown[]) : [],
       };
     }),
+
+  /**
+   * 2つのバージョンを比較（意味的な差分と行単位の差分）
+   * 図の種類が判定できない・異なる場合は structuralDiff: null となり、行単位の差分のみを返す
+   */
+  compareVersions: publicProcedure
+    .input(
+      z.object({
+        projectId: z.string().uuid(),
+        /** 比較元のバージョンID */
+        fromVersionId: z.number(),
+        /** 比較先のバージョンID */
+        toVersionId: z.number(),
+      }),
+    )
+    .query(async ({ ctx, input }) => {
+      const [fromVersion, toVersion] = await Promise.all(
+        [input.fromVersionId, input.toVersionId].map((versionId) =>
+          ctx.db.query.diagramVersions.findFirst({
+            where: and(
+              eq(diagramVersions.projectId, input.projectId),
+              eq(diagramVersions.id, versionId),
+            ),
+          }),
+        ),
+      );
+
+      if (!fromVersion || !toVersion) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "比較対象のバージョンが見つかりません",
+        });
+      }
+
+      return {
+        from: {
+          id: fromVersion.id,
+          versionNumber: fromVersion.versionNumber,
+          mermaidCode: fromVersion.mermaidCode,
+        },
+        to: {
+          id: toVersion.id,
+          versionNumber: toVersion.versionNumber,
+          mermaidCode: toVersion.mermaidCode,
+        },
+        ...compareStructures(
+          {
+            mermaidCode: fromVersion.mermaidCode,
+            structure: resolveParsedStructure(fromVersion),
+          },
+          {
+            mermaidCode: toVersion.mermaidCode,
+            structure: resolveParsedStructure(toVersion),
+          },
+        ),
+      };
+    }),
+
+  /**
+   * 既存バージョンの構造化データ（parsedStructure）を補完
+   * 未解析のバージョン、または解析結果の構造バージョンが古いものを再解析する
+   */
+  backfillParsedStructures: publicProcedure
+    .input(
+      z
+        .object({
+          /** 1回の実行で処理する最大件数 */
+          batchSize: z.number().int().min(1).max(1000).optional().default(200),
+        })
+        .optional(),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const batchSize = input?.batchSize ?? 200;
+
+      const staleVersions = await ctx.db
+        .select({
+          id: diagramVersions.id,
+          mermaidCode: diagramVersions.mermaidCode,
+        })
+        .from(diagramVersions)
+        .where(
+          or(
+            isNull(diagramVersions.parsedStructure),
+            sql`coalesce((${diagramVersions.parsedStructure}->>'schemaVersion')::int, 0) < ${PARSED_STRUCTURE_VERSION}`,
+          ),
+        )
+        .limit(batchSize);
+
+      for (const version of staleVersions) {
+        await ctx.db
+          .update(diagramVersions)
+          .set({ parsedStructure: parseMermaid(version.mermaidCode) })
+          .where(eq(diagramVersions.id, version.id));
+      }
+
+      return {
+        updatedCount: staleVersions.length,
+        /** 未処理のバージョンが残っている可能性があるか */
+        hasMore: staleVersions.length === batchSize,
+      };
+    }),
 });
@@ -1,10 +1,14 @@
 import { router } from "../init";
 import { aiRouter } from "./ai";
+import { chatRouter } from "./chat";
 import { diagramRouter } from "./diagram";
+import { templateRouter } from "./template";
 
 export const appRouter = router({
   diagram: diagramRouter,
   ai: aiRouter,
+  chat: chatRouter,
+  template: templateRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -0,0 +1,136 @@
+import { TRPCError } from "@trpc/server";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { z } from "zod";
+import { MAX_TAGS, MAX_TAG_LENGTH } from "../../../lib/utils/tags";
+import {
+  DIAGRAM_TYPES,
+  diagramVersions,
+  projects,
+  templates,
+} from "../../db/schema";
+import { detectDiagramType } from "../../mermaid/parser";
+import { publicProcedure, router } from "../init";
+
+/**
+ * タグのZodスキーマ（前後の空白を除き、重複を除く）
+ * プロジェクトのタグ（diagram.setProjectTags）でも使う
+ */
+export const tagsSchema = z
+  .array(z.string().trim().min(1).max(MAX_TAG_LENGTH))
+  .max(MAX_TAGS)
+  .transform((tags) => [...new Set(tags)]);
+
+/**
+ * ユーザーが保存したテンプレート用のルーター
+ * 組み込みのテンプレート（図の種類ごとの DIAGRAM_TEMPLATES）はここでは扱わない
+ * テンプレートからのプロジェクト作成は diagram.createProject（templateId指定）が行う
+ */
+export const templateRouter = router({
+  /**
+   * テンプレート一覧を取得（新しい順）
+   * 図の種類・タグで絞り込める
+   */
+  list: publicProcedure
+    .input(
+      z
+        .object({
+          diagramType: z.enum(DIAGRAM_TYPES).optional(),
+          tag: z.string().optional(),
+        })
+        .optional(),
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.db.query.templates.findMany({
+        where: and(
+          input?.diagramType
+            ? eq(templates.diagramType, input.diagramType)
+            : undefined,
+          input?.tag
+            ? sql`${templates.tags} @> ${JSON.stringify([input.tag])}::jsonb`
+            : undefined,
+        ),
+        orderBy: [desc(templates.createdAt)],
+      });
+    }),
+
+  /**
+   * バージョンをテンプレートとして保存
+   * サムネイルを省略した場合は、バージョンのエクスポート用スナップショットのSVGを使う
+   */
+  saveFromVersion: publicProcedure
+    .input(
+      z.object({
+        projectId: z.string().uuid(),
+        versionId: z.number(),
+        name: z.string().trim().min(1).max(255),
+        description: z.string().trim().max(1000).optional(),
+        tags: tagsSchema.optional(),
+        /** サムネイル（SVG） */
+        thumbnail: z.string().optional(),
+      }),
+    )
+    .mutation(async ({ ctx, input }) => {
+      const project = await ctx.db.query.projects.findFirst({
+        where: eq(projects.id, input.projectId),
+      });
+      const version = await ctx.db.query.diagramVersions.findFirst({
+        where: and(
+          eq(diagramVersions.projectId, input.projectId),
+          eq(diagramVersions.id, input.versionId),
+        ),
+      });
+
+      if (!project || !version) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "指定されたバージョンが見つかりません",
+        });
+      }
+
+      const [template] = await ctx.db
+        .insert(templates)
+        .values({
+          name: input.name,
+          description: input.description || null,
+          // 図の種類を変換する前のバージョンもあるため、コードから判定する
+          diagramType:
+            detectDiagramType(version.mermaidCode) ?? project.diagramType,
+          mermaidCode: version.mermaidCode,
+          tags: input.tags ?? [],
+          thumbnail: input.thumbnail ?? version.exportSnapshot?.svg ?? null,
+          sourceVersionId: version.id,
+        })
+        .returning();
+
+      if (!template) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "テンプレートの保存に失敗しました",
+        });
+      }
+
+      return template;
+    }),
+
+  /**
+   * テンプレートを削除
+   * テンプレートから作成したプロジェクトには影響しない
+   */
+  delete: publicProcedure
+    .input(z.object({ templateId: z.string().uuid() }))
+    .mutation(async ({ ctx, input }) => {
+      const [deleted] = await ctx.db
+        .delete(templates)
+        .where(eq(templates.id, input.templateId))
+        .returning({ id: templates.id });
+
+      if (!deleted) {
+        throw new TRPCError({
+          code: "NOT_FOUND",
+          message: "テンプレートが見つかりません",
+        });
+      }
+
+      return { success: true };
+    }),
+});
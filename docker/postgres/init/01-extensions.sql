@@ -0,0 +1,3 @@
+-- プロジェクト検索のインデックス（gin_trgm_ops）に使う拡張
+-- 初回起動時（データボリュームが空のとき）に実行される。既存のDBには pnpm db:extensions で作成する
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
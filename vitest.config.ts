@@ -0,0 +1,14 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "apps/web/src"),
+    },
+  },
+  test: {
+    include: ["apps/web/src/__tests__/**/*.test.ts"],
+    environment: "node",
+  },
+});